@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "ActivityLog" ADD COLUMN "target" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ActivityLog_action_idx" ON "ActivityLog"("action");
+
+-- CreateIndex
+CREATE INDEX "ActivityLog_userId_idx" ON "ActivityLog"("userId");
+
+-- CreateIndex
+CREATE INDEX "ActivityLog_createdAt_idx" ON "ActivityLog"("createdAt");
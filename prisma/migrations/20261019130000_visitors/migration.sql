@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "Visitor" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "flatId" TEXT NOT NULL,
+    "entryTime" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "exitTime" DATETIME,
+    "checkedInById" INTEGER,
+    CONSTRAINT "Visitor_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Visitor_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Visitor_flatId_idx" ON "Visitor"("flatId");
+
+-- CreateIndex
+CREATE INDEX "Visitor_entryTime_idx" ON "Visitor"("entryTime");
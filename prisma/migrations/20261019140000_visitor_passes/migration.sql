@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "VisitorPass" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "code" TEXT NOT NULL,
+    "guestName" TEXT NOT NULL,
+    "flatId" TEXT NOT NULL,
+    "createdById" INTEGER NOT NULL,
+    "validFrom" DATETIME NOT NULL,
+    "validUntil" DATETIME NOT NULL,
+    "usedAt" DATETIME,
+    "visitorId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "VisitorPass_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "VisitorPass_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "VisitorPass_visitorId_fkey" FOREIGN KEY ("visitorId") REFERENCES "Visitor" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VisitorPass_code_key" ON "VisitorPass"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VisitorPass_visitorId_key" ON "VisitorPass"("visitorId");
+
+-- CreateIndex
+CREATE INDEX "VisitorPass_flatId_idx" ON "VisitorPass"("flatId");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "AmenityBooking" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "amenity" TEXT NOT NULL,
+    "flatId" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "timeSlot" TEXT NOT NULL,
+    "startsAt" DATETIME NOT NULL,
+    "endsAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AmenityBooking_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "AmenityBooking_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AmenityBooking_amenity_startsAt_idx" ON "AmenityBooking"("amenity", "startsAt");
@@ -0,0 +1,52 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `month` on the `MaintenanceBill` table. Existing values ("October 2026") are converted to `period` ("2026-10").
+    The migration stops if any month isn't a month name followed by a four-digit year; correct those bills and rerun it.
+  - Added the required column `flatId` to the `MaintenanceBill` table, filled from the bill's resident.
+  - A unique constraint covering the columns `[flatId,period]` on the table `MaintenanceBill` will be added. Duplicate bills raised by repeated runs are collapsed, keeping a PAID one where it exists.
+
+*/
+-- Refuse to guess a period: each unreadable month is fed to a trigger that aborts the migration.
+CREATE TEMP TABLE "_UnreadableBillMonth" ("month" TEXT);
+CREATE TEMP TRIGGER "_UnreadableBillMonth_abort" BEFORE INSERT ON "_UnreadableBillMonth"
+BEGIN
+    SELECT RAISE(ABORT, 'MaintenanceBill.month has values that are not "<Month> <yyyy>"; correct them before migrating');
+END;
+INSERT INTO "_UnreadableBillMonth" ("month")
+SELECT "month" FROM "MaintenanceBill"
+WHERE lower(substr(trim("month"), 1, 3)) NOT IN ('jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec')
+    OR substr(trim("month"), -4) NOT GLOB '[0-9][0-9][0-9][0-9]';
+DROP TABLE "_UnreadableBillMonth";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_MaintenanceBill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "flatId" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "dueDate" DATETIME,
+    "status" TEXT NOT NULL DEFAULT 'UNPAID',
+    "residentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MaintenanceBill_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "MaintenanceBill_residentId_fkey" FOREIGN KEY ("residentId") REFERENCES "Resident" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+-- Created before the copy so INSERT OR IGNORE drops the duplicates.
+CREATE UNIQUE INDEX "MaintenanceBill_flatId_period_key" ON "new_MaintenanceBill"("flatId", "period");
+INSERT OR IGNORE INTO "new_MaintenanceBill" ("amount", "flatId", "id", "period", "residentId", "status")
+SELECT "b"."amount", "r"."flatId", "b"."id",
+    substr(trim("b"."month"), -4) || '-' || CASE lower(substr(trim("b"."month"), 1, 3))
+        WHEN 'jan' THEN '01' WHEN 'feb' THEN '02' WHEN 'mar' THEN '03' WHEN 'apr' THEN '04'
+        WHEN 'may' THEN '05' WHEN 'jun' THEN '06' WHEN 'jul' THEN '07' WHEN 'aug' THEN '08'
+        WHEN 'sep' THEN '09' WHEN 'oct' THEN '10' WHEN 'nov' THEN '11' WHEN 'dec' THEN '12' END,
+    "b"."residentId", "b"."status"
+FROM "MaintenanceBill" "b" JOIN "Resident" "r" ON "r"."id" = "b"."residentId"
+ORDER BY "b"."status" ASC;
+DROP TABLE "MaintenanceBill";
+ALTER TABLE "new_MaintenanceBill" RENAME TO "MaintenanceBill";
+CREATE INDEX "MaintenanceBill_period_idx" ON "MaintenanceBill"("period");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
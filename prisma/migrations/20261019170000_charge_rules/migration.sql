@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Flat" ADD COLUMN "carpetArea" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "Flat" ADD COLUMN "parkingSlots" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Flat" ADD COLUMN "type" TEXT NOT NULL DEFAULT '2BHK';
+
+-- CreateTable
+CREATE TABLE "ChargeRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "head" TEXT NOT NULL,
+    "basis" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "flatType" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "BillLineItem" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "billId" TEXT NOT NULL,
+    "head" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    CONSTRAINT "BillLineItem_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "BillLineItem_billId_idx" ON "BillLineItem"("billId");
+
+-- Existing bills become a single "Maintenance" line, and the old flat amount becomes the
+-- starting rule so the next run charges what the society charged before.
+INSERT INTO "BillLineItem" ("billId", "head", "description", "amount")
+SELECT "id", 'Maintenance', 'Fixed', "amount" FROM "MaintenanceBill";
+INSERT INTO "ChargeRule" ("head", "basis", "rate") VALUES ('Maintenance', 'FIXED', 1500);
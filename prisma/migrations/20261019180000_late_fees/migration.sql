@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "PenaltyPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "graceDays" INTEGER NOT NULL DEFAULT 0,
+    "lateFee" REAL NOT NULL DEFAULT 0,
+    "interestRate" REAL NOT NULL DEFAULT 0,
+    "interestMode" TEXT NOT NULL DEFAULT 'SIMPLE',
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_BillLineItem" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "billId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'CHARGE',
+    "head" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "accrualKey" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BillLineItem_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_BillLineItem" ("amount", "billId", "description", "head", "id") SELECT "amount", "billId", "description", "head", "id" FROM "BillLineItem";
+DROP TABLE "BillLineItem";
+ALTER TABLE "new_BillLineItem" RENAME TO "BillLineItem";
+CREATE INDEX "BillLineItem_billId_idx" ON "BillLineItem"("billId");
+CREATE UNIQUE INDEX "BillLineItem_billId_accrualKey_key" ON "BillLineItem"("billId", "accrualKey");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- No penalties until the admin sets the terms.
+INSERT INTO "PenaltyPolicy" ("id", "updatedAt") VALUES (1, CURRENT_TIMESTAMP);
@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "MaintenanceBill" ADD COLUMN "paidAmount" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Payment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "flatId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "mode" TEXT NOT NULL,
+    "reference" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "note" TEXT,
+    "paidAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recordedById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Payment_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Payment_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PaymentAllocation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "paymentId" INTEGER NOT NULL,
+    "billId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    CONSTRAINT "PaymentAllocation_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PaymentAllocation_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_flatId_idx" ON "Payment"("flatId");
+
+-- CreateIndex
+CREATE INDEX "Payment_status_idx" ON "Payment"("status");
+
+-- CreateIndex
+CREATE INDEX "PaymentAllocation_billId_idx" ON "PaymentAllocation"("billId");
+
+-- Bills marked PAID before payments were tracked count as fully paid.
+UPDATE "MaintenanceBill" SET "paidAmount" = "amount" WHERE "status" = 'PAID';
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "gateway" TEXT;
+ALTER TABLE "Payment" ADD COLUMN "gatewayOrderId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GatewayEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "receivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_gatewayOrderId_key" ON "Payment"("gatewayOrderId");
+
+-- CreateIndex
+CREATE INDEX "GatewayEvent_orderId_idx" ON "GatewayEvent"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GatewayEvent_provider_eventId_key" ON "GatewayEvent"("provider", "eventId");
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "MaintenanceBill" ADD COLUMN "invoiceNo" TEXT;
+ALTER TABLE "Payment" ADD COLUMN "receiptNo" TEXT;
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "series" TEXT NOT NULL PRIMARY KEY,
+    "next" INTEGER NOT NULL DEFAULT 1
+);
+
+-- Number the existing bills by period, then in the order they were raised
+UPDATE "MaintenanceBill" SET "invoiceNo" = 'INV-' || printf('%06d', (
+    SELECT COUNT(*) FROM "MaintenanceBill" AS b
+    WHERE b."period" < "MaintenanceBill"."period"
+       OR (b."period" = "MaintenanceBill"."period" AND b."rowid" <= "MaintenanceBill"."rowid")
+));
+
+-- Number the existing confirmed payments in the order they were received
+UPDATE "Payment" SET "receiptNo" = 'RCT-' || printf('%06d', (
+    SELECT COUNT(*) FROM "Payment" AS p
+    WHERE p."status" = 'CONFIRMED'
+      AND (p."paidAt" < "Payment"."paidAt" OR (p."paidAt" = "Payment"."paidAt" AND p."id" <= "Payment"."id"))
+))
+WHERE "status" = 'CONFIRMED';
+
+INSERT INTO "DocumentSequence" ("series", "next") SELECT 'INV', COUNT(*) + 1 FROM "MaintenanceBill";
+INSERT INTO "DocumentSequence" ("series", "next") SELECT 'RCT', COUNT(*) + 1 FROM "Payment" WHERE "status" = 'CONFIRMED';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MaintenanceBill_invoiceNo_key" ON "MaintenanceBill"("invoiceNo");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_receiptNo_key" ON "Payment"("receiptNo");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "BillLineItem" ADD COLUMN "taxAmount" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "BillLineItem" ADD COLUMN "taxRate" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "TaxPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "gstin" TEXT,
+    "sacCode" TEXT NOT NULL DEFAULT '999598',
+    "rate" REAL NOT NULL DEFAULT 18,
+    "threshold" REAL NOT NULL DEFAULT 7500,
+    "exemptHeads" TEXT NOT NULL DEFAULT '["Sinking Fund"]',
+    "updatedAt" DATETIME NOT NULL
+);
+
+INSERT INTO "TaxPolicy" ("id", "updatedAt") VALUES (1, CURRENT_TIMESTAMP);
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Flat" ADD COLUMN "credit" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "WalletEntry" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "flatId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "balance" REAL NOT NULL,
+    "paymentId" INTEGER,
+    "billId" TEXT,
+    "note" TEXT,
+    "createdById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WalletEntry_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "WalletEntry_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WalletEntry_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "WalletEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WalletEntry_flatId_idx" ON "WalletEntry"("flatId");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "ReminderPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "upcomingDays" INTEGER NOT NULL DEFAULT 3,
+    "overdueDays" INTEGER NOT NULL DEFAULT 1,
+    "overdueRepeatDays" INTEGER NOT NULL DEFAULT 7,
+    "finalNoticeDays" INTEGER NOT NULL DEFAULT 30,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ReminderLog" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "flatId" TEXT NOT NULL,
+    "billId" TEXT,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "recipient" TEXT,
+    "subject" TEXT NOT NULL,
+    "error" TEXT,
+    "messageId" TEXT,
+    "sentById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ReminderLog_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "ReminderLog_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "ReminderLog_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ReminderLog_flatId_idx" ON "ReminderLog"("flatId");
+
+-- CreateIndex
+CREATE INDEX "ReminderLog_billId_kind_idx" ON "ReminderLog"("billId", "kind");
+
+INSERT INTO "ReminderPolicy" ("id", "updatedAt") VALUES (1, CURRENT_TIMESTAMP);
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Flat" ADD COLUMN "dunningStage" TEXT NOT NULL DEFAULT 'NONE';
+ALTER TABLE "Flat" ADD COLUMN "dunningSince" DATETIME;
+
+-- CreateTable
+CREATE TABLE "DunningPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "minAmount" REAL NOT NULL DEFAULT 1000,
+    "reminderDays" INTEGER NOT NULL DEFAULT 15,
+    "noticeDays" INTEGER NOT NULL DEFAULT 45,
+    "suspensionDays" INTEGER NOT NULL DEFAULT 90,
+    "hearingDays" INTEGER NOT NULL DEFAULT 180,
+    "stepIntervalDays" INTEGER NOT NULL DEFAULT 7,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "DunningEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "flatId" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "previousStage" TEXT NOT NULL,
+    "overdueAmount" REAL NOT NULL,
+    "daysOverdue" INTEGER NOT NULL,
+    "bills" TEXT NOT NULL DEFAULT '[]',
+    "noticeNo" TEXT,
+    "hearingAt" DATETIME,
+    "note" TEXT,
+    "createdById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DunningEvent_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "DunningEvent_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningEvent_noticeNo_key" ON "DunningEvent"("noticeNo");
+
+-- CreateIndex
+CREATE INDEX "DunningEvent_flatId_idx" ON "DunningEvent"("flatId");
+
+INSERT INTO "DunningPolicy" ("id", "updatedAt") VALUES (1, CURRENT_TIMESTAMP);
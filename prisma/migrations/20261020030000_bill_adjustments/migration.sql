@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "MaintenanceBill" ADD COLUMN "adjustment" REAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "BillAdjustment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "billId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "documentNo" TEXT,
+    "requestedById" INTEGER NOT NULL,
+    "reviewedById" INTEGER,
+    "reviewNote" TEXT,
+    "reviewedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BillAdjustment_billId_fkey" FOREIGN KEY ("billId") REFERENCES "MaintenanceBill" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "BillAdjustment_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "BillAdjustment_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillAdjustment_documentNo_key" ON "BillAdjustment"("documentNo");
+
+-- CreateIndex
+CREATE INDEX "BillAdjustment_billId_idx" ON "BillAdjustment"("billId");
+
+-- CreateIndex
+CREATE INDEX "BillAdjustment_status_idx" ON "BillAdjustment"("status");
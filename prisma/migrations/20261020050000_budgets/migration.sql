@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Budget" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "year" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "annual" REAL NOT NULL,
+    "monthly" TEXT NOT NULL,
+    "updatedById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Budget_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Budget_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "BudgetPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY DEFAULT 1,
+    "alertPercent" INTEGER NOT NULL DEFAULT 90,
+    "emailAdmins" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "BudgetAlert" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "year" INTEGER NOT NULL,
+    "categoryId" INTEGER NOT NULL,
+    "scope" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "budget" REAL NOT NULL,
+    "actual" REAL NOT NULL,
+    "acknowledgedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BudgetAlert_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "ExpenseCategory" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_year_categoryId_key" ON "Budget"("year", "categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BudgetAlert_year_categoryId_scope_level_key" ON "BudgetAlert"("year", "categoryId", "scope", "level");
+
+-- CreateIndex
+CREATE INDEX "BudgetAlert_acknowledgedAt_idx" ON "BudgetAlert"("acknowledgedAt");
+
+INSERT INTO "BudgetPolicy" ("id", "updatedAt") VALUES (1, CURRENT_TIMESTAMP);
@@ -0,0 +1,97 @@
+-- AlterTable
+ALTER TABLE "WalletEntry" ADD COLUMN "mode" TEXT;
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "key" TEXT,
+    "chargeHead" TEXT,
+    "expenseCategoryId" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LedgerAccount_expenseCategoryId_fkey" FOREIGN KEY ("expenseCategoryId") REFERENCES "ExpenseCategory" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "voucherNo" TEXT,
+    "date" DATETIME NOT NULL,
+    "narration" TEXT NOT NULL,
+    "reference" TEXT,
+    "source" TEXT NOT NULL,
+    "sourceId" TEXT,
+    "reversalOfId" INTEGER,
+    "createdById" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "JournalEntry_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "JournalEntry" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "JournalEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "entryId" INTEGER NOT NULL,
+    "accountId" INTEGER NOT NULL,
+    "flatId" TEXT,
+    "debit" REAL NOT NULL DEFAULT 0,
+    "credit" REAL NOT NULL DEFAULT 0,
+    "memo" TEXT,
+    CONSTRAINT "JournalLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "JournalEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "JournalLine_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "JournalLine_flatId_fkey" FOREIGN KEY ("flatId") REFERENCES "Flat" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_key_key" ON "LedgerAccount"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_chargeHead_key" ON "LedgerAccount"("chargeHead");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_expenseCategoryId_key" ON "LedgerAccount"("expenseCategoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_voucherNo_key" ON "JournalEntry"("voucherNo");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_reversalOfId_key" ON "JournalEntry"("reversalOfId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_date_idx" ON "JournalEntry"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_source_sourceId_key" ON "JournalEntry"("source", "sourceId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_entryId_idx" ON "JournalLine"("entryId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountId_idx" ON "JournalLine"("accountId");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_flatId_idx" ON "JournalLine"("flatId");
+
+INSERT INTO "LedgerAccount" ("code", "name", "type", "key", "chargeHead") VALUES
+    ('1100', 'Bank', 'ASSET', 'BANK', NULL),
+    ('1110', 'Cash in Hand', 'ASSET', 'CASH', NULL),
+    ('1200', 'Member Receivables', 'ASSET', 'RECEIVABLES', NULL),
+    ('2100', 'Member Advances', 'LIABILITY', 'ADVANCES', NULL),
+    ('2200', 'GST Output', 'LIABILITY', 'GST_OUTPUT', NULL),
+    ('2300', 'Sinking Fund', 'LIABILITY', NULL, 'Sinking Fund'),
+    ('2310', 'Repair Fund', 'LIABILITY', NULL, 'Repair Fund'),
+    ('3100', 'General Fund', 'EQUITY', 'SURPLUS', NULL),
+    ('4100', 'Maintenance Charges', 'INCOME', NULL, 'Maintenance'),
+    ('4110', 'Parking Charges', 'INCOME', NULL, 'Parking'),
+    ('4120', 'Water Charges', 'INCOME', NULL, 'Water Charges'),
+    ('4800', 'Late Fees & Interest', 'INCOME', 'PENALTY_INCOME', NULL),
+    ('4900', 'Bill Adjustments', 'INCOME', 'ADJUSTMENTS', NULL);
+
+INSERT INTO "LedgerAccount" ("code", "name", "type", "expenseCategoryId")
+    SELECT CAST(5090 + 10 * ROW_NUMBER() OVER (ORDER BY "id") AS TEXT), "name", 'EXPENSE', "id" FROM "ExpenseCategory";
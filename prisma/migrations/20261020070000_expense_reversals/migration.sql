@@ -0,0 +1,8 @@
+-- An edited or deleted expense keeps its journal entry and is corrected by a reversing entry, so a
+-- record can now have several entries.
+
+-- DropIndex
+DROP INDEX "JournalEntry_source_sourceId_key";
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_source_sourceId_idx" ON "JournalEntry"("source", "sourceId");
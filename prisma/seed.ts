@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../server/auth';
 
 const prisma = new PrismaClient();
 
@@ -26,7 +27,13 @@ async function main() {
   console.log('Seeding database...');
 
   // Clean existing data
+  await prisma.activityLog.deleteMany();
+  await prisma.visitorPass.deleteMany();
+  await prisma.visitor.deleteMany();
+  await prisma.amenityBooking.deleteMany();
+  await prisma.user.deleteMany();
   await prisma.maintenanceBill.deleteMany();
+  await prisma.chargeRule.deleteMany();
   await prisma.complaint.deleteMany();
   await prisma.resident.deleteMany();
   await prisma.flat.deleteMany();
@@ -58,10 +65,15 @@ async function main() {
         const email = `${name.toLowerCase().replace(/\s/g, '.')}@email.com`;
         const phone = `9876543${residentIndex.toString().padStart(3, '0')}`;
 
+        // Corner units (01, 04) are 3BHKs with two parking slots, the middle ones 2BHKs with one.
+        const corner = flatNum === 1 || flatNum === 4;
         const flat = await prisma.flat.create({
           data: {
             number: flatNumber,
             floor: floor,
+            type: corner ? '3BHK' : '2BHK',
+            carpetArea: corner ? 1150 : 820,
+            parkingSlots: corner ? 2 : 1,
             wingId: wing.id
           }
         });
@@ -80,6 +92,57 @@ async function main() {
     }
   }
 
+  // 2. Maintenance charge heads
+  await prisma.chargeRule.createMany({
+    data: [
+      { head: 'Maintenance', basis: 'PER_SQFT', rate: 1.5 },
+      { head: 'Sinking Fund', basis: 'PER_SQFT', rate: 0.3 },
+      { head: 'Repair Fund', basis: 'FIXED', rate: 150 },
+      { head: 'Parking', basis: 'PER_PARKING_SLOT', rate: 200 },
+      { head: 'Water Charges', basis: 'FIXED', rate: 250, flatType: '2BHK' },
+      { head: 'Water Charges', basis: 'FIXED', rate: 350, flatType: '3BHK' }
+    ]
+  });
+
+  await prisma.penaltyPolicy.upsert({
+    where: { id: 1 },
+    update: { graceDays: 7, lateFee: 100, interestRate: 1.5, interestMode: 'SIMPLE' },
+    create: { id: 1, graceDays: 7, lateFee: 100, interestRate: 1.5, interestMode: 'SIMPLE' }
+  });
+
+  // 3. Demo login accounts (matches the credentials shown on the login screen)
+  const demoFlat = await prisma.flat.findFirstOrThrow({
+    where: { number: 'A101' },
+    include: { resident: true }
+  });
+
+  await prisma.user.createMany({
+    data: [
+      {
+        username: 'admin',
+        email: 'admin@towertech.com',
+        name: 'Admin User',
+        passwordHash: await hashPassword('admin123'),
+        role: 'admin'
+      },
+      {
+        username: 'security',
+        email: 'security@towertech.com',
+        name: 'Main Gate Security',
+        passwordHash: await hashPassword('sec123'),
+        role: 'security'
+      },
+      {
+        username: 'resident',
+        email: demoFlat.resident!.email,
+        name: demoFlat.resident!.name,
+        passwordHash: await hashPassword('res123'),
+        role: 'resident',
+        flatId: demoFlat.id
+      }
+    ]
+  });
+
   console.log('Seeding completed successfully!');
 }
 
@@ -1,35 +1,81 @@
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import { PrismaClient } from "@prisma/client";
 import path from "path";
 import { fileURLToPath } from "url";
 import dotenv from "dotenv";
+import { prisma } from "./server/prisma";
+import { checkJwtSecret } from "./server/auth";
+import { authorize, flatScope } from "./server/policy";
+import { logActivity } from "./server/activity";
+import { apiErrorHandler, sendError } from "./server/errors";
+import { describeBillRun, generateBills } from "./server/billing";
+import { startPenaltyAccrual } from "./server/penalties";
+import { startReminderSchedule } from "./server/reminders";
+import { startDunningSchedule } from "./server/dunning";
+import { backfillLedger } from "./server/ledger";
+import { checkMockGateway, mockGatewayRouter } from "./server/gateways/mock";
+import { validateBody } from "./server/validate";
+import { addResidentSchema, generateBillsSchema, type AddResidentInput, type GenerateBillsInput } from "./src/lib/schemas";
+import { adjustmentsRouter } from "./server/routes/adjustments";
+import { adminRouter } from "./server/routes/admin";
+import { authRouter } from "./server/routes/auth";
+import { billingRouter } from "./server/routes/billing";
+import { budgetsRouter } from "./server/routes/budgets";
+import { documentsRouter } from "./server/routes/documents";
+import { dunningRouter } from "./server/routes/dunning";
+import { expensesRouter } from "./server/routes/expenses";
+import { ledgerRouter } from "./server/routes/ledger";
+import { reconciliationRouter } from "./server/routes/reconciliation";
+import { remindersRouter } from "./server/routes/reminders";
+import { bookingsRouter } from "./server/routes/bookings";
+import { noticesRouter } from "./server/routes/notices";
+import { paymentsRouter } from "./server/routes/payments";
+import { registrationsRouter } from "./server/routes/registrations";
+import { visitorsRouter } from "./server/routes/visitors";
+import { walletRouter } from "./server/routes/wallet";
 
 dotenv.config();
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const prisma = new PrismaClient();
-
 async function startServer() {
+  checkJwtSecret();
   const app = express();
+  // Webhook signatures cover the exact bytes sent, so these bodies stay raw.
+  app.use("/api/payments/webhook", express.raw({ type: "*/*" }));
+  // A year of bank statement runs to a few hundred KB of CSV.
+  app.use("/api/admin/bank-statements", express.json({ limit: "6mb" }));
+  // Expenses carry the scanned vendor bill inline.
+  app.use("/api/admin/expenses", express.json({ limit: "6mb" }));
   app.use(express.json());
 
   // --- API Routes ---
 
-  // POST /api/login
-  app.post("/api/login", (req, res) => {
-    const { email, password } = req.body;
-    if (email === "admin@towertech.com" && password === "admin123") {
-      res.json({ 
-        success: true, 
-        user: { email: "admin@towertech.com", name: "Admin User", role: "admin" } 
-      });
-    } else {
-      res.status(401).json({ success: false, message: "Invalid credentials" });
-    }
-  });
+  // Every /api route is checked against routePolicy before reaching its handler.
+  app.use(authorize);
+
+  app.use(authRouter);
+  app.use(registrationsRouter);
+  app.use(adminRouter);
+  app.use(billingRouter);
+  app.use(paymentsRouter);
+  if (process.env.PAYMENT_GATEWAY === "mock") {
+    checkMockGateway();
+    app.use(mockGatewayRouter);
+  }
+  app.use(documentsRouter);
+  app.use(reconciliationRouter);
+  app.use(walletRouter);
+  app.use(adjustmentsRouter);
+  app.use(remindersRouter);
+  app.use(dunningRouter);
+  app.use(expensesRouter);
+  app.use(budgetsRouter);
+  app.use(ledgerRouter);
+  app.use(noticesRouter);
+  app.use(visitorsRouter);
+  app.use(bookingsRouter);
 
   // GET /api/flats
   app.get("/api/flats", async (req, res) => {
@@ -46,8 +92,7 @@ async function startServer() {
       });
       res.json(flats);
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ success: false, message: "Server error" });
+      sendError(res, err);
     }
   });
 
@@ -60,8 +105,7 @@ async function startServer() {
       });
       res.json(residents);
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ success: false, message: "Server error" });
+      sendError(res, err);
     }
   });
 
@@ -69,47 +113,52 @@ async function startServer() {
   app.get("/api/complaints", async (req, res) => {
     try {
       const complaints = await prisma.complaint.findMany({
+        where: { resident: flatScope(req.auth!) },
         include: { resident: { include: { flat: true } } },
         orderBy: { id: 'desc' }
       });
       res.json(complaints);
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ success: false, message: "Server error" });
+      sendError(res, err);
     }
   });
 
   // POST /api/add-resident
-  app.post("/api/add-resident", async (req, res) => {
-    const { name, email, phone, flatId } = req.body;
+  app.post("/api/add-resident", validateBody(addResidentSchema), async (req, res) => {
+    const { name, email, phone, flatId }: AddResidentInput = req.body;
     try {
       const resident = await prisma.resident.create({
-        data: { name, email, phone, flatId }
+        data: { name, email, phone, flatId },
+        include: { flat: true }
+      });
+      await logActivity({
+        userId: req.auth!.userId,
+        action: "RESIDENT_ADDED",
+        target: `Flat ${resident.flat.number}`,
+        details: `${name} added as resident`
       });
       res.json({ success: true, resident });
     } catch (err) {
-      console.error(err);
-      res.status(400).json({ success: false, message: "Failed to add resident" });
+      sendError(res, err, "Failed to add resident", 400);
     }
   });
 
   // POST /api/generate-bill
-  app.post("/api/generate-bill", async (req, res) => {
-    const { amount, month } = req.body;
+  app.post("/api/generate-bill", validateBody(generateBillsSchema), async (req, res) => {
+    const input: GenerateBillsInput = req.body;
     try {
-      const residents = await prisma.resident.findMany();
-      const bills = residents.map(r => ({
-        residentId: r.id,
-        amount: parseFloat(amount),
-        month,
-        status: 'UNPAID'
-      }));
-
-      await prisma.maintenanceBill.createMany({ data: bills });
-      res.json({ success: true, message: `Bills generated for ${residents.length} residents` });
+      const run = await generateBills(input);
+      if (!run.dry_run) {
+        await logActivity({
+          userId: req.auth!.userId,
+          action: "BILLS_GENERATED",
+          target: run.period,
+          details: describeBillRun(run)
+        });
+      }
+      res.json({ success: true, message: describeBillRun(run), run });
     } catch (err) {
-      console.error(err);
-      res.status(400).json({ success: false, message: "Failed to generate bills" });
+      sendError(res, err, "Failed to generate bills", 400);
     }
   });
 
@@ -121,11 +170,13 @@ async function startServer() {
       const totalComplaints = await prisma.complaint.count();
       res.json({ totalFlats, totalResidents, totalComplaints });
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ success: false, message: "Server error" });
+      sendError(res, err);
     }
   });
 
+  // Malformed JSON and any error passed to next() get the standard error envelope
+  app.use(apiErrorHandler);
+
   // Vite Integration
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -143,6 +194,10 @@ async function startServer() {
   const PORT = 3000;
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    startPenaltyAccrual();
+    startReminderSchedule();
+    startDunningSchedule();
+    backfillLedger().catch(err => console.error("Ledger backfill failed", err));
   });
 }
 
@@ -0,0 +1,19 @@
+import { prisma } from "./prisma";
+
+export interface ActivityEntry {
+  userId: number | null;
+  // Machine-readable action type, e.g. "BILLS_GENERATED"; used by the log filters.
+  action: string;
+  // What was acted on, e.g. "Flat A101" or "Complaint #12".
+  target?: string;
+  details: string;
+}
+
+// Records an entry for the admin "Activity Logs" screen. Never fails the calling request.
+export async function logActivity(entry: ActivityEntry) {
+  try {
+    await prisma.activityLog.create({ data: entry });
+  } catch (err) {
+    console.error("Failed to write activity log", err);
+  }
+}
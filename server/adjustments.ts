@@ -0,0 +1,140 @@
+import { Prisma, type BillAdjustment, type BillLineItem, type Flat, type MaintenanceBill, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { postAdjustment } from "./ledger";
+import { billStatus, billTotal, postWalletEntry } from "./payments";
+import { CREDIT_NOTE_SERIES, DEBIT_NOTE_SERIES, nextDocumentNumber } from "./sequences";
+import { applyCredit } from "./wallet";
+import { EPSILON, round } from "./money";
+import { periodLabel, type AdjustmentInput, type AdjustmentRow } from "../src/lib/schemas";
+
+// Corrections to a bill after it was raised. The invoice is a legal document and stays as issued;
+// an approved adjustment is its own numbered credit or debit note, and its effect on what the flat
+// owes is kept in MaintenanceBill.adjustment. Maker-checker: whoever raises an adjustment can
+// withdraw it, but only a different admin can approve it.
+
+type Tx = Prisma.TransactionClient;
+
+export class AdjustmentError extends Error {}
+
+export const adjustmentInclude = {
+  bill: { include: { flat: true } },
+  requestedBy: true,
+  reviewedBy: true,
+} satisfies Prisma.BillAdjustmentInclude;
+
+const isCredit = (kind: string) => kind !== "DEBIT_NOTE";
+
+const penaltiesOn = (lineItems: BillLineItem[]) =>
+  round(lineItems.filter(i => i.kind === "PENALTY").reduce((sum, i) => sum + i.amount + i.taxAmount, 0));
+
+// How far the bill can still be credited: never below zero, and for waivers never beyond the late
+// fees and interest it carries. Adjustments that are still pending count against the room, so two
+// requests can't each take the whole amount.
+async function creditRoom(tx: Tx, bill: MaintenanceBill & { lineItems: BillLineItem[] }, kind: string, excludeId?: number) {
+  const others = await tx.billAdjustment.findMany({
+    where: { billId: bill.id, status: { in: ["PENDING", "APPROVED"] }, ...(excludeId ? { id: { not: excludeId } } : {}) },
+  });
+  const pendingCredit = others.filter(a => a.status === "PENDING" && isCredit(a.kind)).reduce((sum, a) => sum + a.amount, 0);
+  const room = round(billTotal(bill) - pendingCredit);
+  if (kind !== "WAIVER") return room;
+  const waived = others.filter(a => a.kind === "WAIVER").reduce((sum, a) => sum + a.amount, 0);
+  return Math.min(room, round(penaltiesOn(bill.lineItems) - waived));
+}
+
+function checkRoom(kind: string, amount: number, room: number, bill: MaintenanceBill) {
+  if (!isCredit(kind) || amount <= room + EPSILON) return;
+  const what = kind === "WAIVER" ? "late fees and interest left to waive" : "left to credit";
+  throw new AdjustmentError(`The ${periodLabel(bill.period)} bill only has ₹${Math.max(0, room)} ${what}`);
+}
+
+export function requestAdjustment(billId: string, { kind, amount, reason }: AdjustmentInput, adminId: number) {
+  return prisma.$transaction(async tx => {
+    const bill = await tx.maintenanceBill.findUnique({ where: { id: billId }, include: { lineItems: true } });
+    if (!bill) throw new AdjustmentError("Bill not found");
+    checkRoom(kind, amount, await creditRoom(tx, bill, kind), bill);
+    return tx.billAdjustment.create({
+      data: { billId, kind, amount: round(amount), reason, requestedById: adminId },
+      include: adjustmentInclude,
+    });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+async function pendingAdjustment(tx: Tx, id: number) {
+  const adjustment = await tx.billAdjustment.findUnique({ where: { id }, include: { bill: { include: { lineItems: true } } } });
+  if (!adjustment) throw new AdjustmentError("Adjustment not found");
+  if (adjustment.status !== "PENDING") throw new AdjustmentError(`This adjustment was already ${adjustment.status.toLowerCase()}`);
+  return adjustment;
+}
+
+// Issues the credit or debit note and moves the bill's balance. A credit that leaves a paid bill
+// overpaid hands the difference back as advance credit, which goes straight to the flat's other
+// open bills; a debit reopens a paid bill and is met from any credit the flat already has.
+export function approveAdjustment(id: number, adminId: number, note?: string) {
+  return prisma.$transaction(async tx => {
+    const { bill, ...adjustment } = await pendingAdjustment(tx, id);
+    if (adjustment.requestedById === adminId) {
+      throw new AdjustmentError("An adjustment has to be approved by a different admin from the one who raised it");
+    }
+    checkRoom(adjustment.kind, adjustment.amount, await creditRoom(tx, bill, adjustment.kind, id), bill);
+
+    const credit = isCredit(adjustment.kind);
+    const documentNo = await nextDocumentNumber(tx, credit ? CREDIT_NOTE_SERIES : DEBIT_NOTE_SERIES);
+    const total = round(billTotal(bill) + (credit ? -adjustment.amount : adjustment.amount));
+    const excess = round(bill.paidAmount - total);
+    const paidAmount = excess > EPSILON ? total : bill.paidAmount;
+    await tx.maintenanceBill.update({
+      where: { id: bill.id },
+      data: { adjustment: round(total - bill.amount), paidAmount, status: billStatus(total, paidAmount) },
+    });
+    if (excess > EPSILON) {
+      await postWalletEntry(tx, bill.flatId, excess, {
+        kind: "ADJUSTMENT",
+        billId: bill.id,
+        note: `Overpaid on the ${periodLabel(bill.period)} bill after ${documentNo}`,
+        createdById: adminId,
+      });
+    }
+    await applyCredit(tx, bill.flatId);
+
+    const approved = await tx.billAdjustment.update({
+      where: { id },
+      data: { status: "APPROVED", documentNo, reviewedById: adminId, reviewNote: note, reviewedAt: new Date() },
+      include: adjustmentInclude,
+    });
+    await postAdjustment(tx, approved);
+    return approved;
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export function rejectAdjustment(id: number, adminId: number, note: string) {
+  return prisma.$transaction(async tx => {
+    await pendingAdjustment(tx, id);
+    return tx.billAdjustment.update({
+      where: { id },
+      data: { status: "REJECTED", reviewedById: adminId, reviewNote: note, reviewedAt: new Date() },
+      include: adjustmentInclude,
+    });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export function toAdjustmentRow(
+  a: BillAdjustment & { bill: MaintenanceBill & { flat: Flat }; requestedBy: User; reviewedBy: User | null },
+): AdjustmentRow {
+  return {
+    id: a.id,
+    bill_id: a.billId,
+    flat_id: a.bill.flat.number,
+    month: periodLabel(a.bill.period),
+    invoice_no: a.bill.invoiceNo,
+    kind: a.kind as AdjustmentRow["kind"],
+    amount: a.amount,
+    reason: a.reason,
+    status: a.status as AdjustmentRow["status"],
+    document_no: a.documentNo,
+    requested_by: a.requestedBy.name,
+    reviewed_by: a.reviewedBy?.name ?? null,
+    review_note: a.reviewNote,
+    reviewed_at: a.reviewedAt?.toISOString() ?? null,
+    created_at: a.createdAt.toISOString(),
+  };
+}
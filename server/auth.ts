@@ -0,0 +1,100 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Flat, User } from "@prisma/client";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { prisma } from "./prisma";
+import type { SessionUser } from "../src/lib/schemas";
+
+export type Role = "admin" | "resident" | "security";
+
+// Claims carried inside the signed session token.
+export interface SessionClaims {
+  userId: number;
+  role: Role;
+  flatId: string | null;
+  flat: string | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: SessionClaims;
+    }
+  }
+}
+
+const TOKEN_TTL = "12h";
+const BCRYPT_ROUNDS = 10;
+
+// Only a server started with NODE_ENV=development may sign sessions with this.
+const DEV_JWT_SECRET = "towertech-dev-secret";
+
+// Read lazily: dotenv is loaded by server.ts after this module has been imported.
+function jwtSecret() {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "development") return DEV_JWT_SECRET;
+  throw new Error("JWT_SECRET is not set. Add it to .env, or set NODE_ENV=development to use the built-in development secret.");
+}
+
+// Called at startup, so a missing secret stops the server instead of failing the first login.
+export function checkJwtSecret() {
+  jwtSecret();
+}
+
+export function hashPassword(password: string) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+export function verifyPassword(password: string, passwordHash: string) {
+  return bcrypt.compare(password, passwordHash);
+}
+
+export function signToken(user: User & { flat: Flat | null }) {
+  const claims: SessionClaims = {
+    userId: user.id,
+    role: user.role as Role,
+    flatId: user.flatId,
+    flat: user.flat?.number ?? null,
+  };
+  return jwt.sign(claims, jwtSecret(), { expiresIn: TOKEN_TTL });
+}
+
+// Shape of the `User` interface in App.tsx.
+export function toSessionUser(user: User & { flat: Flat | null }): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    role: user.role as Role,
+    flat_id: user.flat?.number ?? null,
+  };
+}
+
+// Rejects requests without a valid `Authorization: Bearer <token>` header, or whose account has
+// since been rejected or deleted. The role and flat are read from the account on every request,
+// not from the token, so an admin's change takes effect before the token expires.
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : null;
+  if (!token) {
+    return res.status(401).json({ success: false, message: "Authentication required" });
+  }
+
+  let claims: SessionClaims;
+  try {
+    claims = jwt.verify(token, jwtSecret()) as SessionClaims;
+  } catch {
+    return res.status(401).json({ success: false, message: "Session expired" });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: claims.userId }, include: { flat: true } });
+    if (!user || user.status !== "APPROVED") {
+      return res.status(401).json({ success: false, message: "This account is no longer active" });
+    }
+    req.auth = { userId: user.id, role: user.role as Role, flatId: user.flatId, flat: user.flat?.number ?? null };
+  } catch (err) {
+    return next(err);
+  }
+  next();
+}
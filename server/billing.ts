@@ -0,0 +1,124 @@
+import { Prisma, type BillLineItem, type Flat, type MaintenanceBill } from "@prisma/client";
+import { prisma } from "./prisma";
+import { lineItemsTotal, computeCharges } from "./charges";
+import { postBill } from "./ledger";
+import { billBalance } from "./payments";
+import { nextInvoiceNumber } from "./sequences";
+import { applyTax, getTaxPolicy } from "./tax";
+import { applyCredit } from "./wallet";
+import { round } from "./money";
+import { periodLabel, type BillRow, type BillRun, type GenerateBillsInput } from "../src/lib/schemas";
+
+// Bills without an explicit due date fall due on the 10th of their month, like the admin form's default.
+const DEFAULT_DUE_DAY = 10;
+
+const sumOf = (items: { amount: number }[]) => round(items.reduce((sum, i) => sum + i.amount, 0));
+const taxOf = (items: { taxAmount: number }[]) => round(items.reduce((sum, i) => sum + i.taxAmount, 0));
+
+function defaultDueDate(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(year, month - 1, DEFAULT_DUE_DAY);
+}
+
+// Raises one UNPAID bill per flat for the period, itemized from the active charge rules and taxed
+// under the GST policy. Vacant flats are billed too (the owner still owes maintenance). Flats that
+// already have a bill for the period are left alone, so running it again only fills the gaps.
+// Each new bill is posted to the ledger and advance credit is applied to it straight away. With dryRun nothing is written and
+// the summary is a preview. The read and the inserts share a serializable transaction, and
+// @@unique([flatId, period]) backs it up if two admins run it at once.
+export function generateBills({ period, dueDate, dryRun }: GenerateBillsInput) {
+  return prisma.$transaction(async (tx): Promise<BillRun> => {
+    const [flats, rules, taxPolicy] = await Promise.all([
+      tx.flat.findMany({
+        include: { resident: true, bills: { where: { period } } },
+        orderBy: { number: "asc" },
+      }),
+      tx.chargeRule.findMany({ where: { active: true }, orderBy: { id: "asc" } }),
+      getTaxPolicy(tx),
+    ]);
+
+    const missing = flats
+      .filter(f => f.bills.length === 0)
+      .map(f => ({ flat: f, items: applyTax(computeCharges(f, rules), taxPolicy) }));
+    const billable = missing.filter(m => m.items.length > 0);
+
+    let creditApplied = 0;
+    if (!dryRun) {
+      for (const { flat, items } of billable) {
+        const bill = await tx.maintenanceBill.create({
+          data: {
+            flatId: flat.id,
+            residentId: flat.resident?.id ?? null,
+            period,
+            amount: lineItemsTotal(items),
+            dueDate: dueDate ?? defaultDueDate(period),
+            invoiceNo: await nextInvoiceNumber(tx),
+            lineItems: { create: items },
+          },
+          include: { flat: true, lineItems: true },
+        });
+        await postBill(tx, bill);
+        creditApplied += await applyCredit(tx, flat.id);
+      }
+    } else {
+      creditApplied = billable.reduce((sum, m) => sum + Math.min(Math.max(m.flat.credit, 0), lineItemsTotal(m.items)), 0);
+    }
+
+    return {
+      period,
+      dry_run: dryRun,
+      flat_count: flats.length,
+      new_bills: billable.length,
+      vacant_flats: billable.filter(m => !m.flat.resident).length,
+      total_amount: lineItemsTotal(billable.flatMap(m => m.items)),
+      total_tax: taxOf(billable.flatMap(m => m.items)),
+      credit_applied: round(creditApplied),
+      no_charges: missing.filter(m => m.items.length === 0).map(m => m.flat.number),
+      already_billed: flats
+        .filter(f => f.bills.length > 0)
+        .map(f => ({ flat_id: f.number, amount: f.bills[0].amount, status: f.bills[0].status })),
+    };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable, timeout: 30_000 });
+}
+
+// One-line outcome for the API response and the activity log.
+export function describeBillRun(run: BillRun) {
+  const month = periodLabel(run.period);
+  const skipped = run.already_billed.length ? `; ${run.already_billed.length} flats already billed` : "";
+  const total = `₹${run.total_amount}${run.total_tax ? ` (incl. ₹${run.total_tax} GST)` : ""}`;
+  const credit = run.credit_applied ? `, ₹${run.credit_applied} of it from advance credit` : "";
+  if (run.dry_run) {
+    return `${run.new_bills} bills totalling ${total} would be raised for ${month}${credit}${skipped}`;
+  }
+  return `${run.new_bills} bills totalling ${total} raised for ${month}${credit}${skipped}`;
+}
+
+type BillWithItems = MaintenanceBill & { flat: Flat; lineItems: BillLineItem[] };
+
+// Shape rendered by ResidentBillsView in App.tsx.
+export function toBillRow(b: BillWithItems): BillRow {
+  return {
+    id: b.id,
+    flat_id: b.flat.number,
+    period: b.period,
+    month: periodLabel(b.period),
+    invoice_no: b.invoiceNo,
+    amount: b.amount,
+    principal: sumOf(b.lineItems.filter(i => i.kind === "CHARGE")),
+    penalty: sumOf(b.lineItems.filter(i => i.kind === "PENALTY")),
+    tax: taxOf(b.lineItems),
+    adjustment: b.adjustment,
+    paid: b.paidAmount,
+    balance: billBalance(b),
+    due_date: b.dueDate?.toISOString() ?? null,
+    status: b.status as BillRow["status"],
+    line_items: b.lineItems.map(i => ({
+      kind: i.kind as BillRow["line_items"][number]["kind"],
+      head: i.head,
+      description: i.description,
+      amount: i.amount,
+      tax_rate: i.taxRate,
+      tax_amount: i.taxAmount,
+    })),
+  };
+}
@@ -0,0 +1,84 @@
+import { Prisma, type AmenityBooking, type Flat } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { BookingRow } from "../src/lib/schemas";
+
+// Bookings in these states hold their slot; REJECTED and CANCELLED free it again.
+const ACTIVE_STATUSES = ["PENDING", "APPROVED"];
+
+type BookingWithFlat = AmenityBooking & { flat: Flat };
+
+export class BookingConflictError extends Error {
+  constructor(public conflict: BookingWithFlat) {
+    super(`${conflict.amenity} is already booked from ${conflict.timeSlot} on that day`);
+  }
+}
+
+// "06:00 PM" or "18:00" -> minutes after midnight
+function parseClock(value: string) {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === "PM" && hours < 12) hours += 12;
+  if (meridiem === "AM" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Turns a date ("yyyy-MM-dd") and a slot label ("06:00 PM - 08:00 PM") into a time range.
+export function parseTimeSlot(date: string, timeSlot: string) {
+  const [from, to] = timeSlot.split("-");
+  const day = new Date(`${date}T00:00:00`);
+  const start = from ? parseClock(from) : null;
+  const end = to ? parseClock(to) : null;
+  if (isNaN(day.getTime()) || start === null || end === null || end <= start) return null;
+
+  const startsAt = new Date(day);
+  startsAt.setMinutes(start);
+  const endsAt = new Date(day);
+  endsAt.setMinutes(end);
+  return { startsAt, endsAt };
+}
+
+// Shape rendered by ResidentBookingsView in App.tsx.
+export function toBookingRow(b: BookingWithFlat): BookingRow {
+  return {
+    id: b.id,
+    amenity: b.amenity,
+    date: b.startsAt.toISOString(),
+    time_slot: b.timeSlot,
+    starts_at: b.startsAt.toISOString(),
+    ends_at: b.endsAt.toISOString(),
+    flat_id: b.flat.number,
+    status: b.status,
+  };
+}
+
+interface BookingRequest {
+  amenity: string;
+  timeSlot: string;
+  startsAt: Date;
+  endsAt: Date;
+  flatId: string;
+  userId: number;
+}
+
+// Check-then-insert inside one serializable transaction, so two residents racing for the
+// same slot can't both pass the overlap check. Any overlap counts, not just identical labels.
+export function bookAmenity(request: BookingRequest) {
+  return prisma.$transaction(async tx => {
+    const conflict = await tx.amenityBooking.findFirst({
+      where: {
+        amenity: request.amenity,
+        status: { in: ACTIVE_STATUSES },
+        startsAt: { lt: request.endsAt },
+        endsAt: { gt: request.startsAt },
+      },
+      include: { flat: true },
+    });
+    if (conflict) throw new BookingConflictError(conflict);
+
+    return tx.amenityBooking.create({ data: request, include: { flat: true } });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
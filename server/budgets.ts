@@ -0,0 +1,256 @@
+import { Prisma, type Budget, type BudgetAlert, type BudgetPolicy, type ExpenseCategory, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { sendMail } from "./mailer";
+import { EPSILON, round } from "./money";
+import {
+  financialYearLabel,
+  financialYearOf,
+  financialYearPeriods,
+  periodLabel,
+  type BudgetAlertRow,
+  type BudgetPolicyRow,
+  type BudgetReport,
+  type BudgetRow,
+  type CopyBudgetsInput,
+} from "../src/lib/schemas";
+
+// Annual spending plans per expense category, checked against recorded expenses. A budget is set
+// for the year and split over its months; alerts fire when spending under a category reaches the
+// policy's warning share, or goes over, either for the whole year or for a single month.
+
+const rupees = (n: number) => `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const periodOf = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+
+// Position of a "yyyy-MM" period in its financial year, April = 0.
+const monthIndex = (period: string) => (Number(period.slice(5)) + 8) % 12;
+
+const yearRange = (year: number) => ({ gte: new Date(year, 3, 1), lt: new Date(year + 1, 3, 1) });
+
+export function getBudgetPolicy(db: Prisma.TransactionClient = prisma) {
+  return db.budgetPolicy.upsert({ where: { id: 1 }, update: {}, create: { id: 1 } });
+}
+
+export function toBudgetPolicyRow(p: BudgetPolicy): BudgetPolicyRow {
+  return {
+    alert_percent: p.alertPercent,
+    email_admins: p.emailAdmins,
+    updated_at: p.updatedAt.toISOString(),
+  };
+}
+
+// Twelve equal parts in whole rupees where possible; March takes whatever rounding leaves over.
+export function evenSplit(annual: number) {
+  const month = Math.floor(annual / 12);
+  return [...Array(11).fill(month), round(annual - month * 11)];
+}
+
+export const budgetInclude = { category: true, updatedBy: true } as const;
+
+export function toBudgetRow(b: Budget & { category: ExpenseCategory; updatedBy: User | null }): BudgetRow {
+  return {
+    id: b.id,
+    year: b.year,
+    category_id: b.categoryId,
+    category: b.category.name,
+    annual: b.annual,
+    monthly: JSON.parse(b.monthly),
+    updated_by: b.updatedBy?.name ?? null,
+    updated_at: b.updatedAt.toISOString(),
+  };
+}
+
+export function toBudgetAlertRow(a: BudgetAlert & { category: ExpenseCategory }): BudgetAlertRow {
+  return {
+    id: a.id,
+    year: a.year,
+    category_id: a.categoryId,
+    category: a.category.name,
+    scope: a.scope,
+    level: a.level as BudgetAlertRow["level"],
+    budget: a.budget,
+    actual: a.actual,
+    acknowledged_at: a.acknowledgedAt?.toISOString() ?? null,
+    created_at: a.createdAt.toISOString(),
+  };
+}
+
+export function describeBudgetAlert(a: { year: number; scope: string; level: string; budget: number; actual: number; category: { name: string } }) {
+  const budget = a.scope === "YEAR" ? `${financialYearLabel(a.year)} budget` : `budget for ${periodLabel(a.scope)}`;
+  return a.level === "OVER"
+    ? `${a.category.name} is over its ${budget}: ${rupees(a.actual)} spent against ${rupees(a.budget)}`
+    : `${a.category.name} has used ${Math.round((a.actual / a.budget) * 100)}% of its ${budget} (${rupees(a.actual)} of ${rupees(a.budget)})`;
+}
+
+// Spending per category for each month of the year, April first.
+async function monthlyActuals(year: number, categoryId?: number) {
+  const expenses = await prisma.expense.findMany({
+    where: { categoryId, spentOn: yearRange(year) },
+    select: { categoryId: true, amount: true, spentOn: true },
+  });
+  const actuals = new Map<number, number[]>();
+  for (const e of expenses) {
+    if (!actuals.has(e.categoryId)) actuals.set(e.categoryId, Array(12).fill(0));
+    actuals.get(e.categoryId)![monthIndex(periodOf(e.spentOn))] += e.amount;
+  }
+  return actuals;
+}
+
+export async function budgetReport(year: number): Promise<BudgetReport> {
+  const current = financialYearOf(periodOf(new Date()));
+  // How many months count towards the to-date figures
+  const elapsed = year < current ? 12 : year > current ? 0 : monthIndex(periodOf(new Date())) + 1;
+  const periods = financialYearPeriods(year);
+
+  const [budgets, actuals, categories, policy] = await Promise.all([
+    prisma.budget.findMany({ where: { year } }),
+    monthlyActuals(year),
+    prisma.expenseCategory.findMany({ orderBy: { name: "asc" } }),
+    getBudgetPolicy(),
+  ]);
+
+  const toDate = (months: number[]) => round(months.slice(0, elapsed).reduce((sum, m) => sum + m, 0));
+
+  const rows = categories.flatMap(category => {
+    const budget = budgets.find(b => b.categoryId === category.id);
+    const spent = actuals.get(category.id);
+    if (!budget && !spent) return [];
+    const planned: number[] = budget ? JSON.parse(budget.monthly) : Array(12).fill(0);
+    const months = spent ?? Array(12).fill(0);
+    const budgetToDate = toDate(planned);
+    const actual = toDate(months);
+    const status: BudgetReport["rows"][number]["status"] = !budget
+      ? actual > EPSILON ? "UNBUDGETED" : "UNDER"
+      : actual > budgetToDate + EPSILON ? "OVER"
+      : budgetToDate > 0 && actual >= (budgetToDate * policy.alertPercent) / 100 ? "WARNING"
+      : "UNDER";
+    return [{
+      category_id: category.id,
+      category: category.name,
+      annual: budget?.annual ?? 0,
+      budget: budgetToDate,
+      actual,
+      variance: round(actual - budgetToDate),
+      used_percent: budgetToDate > 0 ? Math.round((actual / budgetToDate) * 1000) / 10 : null,
+      status,
+      months: periods.map((period, i) => ({ period, budget: planned[i], actual: round(months[i]) })),
+    }];
+  });
+
+  const total = (key: "annual" | "budget" | "actual" | "variance") => round(rows.reduce((sum, r) => sum + r[key], 0));
+  return {
+    year,
+    label: financialYearLabel(year),
+    through: elapsed ? periods[elapsed - 1] : null,
+    alert_percent: policy.alertPercent,
+    rows,
+    totals: { annual: total("annual"), budget: total("budget"), actual: total("actual"), variance: total("variance") },
+  };
+}
+
+// Raises whatever alerts the category's spending now calls for in that year: for the year as a
+// whole and for each month with a budget. Each scope alerts once per level, so re-running is
+// harmless. New alerts are logged and, if the policy says so, emailed to the admins.
+export async function checkBudgetAlerts(year: number, categoryId: number) {
+  const budget = await prisma.budget.findUnique({ where: { year_categoryId: { year, categoryId } }, include: { category: true } });
+  if (!budget) return [];
+  const [policy, actuals, existing] = await Promise.all([
+    getBudgetPolicy(),
+    monthlyActuals(year, categoryId),
+    prisma.budgetAlert.findMany({ where: { year, categoryId } }),
+  ]);
+  const months = actuals.get(categoryId) ?? Array(12).fill(0);
+  const planned: number[] = JSON.parse(budget.monthly);
+  const periods = financialYearPeriods(year);
+
+  const scopes = [
+    { scope: "YEAR", budget: budget.annual, actual: round(months.reduce((sum, m) => sum + m, 0)) },
+    ...periods.map((scope, i) => ({ scope, budget: planned[i], actual: round(months[i]) })),
+  ];
+  const raised: (BudgetAlert & { category: ExpenseCategory })[] = [];
+  for (const { scope, budget: limit, actual } of scopes) {
+    if (limit <= 0) continue;
+    const level = actual > limit + EPSILON ? "OVER" : actual >= (limit * policy.alertPercent) / 100 ? "WARNING" : null;
+    // Going over outranks the warning; a scope that already went over doesn't warn afterwards.
+    if (!level || existing.some(a => a.scope === scope && (a.level === level || a.level === "OVER"))) continue;
+    raised.push(await prisma.budgetAlert.create({
+      data: { year, categoryId, scope, level, budget: limit, actual },
+      include: { category: true },
+    }));
+  }
+
+  for (const alert of raised) {
+    await logActivity({ userId: null, action: "BUDGET_ALERT", target: alert.category.name, details: describeBudgetAlert(alert) });
+  }
+  if (raised.length && policy.emailAdmins) await emailAdmins(raised);
+  return raised;
+}
+
+// The expense hooks: never fails the expense that triggered it.
+export async function raiseBudgetAlerts(categoryId: number, spentOn: Date) {
+  try {
+    return (await checkBudgetAlerts(financialYearOf(periodOf(spentOn)), categoryId)).map(describeBudgetAlert);
+  } catch (err) {
+    console.error("Budget alert check failed", err);
+    return [];
+  }
+}
+
+async function emailAdmins(alerts: (BudgetAlert & { category: ExpenseCategory })[]) {
+  const admins = await prisma.user.findMany({ where: { role: "admin", status: "APPROVED" } });
+  const lines = alerts.map(describeBudgetAlert);
+  const paragraphs = [...lines, "Budget against actual is under Financial Reports in the admin app."];
+  const subject = alerts.length === 1 ? `Budget alert: ${lines[0]}` : `${alerts.length} budget alerts`;
+  const text = paragraphs.join("\n\n");
+  const html = paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join("\n");
+  for (const admin of admins) {
+    try {
+      await sendMail({ to: admin.email, subject, text, html });
+    } catch (err) {
+      console.error("Budget alert email failed", err);
+    }
+  }
+}
+
+// Sets a category's budget for the year. Its alerts are cleared and re-checked against the new
+// figures, so a raised budget doesn't keep stale alerts and a cut one alerts straight away.
+export async function saveBudget(year: number, categoryId: number, annual: number, monthly: number[], adminId: number) {
+  const data = { annual: round(annual), monthly: JSON.stringify(monthly.map(round)), updatedById: adminId };
+  const budget = await prisma.$transaction(async tx => {
+    await tx.budgetAlert.deleteMany({ where: { year, categoryId } });
+    return tx.budget.upsert({
+      where: { year_categoryId: { year, categoryId } },
+      update: data,
+      create: { year, categoryId, ...data },
+      include: budgetInclude,
+    });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+  return { budget, alerts: (await checkBudgetAlerts(year, categoryId)).map(describeBudgetAlert) };
+}
+
+export async function copyBudgets({ fromYear, toYear, increasePercent }: CopyBudgetsInput, adminId: number) {
+  const [source, existing] = await Promise.all([
+    prisma.budget.findMany({ where: { year: fromYear } }),
+    prisma.budget.findMany({ where: { year: toYear }, select: { categoryId: true } }),
+  ]);
+  const missing = source.filter(b => !existing.some(e => e.categoryId === b.categoryId));
+  const factor = 1 + increasePercent / 100;
+  await prisma.budget.createMany({
+    data: missing.map(b => ({
+      year: toYear,
+      categoryId: b.categoryId,
+      annual: round(b.annual * factor),
+      // Rounding each month can drift a few paise from the annual figure; March absorbs it.
+      monthly: JSON.stringify(
+        (JSON.parse(b.monthly) as number[]).map((m, i, all) =>
+          i < 11 ? round(m * factor) : round(b.annual * factor - all.slice(0, 11).reduce((sum, x) => sum + round(x * factor), 0))),
+      ),
+      updatedById: adminId,
+    })),
+  });
+  for (const b of missing) await checkBudgetAlerts(toYear, b.categoryId);
+  return { copied: missing.length, skipped: source.length - missing.length };
+}
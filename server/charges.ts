@@ -0,0 +1,58 @@
+import type { ChargeRule, Flat } from "@prisma/client";
+import type { ChargeRuleRow } from "../src/lib/schemas";
+import { round } from "./money";
+
+export interface LineItem {
+  head: string;
+  description: string;
+  amount: number;
+  taxAmount?: number;
+}
+
+type RatedFlat = Pick<Flat, "type" | "carpetArea" | "parkingSlots">;
+
+function applyRule(rule: ChargeRule, flat: RatedFlat): LineItem {
+  switch (rule.basis) {
+    case "PER_SQFT":
+      return { head: rule.head, description: `${flat.carpetArea} sq ft × ₹${rule.rate}`, amount: round(flat.carpetArea * rule.rate) };
+    case "PER_PARKING_SLOT":
+      return { head: rule.head, description: `${flat.parkingSlots} slot(s) × ₹${rule.rate}`, amount: round(flat.parkingSlots * rule.rate) };
+    default:
+      return { head: rule.head, description: "Fixed", amount: round(rule.rate) };
+  }
+}
+
+// Itemizes a flat's charges from the active rules. Within a head, rules for the flat's own type
+// replace the catch-all ones, so "Maintenance" can be ₹2/sq ft generally but a flat sum for a
+// Penthouse. Zero lines (no parking, no area recorded) are dropped.
+export function computeCharges(flat: RatedFlat, rules: ChargeRule[]) {
+  const heads = new Map<string, ChargeRule[]>();
+  for (const rule of rules) {
+    if (!rule.active || (rule.flatType && rule.flatType !== flat.type)) continue;
+    heads.set(rule.head, [...(heads.get(rule.head) ?? []), rule]);
+  }
+
+  const items: LineItem[] = [];
+  for (const candidates of heads.values()) {
+    const specific = candidates.filter(r => r.flatType);
+    for (const rule of specific.length ? specific : candidates) {
+      const item = applyRule(rule, flat);
+      if (item.amount > 0) items.push(item);
+    }
+  }
+  return items;
+}
+
+// Including any tax on the lines.
+export const lineItemsTotal = (items: LineItem[]) => round(items.reduce((sum, i) => sum + i.amount + (i.taxAmount ?? 0), 0));
+
+export function toChargeRuleRow(rule: ChargeRule): ChargeRuleRow {
+  return {
+    id: rule.id,
+    head: rule.head,
+    basis: rule.basis as ChargeRuleRow["basis"],
+    rate: rule.rate,
+    flat_type: rule.flatType,
+    active: rule.active,
+  };
+}
@@ -0,0 +1,397 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { zipSync } from "fflate";
+import type { Prisma, TaxPolicy } from "@prisma/client";
+import { prisma } from "./prisma";
+import { advanceOf, billBalance, paymentInclude } from "./payments";
+import { getTaxPolicy, splitTax } from "./tax";
+import { noticeBills, type NoticeEvent } from "./dunning";
+import { periodLabel, type AccountStatement } from "../src/lib/schemas";
+
+// Printed at the top of every invoice and receipt.
+function society() {
+  return {
+    name: process.env.SOCIETY_NAME || "TowerTech Co-operative Housing Society",
+    address: process.env.SOCIETY_ADDRESS || "",
+  };
+}
+
+// --- Amount in words (Indian numbering: thousand, lakh, crore) ---
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowHundred(n: number) {
+  return n < 20 ? ONES[n] : [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(" ");
+}
+
+function wholeInWords(n: number): string {
+  const parts: string[] = [];
+  const groups: [number, string][] = [[10_000_000, "Crore"], [100_000, "Lakh"], [1_000, "Thousand"], [100, "Hundred"]];
+  for (const [size, name] of groups) {
+    const count = Math.floor(n / size);
+    if (!count) continue;
+    // Anything past 99 crore reads as "One Hundred Crore" and so on.
+    parts.push(`${size === 10_000_000 ? wholeInWords(count) : belowHundred(count)} ${name}`);
+    n %= size;
+  }
+  if (n) parts.push(belowHundred(n));
+  return parts.join(" ");
+}
+
+// 1550.5 -> "Rupees One Thousand Five Hundred Fifty and Fifty Paise Only"
+export function amountInWords(amount: number) {
+  const paise = Math.round(amount * 100);
+  const rupees = Math.floor(paise / 100);
+  const rest = paise % 100;
+  return `Rupees ${rupees ? wholeInWords(rupees) : "Zero"}${rest ? ` and ${belowHundred(rest)} Paise` : ""} Only`;
+}
+
+// --- Layout ---
+
+// The PDF standard fonts have no ₹ or × glyphs, and line descriptions use both ("820 sq ft × ₹1.5").
+const money = (n: number) => `Rs. ${n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const plain = (text: string) => text.replace(/₹\s?/g, "Rs. ").replace(/×/g, "x");
+const day = (d: Date) => d.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" });
+
+const MARGIN = 14;
+const TABLE_STYLE = { headStyles: { fillColor: [30, 41, 59] as [number, number, number] }, styles: { fontSize: 9 } };
+
+// Document numbers contain "/" ("INV/26-27/00042"), which can't go in a file name.
+export const fileNameOf = (documentNo: string) => documentNo.replace(/\//g, "-");
+
+// Society header on the left, the document title and its reference fields on the right.
+function header(doc: jsPDF, title: string, fields: [string, string][], gstin?: string | null) {
+  const { name, address } = society();
+  const right = doc.internal.pageSize.getWidth() - MARGIN;
+
+  doc.setFont("helvetica", "bold").setFontSize(15).text(name, MARGIN, 20);
+  doc.setFont("helvetica", "normal").setFontSize(9);
+  const addressLines: string[] = address ? doc.splitTextToSize(address, 100) : [];
+  doc.text([...addressLines, ...(gstin ? [`GSTIN: ${gstin}`] : [])], MARGIN, 26);
+
+  doc.setFont("helvetica", "bold").setFontSize(13).text(title, right, 20, { align: "right" });
+  doc.setFont("helvetica", "normal").setFontSize(9);
+  fields.forEach(([label, value], i) => doc.text(`${label}: ${value}`, right, 27 + i * 5, { align: "right" }));
+
+  const bottom = 27 + fields.length * 5;
+  doc.setDrawColor(200).line(MARGIN, bottom, right, bottom);
+  return bottom + 8;
+}
+
+function party(doc: jsPDF, label: string, lines: string[], y: number) {
+  doc.setFont("helvetica", "bold").setFontSize(10).text(label, MARGIN, y);
+  doc.setFont("helvetica", "normal").setFontSize(9);
+  lines.forEach((line, i) => doc.text(line, MARGIN, y + 6 + i * 5));
+  return y + 6 + lines.length * 5 + 4;
+}
+
+function footer(doc: jsPDF, y: number, amount: number, note: string) {
+  doc.setFont("helvetica", "bold").setFontSize(9).text("Amount in words:", MARGIN, y);
+  const width = doc.internal.pageSize.getWidth() - 2 * MARGIN - 30;
+  doc.setFont("helvetica", "normal").text(doc.splitTextToSize(amountInWords(amount), width), MARGIN + 30, y);
+  doc.setFontSize(8).setTextColor(120).text(note, MARGIN, doc.internal.pageSize.getHeight() - 12);
+  doc.setTextColor(0);
+}
+
+const finalY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+const toBuffer = (doc: jsPDF) => Buffer.from(doc.output("arraybuffer"));
+
+// --- Invoices ---
+
+export const invoiceInclude = {
+  flat: { include: { resident: true } },
+  resident: true,
+  lineItems: { orderBy: { id: "asc" } },
+} satisfies Prisma.MaintenanceBillInclude;
+
+type InvoiceBill = Prisma.MaintenanceBillGetPayload<{ include: typeof invoiceInclude }>;
+
+// A registered society issues a tax invoice when GST was charged and a bill of supply when the
+// bill was exempt; an unregistered one issues a plain invoice. Tax comes from the lines as
+// charged, so the PDF stays the same whatever the policy says today.
+export function invoicePdf(bill: InvoiceBill, tax: TaxPolicy) {
+  const taxed = bill.lineItems.some(i => i.taxAmount > 0);
+  const title = taxed ? "TAX INVOICE" : tax.gstin ? "BILL OF SUPPLY" : "MAINTENANCE INVOICE";
+  const doc = new jsPDF();
+  let y = header(doc, title, [
+    ["Invoice No", bill.invoiceNo ?? "-"],
+    ["Invoice Date", day(bill.createdAt)],
+    ["Billing Period", periodLabel(bill.period)],
+    ["Due Date", bill.dueDate ? day(bill.dueDate) : "-"],
+    ...(tax.gstin ? [["SAC", tax.sacCode] as [string, string]] : []),
+  ], tax.gstin);
+
+  // The resident billed at the time, falling back to whoever lives there now.
+  const resident = bill.resident ?? bill.flat.resident;
+  y = party(doc, "Billed To", [
+    `Flat ${bill.flat.number}`,
+    ...(resident ? [resident.name, resident.email, resident.phone] : ["(vacant - owner)"]),
+  ], y);
+
+  const totals = [
+    ["Total", money(bill.amount)],
+    ...(bill.adjustment ? [[bill.adjustment < 0 ? "Credit Notes" : "Debit Notes", money(bill.adjustment)]] : []),
+    ["Paid", money(bill.paidAmount)],
+    ["Balance Due", money(billBalance(bill))],
+  ];
+  if (taxed) {
+    const split = bill.lineItems.map(item => ({ item, ...splitTax(item.taxAmount) }));
+    const sum = (pick: (s: (typeof split)[number]) => number) => money(split.reduce((total, s) => total + pick(s), 0));
+    autoTable(doc, {
+      ...TABLE_STYLE,
+      startY: y,
+      head: [["#", "Head", "Description", "Taxable Value", "GST", "CGST", "SGST", "Amount"]],
+      body: split.map(({ item, cgst, sgst }, i) => [
+        String(i + 1),
+        plain(item.head),
+        plain(item.description),
+        money(item.amount),
+        item.taxRate ? `${item.taxRate}%` : "Exempt",
+        money(cgst),
+        money(sgst),
+        money(item.amount + item.taxAmount),
+      ]),
+      foot: [
+        ["", "", "Subtotal", sum(s => s.item.amount), "", sum(s => s.cgst), sum(s => s.sgst), ""],
+        ...totals.map(([label, value]) => ["", "", label, "", "", "", "", value]),
+      ],
+      footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+      columnStyles: { 0: { cellWidth: 8 }, 3: { halign: "right" }, 5: { halign: "right" }, 6: { halign: "right" }, 7: { halign: "right" } },
+    });
+  } else {
+    autoTable(doc, {
+      ...TABLE_STYLE,
+      startY: y,
+      head: [["#", "Head", "Description", "Amount"]],
+      body: bill.lineItems.map((item, i) => [String(i + 1), plain(item.head), plain(item.description), money(item.amount)]),
+      foot: totals.map(([label, value]) => ["", "", label, value]),
+      footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+      columnStyles: { 0: { cellWidth: 10 }, 3: { halign: "right" } },
+    });
+  }
+
+  footer(doc, finalY(doc) + 10, bill.amount, "This is a computer-generated invoice and does not require a signature.");
+  return toBuffer(doc);
+}
+
+// --- Receipts ---
+
+export const receiptInclude = {
+  ...paymentInclude,
+  flat: { include: { resident: true } },
+} satisfies Prisma.PaymentInclude;
+
+type ReceiptPayment = Prisma.PaymentGetPayload<{ include: typeof receiptInclude }>;
+
+export function receiptPdf(payment: ReceiptPayment) {
+  const doc = new jsPDF();
+  const advance = advanceOf(payment);
+  let y = header(doc, "PAYMENT RECEIPT", [
+    ["Receipt No", payment.receiptNo ?? "-"],
+    ["Date", day(payment.paidAt)],
+  ]);
+
+  const resident = payment.flat.resident;
+  y = party(doc, "Received From", [`Flat ${payment.flat.number}`, ...(resident ? [resident.name, resident.email] : [])], y);
+
+  doc.setFont("helvetica", "normal").setFontSize(10);
+  doc.text(`Amount: ${money(payment.amount)}`, MARGIN, y);
+  doc.text(`Mode: ${payment.mode}${payment.gateway ? ` (${payment.gateway})` : ""}`, MARGIN, y + 6);
+  doc.text(`Reference: ${payment.reference ?? "-"}`, MARGIN, y + 12);
+
+  autoTable(doc, {
+    ...TABLE_STYLE,
+    startY: y + 20,
+    head: [["Against Invoice", "Period", "Amount"]],
+    body: [
+      ...payment.allocations.map(a => [a.bill.invoiceNo ?? "-", periodLabel(a.bill.period), money(a.amount)]),
+      ...(advance > 0 ? [["-", "Advance, credited to the flat's wallet", money(advance)]] : []),
+    ],
+    foot: [["", "Total Received", money(payment.amount)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 2: { halign: "right" } },
+  });
+
+  footer(doc, finalY(doc) + 10, payment.amount, "This is a computer-generated receipt and does not require a signature.");
+  return toBuffer(doc);
+}
+
+// --- Credit & debit notes ---
+
+export const adjustmentNoteInclude = {
+  bill: { include: { flat: { include: { resident: true } }, resident: true } },
+  requestedBy: true,
+  reviewedBy: true,
+} satisfies Prisma.BillAdjustmentInclude;
+
+type AdjustmentNote = Prisma.BillAdjustmentGetPayload<{ include: typeof adjustmentNoteInclude }>;
+
+const NOTE_TITLES: Record<string, string> = {
+  CREDIT_NOTE: "CREDIT NOTE",
+  WAIVER: "CREDIT NOTE",
+  DEBIT_NOTE: "DEBIT NOTE",
+};
+
+// Issued against the original invoice, which is quoted but not reproduced.
+export function adjustmentPdf(adjustment: AdjustmentNote, tax: TaxPolicy) {
+  const { bill } = adjustment;
+  const doc = new jsPDF();
+  let y = header(doc, NOTE_TITLES[adjustment.kind], [
+    ["Note No", adjustment.documentNo ?? "-"],
+    ["Date", day(adjustment.reviewedAt ?? adjustment.createdAt)],
+    ["Against Invoice", bill.invoiceNo ?? "-"],
+    ["Invoice Date", day(bill.createdAt)],
+  ], tax.gstin);
+
+  const resident = bill.resident ?? bill.flat.resident;
+  y = party(doc, "Issued To", [`Flat ${bill.flat.number}`, ...(resident ? [resident.name, resident.email] : ["(vacant - owner)"])], y);
+
+  const what = adjustment.kind === "WAIVER"
+    ? "Waiver of late fees and interest"
+    : adjustment.kind === "DEBIT_NOTE" ? "Additional charge" : "Reduction";
+  autoTable(doc, {
+    ...TABLE_STYLE,
+    startY: y,
+    head: [["Description", "Period", "Amount"]],
+    body: [[plain(`${what}: ${adjustment.reason}`), periodLabel(bill.period), money(adjustment.amount)]],
+    foot: [["", adjustment.kind === "DEBIT_NOTE" ? "Amount Payable" : "Amount Credited", money(adjustment.amount)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 1: { cellWidth: 34 }, 2: { halign: "right", cellWidth: 34 } },
+  });
+
+  const approval = `Raised by ${adjustment.requestedBy.name}${adjustment.reviewedBy ? `, approved by ${adjustment.reviewedBy.name}` : ""}.`;
+  doc.setFontSize(9).text(approval, MARGIN, finalY(doc) + 8);
+  footer(doc, finalY(doc) + 18, adjustment.amount, "This is a computer-generated document and does not require a signature.");
+  return toBuffer(doc);
+}
+
+// --- Account statements ---
+
+const dayOfIso = (iso: string) => day(new Date(iso.length === 10 ? `${iso}T00:00:00` : iso));
+
+// Balances print as "Dr" when the flat owes and "Cr" when it has paid ahead.
+const balance = (n: number) => `${money(Math.abs(n))} ${n < 0 ? "Cr" : "Dr"}`;
+
+export function statementPdf(statement: AccountStatement, resident: { name: string; email: string } | null) {
+  const doc = new jsPDF();
+  let y = header(doc, "ACCOUNT STATEMENT", [
+    ["Flat", statement.flat_id],
+    ["From", dayOfIso(statement.from)],
+    ["To", dayOfIso(statement.to)],
+    ["Generated", day(new Date())],
+  ]);
+  y = party(doc, "Statement For", [`Flat ${statement.flat_id}`, ...(resident ? [resident.name, resident.email] : [])], y);
+
+  autoTable(doc, {
+    ...TABLE_STYLE,
+    startY: y,
+    head: [["Date", "Reference", "Description", "Debit", "Credit", "Balance"]],
+    body: [
+      [dayOfIso(statement.from), "", "Opening balance", "", "", balance(statement.opening_balance)],
+      ...statement.entries.map(e => [
+        dayOfIso(e.date),
+        e.reference ?? "-",
+        plain(e.description),
+        e.debit ? money(e.debit) : "",
+        e.credit ? money(e.credit) : "",
+        balance(e.balance),
+      ]),
+    ],
+    foot: [["", "", "Closing balance", money(statement.total_debit), money(statement.total_credit), balance(statement.closing_balance)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 0: { cellWidth: 24 }, 3: { halign: "right" }, 4: { halign: "right" }, 5: { halign: "right" } },
+  });
+
+  doc.setFontSize(8).setTextColor(120).text(
+    "Dr: amount due from the flat. Cr: paid in advance. This is a computer-generated statement.",
+    MARGIN,
+    doc.internal.pageSize.getHeight() - 12,
+  );
+  return toBuffer(doc);
+}
+
+// --- Dunning notices ---
+
+// Days the resident is given to pay before the committee acts on the notice.
+const NOTICE_PERIOD_DAYS = 15;
+
+export function noticePdf(event: NoticeEvent) {
+  const doc = new jsPDF();
+  const width = doc.internal.pageSize.getWidth() - 2 * MARGIN;
+  let y = header(doc, "NOTICE OF ARREARS", [
+    ["Notice No", event.noticeNo ?? "-"],
+    ["Date", day(event.createdAt)],
+    ["Flat", event.flat.number],
+  ]);
+  const resident = event.flat.resident;
+  y = party(doc, "To", [resident?.name ?? "The Owner", `Flat ${event.flat.number}`, ...(resident ? [resident.email] : [])], y);
+
+  doc.setFont("helvetica", "normal").setFontSize(10);
+  const opening: string[] = doc.splitTextToSize(
+    `Notice is hereby given that maintenance dues of ${money(event.overdueAmount)} are outstanding against the above flat, ` +
+      `the oldest of them ${event.daysOverdue} days past its due date, as detailed below. Earlier reminders have not been acted upon.`,
+    width,
+  );
+  doc.text(opening, MARGIN, y);
+
+  autoTable(doc, {
+    ...TABLE_STYLE,
+    startY: y + opening.length * 5 + 4,
+    head: [["Invoice", "Period", "Due Date", "Balance"]],
+    body: noticeBills(event).map(b => [b.invoice_no ?? "-", b.month, dayOfIso(b.due_date), money(b.balance)]),
+    foot: [["", "", "Total Overdue", money(event.overdueAmount)]],
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 3: { halign: "right" } },
+  });
+
+  const payBy = new Date(event.createdAt.getTime() + NOTICE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+  const closing: string[] = doc.splitTextToSize(
+    `You are required to clear these dues, together with any late payment charges, on or before ${day(payBy)}. ` +
+      "If they remain unpaid, the managing committee may suspend the use of the society's amenities by the flat " +
+      "and refer the matter to a hearing of the committee under the society's bye-laws. " +
+      "Please disregard this notice if the dues have been paid in the meantime.",
+    width,
+  );
+  y = finalY(doc) + 10;
+  doc.setFont("helvetica", "normal").setFontSize(10).text(closing, MARGIN, y);
+  y += closing.length * 5 + 12;
+  doc.text(["For the Managing Committee,", "", "Hon. Secretary"], MARGIN, y);
+
+  doc.setFontSize(8).setTextColor(120).text(
+    "This notice is computer-generated. Payment details are available on the society portal.",
+    MARGIN,
+    doc.internal.pageSize.getHeight() - 12,
+  );
+  return toBuffer(doc);
+}
+
+// --- Monthly export ---
+
+// Every invoice raised for the period and every receipt issued during that calendar month,
+// zipped into invoices/ and receipts/ folders. Returns null when there is nothing to export.
+export async function monthlyDocumentsZip(period: string) {
+  const [year, month] = period.split("-").map(Number);
+  const [tax, bills, payments] = await Promise.all([
+    getTaxPolicy(),
+    prisma.maintenanceBill.findMany({ where: { period }, include: invoiceInclude, orderBy: { invoiceNo: "asc" } }),
+    prisma.payment.findMany({
+      where: { status: "CONFIRMED", paidAt: { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) } },
+      include: receiptInclude,
+      orderBy: { receiptNo: "asc" },
+    }),
+  ]);
+  if (!bills.length && !payments.length) return null;
+
+  const files: Record<string, Uint8Array> = {};
+  for (const bill of bills) {
+    files[`invoices/${fileNameOf(bill.invoiceNo ?? bill.id)}_${bill.flat.number}.pdf`] = invoicePdf(bill, tax);
+  }
+  for (const payment of payments) {
+    files[`receipts/${fileNameOf(payment.receiptNo ?? String(payment.id))}_${payment.flat.number}.pdf`] = receiptPdf(payment);
+  }
+  return { zip: Buffer.from(zipSync(files, { level: 0 })), invoices: bills.length, receipts: payments.length };
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { clearFlat, runDunning } from "./dunning";
+import { fakeDbFixture } from "./testing";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-10-19T12:00:00");
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+const daysLater = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+const seed = ({ stage = "REMINDER", since = daysAgo(20) as Date | null, dueDaysAgo = 50, paidAmount = 0 } = {}) => ({
+  dunningPolicy: [{
+    id: 1, enabled: true, minAmount: 1000, reminderDays: 15, noticeDays: 45, suspensionDays: 90, hearingDays: 180,
+    stepIntervalDays: 7, updatedAt: now,
+  }],
+  flat: [{ id: "f1", number: "A101", credit: 0, dunningStage: stage, dunningSince: since }],
+  maintenanceBill: [{
+    id: "b1", flatId: "f1", period: "2026-08", invoiceNo: "INV/26-27/00001", dueDate: daysAgo(dueDaysAgo),
+    amount: 5000, adjustment: 0, paidAmount, status: paidAmount >= 5000 ? "PAID" : "UNPAID",
+  }],
+});
+
+const fixture = fakeDbFixture(seed);
+const flat = () => fixture.db.rows("flat")[0];
+
+describe("runDunning", () => {
+  test("moves an overdue flat up one stage once the step interval has passed", async () => {
+    assert.deepEqual(await runDunning(now), { escalated: 1, cleared: 0 });
+    assert.equal(flat().dunningStage, "NOTICE");
+    assert.deepEqual(flat().dunningSince, now);
+
+    const [event] = fixture.db.rows("dunningEvent");
+    assert.equal(event.previousStage, "REMINDER");
+    assert.equal(event.noticeNo, "NTC-000001");
+    assert.equal(event.overdueAmount, 5000);
+  });
+
+  test("waits out the step interval before the next stage", async () => {
+    fixture.reset(seed({ since: daysAgo(3) }));
+    assert.deepEqual(await runDunning(now), { escalated: 0, cleared: 0 });
+    assert.equal(flat().dunningStage, "REMINDER");
+  });
+
+  test("climbs one rung per run however far behind the flat is", async () => {
+    fixture.reset(seed({ dueDaysAgo: 200 }));
+    await runDunning(now);
+    assert.equal(flat().dunningStage, "NOTICE");
+  });
+
+  test("leaves flats alone while the policy is disabled", async () => {
+    fixture.db.rows("dunningPolicy")[0].enabled = false;
+    assert.deepEqual(await runDunning(now), { escalated: 0, cleared: 0 });
+  });
+
+  test("clears a flat once nothing it owes is overdue", async () => {
+    fixture.reset(seed({ stage: "NOTICE", paidAmount: 5000 }));
+    assert.deepEqual(await runDunning(now), { escalated: 0, cleared: 1 });
+    assert.equal(flat().dunningStage, "NONE");
+    assert.equal(fixture.db.rows("dunningEvent")[0].stage, "NONE");
+  });
+});
+
+describe("clearFlat", () => {
+  beforeEach(() => fixture.reset(seed({ stage: "SUSPENSION", dueDaysAgo: 120 })));
+
+  test("keeps a flat cleared by hand off the ladder for the step interval", async () => {
+    await clearFlat("f1", { adminId: 1, note: "Payment plan agreed" }, now);
+    assert.equal(flat().dunningStage, "NONE");
+    assert.deepEqual(flat().dunningSince, now);
+
+    assert.deepEqual(await runDunning(daysLater(1)), { escalated: 0, cleared: 0 });
+    assert.deepEqual(await runDunning(daysLater(6)), { escalated: 0, cleared: 0 });
+    assert.equal(flat().dunningStage, "NONE");
+  });
+
+  test("lets the schedule pick the flat up again after the interval", async () => {
+    await clearFlat("f1", { adminId: 1 }, now);
+    assert.deepEqual(await runDunning(daysLater(8)), { escalated: 1, cleared: 0 });
+    assert.equal(flat().dunningStage, "REMINDER");
+  });
+
+  test("refuses a flat that isn't in dunning", async () => {
+    await clearFlat("f1", { adminId: 1 }, now);
+    await assert.rejects(clearFlat("f1", { adminId: 1 }, now), /not in dunning/);
+  });
+});
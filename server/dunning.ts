@@ -0,0 +1,322 @@
+import { Prisma, type DunningEvent, type DunningPolicy, type Flat, type MaintenanceBill, type Resident, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { OPEN_BILL_STATUSES, billBalance } from "./payments";
+import { sendFlatReminder } from "./reminders";
+import { nextDocumentNumber } from "./sequences";
+import { round } from "./money";
+import {
+  DUNNING_STAGES,
+  periodLabel,
+  type DefaulterRow,
+  type DefaultersReport,
+  type DunningEventRow,
+  type DunningPolicyRow,
+  type DunningRun,
+  type DunningStage,
+} from "../src/lib/schemas";
+
+// Flats in arrears move up a ladder: a reminder email, then a formal notice (a numbered PDF),
+// then suspension of amenity bookings, then a hearing before the managing committee. A flat
+// climbs one rung at a time, and drops back to NONE once nothing it owes is overdue.
+
+export const NOTICE_SERIES = "NTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUNNING_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export class DunningError extends Error {}
+
+export function getDunningPolicy(db: Prisma.TransactionClient = prisma) {
+  return db.dunningPolicy.upsert({ where: { id: 1 }, update: {}, create: { id: 1 } });
+}
+
+export function toDunningPolicyRow(p: DunningPolicy): DunningPolicyRow {
+  return {
+    enabled: p.enabled,
+    min_amount: p.minAmount,
+    reminder_days: p.reminderDays,
+    notice_days: p.noticeDays,
+    suspension_days: p.suspensionDays,
+    hearing_days: p.hearingDays,
+    step_interval_days: p.stepIntervalDays,
+    updated_at: p.updatedAt.toISOString(),
+  };
+}
+
+const rank = (stage: string) => DUNNING_STAGES.indexOf(stage as DunningStage);
+
+// Where the ladder says a flat should be, from how late its oldest overdue bill is.
+export function dueStage(daysOverdue: number, amount: number, policy: DunningPolicy): DunningStage {
+  if (amount < policy.minAmount || daysOverdue <= 0) return "NONE";
+  if (daysOverdue >= policy.hearingDays) return "HEARING";
+  if (daysOverdue >= policy.suspensionDays) return "SUSPENSION";
+  if (daysOverdue >= policy.noticeDays) return "NOTICE";
+  if (daysOverdue >= policy.reminderDays) return "REMINDER";
+  return "NONE";
+}
+
+// --- Arrears ---
+
+// What a notice lists; kept on the event so a reprinted notice says what the original did.
+export interface NoticeBill {
+  invoice_no: string | null;
+  month: string;
+  due_date: string;
+  balance: number;
+}
+
+interface Arrears {
+  amount: number;
+  days: number;
+  oldestDue: Date;
+  bills: NoticeBill[];
+}
+
+type OverdueBill = Pick<MaintenanceBill, "invoiceNo" | "period" | "dueDate" | "amount" | "adjustment" | "paidAmount">;
+
+// Open bills past their due date, oldest first. Null when nothing is overdue.
+function arrearsOf(bills: OverdueBill[], now: Date): Arrears | null {
+  const overdue = bills
+    .filter(b => b.dueDate && b.dueDate < now)
+    .sort((a, b) => a.dueDate!.getTime() - b.dueDate!.getTime());
+  if (!overdue.length) return null;
+  const oldestDue = overdue[0].dueDate!;
+  return {
+    amount: round(overdue.reduce((sum, b) => sum + billBalance(b), 0)),
+    days: Math.floor((now.getTime() - oldestDue.getTime()) / DAY_MS),
+    oldestDue,
+    bills: overdue.map(b => ({
+      invoice_no: b.invoiceNo,
+      month: periodLabel(b.period),
+      due_date: b.dueDate!.toISOString(),
+      balance: billBalance(b),
+    })),
+  };
+}
+
+const openBills = { where: { status: { in: OPEN_BILL_STATUSES } } } satisfies Prisma.Flat$billsArgs;
+
+// Suspended and hearing-stage flats can't book amenities, unless they have since paid up and the
+// schedule hasn't caught up yet.
+export async function amenitiesSuspended(flatId: string, now = new Date()) {
+  const flat = await prisma.flat.findUnique({ where: { id: flatId }, include: { bills: openBills } });
+  if (!flat || rank(flat.dunningStage) < rank("SUSPENSION")) return false;
+  return arrearsOf(flat.bills, now) !== null;
+}
+
+// --- Defaulters report ---
+
+const AGE_BUCKETS: [string, number][] = [
+  ["Under 1 month", 1],
+  ["1-3 months", 3],
+  ["3-6 months", 6],
+  ["6-12 months", 12],
+  ["Over 12 months", Infinity],
+];
+
+const AMOUNT_BUCKETS: [string, number][] = [
+  ["Under ₹5,000", 5000],
+  ["₹5,000-25,000", 25000],
+  ["₹25,000-1,00,000", 100000],
+  ["Over ₹1,00,000", Infinity],
+];
+
+function bucketize(rows: DefaulterRow[], buckets: [string, number][], valueOf: (r: DefaulterRow) => number) {
+  const totals = buckets.map(([label]) => ({ label, flats: 0, amount: 0 }));
+  for (const row of rows) {
+    const total = totals[buckets.findIndex(([, below]) => valueOf(row) < below)];
+    total.flats++;
+    total.amount = round(total.amount + row.overdue_amount);
+  }
+  return totals;
+}
+
+// Every flat with a bill past its due date, worst first. Months overdue are counted in 30-day
+// steps from the oldest overdue bill's due date.
+export async function defaultersReport(now = new Date()): Promise<DefaultersReport> {
+  const [policy, flats] = await Promise.all([
+    getDunningPolicy(),
+    prisma.flat.findMany({
+      where: { bills: { some: { status: { in: OPEN_BILL_STATUSES }, dueDate: { lt: now } } } },
+      include: { resident: true, bills: openBills },
+    }),
+  ]);
+
+  const rows: DefaulterRow[] = [];
+  for (const flat of flats) {
+    const arrears = arrearsOf(flat.bills, now);
+    if (!arrears) continue;
+    rows.push({
+      flat_id: flat.number,
+      resident: flat.resident?.name ?? null,
+      overdue_amount: arrears.amount,
+      overdue_bills: arrears.bills.length,
+      oldest_due: arrears.oldestDue.toISOString(),
+      days_overdue: arrears.days,
+      months_overdue: Math.floor(arrears.days / 30),
+      stage: flat.dunningStage as DunningStage,
+      stage_since: flat.dunningSince?.toISOString() ?? null,
+      due_stage: dueStage(arrears.days, arrears.amount, policy),
+    });
+  }
+  rows.sort((a, b) => b.days_overdue - a.days_overdue || b.overdue_amount - a.overdue_amount);
+
+  return {
+    as_of: now.toISOString(),
+    total_overdue: round(rows.reduce((sum, r) => sum + r.overdue_amount, 0)),
+    by_age: bucketize(rows, AGE_BUCKETS, r => r.months_overdue),
+    by_amount: bucketize(rows, AMOUNT_BUCKETS, r => r.overdue_amount),
+    flats: rows,
+  };
+}
+
+// --- Moving along the ladder ---
+
+interface StageChange {
+  adminId: number | null;
+  note?: string;
+  hearingDate?: string;
+}
+
+// Moves the flat one rung up. A NOTICE takes the next notice number; a REMINDER also emails the
+// resident, which is attempted after the escalation is recorded and doesn't undo it if it fails.
+export async function escalateFlat(flatId: string, { adminId, note, hearingDate }: StageChange, now = new Date()) {
+  const { flat, event } = await prisma.$transaction(async tx => {
+    const flat = await tx.flat.findUniqueOrThrow({ where: { id: flatId }, include: { bills: openBills } });
+    const arrears = arrearsOf(flat.bills, now);
+    if (!arrears) throw new DunningError(`Flat ${flat.number} has no overdue bills`);
+    if (flat.dunningStage === "HEARING") throw new DunningError(`Flat ${flat.number} is already at the last stage`);
+
+    const stage = DUNNING_STAGES[rank(flat.dunningStage) + 1];
+    const event = await tx.dunningEvent.create({
+      data: {
+        flatId,
+        stage,
+        previousStage: flat.dunningStage,
+        overdueAmount: arrears.amount,
+        daysOverdue: arrears.days,
+        bills: JSON.stringify(arrears.bills),
+        noticeNo: stage === "NOTICE" ? await nextDocumentNumber(tx, NOTICE_SERIES) : null,
+        hearingAt: stage === "HEARING" && hearingDate ? new Date(`${hearingDate}T00:00:00`) : null,
+        note,
+        createdById: adminId,
+        createdAt: now,
+      },
+    });
+    await tx.flat.update({ where: { id: flatId }, data: { dunningStage: stage, dunningSince: now } });
+    return { flat, event };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  let reminder: Awaited<ReturnType<typeof sendFlatReminder>> | null = null;
+  let reminderError: string | null = null;
+  if (event.stage === "REMINDER") {
+    try {
+      reminder = await sendFlatReminder(flatId, adminId);
+      if (reminder.status !== "SENT") reminderError = reminder.error;
+    } catch (err) {
+      reminderError = (err as Error).message;
+    }
+  }
+  return { flat, event, reminder, reminderError };
+}
+
+// Takes the flat off the ladder: on schedule once nothing is overdue, or by an admin (a payment
+// plan agreed at the hearing, a disputed bill...). dunningSince restarts the step interval, so a
+// flat cleared by hand while still in arrears isn't put straight back on the next run.
+export function clearFlat(flatId: string, { adminId, note }: StageChange, now = new Date()) {
+  return prisma.$transaction(async tx => {
+    const flat = await tx.flat.findUniqueOrThrow({ where: { id: flatId }, include: { bills: openBills } });
+    if (flat.dunningStage === "NONE") throw new DunningError(`Flat ${flat.number} is not in dunning`);
+
+    const arrears = arrearsOf(flat.bills, now);
+    const event = await tx.dunningEvent.create({
+      data: {
+        flatId,
+        stage: "NONE",
+        previousStage: flat.dunningStage,
+        overdueAmount: arrears?.amount ?? 0,
+        daysOverdue: arrears?.days ?? 0,
+        note,
+        createdById: adminId,
+        createdAt: now,
+      },
+    });
+    await tx.flat.update({ where: { id: flatId }, data: { dunningStage: "NONE", dunningSince: now } });
+    return { flat, event };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+// One pass of the schedule. Flats that have paid up are always cleared; escalation only happens
+// with the policy enabled, one rung per flat and no sooner than stepIntervalDays after the last
+// change (including being cleared), so every resident gets each stage's warning before the next
+// one lands.
+export async function runDunning(now = new Date()): Promise<DunningRun> {
+  const policy = await getDunningPolicy();
+  const flats = await prisma.flat.findMany({
+    where: {
+      OR: [
+        { dunningStage: { not: "NONE" } },
+        { bills: { some: { status: { in: OPEN_BILL_STATUSES }, dueDate: { lt: now } } } },
+      ],
+    },
+    include: { bills: openBills },
+  });
+
+  const result: DunningRun = { escalated: 0, cleared: 0 };
+  const escalated: string[] = [];
+  for (const flat of flats) {
+    const arrears = arrearsOf(flat.bills, now);
+    if (!arrears) {
+      if (flat.dunningStage === "NONE") continue;
+      await clearFlat(flat.id, { adminId: null, note: "Overdue dues paid" }, now);
+      result.cleared++;
+      continue;
+    }
+
+    if (!policy.enabled || rank(dueStage(arrears.days, arrears.amount, policy)) <= rank(flat.dunningStage)) continue;
+    if (flat.dunningSince && now.getTime() - flat.dunningSince.getTime() < policy.stepIntervalDays * DAY_MS) continue;
+    const { event } = await escalateFlat(flat.id, { adminId: null }, now);
+    escalated.push(`${flat.number} to ${event.stage.toLowerCase()}`);
+    result.escalated++;
+  }
+
+  if (result.escalated || result.cleared) {
+    await logActivity({
+      userId: null,
+      action: "DUNNING_RUN",
+      details: [
+        ...(escalated.length ? [`Escalated ${escalated.join(", ")}`] : []),
+        ...(result.cleared ? [`${result.cleared} flats cleared after paying their overdue dues`] : []),
+      ].join("; "),
+    });
+  }
+  return result;
+}
+
+export function toDunningEventRow(e: DunningEvent & { flat: Flat; createdBy: User | null }): DunningEventRow {
+  return {
+    id: e.id,
+    flat_id: e.flat.number,
+    stage: e.stage as DunningStage,
+    previous_stage: e.previousStage as DunningStage,
+    overdue_amount: e.overdueAmount,
+    days_overdue: e.daysOverdue,
+    notice_no: e.noticeNo,
+    hearing_at: e.hearingAt?.toISOString() ?? null,
+    note: e.note,
+    created_by: e.createdBy?.name ?? null,
+    created_at: e.createdAt.toISOString(),
+  };
+}
+
+export type NoticeEvent = DunningEvent & { flat: Flat & { resident: Resident | null } };
+
+export const noticeBills = (event: DunningEvent): NoticeBill[] => JSON.parse(event.bills);
+
+// Checks the ladder at startup and then every six hours for the life of the server.
+export function startDunningSchedule() {
+  const run = () => runDunning().catch(err => console.error("Dunning run failed", err));
+  run();
+  setInterval(run, DUNNING_INTERVAL_MS).unref();
+}
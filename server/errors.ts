@@ -0,0 +1,36 @@
+import type { Request, Response, NextFunction } from "express";
+import { Prisma } from "@prisma/client";
+import type { ApiErrorBody } from "../src/lib/schemas";
+
+// Turns an exception from a route handler into the standard error envelope.
+// Known Prisma constraint failures become field-level 4xx errors; anything else is logged.
+export function sendError(res: Response, err: unknown, fallbackMessage = "Server error", fallbackStatus = 500) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    const fields = [err.meta?.target ?? err.meta?.field_name ?? []].flat().map(String);
+    const errors = (message: string) => Object.fromEntries(fields.map(f => [f, message]));
+
+    switch (err.code) {
+      case "P2002":
+        return send(res, 409, { success: false, message: "A record with these details already exists", errors: errors("Already in use") });
+      case "P2003":
+        return send(res, 400, { success: false, message: "A referenced record does not exist", errors: errors("Does not exist") });
+      case "P2025":
+        return send(res, 404, { success: false, message: "Record not found" });
+    }
+  }
+
+  console.error(err);
+  send(res, fallbackStatus, { success: false, message: fallbackMessage });
+}
+
+function send(res: Response, status: number, body: ApiErrorBody) {
+  res.status(status).json(body);
+}
+
+export function apiErrorHandler(err: unknown, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+  if (err instanceof Error && "type" in err && err.type === "entity.parse.failed") {
+    return send(res, 400, { success: false, message: "Request body is not valid JSON" });
+  }
+  sendError(res, err);
+}
@@ -0,0 +1,129 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { Expense, ExpenseCategory, User, Vendor } from "@prisma/client";
+import { prisma } from "./prisma";
+import { round } from "./money";
+import { periodLabel, type BillFileInput, type ExpenseRow, type FinanceReport } from "../src/lib/schemas";
+
+// Society spending. Vendors' bills are kept as files under UPLOAD_DIR rather than in the database,
+// named by a random id so the uploaded name never reaches the filesystem.
+
+const billDir = () => path.join(process.env.UPLOAD_DIR || path.join(process.cwd(), ".uploads"), "expense-bills");
+
+// Stored names are only ever ones we generated.
+const BILL_FILE = /^[\w-]+\.(png|jpg|webp|pdf)$/;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+export class ExpenseError extends Error {}
+
+// "2026-10-19" in local time, matching how dates are picked in the UI.
+const dayOf = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+export const startOfDay = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+const periodOf = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+
+export async function saveBillFile({ fileName, dataUrl }: BillFileInput) {
+  const [, type, data] = dataUrl.match(/^data:([\w/+.-]+);base64,(.*)$/s) ?? [];
+  const extension = EXTENSIONS[type];
+  if (!extension) throw new ExpenseError("Attach the bill as a PNG, JPEG, WebP or PDF");
+  const billFile = `${Date.now()}-${crypto.randomBytes(6).toString("hex")}.${extension}`;
+  await fs.mkdir(billDir(), { recursive: true });
+  await fs.writeFile(path.join(billDir(), billFile), Buffer.from(data, "base64"));
+  return { billFile, billFileName: path.basename(fileName), billFileType: type };
+}
+
+export async function readBillFile(billFile: string) {
+  if (!BILL_FILE.test(billFile)) return null;
+  try {
+    return await fs.readFile(path.join(billDir(), billFile));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+// Best effort: a file left behind is harmless, a failed delete shouldn't fail the request.
+export async function removeBillFile(billFile: string | null) {
+  if (!billFile || !BILL_FILE.test(billFile)) return;
+  try {
+    await fs.unlink(path.join(billDir(), billFile));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") console.error("Failed to remove expense bill", err);
+  }
+}
+
+export const expenseInclude = { category: true, vendor: true, createdBy: true } as const;
+
+export function toExpenseRow(e: Expense & { category: ExpenseCategory; vendor: Vendor | null; createdBy: User | null }): ExpenseRow {
+  return {
+    id: e.id,
+    category_id: e.categoryId,
+    category: e.category.name,
+    vendor_id: e.vendorId,
+    vendor: e.vendor?.name ?? null,
+    description: e.description,
+    amount: e.amount,
+    spent_on: dayOf(e.spentOn),
+    mode: e.mode as ExpenseRow["mode"],
+    reference: e.reference,
+    bill_file: e.billFileName,
+    created_by: e.createdBy?.name ?? null,
+    created_at: e.createdAt.toISOString(),
+  };
+}
+
+// Money in against money out, month by month. Income is what was actually collected (confirmed
+// payments on the day they were received), not what was billed. Without a range, the twelve
+// months up to and including this one.
+export async function financeReport(from?: string, to?: string): Promise<FinanceReport> {
+  const now = new Date();
+  const last = to ?? periodOf(now);
+  const first = from ?? periodOf(new Date(Number(last.slice(0, 4)), Number(last.slice(5)) - 12, 1));
+  const start = new Date(Number(first.slice(0, 4)), Number(first.slice(5)) - 1, 1);
+  const end = new Date(Number(last.slice(0, 4)), Number(last.slice(5)), 1);
+
+  const [payments, expenses, categories] = await Promise.all([
+    prisma.payment.findMany({ where: { status: "CONFIRMED", paidAt: { gte: start, lt: end } }, select: { amount: true, paidAt: true } }),
+    prisma.expense.findMany({ where: { spentOn: { gte: start, lt: end } }, select: { amount: true, spentOn: true, categoryId: true } }),
+    prisma.expenseCategory.findMany({ orderBy: { name: "asc" } }),
+  ]);
+
+  const months = new Map<string, { income: number; expense: number }>();
+  for (let d = new Date(start); d < end; d.setMonth(d.getMonth() + 1)) {
+    months.set(periodOf(d), { income: 0, expense: 0 });
+  }
+  for (const p of payments) months.get(periodOf(p.paidAt))!.income += p.amount;
+  for (const e of expenses) months.get(periodOf(e.spentOn))!.expense += e.amount;
+
+  const byCategory = categories
+    .map(c => {
+      const spent = expenses.filter(e => e.categoryId === c.id);
+      return { category_id: c.id, category: c.name, expenses: spent.length, amount: round(spent.reduce((sum, e) => sum + e.amount, 0)) };
+    })
+    .filter(c => c.expenses > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+  return {
+    from: first,
+    to: last,
+    total_income: round(payments.reduce((sum, p) => sum + p.amount, 0)),
+    total_expense: round(expenses.reduce((sum, e) => sum + e.amount, 0)),
+    months: [...months].map(([period, m]) => ({
+      period,
+      month: periodLabel(period),
+      income: round(m.income),
+      expense: round(m.expense),
+    })),
+    by_category: byCategory,
+  };
+}
@@ -0,0 +1,15 @@
+import { prisma } from "./prisma";
+
+// Flats are stored as "A101"; users type "A-101", "a 101" and so on.
+export function normalizeFlatNumber(input: string) {
+  return input.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function findFlatByNumber(input: string) {
+  return prisma.flat.findFirst({ where: { number: normalizeFlatNumber(input) } });
+}
+
+// Wings are named "A Wing", "B Wing"...; the UI calls them towers A-D.
+export function towerOf(wingName: string) {
+  return wingName.replace(/\s*Wing$/i, "");
+}
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { handleGatewayCallback } from "./index";
+import { SYSTEM_ACCOUNTS, accountBalances, fakeDbFixture } from "../testing";
+import type { GatewayCallback } from "./types";
+
+const fixture = fakeDbFixture(() => ({
+  ledgerAccount: SYSTEM_ACCOUNTS,
+  flat: [{ id: "f1", number: "A101", credit: 0 }],
+  maintenanceBill: [
+    { id: "sep", flatId: "f1", period: "2026-09", invoiceNo: "INV/26-27/00001", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID" },
+  ],
+  payment: [{
+    id: 1, flatId: "f1", amount: 5000, mode: "ONLINE", gateway: "mock", gatewayOrderId: "order_1", status: "PENDING",
+    reference: null, receiptNo: null, note: null, paidAt: new Date(),
+  }],
+  paymentAllocation: [{ paymentId: 1, billId: "sep", amount: 5000 }],
+}));
+
+const callback = (overrides: Partial<GatewayCallback> = {}): GatewayCallback =>
+  ({ eventId: "evt_1", orderId: "order_1", status: "SUCCESS", amount: 5000, transactionId: "txn_1", ...overrides });
+
+const payment = () => fixture.db.rows("payment")[0];
+const bill = () => fixture.db.rows("maintenanceBill")[0];
+
+describe("handleGatewayCallback", () => {
+  test("confirms the payment and settles its bills on a capture", async () => {
+    const { outcome } = await handleGatewayCallback("mock", callback());
+    assert.equal(outcome, "CONFIRMED");
+    assert.equal(payment().status, "CONFIRMED");
+    assert.equal(payment().reference, "txn_1");
+    assert.ok(payment().receiptNo);
+    assert.deepEqual([bill().paidAmount, bill().status], [5000, "PAID"]);
+    assert.equal(fixture.db.rows("activityLog")[0].action, "PAYMENT_CONFIRMED");
+  });
+
+  test("changes nothing when the same event is delivered again", async () => {
+    await handleGatewayCallback("mock", callback());
+    const before = { payment: { ...payment() }, bill: { ...bill() }, ledger: accountBalances(fixture.db), entries: fixture.db.rows("journalEntry").length };
+
+    assert.equal((await handleGatewayCallback("mock", callback())).outcome, "DUPLICATE");
+    assert.deepEqual(payment(), before.payment);
+    assert.deepEqual(bill(), before.bill);
+    assert.deepEqual(accountBalances(fixture.db), before.ledger);
+    assert.equal(fixture.db.rows("journalEntry").length, before.entries);
+    assert.equal(fixture.db.rows("gatewayEvent").length, 1);
+  });
+
+  test("ignores later events for an order that's already settled", async () => {
+    await handleGatewayCallback("mock", callback());
+    const receiptNo = payment().receiptNo;
+
+    assert.equal((await handleGatewayCallback("mock", callback({ eventId: "evt_2" }))).outcome, "DUPLICATE");
+    assert.equal((await handleGatewayCallback("mock", callback({ eventId: "evt_3", status: "FAILED" }))).outcome, "DUPLICATE");
+    assert.equal(payment().status, "CONFIRMED");
+    assert.equal(payment().receiptNo, receiptNo);
+    assert.equal(bill().paidAmount, 5000);
+    assert.equal(fixture.db.rows("walletEntry").length, 0);
+  });
+
+  test("rejects a pending payment the gateway reports as failed", async () => {
+    assert.equal((await handleGatewayCallback("mock", callback({ status: "FAILED" }))).outcome, "REJECTED");
+    assert.equal(payment().status, "REJECTED");
+    assert.equal(bill().status, "UNPAID");
+  });
+
+  test("credits a capture for the wrong amount to the wallet for review", async () => {
+    const { outcome } = await handleGatewayCallback("mock", callback({ amount: 6000 }));
+    assert.equal(outcome, "REVIEW");
+    assert.equal(payment().amount, 6000);
+    assert.match(String(payment().note), /Gateway reported ₹6000, expected ₹5000/);
+    assert.deepEqual([bill().paidAmount, bill().status], [5000, "PAID"]);
+    assert.equal(fixture.db.rows("flat")[0].credit, 1000);
+    assert.deepEqual(accountBalances(fixture.db), { 1100: 6000, 1200: -5000, 2100: -1000 });
+  });
+
+  test("records events for orders it doesn't know", async () => {
+    assert.equal((await handleGatewayCallback("mock", callback({ orderId: "order_9" }))).outcome, "UNKNOWN_ORDER");
+    assert.equal((await handleGatewayCallback("mock", callback({ orderId: "order_9" }))).outcome, "DUPLICATE");
+    assert.equal(payment().status, "PENDING");
+  });
+});
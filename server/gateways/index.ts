@@ -0,0 +1,191 @@
+import { Prisma, type Payment, type PaymentAllocation } from "@prisma/client";
+import { prisma } from "../prisma";
+import { logActivity } from "../activity";
+import { postPayment } from "../ledger";
+import { PaymentError, advanceOf, applyPayment, createPayment, paymentInclude, postWalletEntry } from "../payments";
+import { RECEIPT_SERIES, nextDocumentNumber } from "../sequences";
+import { applyCredit } from "../wallet";
+import { EPSILON, round } from "../money";
+import { periodLabel } from "../../src/lib/schemas";
+import { mockGateway } from "./mock";
+import type { GatewayCallback, PaymentGateway } from "./types";
+
+export { GatewaySignatureError } from "./types";
+
+// Providers the app can take payments and webhooks through. The mock is only registered while it
+// is the configured gateway, since its pages are public.
+function gateways(): Record<string, PaymentGateway> {
+  return process.env.PAYMENT_GATEWAY === "mock" ? { mock: mockGateway } : {};
+}
+
+// The provider residents are sent to, chosen with PAYMENT_GATEWAY. Without one, online payment
+// is switched off.
+export function activeGateway() {
+  const name = process.env.PAYMENT_GATEWAY;
+  if (!name) throw new PaymentError("Online payment is not available; pay by UPI, NEFT or cheque and report it instead");
+  const gateway = gateways()[name];
+  if (!gateway) throw new Error(`Unknown payment gateway "${name}"`);
+  return gateway;
+}
+
+export function findGateway(name: string): PaymentGateway | undefined {
+  return gateways()[name];
+}
+
+interface OnlinePaymentRequest {
+  flatId: string;
+  flatNumber: string;
+  amount: number;
+  billIds?: string[];
+}
+
+// Reserves the split as a PENDING ONLINE payment and opens a checkout with the provider.
+export async function startOnlinePayment({ flatNumber, ...request }: OnlinePaymentRequest) {
+  const gateway = activeGateway();
+  const payment = await createPayment({ ...request, mode: "ONLINE", gateway: gateway.name, status: "PENDING" });
+
+  try {
+    const session = await gateway.createOrder({
+      paymentId: payment.id,
+      amount: payment.amount,
+      description: `Maintenance for Flat ${flatNumber}: ${[
+        ...payment.allocations.map(a => periodLabel(a.bill.period)),
+        ...(advanceOf(payment) > 0 ? ["advance"] : []),
+      ].join(", ")}`,
+      returnUrl: "/",
+    });
+    await prisma.payment.update({ where: { id: payment.id }, data: { gatewayOrderId: session.orderId } });
+    return session;
+  } catch (err) {
+    await prisma.payment.update({ where: { id: payment.id }, data: { status: "REJECTED", note: "Could not start checkout" } });
+    throw err;
+  }
+}
+
+type Tx = Prisma.TransactionClient;
+
+type CallbackOutcome = "CONFIRMED" | "REJECTED" | "REVIEW" | "DUPLICATE" | "UNKNOWN_ORDER";
+
+// The callback that told us the provider took the money for this order, if one has arrived.
+export function capturedEvent(tx: Tx, payment: Pick<Payment, "gateway" | "gatewayOrderId">) {
+  if (!payment.gateway || !payment.gatewayOrderId) return null;
+  return tx.gatewayEvent.findFirst({ where: { provider: payment.gateway, orderId: payment.gatewayOrderId, status: "SUCCESS" } });
+}
+
+// Confirms a payment the provider has captured. Money that was taken is never written off: if
+// the bills can't take it (they were settled some other way in the meantime, the checkout had
+// already been given up on, or the provider took a different amount) the payment stands for what
+// was captured, unallocated, and all of it becomes advance credit that pays whatever the flat owes
+// now. That outcome is REVIEW, so the office can see why the receipt doesn't match the checkout.
+async function settleCaptured(
+  tx: Tx,
+  payment: Payment & { allocations: PaymentAllocation[] },
+  captured: { amount: number; transactionId?: string },
+  recordedById?: number,
+) {
+  let problem: string | null = null;
+  if (payment.status !== "PENDING") {
+    problem = "The checkout had already been closed";
+  } else if (Math.abs(captured.amount - payment.amount) > EPSILON) {
+    problem = `Gateway reported ₹${captured.amount}, expected ₹${payment.amount}`;
+  } else {
+    try {
+      await applyPayment(tx, payment);
+    } catch (err) {
+      if (!(err instanceof PaymentError)) throw err;
+      problem = err.message;
+    }
+  }
+
+  const amount = round(captured.amount);
+  if (problem) {
+    await tx.paymentAllocation.deleteMany({ where: { paymentId: payment.id } });
+    await postWalletEntry(tx, payment.flatId, amount, { kind: "ADVANCE", paymentId: payment.id });
+    await applyCredit(tx, payment.flatId);
+  }
+  const updated = await tx.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: "CONFIRMED",
+      amount,
+      note: problem && `${problem}; ₹${amount} credited to the flat's wallet instead`,
+      reference: captured.transactionId ?? payment.reference,
+      paidAt: new Date(),
+      receiptNo: await nextDocumentNumber(tx, RECEIPT_SERIES),
+      recordedById,
+    },
+    include: paymentInclude,
+  });
+  await postPayment(tx, updated);
+  return { outcome: (problem ? "REVIEW" : "CONFIRMED") as CallbackOutcome, payment: updated };
+}
+
+const CALLBACK_ACTIONS: Partial<Record<CallbackOutcome, string>> = {
+  CONFIRMED: "PAYMENT_CONFIRMED",
+  REVIEW: "PAYMENT_REVIEW",
+  REJECTED: "PAYMENT_FAILED",
+};
+
+// Applies a verified callback. Providers deliver at least once, so the same event (or a second
+// event for an order that's already settled) must change nothing: the event id is recorded in
+// the same transaction that settles the bills, and a payment is only ever confirmed once.
+export async function handleGatewayCallback(provider: string, callback: GatewayCallback) {
+  const result = await prisma.$transaction(async tx => {
+    const seen = await tx.gatewayEvent.findUnique({
+      where: { provider_eventId: { provider, eventId: callback.eventId } },
+    });
+    if (seen) return { outcome: "DUPLICATE" as CallbackOutcome, payment: null };
+
+    await tx.gatewayEvent.create({
+      data: {
+        provider,
+        eventId: callback.eventId,
+        orderId: callback.orderId,
+        status: callback.status,
+        payload: JSON.stringify(callback),
+      },
+    });
+
+    const payment = await tx.payment.findUnique({
+      where: { gatewayOrderId: callback.orderId },
+      include: { allocations: true },
+    });
+    if (!payment || payment.gateway !== provider) return { outcome: "UNKNOWN_ORDER" as CallbackOutcome, payment: null };
+    if (payment.status === "CONFIRMED") return { outcome: "DUPLICATE" as CallbackOutcome, payment: null };
+
+    if (callback.status === "FAILED") {
+      if (payment.status !== "PENDING") return { outcome: "DUPLICATE" as CallbackOutcome, payment: null };
+      const updated = await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: "REJECTED", note: "Payment failed or was cancelled at the gateway" },
+        include: paymentInclude,
+      });
+      return { outcome: "REJECTED" as CallbackOutcome, payment: updated };
+    }
+    return settleCaptured(tx, payment, callback);
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  const action = CALLBACK_ACTIONS[result.outcome];
+  if (result.payment && action) {
+    await logActivity({
+      userId: null,
+      action,
+      target: `Flat ${result.payment.flat.number}`,
+      details: `₹${result.payment.amount} online via ${provider}: ${result.payment.note ?? `confirmed (${result.payment.reference})`}`,
+    });
+  }
+  return result;
+}
+
+// For online payments left pending after the provider captured them: an admin confirms one with
+// the same outcome a callback would have had.
+export function confirmCapturedPayment(id: number, adminId: number) {
+  return prisma.$transaction(async tx => {
+    const payment = await tx.payment.findUnique({ where: { id }, include: { allocations: true } });
+    if (!payment) throw new PaymentError("Payment not found");
+    if (payment.status !== "PENDING") throw new PaymentError(`Payment is already ${payment.status}`);
+    const event = await capturedEvent(tx, payment);
+    if (!event) throw new PaymentError("Online payments are confirmed by the payment gateway");
+    return settleCaptured(tx, payment, JSON.parse(event.payload) as GatewayCallback, adminId);
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import express from "express";
+import { GatewaySignatureError, type CheckoutRequest, type GatewayCallback, type PaymentGateway } from "./types";
+
+// A stand-in provider for local development. It serves its own checkout page, then signs and
+// POSTs a webhook back to the app exactly like a real gateway would. Anyone who can reach its
+// pages can mark an order paid, so it only exists with PAYMENT_GATEWAY=mock (see server.ts and
+// ./index.ts) and always needs its own MOCK_GATEWAY_SECRET.
+
+const SIGNATURE_HEADER = "x-mock-signature";
+// Reject callbacks signed more than five minutes ago so a captured one can't be replayed later.
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Provider-side state: orders waiting on the checkout page. Lost on restart, like an expired session.
+const orders = new Map<string, CheckoutRequest>();
+
+function secret() {
+  const value = process.env.MOCK_GATEWAY_SECRET;
+  if (!value) throw new Error("MOCK_GATEWAY_SECRET must be set to use the mock payment gateway");
+  return value;
+}
+
+// Where the app itself is served: the webhook is delivered here, never to whatever Host header
+// the checkout form was posted with. The server listens on port 3000 when APP_URL isn't set.
+function appOrigin() {
+  return new URL(process.env.APP_URL || "http://localhost:3000").origin;
+}
+
+// Called at startup when the mock is switched on, so a missing secret stops the server.
+export function checkMockGateway() {
+  secret();
+  appOrigin();
+}
+
+function hmac(payload: string) {
+  return crypto.createHmac("sha256", secret()).update(payload).digest("hex");
+}
+
+// "t=<unix ms>,v1=<hex HMAC-SHA256 of `${t}.${body}`>"
+export function signWebhook(body: string, timestamp = Date.now()) {
+  return `t=${timestamp},v1=${hmac(`${timestamp}.${body}`)}`;
+}
+
+function verifySignature(rawBody: Buffer, header: string | string[] | undefined) {
+  const parts = Object.fromEntries(String(header ?? "").split(",").map(p => p.split("=", 2)));
+  const timestamp = Number(parts.t);
+  if (!timestamp || !parts.v1) throw new GatewaySignatureError("Missing webhook signature");
+  if (Math.abs(Date.now() - timestamp) > SIGNATURE_TOLERANCE_MS) throw new GatewaySignatureError("Webhook signature has expired");
+
+  const expected = Buffer.from(hmac(`${timestamp}.${rawBody.toString("utf8")}`), "hex");
+  const actual = Buffer.from(parts.v1, "hex");
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new GatewaySignatureError("Invalid webhook signature");
+  }
+}
+
+export const mockGateway: PaymentGateway = {
+  name: "mock",
+
+  async createOrder(request) {
+    const orderId = `mock_order_${crypto.randomBytes(8).toString("hex")}`;
+    orders.set(orderId, request);
+    return { orderId, redirectUrl: `/api/gateway/mock/checkout/${orderId}` };
+  },
+
+  verifyWebhook(rawBody, headers) {
+    verifySignature(rawBody, headers[SIGNATURE_HEADER]);
+    let event: GatewayCallback;
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new GatewaySignatureError("Malformed webhook payload");
+    }
+    if (!event?.eventId || !event.orderId || !["SUCCESS", "FAILED"].includes(event.status)) {
+      throw new GatewaySignatureError("Malformed webhook payload");
+    }
+    return event;
+  },
+};
+
+// The provider's own pages. Public in routePolicy: the resident arrives here by redirect,
+// without the app's bearer token.
+export const mockGatewayRouter = express.Router();
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// GET /api/gateway/mock/checkout/:orderId
+mockGatewayRouter.get("/api/gateway/mock/checkout/:orderId", (req, res) => {
+  const order = orders.get(req.params.orderId);
+  if (!order) return res.status(404).send("This checkout session has expired.");
+
+  res.send(`<!doctype html>
+<html><head><title>Mock Payment Gateway</title><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body style="font-family: system-ui, sans-serif; background: #0f172a; color: #e2e8f0; display: grid; place-items: center; min-height: 100vh; margin: 0">
+  <form method="post" style="background: #1e293b; padding: 2rem; border-radius: 1rem; width: 320px">
+    <p style="color: #94a3b8; font-size: 12px; text-transform: uppercase">Mock Payment Gateway · test mode</p>
+    <h2 style="margin: 0.5rem 0">₹${order.amount.toLocaleString("en-IN")}</h2>
+    <p style="color: #94a3b8">${escapeHtml(order.description)}</p>
+    <button name="outcome" value="SUCCESS" style="width: 100%; padding: 0.75rem; margin-top: 1rem; background: #16a34a; color: white; border: 0; border-radius: 0.5rem">Pay</button>
+    <button name="outcome" value="FAILED" style="width: 100%; padding: 0.75rem; margin-top: 0.5rem; background: #334155; color: white; border: 0; border-radius: 0.5rem">Simulate failure</button>
+  </form>
+</body></html>`);
+});
+
+// POST /api/gateway/mock/checkout/:orderId
+// Delivers the signed webhook, then sends the resident back to the app.
+mockGatewayRouter.post("/api/gateway/mock/checkout/:orderId", express.urlencoded({ extended: false }), async (req, res) => {
+  const order = orders.get(req.params.orderId);
+  if (!order) return res.status(404).send("This checkout session has expired.");
+  orders.delete(req.params.orderId);
+
+  const status = req.body.outcome === "SUCCESS" ? "SUCCESS" : "FAILED";
+  const event: GatewayCallback = {
+    eventId: `mock_evt_${crypto.randomBytes(8).toString("hex")}`,
+    orderId: req.params.orderId,
+    status,
+    amount: order.amount,
+    transactionId: status === "SUCCESS" ? `MOCKTXN${Date.now()}` : undefined,
+  };
+  const body = JSON.stringify(event);
+
+  try {
+    await fetch(`${appOrigin()}/api/payments/webhook/mock`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [SIGNATURE_HEADER]: signWebhook(body) },
+      body,
+    });
+  } catch (err) {
+    console.error("Mock gateway could not deliver webhook", err);
+  }
+
+  const url = new URL(order.returnUrl, appOrigin());
+  url.searchParams.set("payment", status === "SUCCESS" ? "success" : "failed");
+  res.redirect(303, url.pathname + url.search);
+});
@@ -0,0 +1,35 @@
+import type { IncomingHttpHeaders } from "http";
+
+export interface CheckoutRequest {
+  paymentId: number;
+  amount: number;
+  description: string;
+  // Where the provider sends the resident back to once they've paid or given up.
+  returnUrl: string;
+}
+
+export interface CheckoutSession {
+  orderId: string;
+  redirectUrl: string;
+}
+
+// A webhook after its signature has been checked.
+export interface GatewayCallback {
+  eventId: string;
+  orderId: string;
+  status: "SUCCESS" | "FAILED";
+  amount: number;
+  transactionId?: string;
+}
+
+// What a payment provider has to implement. The rest of the app never talks to a provider
+// directly, so adding Razorpay or PayU means one more implementation of this and a line in
+// the registry in ./index.ts.
+export interface PaymentGateway {
+  name: string;
+  createOrder(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws GatewaySignatureError unless the body was signed by the provider.
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): GatewayCallback;
+}
+
+export class GatewaySignatureError extends Error {}
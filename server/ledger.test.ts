@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { Expense, ExpenseCategory, Vendor } from "@prisma/client";
+import { postExpense, postVoucher, unpostExpense } from "./ledger";
+import { prisma } from "./prisma";
+import { SYSTEM_ACCOUNTS, accountBalances, fakeDbFixture } from "./testing";
+
+const fixture = fakeDbFixture(() => ({
+  ledgerAccount: SYSTEM_ACCOUNTS,
+  expenseCategory: [{ id: 1, name: "Housekeeping", active: true }],
+  expense: [{ id: 7, categoryId: 1, description: "Cleaning supplies", amount: 1200, spentOn: new Date(2026, 8, 14), mode: "UPI", createdById: 1 }],
+}));
+
+const account = (code: string) => Number(fixture.db.rows("ledgerAccount").find(a => a.code === code)?.id);
+
+describe("postVoucher", () => {
+  const date = "2026-10-01";
+
+  test("refuses lines that don't balance", async () => {
+    await assert.rejects(
+      postVoucher({ date, narration: "Bank charges", lines: [{ accountId: account("3100"), debit: 100, credit: 0 }, { accountId: account("1100"), debit: 0, credit: 90 }] }, 1),
+      /Bank charges doesn't balance: ₹100 in debits against ₹90 in credits/,
+    );
+    assert.equal(fixture.db.rows("journalEntry").length, 0);
+  });
+
+  test("posts a balanced voucher, dropping empty lines", async () => {
+    const entry = await postVoucher({
+      date,
+      narration: "Opening bank balance",
+      lines: [
+        { accountId: account("1100"), debit: 0.1 + 0.2, credit: 0 },
+        { accountId: account("3100"), debit: 0, credit: 0.3 },
+        { accountId: account("1110"), debit: 0, credit: 0 },
+      ],
+    }, 1);
+    assert.equal(entry.voucherNo, "JV-000001");
+    assert.equal(entry.lines.length, 2);
+    assert.deepEqual(accountBalances(fixture.db), { 1100: 0.3, 3100: -0.3 });
+  });
+});
+
+describe("postExpense", () => {
+  const load = () => {
+    const expense = fixture.db.rows("expense")[0];
+    return { ...expense, category: fixture.db.rows("expenseCategory")[0], vendor: null } as Expense & { category: ExpenseCategory; vendor: Vendor | null };
+  };
+  const post = (adminId?: number) => prisma.$transaction(tx => postExpense(tx, load(), adminId));
+  const expenseCode = () => String(fixture.db.rows("ledgerAccount").find(a => a.expenseCategoryId === 1)?.code);
+
+  test("debits the category's account and credits the bank", async () => {
+    await post();
+    assert.deepEqual(accountBalances(fixture.db), { 1100: -1200, [expenseCode()]: 1200 });
+  });
+
+  test("reverses the entry of an edited expense and posts it again", async () => {
+    await post();
+    const [original] = fixture.db.rows("journalEntry");
+    Object.assign(fixture.db.rows("expense")[0], { amount: 1500, mode: "CASH" });
+    await post(2);
+
+    const [, reversal, replacement] = fixture.db.rows("journalEntry");
+    assert.equal(reversal.reversalOfId, original.id);
+    assert.equal(reversal.createdById, 2);
+    assert.match(String(reversal.narration), /^Reversal of 2026-09-14 entry: Cleaning supplies/);
+    assert.deepEqual(replacement.date, new Date(2026, 8, 14));
+    assert.equal(fixture.db.rows("journalLine").filter(l => l.entryId === original.id).length, 2, "the original entry is kept");
+    assert.deepEqual(accountBalances(fixture.db), { 1100: 0, 1110: -1500, [expenseCode()]: 1500 });
+
+    Object.assign(fixture.db.rows("expense")[0], { amount: 1400 });
+    await post(2);
+    assert.equal(fixture.db.rows("journalEntry").length, 5);
+    assert.deepEqual(accountBalances(fixture.db), { 1100: 0, 1110: -1400, [expenseCode()]: 1400 });
+  });
+
+  test("reverses the entry of a deleted expense once", async () => {
+    await post();
+    await prisma.$transaction(tx => unpostExpense(tx, 7, 2));
+    assert.equal(await prisma.$transaction(tx => unpostExpense(tx, 7, 2)), null);
+    assert.equal(fixture.db.rows("journalEntry").length, 2);
+    assert.deepEqual(accountBalances(fixture.db), { 1100: 0, [expenseCode()]: 0 });
+  });
+});
@@ -0,0 +1,553 @@
+import {
+  Prisma,
+  type BillAdjustment,
+  type BillLineItem,
+  type Expense,
+  type ExpenseCategory,
+  type Flat,
+  type JournalEntry,
+  type JournalLine,
+  type LedgerAccount,
+  type MaintenanceBill,
+  type Payment,
+  type PaymentAllocation,
+  type User,
+  type Vendor,
+  type WalletEntry,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { startOfDay } from "./expenses";
+import { normalizeFlatNumber } from "./flats";
+import { JOURNAL_SERIES, nextDocumentNumber } from "./sequences";
+import { EPSILON, round } from "./money";
+import {
+  isDebitAccount,
+  periodLabel,
+  type AccountLedger,
+  type AccountRow,
+  type JournalEntryRow,
+  type JournalVoucherInput,
+  type TrialBalance,
+} from "../src/lib/schemas";
+
+// The society's double-entry books. Bills, penalty accruals, confirmed payments, wallet movements,
+// approved adjustments and expenses each post one balanced entry inside the transaction that
+// records them, so the ledger can't drift from the billing tables. Member dues and advances are
+// single control accounts whose lines carry the flat, which makes them the member sub-ledger.
+// Everything else (opening balances, bank charges, interest earned, transfers to a fund) goes
+// through numbered manual journal vouchers.
+
+type Tx = Prisma.TransactionClient;
+
+const sumOf = (values: number[]) => round(values.reduce((sum, v) => sum + v, 0));
+
+const dayOf = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+const dayAfter = (day: string) => {
+  const end = startOfDay(day);
+  end.setDate(end.getDate() + 1);
+  return end;
+};
+
+export class LedgerError extends Error {}
+
+// Roles of the seeded accounts the automatic postings look up; see the ledger migration.
+type SystemKey = "BANK" | "CASH" | "RECEIVABLES" | "ADVANCES" | "GST_OUTPUT" | "PENALTY_INCOME" | "ADJUSTMENTS";
+
+// Code ranges accounts opened on demand for new charge heads and expense categories are numbered in.
+const AUTO_CODES = { INCOME: [4100, 4799], EXPENSE: [5100, 5999] } as const;
+
+interface Posting {
+  accountId: number;
+  debit?: number;
+  credit?: number;
+  flatId?: string | null;
+  memo?: string | null;
+}
+
+interface EntryInput {
+  date: Date;
+  narration: string;
+  reference?: string | null;
+  source: string;
+  sourceId?: string | null;
+  voucherNo?: string;
+  reversalOfId?: number;
+  createdById?: number | null;
+  lines: Posting[];
+}
+
+async function systemAccount(tx: Tx, key: SystemKey) {
+  const account = await tx.ledgerAccount.findUnique({ where: { key } });
+  if (!account) throw new LedgerError(`The chart of accounts is missing its ${key} account`);
+  return account.id;
+}
+
+// Cash payments go through the cash book; cheques, UPI, NEFT and online payments through the bank.
+const moneyAccount = (tx: Tx, mode: string | null) => systemAccount(tx, mode === "CASH" ? "CASH" : "BANK");
+
+async function nextCode(tx: Tx, type: keyof typeof AUTO_CODES) {
+  const [first, last] = AUTO_CODES[type];
+  const used = new Set((await tx.ledgerAccount.findMany({ select: { code: true } })).map(a => Number(a.code)));
+  const inRange = [...used].filter(c => c >= first && c <= last);
+  let code = inRange.length ? Math.max(...inRange) + 10 : first;
+  while (used.has(code)) code++;
+  if (code > last) throw new LedgerError(`No ${type.toLowerCase()} account codes are left between ${first} and ${last}`);
+  return String(code);
+}
+
+// The account a charge head is credited to, opened as an income account the first time a bill
+// carries the head. Funds collected through bills (sinking fund, repair fund) are mapped to
+// liability accounts instead.
+async function headAccount(tx: Tx, head: string) {
+  const account = await tx.ledgerAccount.findUnique({ where: { chargeHead: head } });
+  if (account) return account.id;
+  const created = await tx.ledgerAccount.create({ data: { code: await nextCode(tx, "INCOME"), name: head, type: "INCOME", chargeHead: head } });
+  return created.id;
+}
+
+async function categoryAccount(tx: Tx, category: ExpenseCategory) {
+  const account = await tx.ledgerAccount.findUnique({ where: { expenseCategoryId: category.id } });
+  if (account) return account.id;
+  const created = await tx.ledgerAccount.create({
+    data: { code: await nextCode(tx, "EXPENSE"), name: category.name, type: "EXPENSE", expenseCategoryId: category.id },
+  });
+  return created.id;
+}
+
+// Writes one entry, dropping empty lines. Refuses anything that doesn't balance.
+async function postEntry(tx: Tx, { lines, ...entry }: EntryInput) {
+  const postings = lines
+    .map(l => ({ ...l, debit: round(l.debit ?? 0), credit: round(l.credit ?? 0) }))
+    .filter(l => l.debit > 0 || l.credit > 0);
+  const debits = sumOf(postings.map(l => l.debit));
+  const credits = sumOf(postings.map(l => l.credit));
+  if (Math.abs(debits - credits) > EPSILON) {
+    throw new LedgerError(`${entry.narration} doesn't balance: ₹${debits} in debits against ₹${credits} in credits`);
+  }
+  if (!postings.length) return null;
+  return tx.journalEntry.create({
+    data: {
+      ...entry,
+      lines: {
+        create: postings.map(({ accountId, debit, credit, flatId, memo }) => ({ accountId, debit, credit, flatId: flatId ?? null, memo: memo ?? null })),
+      },
+    },
+  });
+}
+
+// Dr the member's receivable with the invoice; Cr each charge head and GST output with the tax.
+// Late fees and interest added later post separately, see postPenalty.
+export async function postBill(tx: Tx, bill: MaintenanceBill & { flat: Flat; lineItems: BillLineItem[] }) {
+  const charges = bill.lineItems.filter(i => i.kind === "CHARGE");
+  const credits: Posting[] = [];
+  for (const head of new Set(charges.map(i => i.head))) {
+    credits.push({ accountId: await headAccount(tx, head), credit: sumOf(charges.filter(i => i.head === head).map(i => i.amount)), memo: head });
+  }
+  credits.push({ accountId: await systemAccount(tx, "GST_OUTPUT"), credit: sumOf(charges.map(i => i.taxAmount)) });
+  return postEntry(tx, {
+    date: bill.createdAt,
+    narration: `Maintenance for ${periodLabel(bill.period)}, flat ${bill.flat.number}`,
+    reference: bill.invoiceNo,
+    source: "BILL",
+    sourceId: bill.id,
+    lines: [
+      { accountId: await systemAccount(tx, "RECEIVABLES"), debit: sumOf(credits.map(c => c.credit!)), flatId: bill.flatId },
+      ...credits,
+    ],
+  });
+}
+
+export async function postPenalty(tx: Tx, bill: MaintenanceBill & { flat: Flat }, item: BillLineItem) {
+  return postEntry(tx, {
+    date: item.createdAt,
+    narration: `${item.head} on the ${periodLabel(bill.period)} bill, flat ${bill.flat.number}`,
+    reference: bill.invoiceNo,
+    source: "PENALTY",
+    sourceId: String(item.id),
+    lines: [
+      { accountId: await systemAccount(tx, "RECEIVABLES"), debit: round(item.amount + item.taxAmount), flatId: bill.flatId },
+      { accountId: await systemAccount(tx, "PENALTY_INCOME"), credit: item.amount, memo: item.description },
+      { accountId: await systemAccount(tx, "GST_OUTPUT"), credit: item.taxAmount },
+    ],
+  });
+}
+
+// Dr bank or cash; Cr the member's receivable with what went to bills and their advances with the rest.
+export async function postPayment(tx: Tx, payment: Payment & { flat: Flat; allocations: PaymentAllocation[] }) {
+  const allocated = sumOf(payment.allocations.map(a => a.amount));
+  return postEntry(tx, {
+    date: payment.paidAt,
+    narration: `Received from flat ${payment.flat.number} by ${payment.mode}`,
+    reference: payment.receiptNo ?? payment.reference,
+    source: "PAYMENT",
+    sourceId: String(payment.id),
+    createdById: payment.recordedById,
+    lines: [
+      { accountId: await moneyAccount(tx, payment.mode), debit: payment.amount, memo: payment.reference },
+      { accountId: await systemAccount(tx, "RECEIVABLES"), credit: allocated, flatId: payment.flatId },
+      { accountId: await systemAccount(tx, "ADVANCES"), credit: round(payment.amount - allocated), flatId: payment.flatId },
+    ],
+  });
+}
+
+// Movements of advance credit that aren't already part of another entry: credit used on a bill,
+// refunded to the owner, or handed back after a credit note. ADVANCE entries post with their
+// payment and transfers as a pair, see postTransfer.
+export async function postWalletMovement(tx: Tx, entry: WalletEntry, flat: Flat) {
+  const amount = Math.abs(entry.amount);
+  const [advances, receivables] = await Promise.all([systemAccount(tx, "ADVANCES"), systemAccount(tx, "RECEIVABLES")]);
+  let lines: Posting[];
+  if (entry.kind === "APPLIED") {
+    lines = [{ accountId: advances, debit: amount, flatId: flat.id }, { accountId: receivables, credit: amount, flatId: flat.id }];
+  } else if (entry.kind === "ADJUSTMENT") {
+    lines = [{ accountId: receivables, debit: amount, flatId: flat.id }, { accountId: advances, credit: amount, flatId: flat.id }];
+  } else if (entry.kind === "REFUND") {
+    // Refunds recorded before the mode was kept are taken to have gone through the bank.
+    lines = [{ accountId: advances, debit: amount, flatId: flat.id }, { accountId: await moneyAccount(tx, entry.mode), credit: amount }];
+  } else {
+    return null;
+  }
+  return postEntry(tx, {
+    date: entry.createdAt,
+    narration: `Flat ${flat.number}: ${entry.note ?? entry.kind.toLowerCase()}`,
+    source: "WALLET",
+    sourceId: String(entry.id),
+    createdById: entry.createdById,
+    lines,
+  });
+}
+
+export async function postTransfer(tx: Tx, out: WalletEntry, from: Flat, to: Flat) {
+  const advances = await systemAccount(tx, "ADVANCES");
+  const amount = Math.abs(out.amount);
+  return postEntry(tx, {
+    date: out.createdAt,
+    narration: `Advance credit moved from flat ${from.number} to flat ${to.number}`,
+    source: "WALLET",
+    sourceId: String(out.id),
+    createdById: out.createdById,
+    lines: [{ accountId: advances, debit: amount, flatId: from.id }, { accountId: advances, credit: amount, flatId: to.id }],
+  });
+}
+
+// Credit notes are charged to Bill Adjustments and waivers back against late fee income; debit
+// notes are the reverse of a credit note.
+export async function postAdjustment(tx: Tx, adjustment: BillAdjustment & { bill: MaintenanceBill & { flat: Flat } }) {
+  const member = { accountId: await systemAccount(tx, "RECEIVABLES"), flatId: adjustment.bill.flatId };
+  const other = { accountId: await systemAccount(tx, adjustment.kind === "WAIVER" ? "PENALTY_INCOME" : "ADJUSTMENTS"), memo: adjustment.reason };
+  const amount = adjustment.amount;
+  return postEntry(tx, {
+    date: adjustment.reviewedAt ?? adjustment.createdAt,
+    narration: `${adjustment.kind === "DEBIT_NOTE" ? "Debit" : adjustment.kind === "WAIVER" ? "Late fee waiver" : "Credit"} on the ${periodLabel(adjustment.bill.period)} bill, flat ${adjustment.bill.flat.number}`,
+    reference: adjustment.documentNo,
+    source: "ADJUSTMENT",
+    sourceId: String(adjustment.id),
+    createdById: adjustment.reviewedById,
+    lines: adjustment.kind === "DEBIT_NOTE"
+      ? [{ ...member, debit: amount }, { ...other, credit: amount }]
+      : [{ ...other, debit: amount }, { ...member, credit: amount }],
+  });
+}
+
+// Dr the category's expense account; Cr bank or cash. An edited expense keeps its entry: that is
+// reversed on the day of the edit and the expense posted again as it now stands.
+export async function postExpense(tx: Tx, expense: Expense & { category: ExpenseCategory; vendor: Vendor | null }, adminId = expense.createdById) {
+  await unpostExpense(tx, expense.id, adminId);
+  return postEntry(tx, {
+    date: expense.spentOn,
+    narration: `${expense.description}${expense.vendor ? `, ${expense.vendor.name}` : ""}`,
+    reference: expense.reference,
+    source: "EXPENSE",
+    sourceId: String(expense.id),
+    createdById: adminId,
+    lines: [
+      { accountId: await categoryAccount(tx, expense.category), debit: expense.amount },
+      { accountId: await moneyAccount(tx, expense.mode), credit: expense.amount },
+    ],
+  });
+}
+
+// Reverses the expense's standing entry, if it has one, with every debit and credit swapped.
+export async function unpostExpense(tx: Tx, expenseId: number, adminId: number | null) {
+  const entry = await tx.journalEntry.findFirst({
+    where: { source: "EXPENSE", sourceId: String(expenseId), reversalOfId: null, reversedBy: null },
+    include: { lines: true },
+  });
+  if (!entry) return null;
+  return postEntry(tx, {
+    date: startOfDay(dayOf(new Date())),
+    narration: `Reversal of ${dayOf(entry.date)} entry: ${entry.narration}`,
+    reference: entry.reference,
+    source: "EXPENSE",
+    sourceId: entry.sourceId,
+    reversalOfId: entry.id,
+    createdById: adminId,
+    lines: entry.lines.map(l => ({ accountId: l.accountId, debit: l.credit, credit: l.debit, flatId: l.flatId, memo: l.memo })),
+  });
+}
+
+// A numbered voucher for anything the automatic postings don't cover. Lines can only go to active
+// accounts; a flat number on a line puts it on that member's sub-ledger.
+export function postVoucher(input: JournalVoucherInput, adminId: number) {
+  return prisma.$transaction(async tx => {
+    const accounts = await tx.ledgerAccount.findMany({ where: { id: { in: input.lines.map(l => l.accountId) } } });
+    const flats = new Map<string, string>();
+    for (const line of input.lines) {
+      const account = accounts.find(a => a.id === line.accountId);
+      if (!account) throw new LedgerError("One of the accounts no longer exists");
+      if (!account.active) throw new LedgerError(`${account.code} ${account.name} is inactive`);
+      if (line.flatId && !flats.has(line.flatId)) {
+        const flat = await tx.flat.findFirst({ where: { number: normalizeFlatNumber(line.flatId) } });
+        if (!flat) throw new LedgerError(`Flat ${line.flatId} does not exist`);
+        flats.set(line.flatId, flat.id);
+      }
+    }
+
+    const entry = await postEntry(tx, {
+      date: startOfDay(input.date),
+      narration: input.narration,
+      source: "MANUAL",
+      voucherNo: await nextDocumentNumber(tx, JOURNAL_SERIES),
+      createdById: adminId,
+      lines: input.lines.map(l => ({ ...l, flatId: l.flatId ? flats.get(l.flatId) : null })),
+    });
+    return tx.journalEntry.findUniqueOrThrow({ where: { id: entry!.id }, include: journalInclude });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+// Vouchers are never edited or deleted; a mistake is undone by a reversing voucher with every
+// debit and credit swapped. Automatic entries follow their documents instead.
+export function reverseVoucher(id: number, date: string | undefined, adminId: number) {
+  return prisma.$transaction(async tx => {
+    const entry = await tx.journalEntry.findUnique({ where: { id }, include: { lines: true, reversedBy: true } });
+    if (!entry) throw new LedgerError("Journal entry not found");
+    if (entry.source !== "MANUAL") {
+      throw new LedgerError("Only journal vouchers can be reversed; correct bills, payments and expenses where they were recorded");
+    }
+    if (entry.reversalOfId) throw new LedgerError(`${entry.voucherNo} is itself a reversal; post a new voucher instead`);
+    if (entry.reversedBy) throw new LedgerError(`${entry.voucherNo} was already reversed by ${entry.reversedBy.voucherNo}`);
+
+    const reversal = await postEntry(tx, {
+      date: date ? startOfDay(date) : startOfDay(dayOf(new Date())),
+      narration: `Reversal of ${entry.voucherNo}: ${entry.narration}`,
+      source: "MANUAL",
+      voucherNo: await nextDocumentNumber(tx, JOURNAL_SERIES),
+      reversalOfId: entry.id,
+      createdById: adminId,
+      lines: entry.lines.map(l => ({ accountId: l.accountId, debit: l.credit, credit: l.debit, flatId: l.flatId, memo: l.memo })),
+    });
+    return tx.journalEntry.findUniqueOrThrow({ where: { id: reversal!.id }, include: journalInclude });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export const journalInclude = {
+  lines: { include: { account: true, flat: true }, orderBy: { id: "asc" } },
+  createdBy: true,
+  reversalOf: true,
+  reversedBy: true,
+} satisfies Prisma.JournalEntryInclude;
+
+export function toJournalEntryRow(
+  e: JournalEntry & {
+    lines: (JournalLine & { account: LedgerAccount; flat: Flat | null })[];
+    createdBy: User | null;
+    reversalOf: JournalEntry | null;
+    reversedBy: JournalEntry | null;
+  },
+): JournalEntryRow {
+  return {
+    id: e.id,
+    voucher_no: e.voucherNo,
+    date: dayOf(e.date),
+    narration: e.narration,
+    reference: e.reference,
+    source: e.source as JournalEntryRow["source"],
+    reversal_of: e.reversalOf?.voucherNo ?? null,
+    reversed_by: e.reversedBy?.voucherNo ?? null,
+    created_by: e.createdBy?.name ?? null,
+    total: sumOf(e.lines.map(l => l.debit)),
+    lines: e.lines.map(l => ({
+      account_id: l.accountId,
+      code: l.account.code,
+      account: l.account.name,
+      flat_id: l.flat?.number ?? null,
+      debit: l.debit,
+      credit: l.credit,
+      memo: l.memo,
+    })),
+  };
+}
+
+const naturalBalance = (type: string, debit: number, credit: number) => round(isDebitAccount(type) ? debit - credit : credit - debit);
+
+// Debit and credit totals per account for entries dated before `end` (all of them without one).
+async function accountTotals(end?: Date, accountId?: number) {
+  const sums = await prisma.journalLine.groupBy({
+    by: ["accountId"],
+    where: { accountId, ...(end ? { entry: { date: { lt: end } } } : {}) },
+    _sum: { debit: true, credit: true },
+  });
+  return new Map(sums.map(s => [s.accountId, { debit: s._sum.debit ?? 0, credit: s._sum.credit ?? 0 }]));
+}
+
+export const accountInclude = { expenseCategory: true } as const;
+
+export function toAccountRow(a: LedgerAccount & { expenseCategory: ExpenseCategory | null }, totals?: { debit: number; credit: number }): AccountRow {
+  return {
+    id: a.id,
+    code: a.code,
+    name: a.name,
+    type: a.type as AccountRow["type"],
+    key: a.key,
+    charge_head: a.chargeHead,
+    category: a.expenseCategory?.name ?? null,
+    active: a.active,
+    balance: totals ? naturalBalance(a.type, totals.debit, totals.credit) : 0,
+  };
+}
+
+export async function listAccounts() {
+  const [accounts, totals] = await Promise.all([
+    prisma.ledgerAccount.findMany({ include: accountInclude, orderBy: { code: "asc" } }),
+    accountTotals(),
+  ]);
+  return accounts.map(a => toAccountRow(a, totals.get(a.id)));
+}
+
+export async function accountBalanceRow(id: number) {
+  const account = await prisma.ledgerAccount.findUniqueOrThrow({ where: { id }, include: accountInclude });
+  return toAccountRow(account, (await accountTotals(undefined, id)).get(id));
+}
+
+// Every account with a balance at the end of the day (today by default), on the side it falls. The debit and credit
+// columns agree as long as every entry balanced, which postEntry enforces.
+export async function trialBalance(asOf = dayOf(new Date())): Promise<TrialBalance> {
+  const [accounts, totals] = await Promise.all([
+    prisma.ledgerAccount.findMany({ orderBy: { code: "asc" } }),
+    accountTotals(dayAfter(asOf)),
+  ]);
+  const rows = accounts.flatMap(a => {
+    const t = totals.get(a.id);
+    const net = t ? round(t.debit - t.credit) : 0;
+    if (Math.abs(net) < EPSILON) return [];
+    return [{
+      account_id: a.id,
+      code: a.code,
+      name: a.name,
+      type: a.type as TrialBalance["rows"][number]["type"],
+      debit: net > 0 ? net : 0,
+      credit: net < 0 ? -net : 0,
+    }];
+  });
+  return {
+    as_of: asOf,
+    rows,
+    total_debit: sumOf(rows.map(r => r.debit)),
+    total_credit: sumOf(rows.map(r => r.credit)),
+  };
+}
+
+// One account's postings between two dates with a running balance, opening with everything before.
+export async function accountLedger(id: number, from?: string, to?: string): Promise<AccountLedger | null> {
+  const account = await prisma.ledgerAccount.findUnique({ where: { id }, include: accountInclude });
+  if (!account) return null;
+  const start = from ? startOfDay(from) : undefined;
+  const [before, lines, totals] = await Promise.all([
+    start ? accountTotals(start, id) : Promise.resolve(new Map<number, { debit: number; credit: number }>()),
+    prisma.journalLine.findMany({
+      where: { accountId: id, entry: { date: { gte: start, lt: to ? dayAfter(to) : undefined } } },
+      include: { entry: true, flat: true },
+      orderBy: [{ entry: { date: "asc" } }, { entryId: "asc" }, { id: "asc" }],
+    }),
+    accountTotals(undefined, id),
+  ]);
+  const opening = before.get(id);
+  let balance = opening ? naturalBalance(account.type, opening.debit, opening.credit) : 0;
+  const openingBalance = balance;
+  return {
+    account: toAccountRow(account, totals.get(id)),
+    from: from ?? null,
+    to: to ?? null,
+    opening: openingBalance,
+    lines: lines.map(l => {
+      balance = round(balance + naturalBalance(account.type, l.debit, l.credit));
+      return {
+        entry_id: l.entryId,
+        date: dayOf(l.entry.date),
+        voucher_no: l.entry.voucherNo,
+        reference: l.entry.reference,
+        narration: l.entry.narration,
+        source: l.entry.source as AccountLedger["lines"][number]["source"],
+        flat_id: l.flat?.number ?? null,
+        debit: l.debit,
+        credit: l.credit,
+        balance,
+      };
+    }),
+    closing: balance,
+  };
+}
+
+// Posts whatever was recorded before the ledger existed, one record per transaction, oldest
+// first. Records that already have their entry are skipped, so it is safe to run at every startup.
+export async function backfillLedger() {
+  const postedIds = async (source: string) =>
+    new Set((await prisma.journalEntry.findMany({ where: { source }, select: { sourceId: true } })).map(e => e.sourceId));
+  const post = (fn: (tx: Tx) => Promise<unknown>) => prisma.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+  let count = 0;
+
+  const [bills, penalties] = await Promise.all([postedIds("BILL"), postedIds("PENALTY")]);
+  for (const bill of await prisma.maintenanceBill.findMany({ include: { flat: true, lineItems: true }, orderBy: { createdAt: "asc" } })) {
+    if (!bills.has(bill.id)) {
+      await post(tx => postBill(tx, bill));
+      count++;
+    }
+    for (const item of bill.lineItems.filter(i => i.kind === "PENALTY" && !penalties.has(String(i.id)))) {
+      await post(tx => postPenalty(tx, bill, item));
+      count++;
+    }
+  }
+
+  const payments = await postedIds("PAYMENT");
+  for (const payment of await prisma.payment.findMany({ where: { status: "CONFIRMED" }, include: { flat: true, allocations: true }, orderBy: { id: "asc" } })) {
+    if (payments.has(String(payment.id))) continue;
+    await post(tx => postPayment(tx, payment));
+    count++;
+  }
+
+  const wallet = await postedIds("WALLET");
+  const entries = await prisma.walletEntry.findMany({ include: { flat: true }, orderBy: { id: "asc" } });
+  for (const entry of entries) {
+    if (wallet.has(String(entry.id)) || ["ADVANCE", "TRANSFER_IN"].includes(entry.kind)) continue;
+    if (entry.kind === "TRANSFER_OUT") {
+      // Both halves of a transfer are written one after the other in the same transaction.
+      const into = entries.find(e => e.id > entry.id && e.kind === "TRANSFER_IN" && Math.abs(e.amount + entry.amount) < EPSILON);
+      if (!into) continue;
+      await post(tx => postTransfer(tx, entry, entry.flat, into.flat));
+    } else {
+      await post(tx => postWalletMovement(tx, entry, entry.flat));
+    }
+    count++;
+  }
+
+  const adjustments = await postedIds("ADJUSTMENT");
+  for (const adjustment of await prisma.billAdjustment.findMany({ where: { status: "APPROVED" }, include: { bill: { include: { flat: true } } }, orderBy: { id: "asc" } })) {
+    if (adjustments.has(String(adjustment.id))) continue;
+    await post(tx => postAdjustment(tx, adjustment));
+    count++;
+  }
+
+  const expenses = await postedIds("EXPENSE");
+  for (const expense of await prisma.expense.findMany({ include: { category: true, vendor: true }, orderBy: { id: "asc" } })) {
+    if (expenses.has(String(expense.id))) continue;
+    await post(tx => postExpense(tx, expense));
+    count++;
+  }
+
+  if (count) {
+    await logActivity({ userId: null, action: "LEDGER_BACKFILLED", details: `${count} earlier records posted to the general ledger` });
+  }
+  return count;
+}
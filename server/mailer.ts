@@ -0,0 +1,92 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import type { MailboxMessage } from "../src/lib/schemas";
+
+// Outgoing email. With SMTP credentials configured messages go out over SMTP; otherwise (and
+// always with MAIL_TRANSPORT=mailbox) they are written to a local mailbox directory instead, one
+// JSON file per message, which admins can read in the app. Nothing leaves the machine in dev.
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function usingMailbox() {
+  return (process.env.MAIL_TRANSPORT || (process.env.SMTP_USER ? "smtp" : "mailbox")) === "mailbox";
+}
+
+const mailboxDir = () => process.env.MAILBOX_DIR || path.join(process.cwd(), ".mailbox");
+
+// Mailbox ids double as file names, so only ever accept ones we could have written.
+const MAILBOX_ID = /^[\w-]+$/;
+
+function mailFrom() {
+  const name = process.env.SOCIETY_NAME || "TowerTech Co-operative Housing Society";
+  return process.env.MAIL_FROM || `"${name}" <${process.env.SMTP_USER || "noreply@towertech.local"}>`;
+}
+
+let transporter: Transporter | null = null;
+
+function smtp() {
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS },
+    });
+  }
+  return transporter;
+}
+
+// Sends (or files) a message and returns its message id.
+export async function sendMail(mail: OutgoingMail): Promise<string> {
+  if (!usingMailbox()) {
+    const info = await smtp().sendMail({ from: mailFrom(), ...mail });
+    return info.messageId;
+  }
+
+  const id = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`;
+  const message: MailboxMessage = { id, from: mailFrom(), ...mail, date: new Date().toISOString() };
+  await fs.mkdir(mailboxDir(), { recursive: true });
+  await fs.writeFile(path.join(mailboxDir(), `${id}.json`), JSON.stringify(message, null, 2));
+  return `<${id}@mailbox>`;
+}
+
+// Newest first.
+export async function listMailbox(limit = 200): Promise<MailboxMessage[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(mailboxDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  const ids = files
+    .filter(f => f.endsWith(".json"))
+    .map(f => f.slice(0, -".json".length))
+    .sort()
+    .reverse()
+    .slice(0, limit);
+  const messages = await Promise.all(ids.map(readMailboxMessage));
+  return messages.filter((m): m is MailboxMessage => m !== null);
+}
+
+export async function readMailboxMessage(id: string): Promise<MailboxMessage | null> {
+  if (!MAILBOX_ID.test(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(mailboxDir(), `${id}.json`), "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function clearMailbox() {
+  await fs.rm(mailboxDir(), { recursive: true, force: true });
+}
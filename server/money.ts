@@ -0,0 +1,6 @@
+// Amounts are rupees held as floats. Round to the paisa after every sum so the float error never
+// shows up in a total, and compare with EPSILON where two amounts only need to agree to the paisa.
+export const round = (n: number) => Math.round(n * 100) / 100;
+
+// Rounding slack so ₹0.004 left over after splitting a payment doesn't keep a bill PARTIAL.
+export const EPSILON = 0.005;
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { PaymentError, allocate, billStatus, createPayment } from "./payments";
+import { fakeDbFixture } from "./testing";
+
+const bill = (id: string, amount: number, paidAmount = 0, adjustment = 0) => ({ id, amount, adjustment, paidAmount });
+
+describe("allocate", () => {
+  test("fills the bills in the order given", () => {
+    assert.deepEqual(allocate(7000, [bill("aug", 5000), bill("sep", 5000)]), [
+      { billId: "aug", amount: 5000 },
+      { billId: "sep", amount: 2000 },
+    ]);
+  });
+
+  test("only takes what each bill still owes after part payments and notes", () => {
+    assert.deepEqual(allocate(4000, [bill("aug", 5000, 3000), bill("sep", 5000, 0, -1000), bill("oct", 5000)]), [
+      { billId: "aug", amount: 2000 },
+      { billId: "sep", amount: 2000 },
+    ]);
+  });
+
+  test("skips bills that are already settled", () => {
+    assert.deepEqual(allocate(100, [bill("aug", 5000, 5000), bill("sep", 5000)]), [{ billId: "sep", amount: 100 }]);
+  });
+
+  test("refuses more than is owed unless the rest can go to the wallet", () => {
+    assert.throws(() => allocate(6000, [bill("aug", 5000)]), (err: unknown) =>
+      err instanceof PaymentError && /exceeds the outstanding ₹5000 on the selected bills/.test(err.message));
+    assert.throws(() => allocate(10, []), /on this flat/);
+    assert.deepEqual(allocate(6000, [bill("aug", 5000)], true), [{ billId: "aug", amount: 5000 }]);
+    assert.deepEqual(allocate(500, [], true), []);
+  });
+
+  test("ignores paise of rounding", () => {
+    assert.deepEqual(allocate(0.1 + 0.2, [bill("aug", 0.3)]), [{ billId: "aug", amount: 0.3 }]);
+    assert.deepEqual(allocate(100.004, [bill("aug", 100)]), [{ billId: "aug", amount: 100 }]);
+  });
+});
+
+describe("billStatus", () => {
+  test("treats a bill within half a paisa of its total as paid", () => {
+    assert.equal(billStatus(100, 99.996), "PAID");
+    assert.equal(billStatus(100, 99.99), "PARTIAL");
+    assert.equal(billStatus(100, 0.004), "UNPAID");
+  });
+});
+
+describe("createPayment", () => {
+  const fixture = fakeDbFixture(() => ({
+    flat: [{ id: "f1", number: "A101", credit: 0 }],
+    maintenanceBill: [
+      { id: "aug", flatId: "f1", period: "2026-08", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID" },
+      { id: "sep", flatId: "f1", period: "2026-09", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID" },
+    ],
+    payment: [{ id: 1, flatId: "f1", amount: 5000, mode: "UPI", status: "PENDING", paidAt: new Date() }],
+    paymentAllocation: [{ paymentId: 1, billId: "aug", amount: 5000 }],
+  }));
+  const pay = (request: { amount: number; billIds?: string[] }) =>
+    createPayment({ flatId: "f1", mode: "UPI", status: "PENDING", ...request });
+
+  test("leaves what a pending payment has reserved to that payment", async () => {
+    const payment = await pay({ amount: 5000 });
+    assert.deepEqual(payment.allocations.map(a => [a.billId, a.amount]), [["sep", 5000]]);
+    assert.equal(fixture.db.rows("paymentAllocation").length, 2);
+  });
+
+  test("refuses a bill a pending payment already covers", async () => {
+    await assert.rejects(pay({ amount: 5000, billIds: ["aug"] }), /bill is already covered by a pending payment/);
+  });
+
+  test("only offers what's left of a partly reserved bill", async () => {
+    fixture.db.rows("paymentAllocation")[0].amount = 2000;
+    await assert.rejects(pay({ amount: 4000, billIds: ["aug"] }), /exceeds the outstanding ₹3000 on the selected bills/);
+  });
+});
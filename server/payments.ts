@@ -0,0 +1,208 @@
+import { Prisma, type MaintenanceBill, type Payment, type PaymentAllocation, type Flat, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { postPayment, postWalletMovement } from "./ledger";
+import { RECEIPT_SERIES, nextDocumentNumber } from "./sequences";
+import { EPSILON, round } from "./money";
+import { periodLabel, type BillRow, type PaymentRow } from "../src/lib/schemas";
+
+type Tx = Prisma.TransactionClient;
+
+// Bills that still owe something.
+export const OPEN_BILL_STATUSES = ["UNPAID", "PARTIAL"];
+
+export class PaymentError extends Error {}
+
+export function billStatus(amount: number, paid: number): BillRow["status"] {
+  if (paid + EPSILON >= amount) return "PAID";
+  return paid <= EPSILON ? "UNPAID" : "PARTIAL";
+}
+
+// What a bill comes to once approved credit and debit notes are counted; the invoiced amount
+// itself never changes.
+export const billTotal = (bill: Pick<MaintenanceBill, "amount" | "adjustment">) => round(bill.amount + bill.adjustment);
+export const billBalance = (bill: Pick<MaintenanceBill, "amount" | "adjustment" | "paidAmount">) =>
+  round(bill.amount + bill.adjustment - bill.paidAmount);
+
+// `reserved` is what PENDING payments have already claimed on the bill.
+type Allocatable = Pick<MaintenanceBill, "id" | "amount" | "adjustment" | "paidAmount"> & { reserved?: number };
+
+// Splits `amount` across the bills in the order given, filling each before moving on. Whatever
+// is left over is an advance for the flat's wallet when allowed, and an error otherwise.
+export function allocate(amount: number, bills: Allocatable[], allowAdvance = false) {
+  const allocations: { billId: string; amount: number }[] = [];
+  let remaining = round(amount);
+  for (const bill of bills) {
+    if (remaining <= 0) break;
+    const share = Math.min(remaining, round(billBalance(bill) - (bill.reserved ?? 0)));
+    if (share <= 0) continue;
+    allocations.push({ billId: bill.id, amount: share });
+    remaining = round(remaining - share);
+  }
+  if (remaining > EPSILON && !allowAdvance) {
+    const due = round(amount - remaining);
+    throw new PaymentError(`Payment exceeds the outstanding ₹${due} on ${bills.length ? "the selected bills" : "this flat"}`);
+  }
+  return allocations;
+}
+
+// The flat's open bills with what PENDING payments have reserved on each, so a second payment
+// can't claim the same balance before the first is confirmed or rejected.
+async function openBills(tx: Tx, flatId: string, billIds?: string[]) {
+  const bills = await tx.maintenanceBill.findMany({
+    where: { flatId, status: { in: OPEN_BILL_STATUSES }, ...(billIds ? { id: { in: billIds } } : {}) },
+    include: { allocations: { where: { payment: { status: "PENDING" } } } },
+    orderBy: { period: "asc" },
+  });
+  if (billIds && bills.length !== new Set(billIds).size) {
+    throw new PaymentError("Some of the selected bills are already paid or belong to another flat");
+  }
+  const open = bills.map(({ allocations, ...bill }) => ({ ...bill, reserved: round(allocations.reduce((sum, a) => sum + a.amount, 0)) }));
+  const taken = billIds && open.find(b => b.reserved > 0 && billBalance(b) - b.reserved <= EPSILON);
+  if (taken) {
+    throw new PaymentError(`The ${periodLabel(taken.period)} bill is already covered by a pending payment`);
+  }
+  return open;
+}
+
+// Adds confirmed allocations to their bills and re-derives each bill's status. Everything is
+// checked before anything is written, so a PaymentError leaves the bills untouched.
+export async function applyAllocations(tx: Tx, allocations: { billId: string; amount: number }[]) {
+  const bills = await tx.maintenanceBill.findMany({ where: { id: { in: allocations.map(a => a.billId) } } });
+  const byId = new Map(bills.map(b => [b.id, b]));
+  for (const a of allocations) {
+    const bill = byId.get(a.billId)!;
+    if (bill.paidAmount + a.amount > billTotal(bill) + EPSILON) {
+      throw new PaymentError(`The ${periodLabel(bill.period)} bill would be overpaid`);
+    }
+  }
+
+  for (const a of allocations) {
+    const bill = byId.get(a.billId)!;
+    const paidAmount = round(bill.paidAmount + a.amount);
+    await tx.maintenanceBill.update({
+      where: { id: bill.id },
+      data: { paidAmount, status: billStatus(billTotal(bill), paidAmount) },
+    });
+  }
+}
+
+// Records a change to the flat's advance credit and keeps Flat.credit in step, posting it to the
+// ledger where it isn't part of another entry. Refuses to take the credit below zero.
+export async function postWalletEntry(
+  tx: Tx,
+  flatId: string,
+  amount: number,
+  entry: { kind: string; paymentId?: number; billId?: string; note?: string; mode?: string; createdById?: number },
+) {
+  const flat = await tx.flat.findUniqueOrThrow({ where: { id: flatId } });
+  const balance = round(flat.credit + amount);
+  if (balance < -EPSILON) throw new PaymentError(`Flat ${flat.number} only has ₹${flat.credit} in credit`);
+  await tx.flat.update({ where: { id: flatId }, data: { credit: balance } });
+  const created = await tx.walletEntry.create({ data: { flatId, amount: round(amount), balance, ...entry } });
+  await postWalletMovement(tx, created, flat);
+  return created;
+}
+
+// The part of a payment not allocated to any bill.
+export const advanceOf = (payment: Pick<Payment, "amount"> & { allocations: { amount: number }[] }) =>
+  round(payment.amount - payment.allocations.reduce((sum, a) => sum + a.amount, 0));
+
+// Settles a payment's bills and moves any remainder into the flat's wallet.
+export async function applyPayment(tx: Tx, payment: Pick<Payment, "id" | "flatId" | "amount"> & { allocations: PaymentAllocation[] }) {
+  await applyAllocations(tx, payment.allocations);
+  const advance = advanceOf(payment);
+  if (advance > EPSILON) {
+    await postWalletEntry(tx, payment.flatId, advance, { kind: "ADVANCE", paymentId: payment.id });
+  }
+}
+
+export const paymentInclude = {
+  flat: true,
+  recordedBy: true,
+  allocations: { include: { bill: true }, orderBy: { id: "asc" } },
+} satisfies Prisma.PaymentInclude;
+
+export interface PaymentRequest {
+  flatId: string;
+  amount: number;
+  mode: string;
+  reference?: string;
+  note?: string;
+  paidAt?: Date;
+  gateway?: string;
+  billIds?: string[];
+  recordedById?: number;
+  status: "PENDING" | "CONFIRMED";
+}
+
+// Records a payment and its split across bills. A CONFIRMED payment settles the bills
+// immediately; a PENDING one only reserves the split until confirmPayment. Paying more than
+// the flat owes is an advance, but only when no particular bills were chosen.
+export async function insertPayment(tx: Tx, { billIds, ...request }: PaymentRequest) {
+  const allocations = allocate(request.amount, await openBills(tx, request.flatId, billIds), !billIds);
+  const confirmed = request.status === "CONFIRMED";
+  const payment = await tx.payment.create({
+    data: {
+      ...request,
+      receiptNo: confirmed ? await nextDocumentNumber(tx, RECEIPT_SERIES) : null,
+      allocations: { create: allocations },
+    },
+    include: paymentInclude,
+  });
+  if (confirmed) {
+    await applyPayment(tx, payment);
+    await postPayment(tx, payment);
+  }
+  return payment;
+}
+
+export async function settlePayment(tx: Tx, id: number, adminId: number) {
+  const payment = await tx.payment.findUnique({ where: { id }, include: { allocations: true } });
+  if (!payment) throw new PaymentError("Payment not found");
+  if (payment.status !== "PENDING") throw new PaymentError(`Payment is already ${payment.status}`);
+  if (payment.gateway) throw new PaymentError("Online payments are confirmed by the payment gateway");
+
+  await applyPayment(tx, payment);
+  const confirmed = await tx.payment.update({
+    where: { id },
+    data: { status: "CONFIRMED", recordedById: adminId, receiptNo: await nextDocumentNumber(tx, RECEIPT_SERIES) },
+    include: paymentInclude,
+  });
+  await postPayment(tx, confirmed);
+  return confirmed;
+}
+
+export function createPayment(request: PaymentRequest) {
+  return prisma.$transaction(tx => insertPayment(tx, request), { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export function confirmPayment(id: number, adminId: number) {
+  return prisma.$transaction(tx => settlePayment(tx, id, adminId), { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+type PaymentWithDetails = Payment & {
+  flat: Flat;
+  recordedBy: User | null;
+  allocations: (PaymentAllocation & { bill: MaintenanceBill })[];
+};
+
+export function toPaymentRow(p: PaymentWithDetails): PaymentRow {
+  return {
+    id: p.id,
+    flat_id: p.flat.number,
+    amount: p.amount,
+    mode: p.mode as PaymentRow["mode"],
+    reference: p.reference,
+    receipt_no: p.receiptNo,
+    status: p.status as PaymentRow["status"],
+    note: p.note,
+    paid_at: p.paidAt.toISOString(),
+    recorded_by: p.recordedBy?.name ?? null,
+    advance: advanceOf(p),
+    allocations: p.allocations.map(a => ({
+      bill_id: a.billId,
+      month: periodLabel(a.bill.period),
+      amount: a.amount,
+    })),
+  };
+}
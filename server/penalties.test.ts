@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { accruePenalties } from "./penalties";
+import { SYSTEM_ACCOUNTS, accountBalances, fakeDbFixture } from "./testing";
+
+const now = new Date(2026, 9, 19);
+
+const seed = ({ paidAmount = 0, interestMode = "SIMPLE" } = {}) => ({
+  ledgerAccount: SYSTEM_ACCOUNTS,
+  penaltyPolicy: [{ id: 1, graceDays: 0, lateFee: 0, interestRate: 2, interestMode }],
+  flat: [{ id: "f1", number: "A101", credit: 0 }],
+  maintenanceBill: [{
+    id: "aug", flatId: "f1", period: "2026-08", invoiceNo: "INV/26-27/00001", amount: 5000, adjustment: 0, paidAmount,
+    status: paidAmount ? "PARTIAL" : "UNPAID", dueDate: new Date(2026, 8, 9),
+  }],
+  billLineItem: [{ billId: "aug", kind: "CHARGE", head: "Maintenance", description: "Monthly maintenance", amount: 5000, taxRate: 0, taxAmount: 0 }],
+});
+
+const fixture = fakeDbFixture(seed);
+const bill = () => fixture.db.rows("maintenanceBill")[0];
+const interest = () => fixture.db.rows("billLineItem").filter(i => i.kind === "PENALTY").map(i => [i.accrualKey, i.amount]);
+
+describe("accruePenalties", () => {
+  test("charges each overdue month's interest on the unpaid bill", async () => {
+    assert.deepEqual(await accruePenalties(now), { bills: 1, amount: 200 });
+    assert.deepEqual(interest(), [["INTEREST:1", 100], ["INTEREST:2", 100]]);
+    assert.deepEqual([bill().amount, bill().status], [5200, "UNPAID"]);
+    assert.equal(accountBalances(fixture.db)[1200], 200);
+  });
+
+  test("charges interest only on what's still owed after part payments", async () => {
+    fixture.reset(seed({ paidAmount: 3000 }));
+    assert.deepEqual(await accruePenalties(now), { bills: 1, amount: 80 });
+    assert.deepEqual(interest(), [["INTEREST:1", 40], ["INTEREST:2", 40]]);
+    assert.deepEqual([bill().amount, bill().status], [5080, "PARTIAL"]);
+  });
+
+  test("compounds on the unpaid amount", async () => {
+    fixture.reset(seed({ paidAmount: 3000, interestMode: "COMPOUND" }));
+    await accruePenalties(now);
+    assert.deepEqual(interest(), [["INTEREST:1", 40], ["INTEREST:2", 40.8]]);
+  });
+
+  test("adds nothing for months already charged", async () => {
+    await accruePenalties(now);
+    assert.deepEqual(await accruePenalties(now), { bills: 0, amount: 0 });
+    assert.equal(bill().amount, 5200);
+  });
+});
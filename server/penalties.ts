@@ -0,0 +1,134 @@
+import { Prisma, type PenaltyPolicy } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { postPenalty } from "./ledger";
+import { OPEN_BILL_STATUSES, billBalance, billStatus, billTotal } from "./payments";
+import { round } from "./money";
+import type { PenaltyPolicyRow } from "../src/lib/schemas";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Interest is charged per started 30-day block after the grace period.
+const MONTH_DAYS = 30;
+const ACCRUAL_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export interface PenaltyItem {
+  head: string;
+  description: string;
+  amount: number;
+  accrualKey: string;
+}
+
+export function getPenaltyPolicy() {
+  return prisma.penaltyPolicy.upsert({ where: { id: 1 }, update: {}, create: { id: 1 } });
+}
+
+export function toPenaltyPolicyRow(p: PenaltyPolicy): PenaltyPolicyRow {
+  return {
+    grace_days: p.graceDays,
+    late_fee: p.lateFee,
+    interest_rate: p.interestRate,
+    interest_mode: p.interestMode as PenaltyPolicyRow["interest_mode"],
+    updated_at: p.updatedAt.toISOString(),
+  };
+}
+
+// Every penalty line a bill should carry as of `now`. Keys are stable, so the accrual job only
+// inserts the ones a bill doesn't have yet. `principal` is what's still owed on the bill's
+// charges; compound interest charges month m on it plus the interest of the months before it.
+// The late fee is never compounded.
+export function penaltiesDue(principal: number, dueDate: Date, policy: PenaltyPolicy, now = new Date()) {
+  const overdueDays = Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS) - policy.graceDays;
+  if (overdueDays <= 0) return [];
+
+  const items: PenaltyItem[] = [];
+  if (policy.lateFee > 0) {
+    items.push({
+      head: "Late Fee",
+      description: policy.graceDays ? `Not paid within ${policy.graceDays} days of the due date` : "Not paid by the due date",
+      amount: round(policy.lateFee),
+      accrualKey: "LATE_FEE",
+    });
+  }
+  if (policy.interestRate > 0) {
+    const rate = policy.interestRate / 100;
+    const compound = policy.interestMode === "COMPOUND";
+    const months = Math.ceil(overdueDays / MONTH_DAYS);
+    for (let m = 1; m <= months; m++) {
+      const base = compound ? principal * (1 + rate) ** (m - 1) : principal;
+      items.push({
+        head: "Interest",
+        description: `Month ${m} overdue @ ${policy.interestRate}%${compound ? " compounded" : ""}`,
+        amount: round(base * rate),
+        accrualKey: `INTEREST:${m}`,
+      });
+    }
+  }
+  return items;
+}
+
+// Adds any penalty lines unpaid or part-paid bills have become liable for, raises their totals to
+// match and re-derives their status. Interest runs on the charges still unpaid, not on the bill as
+// first raised. Late fees and interest follow the GST treatment of the bill they're on: taxed at
+// the rate its charges were taxed at, so the value of the supply includes them.
+// Each bill is read and charged in its own transaction, which also posts the new lines to the
+// ledger; the (billId, accrualKey) unique index makes a concurrent run fail that bill instead of
+// double-charging it.
+export async function accruePenalties(now = new Date()) {
+  const policy = await getPenaltyPolicy();
+  const cutoff = new Date(now.getTime() - policy.graceDays * DAY_MS);
+  const bills = await prisma.maintenanceBill.findMany({
+    where: { status: { in: OPEN_BILL_STATUSES }, dueDate: { lt: cutoff } },
+    select: { id: true },
+  });
+
+  let billCount = 0;
+  let total = 0;
+  for (const { id } of bills) {
+    try {
+      const amount = await prisma.$transaction(async tx => {
+        const bill = await tx.maintenanceBill.findUniqueOrThrow({ where: { id }, include: { lineItems: true, flat: true } });
+        if (!OPEN_BILL_STATUSES.includes(bill.status)) return 0;
+
+        const charges = bill.lineItems.filter(i => i.kind === "CHARGE");
+        const principal = Math.max(0, Math.min(charges.reduce((sum, i) => sum + i.amount, 0), billBalance(bill)));
+        const existing = new Set(bill.lineItems.map(i => i.accrualKey));
+        const missing = penaltiesDue(principal, bill.dueDate!, policy, now).filter(p => !existing.has(p.accrualKey));
+        if (!missing.length) return 0;
+
+        const taxRate = Math.max(0, ...charges.map(i => i.taxRate));
+        const lines = missing.map(p => ({ ...p, billId: bill.id, kind: "PENALTY", taxRate, taxAmount: round((p.amount * taxRate) / 100) }));
+        const added = round(lines.reduce((sum, p) => sum + p.amount + p.taxAmount, 0));
+        const items = await tx.billLineItem.createManyAndReturn({ data: lines });
+        const raised = round(bill.amount + added);
+        await tx.maintenanceBill.update({
+          where: { id: bill.id },
+          data: { amount: raised, status: billStatus(billTotal({ amount: raised, adjustment: bill.adjustment }), bill.paidAmount) },
+        });
+        for (const item of items) await postPenalty(tx, bill, item);
+        return added;
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+      if (!amount) continue;
+      billCount++;
+      total = round(total + amount);
+    } catch (err) {
+      if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") continue;
+      throw err;
+    }
+  }
+
+  if (billCount) {
+    await logActivity({
+      userId: null,
+      action: "PENALTIES_ACCRUED",
+      details: `₹${total} in late fees and interest added to ${billCount} overdue bills`,
+    });
+  }
+  return { bills: billCount, amount: total };
+}
+
+// Runs the accrual once at startup and then every few hours for the life of the server.
+export function startPenaltyAccrual() {
+  const run = () => accruePenalties().catch(err => console.error("Penalty accrual failed", err));
+  run();
+  setInterval(run, ACCRUAL_INTERVAL_MS).unref();
+}
@@ -0,0 +1,70 @@
+import type { Request, Response, NextFunction } from "express";
+import { requireAuth, type Role, type SessionClaims } from "./auth";
+
+type Access = "public" | "authenticated" | Role[];
+
+interface RouteRule {
+  // Exact path, or a prefix when it ends in "/*".
+  path: string;
+  access: Access;
+}
+
+// Who may call which API route. First matching rule wins; API paths with no rule are denied.
+export const routePolicy: RouteRule[] = [
+  { path: "/api/login", access: "public" },
+  { path: "/api/register", access: "public" },
+  // Gateways authenticate with a webhook signature, and their checkout pages are opened by redirect.
+  { path: "/api/payments/webhook/*", access: "public" },
+  { path: "/api/gateway/mock/*", access: "public" },
+  { path: "/api/me", access: "authenticated" },
+
+  { path: "/api/admin/*", access: ["admin"] },
+  { path: "/api/resident/*", access: ["resident"] },
+  { path: "/api/security/*", access: ["security", "admin"] },
+
+  { path: "/api/flats", access: ["admin", "security"] },
+  { path: "/api/residents", access: ["admin"] },
+  { path: "/api/add-resident", access: ["admin"] },
+  { path: "/api/generate-bill", access: ["admin"] },
+  { path: "/api/stats", access: ["admin"] },
+  { path: "/api/complaints", access: ["admin", "resident"] },
+  { path: "/api/events", access: "authenticated" },
+  { path: "/api/amenities/*", access: "authenticated" },
+];
+
+function matches(rule: RouteRule, path: string) {
+  return rule.path.endsWith("/*")
+    ? path.startsWith(rule.path.slice(0, -1))
+    : path === rule.path;
+}
+
+function forbidden(res: Response) {
+  return res.status(403).json({ success: false, message: "You do not have access to this resource" });
+}
+
+// Enforces routePolicy for every /api request. 401 = no or bad token or an account that's no
+// longer approved, 403 = wrong role.
+export function authorize(req: Request, res: Response, next: NextFunction) {
+  if (!req.path.startsWith("/api/")) return next();
+
+  const rule = routePolicy.find(r => matches(r, req.path));
+  if (rule?.access === "public") return next();
+
+  requireAuth(req, res, () => {
+    if (!rule) return forbidden(res);
+    if (rule.access !== "authenticated" && !rule.access.includes(req.auth!.role)) {
+      return forbidden(res);
+    }
+    next();
+  });
+}
+
+// Ownership: admins and security see every flat, residents only their own.
+export function canAccessFlat(auth: SessionClaims, flatId: string) {
+  return auth.role !== "resident" || auth.flatId === flatId;
+}
+
+// Prisma `where` fragment restricting a flat-owned query to what the session may see.
+export function flatScope(auth: SessionClaims) {
+  return auth.role === "resident" ? { flatId: auth.flatId ?? "" } : {};
+}
@@ -0,0 +1,4 @@
+import { PrismaClient } from "@prisma/client";
+
+// Single client shared by every route module so we don't open one connection pool per file.
+export const prisma = new PrismaClient();
@@ -0,0 +1,348 @@
+import { Prisma, type BankStatementLine, type Flat, type MaintenanceBill, type Payment } from "@prisma/client";
+import { prisma } from "./prisma";
+import { normalizeFlatNumber } from "./flats";
+import { OPEN_BILL_STATUSES, billBalance, insertPayment, settlePayment } from "./payments";
+import { EPSILON, round } from "./money";
+import { parseCsv } from "../src/lib/csv";
+import { periodLabel, type BankLineRow, type ConfirmBankLineInput, type StatementImport, type StatementMapping } from "../src/lib/schemas";
+
+export class ReconciliationError extends Error {}
+
+const monthOf = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+// --- Reading the statement ---
+
+const MONTH_ABBREVIATIONS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+export function parseStatementDate(value: string, format: StatementMapping["dateFormat"]) {
+  const parts = value.trim().split(/[\s/.-]+/);
+  if (parts.length < 3) return null;
+
+  let year: number, month: number, day: number;
+  switch (format) {
+    case "YYYY-MM-DD":
+      [year, month, day] = parts.map(Number);
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = parts.map(Number);
+      break;
+    case "DD-MMM-YYYY":
+      day = Number(parts[0]);
+      month = MONTH_ABBREVIATIONS.indexOf(parts[1].slice(0, 3).toLowerCase()) + 1;
+      year = Number(parts[2]);
+      break;
+    default:
+      [day, month, year] = parts.map(Number);
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day);
+  // Rejects 31/02 and friends instead of rolling them into the next month.
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// "1,850.00", "₹1850", "1850.00 Cr" -> 1850. Blank, debit ("Dr") and unreadable cells -> 0.
+export function parseAmount(value: string) {
+  if (/\bDr\.?$/i.test(value.trim())) return 0;
+  const amount = Number(value.replace(/[^\d.-]/g, ""));
+  return Number.isFinite(amount) ? round(amount) : 0;
+}
+
+interface StatementLine {
+  txnDate: Date;
+  narration: string;
+  reference: string | null;
+  amount: number;
+  fingerprint: string;
+}
+
+// The statement's credit lines. Debits and rows without a readable date are counted as skipped.
+function readStatement(csv: string, mapping: StatementMapping) {
+  const lines: StatementLine[] = [];
+  const seen = new Map<string, number>();
+  let skipped = 0;
+
+  for (const row of parseCsv(csv).slice(mapping.headerRow + 1)) {
+    const txnDate = parseStatementDate(row[mapping.date] ?? "", mapping.dateFormat);
+    const amount = parseAmount(row[mapping.credit] ?? "");
+    if (!txnDate || amount <= 0) {
+      skipped++;
+      continue;
+    }
+
+    const narration = row[mapping.narration] ?? "";
+    const reference = mapping.reference === undefined ? null : row[mapping.reference] || null;
+    const key = `${monthOf(txnDate)}-${String(txnDate.getDate()).padStart(2, "0")}|${amount.toFixed(2)}|${(reference ?? narration).toUpperCase()}`;
+    // Two genuinely identical credits on one day are told apart by their position in the file.
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+    lines.push({ txnDate, narration, reference, amount, fingerprint: occurrence > 1 ? `${key}#${occurrence}` : key });
+  }
+  return { lines, skipped };
+}
+
+// --- Matching ---
+
+const FLAT_PATTERN = /\b([A-D])[\s/-]?(\d{3,4})\b/gi;
+
+type OpenBill = Pick<MaintenanceBill, "id" | "flatId" | "period" | "dueDate"> & { balance: number };
+
+interface Suggestion {
+  status: "SUGGESTED" | "UNMATCHED";
+  flatId: string | null;
+  billIds: string[];
+  paymentId: number | null;
+  reason: string;
+}
+
+interface MatchContext {
+  flatsByNumber: Map<string, Flat>;
+  billsByFlat: Map<string, OpenBill[]>;
+  // Transfers residents reported themselves, still awaiting confirmation
+  pending: (Payment & { flat: Flat })[];
+}
+
+const money = (n: number) => `₹${n.toLocaleString("en-IN")}`;
+
+// Works out who a credit is from and what it pays, in order of confidence:
+//  1. a payment the resident already reported, by its reference or by flat and amount
+//  2. the flat number written in the narration, then the bills its amount fits
+//  3. failing that, the only flat with a bill for exactly that amount
+// Only bills raised by the transaction date count. Bills earmarked for earlier lines in the
+// same import are drawn down in `context`, so two transfers don't both claim the same bill.
+function suggestMatch(line: StatementLine, context: MatchContext): Suggestion {
+  const text = `${line.narration} ${line.reference ?? ""}`.toUpperCase();
+  const flats = [...new Set([...text.matchAll(FLAT_PATTERN)].map(m => normalizeFlatNumber(m[1] + m[2])))]
+    .map(number => context.flatsByNumber.get(number))
+    .filter((f): f is Flat => !!f);
+
+  const reported = context.pending.find(p =>
+    Math.abs(p.amount - line.amount) < EPSILON &&
+    ((p.reference && p.reference.length >= 4 && text.includes(p.reference.toUpperCase())) || flats.some(f => f.id === p.flatId)),
+  );
+  if (reported) {
+    context.pending.splice(context.pending.indexOf(reported), 1);
+    return {
+      status: "SUGGESTED",
+      flatId: reported.flatId,
+      billIds: [],
+      paymentId: reported.id,
+      reason: `Matches the ${reported.mode} payment Flat ${reported.flat.number} reported${reported.reference ? ` (${reported.reference})` : ""}`,
+    };
+  }
+
+  const eligible = (flatId: string) =>
+    (context.billsByFlat.get(flatId) ?? []).filter(b => b.balance > EPSILON && b.period <= monthOf(line.txnDate));
+  const claim = (bills: OpenBill[]) => {
+    let remaining = line.amount;
+    const ids: string[] = [];
+    for (const bill of bills) {
+      if (remaining <= EPSILON) break;
+      const share = Math.min(remaining, bill.balance);
+      bill.balance = round(bill.balance - share);
+      remaining = round(remaining - share);
+      ids.push(bill.id);
+    }
+    return ids;
+  };
+
+  if (flats.length > 1) {
+    return { status: "UNMATCHED", flatId: null, billIds: [], paymentId: null, reason: `Narration mentions several flats: ${flats.map(f => f.number).join(", ")}` };
+  }
+
+  if (flats.length === 1) {
+    const flat = flats[0];
+    const bills = eligible(flat.id);
+    const outstanding = round(bills.reduce((sum, b) => sum + b.balance, 0));
+    const unmatched = (reason: string): Suggestion => ({ status: "UNMATCHED", flatId: flat.id, billIds: [], paymentId: null, reason });
+
+    if (!bills.length) return unmatched(`Flat ${flat.number} in narration, but it has no open bills`);
+    if (line.amount > outstanding + EPSILON) {
+      return unmatched(`Flat ${flat.number} in narration, but ${money(line.amount)} is more than the ${money(outstanding)} outstanding`);
+    }
+
+    const exact = bills.find(b => Math.abs(b.balance - line.amount) < EPSILON);
+    if (exact) {
+      return { status: "SUGGESTED", flatId: flat.id, billIds: claim([exact]), paymentId: null, reason: `Flat ${flat.number} in narration; settles the ${periodLabel(exact.period)} bill` };
+    }
+    const settles = Math.abs(outstanding - line.amount) < EPSILON ? `clears all ${bills.length} open bills` : "part-pays the oldest dues";
+    return { status: "SUGGESTED", flatId: flat.id, billIds: claim(bills), paymentId: null, reason: `Flat ${flat.number} in narration; ${settles}` };
+  }
+
+  const candidates = [...context.billsByFlat.keys()]
+    .map(flatId => eligible(flatId).find(b => Math.abs(b.balance - line.amount) < EPSILON))
+    .filter((b): b is OpenBill => !!b);
+  if (candidates.length === 1) {
+    const [bill] = candidates;
+    const flat = [...context.flatsByNumber.values()].find(f => f.id === bill.flatId)!;
+    return {
+      status: "SUGGESTED",
+      flatId: bill.flatId,
+      billIds: claim([bill]),
+      paymentId: null,
+      reason: `No flat in narration; only Flat ${flat.number} owes exactly ${money(line.amount)} (${periodLabel(bill.period)})`,
+    };
+  }
+  return {
+    status: "UNMATCHED",
+    flatId: null,
+    billIds: [],
+    paymentId: null,
+    reason: candidates.length ? `No flat in narration; ${candidates.length} flats owe exactly ${money(line.amount)}` : "No flat in narration and no bill for this amount",
+  };
+}
+
+async function matchContext(tx: Prisma.TransactionClient): Promise<MatchContext> {
+  const [flats, bills, pending] = await Promise.all([
+    tx.flat.findMany(),
+    tx.maintenanceBill.findMany({ where: { status: { in: OPEN_BILL_STATUSES } }, orderBy: { period: "asc" } }),
+    tx.payment.findMany({
+      where: { status: "PENDING", gateway: null, bankLine: { is: null } },
+      include: { flat: true },
+      orderBy: { paidAt: "asc" },
+    }),
+  ]);
+
+  const billsByFlat = new Map<string, OpenBill[]>();
+  for (const b of bills) {
+    billsByFlat.set(b.flatId, [...(billsByFlat.get(b.flatId) ?? []), { ...b, balance: billBalance(b) }]);
+  }
+  return { flatsByNumber: new Map(flats.map(f => [f.number, f])), billsByFlat, pending };
+}
+
+// --- Import ---
+
+// Stores the statement's credit lines, skipping any already imported from an earlier upload, and
+// attaches a suggested match to each. Nothing is paid until the treasurer confirms.
+export function importStatement(fileName: string, csv: string, mapping: StatementMapping, uploadedById: number) {
+  const { lines, skipped } = readStatement(csv, mapping);
+  if (!lines.length) {
+    throw new ReconciliationError("No credit lines found. Check the header row, column mapping and date format.");
+  }
+
+  return prisma.$transaction(async (tx): Promise<StatementImport> => {
+    const existing = await tx.bankStatementLine.findMany({
+      where: { fingerprint: { in: lines.map(l => l.fingerprint) } },
+      select: { fingerprint: true },
+    });
+    const known = new Set(existing.map(l => l.fingerprint));
+    const fresh = lines.filter(l => !known.has(l.fingerprint));
+
+    const context = await matchContext(tx);
+    const statement = await tx.bankStatement.create({ data: { fileName, uploadedById } });
+    let suggested = 0;
+    for (const line of fresh) {
+      const match = suggestMatch(line, context);
+      if (match.status === "SUGGESTED") suggested++;
+      await tx.bankStatementLine.create({
+        data: {
+          ...line,
+          statementId: statement.id,
+          status: match.status,
+          flatId: match.flatId,
+          billIds: match.billIds.length ? JSON.stringify(match.billIds) : null,
+          paymentId: match.paymentId,
+          matchReason: match.reason,
+        },
+      });
+    }
+
+    return {
+      statement_id: statement.id,
+      file_name: fileName,
+      imported: fresh.length,
+      duplicates: lines.length - fresh.length,
+      skipped,
+      suggested,
+      unmatched: fresh.length - suggested,
+    };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable, timeout: 30_000 });
+}
+
+// --- Review ---
+
+const paymentMode = (narration: string) => (/\bUPI\b/i.test(narration) ? "UPI" : "NEFT");
+
+// Turns a line into a CONFIRMED payment: either the resident's own pending report of it, or a new
+// payment split over the suggested (or overridden) bills. Line and payment change together.
+export async function confirmBankLine(id: number, adminId: number, override: ConfirmBankLineInput = {}) {
+  return prisma.$transaction(async tx => {
+    const line = await tx.bankStatementLine.findUnique({ where: { id } });
+    if (!line) throw new ReconciliationError("Statement line not found");
+    if (line.status === "MATCHED" || line.status === "IGNORED") {
+      throw new ReconciliationError(`This line is already ${line.status.toLowerCase()}`);
+    }
+
+    let flatId = line.flatId;
+    if (override.flatId) {
+      const flat = await tx.flat.findFirst({ where: { number: normalizeFlatNumber(override.flatId) } });
+      if (!flat) throw new ReconciliationError(`Flat ${override.flatId} does not exist`);
+      flatId = flat.id;
+    }
+    if (!flatId) throw new ReconciliationError("Choose the flat this credit came from");
+
+    const overridden = !!(override.flatId || override.billIds);
+    const payment = line.paymentId && !overridden
+      ? await settlePayment(tx, line.paymentId, adminId)
+      : await insertPayment(tx, {
+          flatId,
+          amount: line.amount,
+          mode: paymentMode(line.narration),
+          reference: line.reference ?? line.narration.slice(0, 60),
+          note: `Bank statement line #${line.id}`,
+          paidAt: line.txnDate,
+          // A new flat without explicit bills settles its oldest dues.
+          billIds: override.billIds ?? (override.flatId ? undefined : parseBillIds(line)),
+          recordedById: adminId,
+          status: "CONFIRMED",
+        });
+
+    return tx.bankStatementLine.update({
+      where: { id },
+      data: {
+        status: "MATCHED",
+        flatId: payment.flatId,
+        paymentId: payment.id,
+        billIds: JSON.stringify(payment.allocations.map(a => a.billId)),
+      },
+      include: { flat: true, payment: true },
+    });
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export function ignoreBankLine(id: number, reason: string) {
+  return prisma.bankStatementLine.updateMany({
+    where: { id, status: { in: ["SUGGESTED", "UNMATCHED"] } },
+    data: { status: "IGNORED", matchReason: `Ignored: ${reason}`, paymentId: null },
+  });
+}
+
+function parseBillIds(line: Pick<BankStatementLine, "billIds">): string[] | undefined {
+  return line.billIds ? JSON.parse(line.billIds) : undefined;
+}
+
+type LineWithFlat = BankStatementLine & { flat: Flat | null };
+
+// Row shape for the review queue; `bills` carries each suggested bill's current balance.
+export async function toBankLineRows(lines: LineWithFlat[]): Promise<BankLineRow[]> {
+  const ids = lines.flatMap(l => parseBillIds(l) ?? []);
+  const bills = await prisma.maintenanceBill.findMany({ where: { id: { in: ids } } });
+  const byId = new Map(bills.map(b => [b.id, b]));
+
+  return lines.map(l => ({
+    id: l.id,
+    statement_id: l.statementId,
+    txn_date: l.txnDate.toISOString(),
+    narration: l.narration,
+    reference: l.reference,
+    amount: l.amount,
+    status: l.status as BankLineRow["status"],
+    flat_id: l.flat?.number ?? null,
+    bills: (parseBillIds(l) ?? [])
+      .map(id => byId.get(id))
+      .filter((b): b is MaintenanceBill => !!b)
+      .map(b => ({ bill_id: b.id, month: periodLabel(b.period), balance: billBalance(b) })),
+    match_reason: l.matchReason,
+    payment_id: l.paymentId,
+  }));
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, beforeEach, describe, mock, test } from "node:test";
+import { deliveryState, runReminders, sendFlatReminder, undeliverableAddresses } from "./reminders";
+import { fakeDbFixture } from "./testing";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const start = new Date();
+const later = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+const daysAgo = (days: number) => new Date(start.getTime() - days * DAY_MS);
+
+// Mail goes to a scratch mailbox; pointing it under a file makes every send fail.
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "reminders-"));
+fs.writeFileSync(path.join(scratch, "blocked"), "");
+const mailWorks = (works: boolean) => {
+  process.env.MAIL_TRANSPORT = "mailbox";
+  process.env.MAILBOX_DIR = works ? scratch : path.join(scratch, "blocked", "mailbox");
+};
+after(() => fs.rmSync(scratch, { recursive: true, force: true }));
+
+const fixture = fakeDbFixture(() => ({
+  reminderPolicy: [{ id: 1, enabled: true, upcomingDays: 3, overdueDays: 1, overdueRepeatDays: 7, finalNoticeDays: 30, updatedAt: start }],
+  flat: [{ id: "f1", number: "A101" }, { id: "f2", number: "B202" }],
+  resident: [
+    { id: "r1", name: "Asha", email: "asha@example.com", phone: "1", flatId: "f1" },
+    { id: "r2", name: "Ravi", email: "ravi@example.com", phone: "2", flatId: "f2" },
+  ],
+  maintenanceBill: [
+    { id: "aug", flatId: "f1", period: "2026-08", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID", dueDate: daysAgo(40), createdAt: daysAgo(50) },
+    { id: "sep", flatId: "f1", period: "2026-09", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID", dueDate: daysAgo(10), createdAt: daysAgo(20) },
+    { id: "oct", flatId: "f2", period: "2026-10", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID", dueDate: daysAgo(2), createdAt: daysAgo(12) },
+  ],
+}));
+const logs = () => fixture.db.rows("reminderLog");
+
+beforeEach(() => {
+  mailWorks(true);
+  mock.method(console, "error", () => {});
+});
+afterEach(() => mock.restoreAll());
+
+// Retries fall due 1, 2, 4 and 8 hours after each failure; these runs land just after.
+const RETRIES = [0, 1.1, 3.2, 7.3, 15.4];
+
+describe("runReminders", () => {
+  test("emails each flat once, leading with its most pressing bill", async () => {
+    assert.deepEqual(await runReminders(later(0)), { sent: 2, failed: 0, skipped: 0, held: 0 });
+    assert.deepEqual(logs().map(l => [l.recipient, l.billId, l.kind, l.status]), [
+      ["asha@example.com", "aug", "FINAL", "SENT"],
+      ["asha@example.com", "sep", "OVERDUE", "SENT"],
+      ["ravi@example.com", "oct", "OVERDUE", "SENT"],
+    ]);
+    assert.match(String(logs()[1].subject), /Final notice/i);
+    assert.deepEqual(await runReminders(later(1)), { sent: 0, failed: 0, skipped: 0, held: 0 });
+  });
+
+  test("backs off an address that keeps failing and then gives up on it", async () => {
+    mailWorks(false);
+    assert.equal((await runReminders(later(0))).failed, 2);
+    assert.equal(logs().length, 2, "one failed attempt logged per flat");
+
+    assert.deepEqual(await runReminders(later(0.5)), { sent: 0, failed: 0, skipped: 0, held: 2 });
+    assert.equal((await runReminders(later(RETRIES[1]))).failed, 2);
+    assert.equal((await runReminders(later(2.5))).held, 2, "waits two hours after the second failure");
+    for (const hours of RETRIES.slice(2)) assert.equal((await runReminders(later(hours))).failed, 2);
+    assert.equal(logs().length, 10);
+    assert.match(String(fixture.db.rows("activityLog").at(-1)?.details), /stopped emailing asha@example\.com \(Flat A101\), ravi@example\.com \(Flat B202\)/);
+
+    assert.deepEqual(await runReminders(later(100)), { sent: 0, failed: 0, skipped: 0, held: 2 });
+    const [asha] = await undeliverableAddresses(later(100));
+    assert.equal(asha.flat_id, "A101");
+    assert.equal(asha.failures, 5);
+    assert.match(asha.last_error!, /ENOTDIR|EEXIST|not a directory/i);
+  });
+
+  test("resumes once a reminder sent by hand gets through", async () => {
+    mailWorks(false);
+    for (const hours of RETRIES) await runReminders(later(hours));
+    assert.equal((await undeliverableAddresses(later(16))).length, 2);
+
+    mailWorks(true);
+    await sendFlatReminder("f1", 1);
+    assert.deepEqual((await undeliverableAddresses(later(16))).map(u => u.flat_id), ["B202"]);
+    assert.deepEqual(await runReminders(later(16)), { sent: 1, failed: 0, skipped: 0, held: 1 });
+  });
+});
+
+describe("deliveryState", () => {
+  const attempt = (status: string, hoursAgo: number) => ({ status, error: status === "FAILED" ? "mailbox full" : null, createdAt: later(-hoursAgo) });
+
+  test("counts only the failures since the last delivery", () => {
+    const state = deliveryState([attempt("FAILED", 3), attempt("FAILED", 5), attempt("SENT", 24), attempt("FAILED", 48)], start);
+    assert.deepEqual(state, { failures: 2, givenUp: false, waiting: false, lastError: "mailbox full", lastAttempt: later(-3) });
+  });
+
+  test("waits longer after each failure", () => {
+    assert.equal(deliveryState([attempt("FAILED", 1.5)], start).waiting, false);
+    assert.equal(deliveryState([attempt("FAILED", 1.5), attempt("FAILED", 3)], start).waiting, true);
+  });
+
+  test("is clear for an address with no failures", () => {
+    assert.deepEqual(deliveryState([attempt("SENT", 1)], start), { failures: 0, givenUp: false, waiting: false, lastError: null, lastAttempt: null });
+  });
+});
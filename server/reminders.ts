@@ -0,0 +1,308 @@
+import { Prisma, type Flat, type MaintenanceBill, type ReminderLog, type ReminderPolicy, type Resident, type User } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { sendMail } from "./mailer";
+import { OPEN_BILL_STATUSES, billBalance } from "./payments";
+import {
+  periodLabel,
+  type ReminderLogRow,
+  type ReminderPolicyRow,
+  type ReminderRun,
+  type UndeliverableAddress,
+} from "../src/lib/schemas";
+
+type ReminderKind = ReminderLogRow["kind"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+// A failed send to an address is retried after 1, 2, 4 and then 8 hours. After MAX_SEND_ATTEMPTS
+// failures in a row the schedule stops emailing it, and it's listed by undeliverableAddresses,
+// until a reminder gets through (an admin can always send one by hand) or a month has passed.
+const MAX_SEND_ATTEMPTS = 5;
+const ATTEMPT_WINDOW_DAYS = 30;
+
+export class ReminderError extends Error {}
+
+export function getReminderPolicy(db: Prisma.TransactionClient = prisma) {
+  return db.reminderPolicy.upsert({ where: { id: 1 }, update: {}, create: { id: 1 } });
+}
+
+export function toReminderPolicyRow(p: ReminderPolicy): ReminderPolicyRow {
+  return {
+    enabled: p.enabled,
+    upcoming_days: p.upcomingDays,
+    overdue_days: p.overdueDays,
+    overdue_repeat_days: p.overdueRepeatDays,
+    final_notice_days: p.finalNoticeDays,
+    updated_at: p.updatedAt.toISOString(),
+  };
+}
+
+// Which reminder a bill is due for today, if any: UPCOMING in the days before it falls due,
+// OVERDUE once it is overdueDays late and FINAL from finalNoticeDays on.
+export function reminderStage(dueDate: Date, policy: ReminderPolicy, now = new Date()): ReminderKind | null {
+  const daysLate = Math.floor((now.getTime() - dueDate.getTime()) / DAY_MS);
+  if (daysLate >= policy.finalNoticeDays) return "FINAL";
+  if (daysLate >= policy.overdueDays) return "OVERDUE";
+  if (now < dueDate && dueDate.getTime() - now.getTime() <= policy.upcomingDays * DAY_MS) return "UPCOMING";
+  return null;
+}
+
+// --- Templates ---
+
+type ReminderBill = MaintenanceBill & { flat: Flat & { resident: Resident | null } };
+
+interface ReminderContext {
+  kind: ReminderKind;
+  bill: ReminderBill;
+  // Everything the flat owes, this bill included
+  outstanding: number;
+  openBills: number;
+}
+
+const rupees = (n: number) => `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+const longDate = (d: Date) => d.toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const TEMPLATES: Record<ReminderKind, (c: ReminderContext) => { subject: string; paragraphs: string[] }> = {
+  UPCOMING: ({ bill }) => ({
+    subject: `Maintenance for ${periodLabel(bill.period)} is due on ${longDate(bill.dueDate!)}`,
+    paragraphs: [
+      `This is a friendly reminder that the maintenance bill for Flat ${bill.flat.number} for ${periodLabel(bill.period)} falls due on ${longDate(bill.dueDate!)}.`,
+      `Amount due: ${rupees(billBalance(bill))}${bill.invoiceNo ? ` (invoice ${bill.invoiceNo})` : ""}.`,
+      "Paying on time avoids late fees and interest. If you have already paid, please ignore this message.",
+    ],
+  }),
+  OVERDUE: ({ bill, outstanding, openBills }) => ({
+    subject: `Overdue: maintenance for ${periodLabel(bill.period)}, Flat ${bill.flat.number}`,
+    paragraphs: [
+      `Our records show the ${periodLabel(bill.period)} maintenance bill for Flat ${bill.flat.number} was due on ${longDate(bill.dueDate!)} and is still unpaid.`,
+      `Balance on this bill: ${rupees(billBalance(bill))}.${openBills > 1 ? ` Total outstanding across ${openBills} bills: ${rupees(outstanding)}.` : ""}`,
+      "Late fees and interest are added to overdue bills under the society's late payment terms. Please pay at the earliest, or contact the office if there is a problem with the bill.",
+    ],
+  }),
+  FINAL: ({ bill, outstanding }) => ({
+    subject: `Final notice: outstanding maintenance dues for Flat ${bill.flat.number}`,
+    paragraphs: [
+      `Despite earlier reminders, ${rupees(outstanding)} remains outstanding for Flat ${bill.flat.number}, including the ${periodLabel(bill.period)} bill that was due on ${longDate(bill.dueDate!)}.`,
+      "This is a final notice. If the dues are not cleared, the managing committee may take further action under the society's bye-laws.",
+      "If you have already paid, please share the payment details with the office so we can update our records.",
+    ],
+  }),
+};
+
+export function renderReminder(context: ReminderContext) {
+  const { subject, paragraphs } = TEMPLATES[context.kind](context);
+  const society = process.env.SOCIETY_NAME || "TowerTech Co-operative Housing Society";
+  const name = context.bill.flat.resident?.name ?? "Resident";
+  const payLine = process.env.APP_URL ? `Pay online: ${process.env.APP_URL}` : null;
+
+  const text = [`Dear ${name},`, ...paragraphs, ...(payLine ? [payLine] : []), `Regards,\nManaging Committee\n${society}`].join("\n\n");
+  const html = [
+    `<p>Dear ${escapeHtml(name)},</p>`,
+    ...paragraphs.map(p => `<p>${escapeHtml(p)}</p>`),
+    ...(process.env.APP_URL ? [`<p><a href="${escapeHtml(process.env.APP_URL)}">Pay online</a></p>`] : []),
+    `<p>Regards,<br>Managing Committee<br>${escapeHtml(society)}</p>`,
+  ].join("\n");
+  return { subject, text, html };
+}
+
+// --- Sending ---
+
+const reminderInclude = { flat: { include: { resident: true } } } satisfies Prisma.MaintenanceBillInclude;
+
+interface DueReminder {
+  kind: ReminderKind;
+  bill: ReminderBill;
+}
+
+const SEVERITY: Record<ReminderKind, number> = { UPCOMING: 0, OVERDUE: 1, FINAL: 2 };
+
+// Emails the flat once about everything it's due a reminder for, led by the most pressing (the
+// oldest bill on a tie), and records the attempt against each bill it covered. Flats without a
+// resident email are logged as SKIPPED so the schedule doesn't retry them every hour. A failed
+// send is logged once, against the lead bill, and the others stay due for the retry.
+async function deliver(reminders: DueReminder[], sentById: number | null, now = new Date()) {
+  const { kind, bill } = reminders.reduce((lead, r) => (SEVERITY[r.kind] > SEVERITY[lead.kind] ? r : lead));
+  const open = await prisma.maintenanceBill.findMany({
+    where: { flatId: bill.flatId, status: { in: OPEN_BILL_STATUSES } },
+    select: { amount: true, adjustment: true, paidAmount: true },
+  });
+  const outstanding = open.reduce((sum, b) => sum + billBalance(b), 0);
+  const mail = renderReminder({ kind, bill, outstanding, openBills: open.length });
+  const recipient = bill.flat.resident?.email ?? null;
+  const base = { flatId: bill.flatId, billId: bill.id, kind, recipient, subject: mail.subject, sentById, createdAt: now };
+
+  const record = async (outcome: { status: string; error?: string; messageId?: string }) => {
+    const log = await prisma.reminderLog.create({ data: { ...base, ...outcome } });
+    if (outcome.status !== "FAILED") {
+      for (const r of reminders.filter(r => r.bill.id !== bill.id)) {
+        await prisma.reminderLog.create({ data: { ...base, billId: r.bill.id, kind: r.kind, ...outcome } });
+      }
+    }
+    return log;
+  };
+
+  if (!recipient) return record({ status: "SKIPPED", error: "No resident email on file" });
+  try {
+    return record({ status: "SENT", messageId: await sendMail({ to: recipient, ...mail }) });
+  } catch (err) {
+    console.error("Reminder email failed", err);
+    return record({ status: "FAILED", error: (err as Error).message });
+  }
+}
+
+// Whether the schedule already covered this bill at this stage. Overdue reminders repeat every
+// overdueRepeatDays; the other kinds go out once.
+function alreadyReminded(logs: ReminderLog[], kind: ReminderKind, policy: ReminderPolicy, now: Date) {
+  const done = logs.filter(l => l.kind === kind && l.status !== "FAILED");
+  if (kind !== "OVERDUE" || !policy.overdueRepeatDays) return done.length > 0;
+  return done.some(l => now.getTime() - l.createdAt.getTime() < policy.overdueRepeatDays * DAY_MS);
+}
+
+type Attempt = Pick<ReminderLog, "status" | "error" | "createdAt">;
+
+// How sending to one address has been going, from its attempts newest first: the failures since
+// it last took a message, and whether the schedule should wait before trying again or give up.
+export function deliveryState(attempts: Attempt[], now: Date) {
+  const delivered = attempts.findIndex(a => a.status === "SENT");
+  const failures = delivered === -1 ? attempts.length : delivered;
+  const last = attempts[0];
+  return {
+    failures,
+    givenUp: failures >= MAX_SEND_ATTEMPTS,
+    waiting: failures > 0 && now.getTime() - last.createdAt.getTime() < REMINDER_INTERVAL_MS * 2 ** (failures - 1),
+    lastError: failures ? last.error : null,
+    lastAttempt: failures ? last.createdAt : null,
+  };
+}
+
+// The sends and failed sends to each address over the last month, newest first.
+async function recentAttempts(recipients: string[], now: Date) {
+  const logs = await prisma.reminderLog.findMany({
+    where: {
+      recipient: { in: recipients },
+      status: { in: ["SENT", "FAILED"] },
+      createdAt: { gte: new Date(now.getTime() - ATTEMPT_WINDOW_DAYS * DAY_MS) },
+    },
+    orderBy: { id: "desc" },
+  });
+  const byRecipient = new Map<string, Attempt[]>();
+  for (const log of logs) byRecipient.set(log.recipient!, [...(byRecipient.get(log.recipient!) ?? []), log]);
+  return byRecipient;
+}
+
+// One pass of the schedule over every open bill with a due date. A flat gets at most one email per
+// pass however many of its bills are due a reminder; flats whose address has been failing are
+// held back, see MAX_SEND_ATTEMPTS.
+export async function runReminders(now = new Date()): Promise<ReminderRun> {
+  const policy = await getReminderPolicy();
+  const result: ReminderRun = { sent: 0, failed: 0, skipped: 0, held: 0 };
+  if (!policy.enabled) return result;
+
+  const bills = await prisma.maintenanceBill.findMany({
+    where: { status: { in: OPEN_BILL_STATUSES }, dueDate: { not: null } },
+    include: { ...reminderInclude, reminders: true },
+    orderBy: { period: "asc" },
+  });
+
+  const due = new Map<string, DueReminder[]>();
+  for (const { reminders, ...bill } of bills) {
+    const kind = reminderStage(bill.dueDate!, policy, now);
+    if (!kind || alreadyReminded(reminders, kind, policy, now)) continue;
+    due.set(bill.flatId, [...(due.get(bill.flatId) ?? []), { kind, bill }]);
+  }
+
+  const recipients = [...due.values()].flatMap(([{ bill }]) => bill.flat.resident?.email ?? []);
+  const attempts = await recentAttempts(recipients, now);
+  const givenUp: string[] = [];
+  for (const reminders of due.values()) {
+    const { flat } = reminders[0].bill;
+    const state = flat.resident ? deliveryState(attempts.get(flat.resident.email) ?? [], now) : null;
+    if (state?.givenUp || state?.waiting) {
+      result.held++;
+      continue;
+    }
+
+    const log = await deliver(reminders, null, now);
+    if (log.status === "SENT") result.sent++;
+    else if (log.status === "SKIPPED") result.skipped++;
+    else {
+      result.failed++;
+      if (state!.failures + 1 >= MAX_SEND_ATTEMPTS) givenUp.push(`${log.recipient} (Flat ${flat.number})`);
+    }
+  }
+
+  if (result.sent || result.failed) {
+    await logActivity({
+      userId: null,
+      action: "REMINDERS_SENT",
+      details: [
+        `${result.sent} dues reminders emailed${result.failed ? `, ${result.failed} failed` : ""}${result.skipped ? `, ${result.skipped} flats without an email` : ""}`,
+        ...(givenUp.length ? [`stopped emailing ${givenUp.join(", ")} after ${MAX_SEND_ATTEMPTS} failed attempts`] : []),
+      ].join("; "),
+    });
+  }
+  return result;
+}
+
+// Residents' current addresses the schedule has given up on.
+export async function undeliverableAddresses(now = new Date()): Promise<UndeliverableAddress[]> {
+  const residents = await prisma.resident.findMany({ include: { flat: true } });
+  const attempts = await recentAttempts(residents.map(r => r.email), now);
+  return residents
+    .map(r => ({ resident: r, state: deliveryState(attempts.get(r.email) ?? [], now) }))
+    .filter(({ state }) => state.givenUp)
+    .map(({ resident, state }) => ({
+      flat_id: resident.flat.number,
+      recipient: resident.email,
+      failures: state.failures,
+      last_error: state.lastError,
+      last_attempt: state.lastAttempt!.toISOString(),
+    }))
+    .sort((a, b) => a.flat_id.localeCompare(b.flat_id));
+}
+
+// Sent by an admin for the flat's oldest open bill, at whatever stage that bill has reached
+// (an upcoming reminder if it isn't due yet). Goes out regardless of the schedule; adminId is null
+// when the dunning ladder sends it.
+export async function sendFlatReminder(flatId: string, adminId: number | null) {
+  const [policy, bill] = await Promise.all([
+    getReminderPolicy(),
+    prisma.maintenanceBill.findFirst({
+      where: { flatId, status: { in: OPEN_BILL_STATUSES } },
+      include: reminderInclude,
+      orderBy: { period: "asc" },
+    }),
+  ]);
+  if (!bill) throw new ReminderError("This flat has no outstanding bills");
+  if (!bill.flat.resident?.email) throw new ReminderError(`Flat ${bill.flat.number} has no resident email on file`);
+
+  const kind = bill.dueDate ? reminderStage(bill.dueDate, policy) ?? (new Date() < bill.dueDate ? "UPCOMING" : "OVERDUE") : "UPCOMING";
+  return deliver([{ kind, bill: { ...bill, dueDate: bill.dueDate ?? bill.createdAt } }], adminId);
+}
+
+export function toReminderLogRow(l: ReminderLog & { flat: Flat; bill: MaintenanceBill | null; sentBy: User | null }): ReminderLogRow {
+  return {
+    id: l.id,
+    flat_id: l.flat.number,
+    bill_id: l.billId,
+    month: l.bill ? periodLabel(l.bill.period) : null,
+    kind: l.kind as ReminderLogRow["kind"],
+    status: l.status as ReminderLogRow["status"],
+    recipient: l.recipient,
+    subject: l.subject,
+    error: l.error,
+    sent_by: l.sentBy?.name ?? null,
+    created_at: l.createdAt.toISOString(),
+  };
+}
+
+// Checks for due reminders at startup and then every hour for the life of the server.
+export function startReminderSchedule() {
+  const run = () => runReminders().catch(err => console.error("Reminder run failed", err));
+  run();
+  setInterval(run, REMINDER_INTERVAL_MS).unref();
+}
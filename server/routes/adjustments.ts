@@ -0,0 +1,134 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { AdjustmentError, adjustmentInclude, approveAdjustment, rejectAdjustment, requestAdjustment, toAdjustmentRow } from "../adjustments";
+import { adjustmentNoteInclude, adjustmentPdf, fileNameOf } from "../documents";
+import { findFlatByNumber } from "../flats";
+import { getTaxPolicy } from "../tax";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  adjustmentSchema,
+  adjustmentsQuerySchema,
+  approveAdjustmentSchema,
+  billIdParamSchema,
+  idParamSchema,
+  rejectAdjustmentSchema,
+  type AdjustmentInput,
+  type AdjustmentsQuery,
+  type ApproveAdjustmentInput,
+  type RejectAdjustmentInput,
+} from "../../src/lib/schemas";
+
+export const adjustmentsRouter = express.Router();
+
+const KIND_LABELS: Record<string, string> = {
+  CREDIT_NOTE: "credit note",
+  WAIVER: "late fee waiver",
+  DEBIT_NOTE: "debit note",
+};
+
+// GET /api/admin/adjustments
+adjustmentsRouter.get("/api/admin/adjustments", validateQuery(adjustmentsQuerySchema), async (req, res) => {
+  const { status, flatId } = req.query as AdjustmentsQuery;
+
+  try {
+    const flat = flatId ? await findFlatByNumber(flatId) : null;
+    if (flatId && !flat) return res.json([]);
+
+    const adjustments = await prisma.billAdjustment.findMany({
+      where: { status, ...(flat ? { bill: { flatId: flat.id } } : {}) },
+      include: adjustmentInclude,
+      orderBy: { id: "desc" },
+      take: 200,
+    });
+    res.json(adjustments.map(toAdjustmentRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/bills/:id/adjustments
+// Raises a credit note, waiver or debit note for another admin to approve.
+adjustmentsRouter.post("/api/admin/bills/:id/adjustments", validateParams(billIdParamSchema), validateBody(adjustmentSchema), async (req, res) => {
+  const input: AdjustmentInput = req.body;
+
+  try {
+    const bill = await prisma.maintenanceBill.findUnique({ where: { id: req.params.id } });
+    if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+
+    const adjustment = await requestAdjustment(bill.id, input, req.auth!.userId);
+    const row = toAdjustmentRow(adjustment);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ADJUSTMENT_REQUESTED",
+      target: `Flat ${row.flat_id}`,
+      details: `₹${row.amount} ${KIND_LABELS[row.kind]} on the ${row.month} bill: ${row.reason}`,
+    });
+    res.json({ success: true, message: `The ${KIND_LABELS[row.kind]} is waiting for another admin's approval`, adjustment: row });
+  } catch (err) {
+    if (err instanceof AdjustmentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to raise adjustment", 400);
+  }
+});
+
+// POST /api/admin/adjustments/:id/approve
+adjustmentsRouter.post("/api/admin/adjustments/:id/approve", validateParams(idParamSchema), validateBody(approveAdjustmentSchema), async (req, res) => {
+  const { note }: ApproveAdjustmentInput = req.body;
+
+  try {
+    const row = toAdjustmentRow(await approveAdjustment(Number(req.params.id), req.auth!.userId, note));
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ADJUSTMENT_APPROVED",
+      target: `Flat ${row.flat_id}`,
+      details: `${row.document_no}: ₹${row.amount} ${KIND_LABELS[row.kind]} on the ${row.month} bill, raised by ${row.requested_by}`,
+    });
+    res.json({ success: true, message: `${row.document_no} issued for Flat ${row.flat_id}`, adjustment: row });
+  } catch (err) {
+    if (err instanceof AdjustmentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to approve adjustment", 400);
+  }
+});
+
+// POST /api/admin/adjustments/:id/reject
+// Also how the admin who raised an adjustment withdraws it.
+adjustmentsRouter.post("/api/admin/adjustments/:id/reject", validateParams(idParamSchema), validateBody(rejectAdjustmentSchema), async (req, res) => {
+  const { note }: RejectAdjustmentInput = req.body;
+
+  try {
+    const row = toAdjustmentRow(await rejectAdjustment(Number(req.params.id), req.auth!.userId, note));
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ADJUSTMENT_REJECTED",
+      target: `Flat ${row.flat_id}`,
+      details: `₹${row.amount} ${KIND_LABELS[row.kind]} on the ${row.month} bill rejected: ${note}`,
+    });
+    res.json({ success: true, message: "Adjustment rejected", adjustment: row });
+  } catch (err) {
+    if (err instanceof AdjustmentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to reject adjustment", 400);
+  }
+});
+
+// GET /api/admin/adjustments/:id/document
+adjustmentsRouter.get("/api/admin/adjustments/:id/document", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const adjustment = await prisma.billAdjustment.findUnique({ where: { id: Number(req.params.id) }, include: adjustmentNoteInclude });
+    if (!adjustment) return res.status(404).json({ success: false, message: "Adjustment not found" });
+    if (!adjustment.documentNo) {
+      return res.status(409).json({ success: false, message: "Credit and debit notes are issued once the adjustment is approved" });
+    }
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileNameOf(adjustment.documentNo)}.pdf"`);
+    res.send(adjustmentPdf(adjustment, await getTaxPolicy()));
+  } catch (err) {
+    sendError(res, err, "Failed to generate document");
+  }
+});
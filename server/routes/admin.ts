@@ -0,0 +1,214 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { describeBillRun, generateBills } from "../billing";
+import { findFlatByNumber, towerOf } from "../flats";
+import { OPEN_BILL_STATUSES } from "../payments";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import { round } from "../money";
+import {
+  complaintStatusSchema,
+  flatAttributesSchema,
+  flatNumberParamSchema,
+  generateBillsSchema,
+  logsQuerySchema,
+  type ActivityLogRow,
+  type FlatAttributesInput,
+  type FlatRow,
+  type GenerateBillsInput,
+  type LogsQuery,
+} from "../../src/lib/schemas";
+
+export const adminRouter = express.Router();
+
+// GET /api/admin/stats
+adminRouter.get("/api/admin/stats", async (req, res) => {
+  try {
+    const [totalFlats, unpaidFlats, pendingComplaints, activeVisitors, totals] = await Promise.all([
+      prisma.flat.count(),
+      prisma.flat.count({
+        where: { bills: { some: { status: { in: OPEN_BILL_STATUSES } } } },
+      }),
+      prisma.complaint.count({ where: { status: { not: "RESOLVED" } } }),
+      prisma.visitor.count({ where: { exitTime: null } }),
+      prisma.maintenanceBill.aggregate({ _sum: { amount: true, adjustment: true, paidAmount: true } }),
+    ]);
+    const billed = (totals._sum.amount ?? 0) + (totals._sum.adjustment ?? 0);
+    const collected = totals._sum.paidAmount ?? 0;
+
+    res.json({
+      totalFlats,
+      paidFlats: totalFlats - unpaidFlats,
+      pendingComplaints,
+      activeVisitors,
+      totalCollected: collected,
+      totalPending: round(billed - collected),
+    });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/flats
+adminRouter.get("/api/admin/flats", async (req, res) => {
+  try {
+    const flats = await prisma.flat.findMany({
+      include: {
+        wing: true,
+        resident: true,
+        bills: { where: { status: { in: OPEN_BILL_STATUSES } }, select: { id: true } },
+      },
+      orderBy: [{ wing: { name: "asc" } }, { number: "asc" }],
+    });
+
+    res.json(flats.map((f): FlatRow => ({
+      id: f.number,
+      tower: towerOf(f.wing.name),
+      floor: f.floor,
+      flat_number: parseInt(f.number.replace(/\D/g, ""), 10),
+      owner_name: f.resident?.name ?? "Vacant",
+      maintenance_status: f.bills.length ? "Unpaid" : "Paid",
+      flat_type: f.type,
+      carpet_area: f.carpetArea,
+      parking_slots: f.parkingSlots,
+      credit: f.credit,
+      dunning_stage: f.dunningStage as FlatRow["dunning_stage"],
+    })));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PATCH /api/admin/flats/:flatId
+// Type, carpet area and parking drive the charge rules; bills already raised keep their amounts.
+adminRouter.patch("/api/admin/flats/:flatId", validateParams(flatNumberParamSchema), validateBody(flatAttributesSchema), async (req, res) => {
+  const { type, carpetArea, parkingSlots }: FlatAttributesInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+
+    await prisma.flat.update({
+      where: { id: flat.id },
+      data: { type, carpetArea, parkingSlots },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "FLAT_UPDATED",
+      target: `Flat ${flat.number}`,
+      details: `${type}, ${carpetArea} sq ft, ${parkingSlots} parking slot(s)`,
+    });
+    res.json({ success: true, message: `Flat ${flat.number} updated` });
+  } catch (err) {
+    sendError(res, err, "Failed to update flat", 400);
+  }
+});
+
+// POST /api/admin/generate-bills
+// Safe to repeat: only flats without a bill for the period get one. Send dryRun: true to preview.
+adminRouter.post("/api/admin/generate-bills", validateBody(generateBillsSchema), async (req, res) => {
+  const input: GenerateBillsInput = req.body;
+
+  try {
+    const run = await generateBills(input);
+    if (!run.dry_run) {
+      await logActivity({
+        userId: req.auth!.userId,
+        action: "BILLS_GENERATED",
+        target: run.period,
+        details: describeBillRun(run),
+      });
+    }
+    res.json({ success: true, message: describeBillRun(run), run });
+  } catch (err) {
+    sendError(res, err, "Failed to generate bills", 400);
+  }
+});
+
+// PATCH /api/admin/complaints/:id
+adminRouter.patch("/api/admin/complaints/:id", validateBody(complaintStatusSchema), async (req, res) => {
+  const { status } = req.body;
+
+  try {
+    const existing = await prisma.complaint.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Complaint not found" });
+    }
+
+    const complaint = await prisma.complaint.update({ where: { id: existing.id }, data: { status } });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "COMPLAINT_STATUS_CHANGED",
+      target: `Complaint "${existing.title}"`,
+      details: `Status changed from ${existing.status} to ${status}`,
+    });
+    res.json({ success: true, complaint });
+  } catch (err) {
+    sendError(res, err, "Failed to update complaint", 400);
+  }
+});
+
+// GET /api/admin/logs?cursor=&limit=&userId=&action=&from=yyyy-MM-dd&to=yyyy-MM-dd
+// Newest first. Pass the returned nextCursor back as `cursor` to load the next page.
+adminRouter.get("/api/admin/logs", validateQuery(logsQuerySchema), async (req, res) => {
+  const { cursor, limit, userId, action, from, to } = req.query as unknown as LogsQuery;
+
+  const createdAt: { gte?: Date; lt?: Date } = {};
+  if (from) createdAt.gte = from;
+  if (to) {
+    // `to` is inclusive of the whole day
+    createdAt.lt = new Date(to);
+    createdAt.lt.setDate(createdAt.lt.getDate() + 1);
+  }
+
+  try {
+    const logs = await prisma.activityLog.findMany({
+      where: {
+        ...(cursor ? { id: { lt: cursor } } : {}),
+        ...(userId ? { userId } : {}),
+        ...(action ? { action } : {}),
+        ...(from || to ? { createdAt } : {}),
+      },
+      include: { user: true },
+      orderBy: { id: "desc" },
+      take: limit + 1,
+    });
+
+    const page = logs.slice(0, limit);
+    res.json({
+      logs: page.map((l): ActivityLogRow => ({
+        id: l.id,
+        user_id: l.userId,
+        user_name: l.user?.name ?? "System",
+        action: l.action,
+        target: l.target,
+        details: l.details,
+        timestamp: l.createdAt.toISOString(),
+      })),
+      nextCursor: logs.length > limit ? page[page.length - 1].id : null,
+    });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/logs/filters
+// Options for the user and action dropdowns on the Activity Logs screen.
+adminRouter.get("/api/admin/logs/filters", async (req, res) => {
+  try {
+    const [actions, users] = await Promise.all([
+      prisma.activityLog.findMany({ distinct: ["action"], select: { action: true }, orderBy: { action: "asc" } }),
+      prisma.user.findMany({
+        where: { activityLogs: { some: {} } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+    res.json({ actions: actions.map(a => a.action), users });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
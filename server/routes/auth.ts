@@ -0,0 +1,59 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { signToken, toSessionUser, verifyPassword } from "../auth";
+import { validateBody } from "../validate";
+import { loginSchema, type LoginInput } from "../../src/lib/schemas";
+
+export const authRouter = express.Router();
+
+// POST /api/login
+// `username` may also be the account's email address.
+authRouter.post("/api/login", validateBody(loginSchema), async (req, res) => {
+  const { username, password }: LoginInput = req.body;
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: { OR: [{ username }, { email: username }] },
+      include: { flat: true },
+    });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ success: false, message: "Invalid credentials" });
+    }
+    if (user.status === "PENDING") {
+      return res.status(403).json({
+        success: false,
+        status: user.status,
+        message: "Your registration is awaiting approval by the society admin",
+      });
+    }
+    if (user.status === "REJECTED") {
+      return res.status(403).json({
+        success: false,
+        status: user.status,
+        reason: user.rejectionReason,
+        message: `Your registration was rejected: ${user.rejectionReason}`,
+      });
+    }
+
+    res.json({ success: true, token: signToken(user), user: toSessionUser(user) });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/me
+authRouter.get("/api/me", async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.auth!.userId },
+      include: { flat: true },
+    });
+    if (!user || user.status !== "APPROVED") {
+      return res.status(401).json({ success: false, message: "Session expired" });
+    }
+    res.json({ success: true, user: toSessionUser(user) });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
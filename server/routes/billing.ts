@@ -0,0 +1,213 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { toBillRow } from "../billing";
+import { toChargeRuleRow } from "../charges";
+import { findFlatByNumber } from "../flats";
+import { accruePenalties, getPenaltyPolicy, toPenaltyPolicyRow } from "../penalties";
+import { getTaxPolicy, taxSummary, toTaxPolicyRow } from "../tax";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  chargeRuleSchema,
+  flatNumberParamSchema,
+  idParamSchema,
+  penaltyPolicySchema,
+  taxPolicySchema,
+  taxSummaryQuerySchema,
+  type ChargeRuleInput,
+  type PenaltyPolicyInput,
+  type TaxPolicyInput,
+  type TaxSummaryQuery,
+} from "../../src/lib/schemas";
+
+export const billingRouter = express.Router();
+
+function describeRule({ head, basis, rate, flatType }: { head: string; basis: string; rate: number; flatType?: string | null }) {
+  return `${head}: ${basis} ₹${rate}${flatType ? ` for ${flatType}` : ""}`;
+}
+
+// GET /api/admin/charge-rules
+billingRouter.get("/api/admin/charge-rules", async (req, res) => {
+  try {
+    const rules = await prisma.chargeRule.findMany({ orderBy: [{ head: "asc" }, { id: "asc" }] });
+    res.json(rules.map(toChargeRuleRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/charge-rules
+billingRouter.post("/api/admin/charge-rules", validateBody(chargeRuleSchema), async (req, res) => {
+  const input: ChargeRuleInput = req.body;
+
+  try {
+    const rule = await prisma.chargeRule.create({ data: input });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "CHARGE_RULE_CREATED",
+      target: rule.head,
+      details: describeRule(input),
+    });
+    res.json({ success: true, rule: toChargeRuleRow(rule) });
+  } catch (err) {
+    sendError(res, err, "Failed to create charge rule", 400);
+  }
+});
+
+// PUT /api/admin/charge-rules/:id
+// Only future bills pick up the change; raised bills keep their line items.
+billingRouter.put("/api/admin/charge-rules/:id", validateParams(idParamSchema), validateBody(chargeRuleSchema), async (req, res) => {
+  const input: ChargeRuleInput = req.body;
+
+  try {
+    const rule = await prisma.chargeRule.update({ where: { id: Number(req.params.id) }, data: input });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "CHARGE_RULE_UPDATED",
+      target: rule.head,
+      details: `${describeRule(input)}${input.active ? "" : " (inactive)"}`,
+    });
+    res.json({ success: true, rule: toChargeRuleRow(rule) });
+  } catch (err) {
+    sendError(res, err, "Failed to update charge rule", 400);
+  }
+});
+
+// DELETE /api/admin/charge-rules/:id
+billingRouter.delete("/api/admin/charge-rules/:id", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const rule = await prisma.chargeRule.delete({ where: { id: Number(req.params.id) } });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "CHARGE_RULE_DELETED",
+      target: rule.head,
+      details: `Removed ${describeRule(rule)}`,
+    });
+    res.json({ success: true });
+  } catch (err) {
+    sendError(res, err, "Failed to delete charge rule", 400);
+  }
+});
+
+// GET /api/admin/penalty-policy
+billingRouter.get("/api/admin/penalty-policy", async (req, res) => {
+  try {
+    res.json(toPenaltyPolicyRow(await getPenaltyPolicy()));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/penalty-policy
+// New terms apply to penalties accrued from now on; lines already on bills stay as charged.
+billingRouter.put("/api/admin/penalty-policy", validateBody(penaltyPolicySchema), async (req, res) => {
+  const input: PenaltyPolicyInput = req.body;
+
+  try {
+    const policy = await prisma.penaltyPolicy.upsert({
+      where: { id: 1 },
+      update: input,
+      create: { id: 1, ...input },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "PENALTY_POLICY_UPDATED",
+      details: `${input.graceDays}-day grace, ₹${input.lateFee} late fee, ${input.interestRate}% ${input.interestMode.toLowerCase()} interest per month`,
+    });
+    res.json({ success: true, policy: toPenaltyPolicyRow(policy) });
+  } catch (err) {
+    sendError(res, err, "Failed to update penalty policy", 400);
+  }
+});
+
+// GET /api/admin/tax-policy
+billingRouter.get("/api/admin/tax-policy", async (req, res) => {
+  try {
+    res.json(toTaxPolicyRow(await getTaxPolicy()));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/tax-policy
+// Applies to bills generated from now on; issued invoices keep the tax they were raised with.
+billingRouter.put("/api/admin/tax-policy", validateBody(taxPolicySchema), async (req, res) => {
+  const { exemptHeads, ...input }: TaxPolicyInput = req.body;
+  const data = { ...input, exemptHeads: JSON.stringify(exemptHeads) };
+
+  try {
+    const policy = await prisma.taxPolicy.upsert({
+      where: { id: 1 },
+      update: data,
+      create: { id: 1, ...data },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "TAX_POLICY_UPDATED",
+      details: input.enabled
+        ? `GST ${input.rate}% above ₹${input.threshold} per flat per month under ${input.gstin}, exempt: ${exemptHeads.join(", ") || "none"}`
+        : "GST disabled",
+    });
+    res.json({ success: true, policy: toTaxPolicyRow(policy) });
+  } catch (err) {
+    sendError(res, err, "Failed to update tax policy", 400);
+  }
+});
+
+// GET /api/admin/tax/summary?period=2026-10
+// What was charged in the month, split into CGST and SGST, for the GST return.
+billingRouter.get("/api/admin/tax/summary", validateQuery(taxSummaryQuerySchema), async (req, res) => {
+  const { period } = req.query as unknown as TaxSummaryQuery;
+
+  try {
+    res.json(await taxSummary(period));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/penalties/accrue
+// The server accrues on its own every few hours; this runs it immediately.
+billingRouter.post("/api/admin/penalties/accrue", async (req, res) => {
+  try {
+    const result = await accruePenalties();
+    res.json({ success: true, message: `₹${result.amount} in penalties added to ${result.bills} overdue bills`, ...result });
+  } catch (err) {
+    sendError(res, err, "Failed to accrue penalties");
+  }
+});
+
+// GET /api/admin/flats/:flatId/bills
+billingRouter.get("/api/admin/flats/:flatId/bills", validateParams(flatNumberParamSchema), async (req, res) => {
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const bills = await prisma.maintenanceBill.findMany({
+      where: { flatId: flat.id },
+      include: { flat: true, lineItems: { orderBy: { id: "asc" } } },
+      orderBy: { period: "desc" },
+    });
+    res.json(bills.map(toBillRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/resident/bills
+billingRouter.get("/api/resident/bills", async (req, res) => {
+  if (!req.auth!.flatId) return res.json([]);
+
+  try {
+    const bills = await prisma.maintenanceBill.findMany({
+      where: { flatId: req.auth!.flatId },
+      include: { flat: true, lineItems: { orderBy: { id: "asc" } } },
+      orderBy: { period: "desc" },
+    });
+    res.json(bills.map(toBillRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
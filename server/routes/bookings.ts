@@ -0,0 +1,108 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { amenitiesSuspended } from "../dunning";
+import { BookingConflictError, bookAmenity, parseTimeSlot, toBookingRow } from "../bookings";
+import { validateBody, validateParams } from "../validate";
+import { bookingSchema, bookingStatusSchema, idParamSchema, type BookingInput } from "../../src/lib/schemas";
+
+export const bookingsRouter = express.Router();
+
+// GET /api/amenities/bookings
+// Upcoming bookings across the society, so residents can see which slots are taken.
+bookingsRouter.get("/api/amenities/bookings", async (req, res) => {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  try {
+    const bookings = await prisma.amenityBooking.findMany({
+      where: { endsAt: { gte: startOfDay }, status: { in: ["PENDING", "APPROVED"] } },
+      include: { flat: true },
+      orderBy: { startsAt: "asc" },
+    });
+    res.json(bookings.map(toBookingRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/resident/book
+bookingsRouter.post("/api/resident/book", validateBody(bookingSchema), async (req, res) => {
+  const { amenity, date, timeSlot }: BookingInput = req.body;
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+  const range = parseTimeSlot(date, timeSlot);
+  if (!range) {
+    return res.status(400).json({ success: false, message: "Validation failed", errors: { timeSlot: "Use a range like 06:00 PM - 08:00 PM" } });
+  }
+  if (range.startsAt < new Date()) {
+    return res.status(400).json({ success: false, message: "Validation failed", errors: { timeSlot: "That slot has already started" } });
+  }
+
+  try {
+    if (await amenitiesSuspended(req.auth!.flatId)) {
+      return res.status(403).json({
+        success: false,
+        code: "AMENITIES_SUSPENDED",
+        message: "Amenity bookings are suspended for your flat until its overdue maintenance is paid",
+      });
+    }
+    const booking = await bookAmenity({
+      amenity,
+      timeSlot,
+      ...range,
+      flatId: req.auth!.flatId,
+      userId: req.auth!.userId,
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "AMENITY_BOOKED",
+      target: amenity,
+      details: `${date} ${timeSlot} requested by Flat ${booking.flat.number}`,
+    });
+    res.json({ success: true, message: "Booking requested. The slot is held for you pending admin approval.", booking: toBookingRow(booking) });
+  } catch (err) {
+    if (err instanceof BookingConflictError) {
+      return res.status(409).json({
+        success: false,
+        code: "BOOKING_CONFLICT",
+        message: err.message,
+        conflict: toBookingRow(err.conflict),
+      });
+    }
+    sendError(res, err, "Failed to book amenity", 400);
+  }
+});
+
+// PATCH /api/admin/bookings/:id
+bookingsRouter.patch("/api/admin/bookings/:id", validateParams(idParamSchema), validateBody(bookingStatusSchema), async (req, res) => {
+  const { status } = req.body;
+
+  try {
+    const existing = await prisma.amenityBooking.findUnique({ where: { id: Number(req.params.id) } });
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Booking not found" });
+    }
+    // Reviving a released slot could collide with a newer booking, so closed bookings stay closed.
+    if (!["PENDING", "APPROVED"].includes(existing.status)) {
+      return res.status(409).json({ success: false, message: `Booking is already ${existing.status}` });
+    }
+
+    const booking = await prisma.amenityBooking.update({
+      where: { id: existing.id },
+      data: { status },
+      include: { flat: true },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BOOKING_STATUS_CHANGED",
+      target: booking.amenity,
+      details: `${booking.timeSlot} for Flat ${booking.flat.number} marked ${status}`,
+    });
+    res.json({ success: true, booking: toBookingRow(booking) });
+  } catch (err) {
+    sendError(res, err, "Failed to update booking", 400);
+  }
+});
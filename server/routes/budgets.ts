@@ -0,0 +1,181 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import {
+  budgetInclude,
+  budgetReport,
+  copyBudgets,
+  evenSplit,
+  getBudgetPolicy,
+  saveBudget,
+  toBudgetAlertRow,
+  toBudgetPolicyRow,
+  toBudgetRow,
+} from "../budgets";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  budgetAlertsQuerySchema,
+  budgetPolicySchema,
+  budgetSchema,
+  budgetsQuerySchema,
+  copyBudgetsSchema,
+  financialYearLabel,
+  idParamSchema,
+  type BudgetAlertsQuery,
+  type BudgetInput,
+  type BudgetPolicyInput,
+  type BudgetsQuery,
+  type CopyBudgetsInput,
+} from "../../src/lib/schemas";
+
+export const budgetsRouter = express.Router();
+
+// GET /api/admin/budget-policy
+budgetsRouter.get("/api/admin/budget-policy", async (req, res) => {
+  try {
+    res.json(toBudgetPolicyRow(await getBudgetPolicy()));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/budget-policy
+// A new threshold applies from the next check; alerts already raised stay.
+budgetsRouter.put("/api/admin/budget-policy", validateBody(budgetPolicySchema), async (req, res) => {
+  const input: BudgetPolicyInput = req.body;
+
+  try {
+    const policy = await prisma.budgetPolicy.upsert({
+      where: { id: 1 },
+      update: input,
+      create: { id: 1, ...input },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BUDGET_POLICY_UPDATED",
+      details: `Budget alerts at ${input.alertPercent}% and when over budget${input.emailAdmins ? ", emailed to admins" : ""}`,
+    });
+    res.json({ success: true, policy: toBudgetPolicyRow(policy) });
+  } catch (err) {
+    sendError(res, err, "Failed to update budget alerts", 400);
+  }
+});
+
+// GET /api/admin/budgets?year=2026
+budgetsRouter.get("/api/admin/budgets", validateQuery(budgetsQuerySchema), async (req, res) => {
+  const { year } = req.query as unknown as BudgetsQuery;
+
+  try {
+    const budgets = await prisma.budget.findMany({ where: { year }, include: budgetInclude, orderBy: { category: { name: "asc" } } });
+    res.json(budgets.map(toBudgetRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/budgets
+// Creates or replaces one category's budget for the year.
+budgetsRouter.put("/api/admin/budgets", validateBody(budgetSchema), async (req, res) => {
+  const { year, categoryId, annual, monthly }: BudgetInput = req.body;
+
+  try {
+    const category = await prisma.expenseCategory.findUnique({ where: { id: categoryId } });
+    if (!category) return res.status(404).json({ success: false, message: "That category does not exist" });
+
+    const { budget, alerts } = await saveBudget(year, categoryId, annual, monthly ?? evenSplit(annual), req.auth!.userId);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BUDGET_SET",
+      target: category.name,
+      details: `₹${budget.annual} for ${financialYearLabel(year)}${monthly ? "" : ", spread evenly over the year"}`,
+    });
+    res.json({ success: true, budget: toBudgetRow(budget), budget_alerts: alerts });
+  } catch (err) {
+    sendError(res, err, "Failed to save budget", 400);
+  }
+});
+
+// DELETE /api/admin/budgets/:id
+budgetsRouter.delete("/api/admin/budgets/:id", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const budget = await prisma.$transaction(async tx => {
+      const budget = await tx.budget.delete({ where: { id: Number(req.params.id) }, include: budgetInclude });
+      await tx.budgetAlert.deleteMany({ where: { year: budget.year, categoryId: budget.categoryId } });
+      return budget;
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BUDGET_DELETED",
+      target: budget.category.name,
+      details: `Removed the ₹${budget.annual} budget for ${financialYearLabel(budget.year)}`,
+    });
+    res.json({ success: true });
+  } catch (err) {
+    sendError(res, err, "Failed to delete budget", 400);
+  }
+});
+
+// POST /api/admin/budgets/copy
+budgetsRouter.post("/api/admin/budgets/copy", validateBody(copyBudgetsSchema), async (req, res) => {
+  const input: CopyBudgetsInput = req.body;
+
+  try {
+    const { copied, skipped } = await copyBudgets(input, req.auth!.userId);
+    if (copied) {
+      await logActivity({
+        userId: req.auth!.userId,
+        action: "BUDGETS_COPIED",
+        details: `${copied} budgets copied from ${financialYearLabel(input.fromYear)} to ${financialYearLabel(input.toYear)}${input.increasePercent ? ` with ${input.increasePercent}% change` : ""}`,
+      });
+    }
+    const message = copied
+      ? `${copied} budgets copied to ${financialYearLabel(input.toYear)}${skipped ? `; ${skipped} categories already had one` : ""}`
+      : `Nothing to copy: ${skipped ? `every category already has a ${financialYearLabel(input.toYear)} budget` : `${financialYearLabel(input.fromYear)} has no budgets`}`;
+    res.json({ success: true, message, copied, skipped });
+  } catch (err) {
+    sendError(res, err, "Failed to copy budgets", 400);
+  }
+});
+
+// GET /api/admin/budgets/report?year=2026
+budgetsRouter.get("/api/admin/budgets/report", validateQuery(budgetsQuerySchema), async (req, res) => {
+  const { year } = req.query as unknown as BudgetsQuery;
+
+  try {
+    res.json(await budgetReport(year));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/budget-alerts
+budgetsRouter.get("/api/admin/budget-alerts", validateQuery(budgetAlertsQuerySchema), async (req, res) => {
+  const { status } = req.query as BudgetAlertsQuery;
+
+  try {
+    const alerts = await prisma.budgetAlert.findMany({
+      where: status ? { acknowledgedAt: status === "OPEN" ? null : { not: null } } : {},
+      include: { category: true },
+      orderBy: { id: "desc" },
+      take: 200,
+    });
+    res.json(alerts.map(toBudgetAlertRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/budget-alerts/:id/acknowledge
+budgetsRouter.post("/api/admin/budget-alerts/:id/acknowledge", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const alert = await prisma.budgetAlert.update({
+      where: { id: Number(req.params.id) },
+      data: { acknowledgedAt: new Date() },
+      include: { category: true },
+    });
+    res.json({ success: true, alert: toBudgetAlertRow(alert) });
+  } catch (err) {
+    sendError(res, err, "Failed to acknowledge alert", 400);
+  }
+});
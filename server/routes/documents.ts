@@ -0,0 +1,146 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { fileNameOf, invoiceInclude, invoicePdf, monthlyDocumentsZip, receiptInclude, receiptPdf, statementPdf } from "../documents";
+import { normalizeFlatNumber } from "../flats";
+import { accountStatement, statementCsv, statementFileName } from "../statements";
+import { getTaxPolicy } from "../tax";
+import { validateParams, validateQuery } from "../validate";
+import {
+  accountStatementQuerySchema,
+  billIdParamSchema,
+  documentsExportQuerySchema,
+  flatNumberParamSchema,
+  idParamSchema,
+  periodLabel,
+  type AccountStatementQuery,
+  type DocumentsExportQuery,
+} from "../../src/lib/schemas";
+
+export const documentsRouter = express.Router();
+
+function sendFile(res: express.Response, type: string, filename: string, body: Buffer) {
+  res.setHeader("Content-Type", type);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(body);
+}
+
+type StatementFlat = { id: string; number: string; resident: { name: string; email: string } | null };
+
+async function sendStatement(res: express.Response, flat: StatementFlat, { from, to, format }: AccountStatementQuery) {
+  const statement = await accountStatement(flat, from, to);
+  if (format === "pdf") {
+    return sendFile(res, "application/pdf", `${statementFileName(statement)}.pdf`, statementPdf(statement, flat.resident));
+  }
+  if (format === "csv") {
+    return sendFile(res, "text/csv; charset=utf-8", `${statementFileName(statement)}.csv`, Buffer.from(statementCsv(statement)));
+  }
+  res.json(statement);
+}
+
+// GET /api/admin/bills/:id/invoice
+documentsRouter.get("/api/admin/bills/:id/invoice", validateParams(billIdParamSchema), async (req, res) => {
+  try {
+    const bill = await prisma.maintenanceBill.findUnique({ where: { id: req.params.id }, include: invoiceInclude });
+    if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+    sendFile(res, "application/pdf", `${fileNameOf(bill.invoiceNo ?? bill.id)}.pdf`, invoicePdf(bill, await getTaxPolicy()));
+  } catch (err) {
+    sendError(res, err, "Failed to generate invoice");
+  }
+});
+
+// GET /api/admin/payments/:id/receipt
+documentsRouter.get("/api/admin/payments/:id/receipt", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const payment = await prisma.payment.findUnique({ where: { id: Number(req.params.id) }, include: receiptInclude });
+    if (!payment) return res.status(404).json({ success: false, message: "Payment not found" });
+    if (payment.status !== "CONFIRMED") {
+      return res.status(409).json({ success: false, message: "Receipts are issued once a payment is confirmed" });
+    }
+    sendFile(res, "application/pdf", `${fileNameOf(payment.receiptNo!)}.pdf`, receiptPdf(payment));
+  } catch (err) {
+    sendError(res, err, "Failed to generate receipt");
+  }
+});
+
+// GET /api/admin/documents/export?period=2026-10
+// Zip of the month's invoices and receipts.
+documentsRouter.get("/api/admin/documents/export", validateQuery(documentsExportQuerySchema), async (req, res) => {
+  const { period } = req.query as unknown as DocumentsExportQuery;
+
+  try {
+    const result = await monthlyDocumentsZip(period);
+    if (!result) {
+      return res.status(404).json({ success: false, message: `No invoices or receipts for ${periodLabel(period)}` });
+    }
+    sendFile(res, "application/zip", `invoices-receipts-${period}.zip`, result.zip);
+  } catch (err) {
+    sendError(res, err, "Failed to export documents");
+  }
+});
+
+// GET /api/resident/bills/:id/invoice
+documentsRouter.get("/api/resident/bills/:id/invoice", validateParams(billIdParamSchema), async (req, res) => {
+  if (!req.auth!.flatId) return res.status(404).json({ success: false, message: "Bill not found" });
+
+  try {
+    const bill = await prisma.maintenanceBill.findFirst({
+      where: { id: req.params.id, flatId: req.auth!.flatId },
+      include: invoiceInclude,
+    });
+    if (!bill) return res.status(404).json({ success: false, message: "Bill not found" });
+    sendFile(res, "application/pdf", `${fileNameOf(bill.invoiceNo ?? bill.id)}.pdf`, invoicePdf(bill, await getTaxPolicy()));
+  } catch (err) {
+    sendError(res, err, "Failed to generate invoice");
+  }
+});
+
+// GET /api/resident/payments/:id/receipt
+documentsRouter.get("/api/resident/payments/:id/receipt", validateParams(idParamSchema), async (req, res) => {
+  if (!req.auth!.flatId) return res.status(404).json({ success: false, message: "Payment not found" });
+
+  try {
+    const payment = await prisma.payment.findFirst({
+      where: { id: Number(req.params.id), flatId: req.auth!.flatId, status: "CONFIRMED" },
+      include: receiptInclude,
+    });
+    if (!payment) return res.status(404).json({ success: false, message: "Payment not found" });
+    sendFile(res, "application/pdf", `${fileNameOf(payment.receiptNo!)}.pdf`, receiptPdf(payment));
+  } catch (err) {
+    sendError(res, err, "Failed to generate receipt");
+  }
+});
+
+// GET /api/admin/flats/:flatId/statement?from=2026-04-01&to=2026-10-31&format=pdf
+documentsRouter.get(
+  "/api/admin/flats/:flatId/statement",
+  validateParams(flatNumberParamSchema),
+  validateQuery(accountStatementQuerySchema),
+  async (req, res) => {
+    try {
+      const flat = await prisma.flat.findFirst({
+        where: { number: normalizeFlatNumber(req.params.flatId) },
+        include: { resident: true },
+      });
+      if (!flat) {
+        return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+      }
+      await sendStatement(res, flat, req.query as unknown as AccountStatementQuery);
+    } catch (err) {
+      sendError(res, err, "Failed to build statement");
+    }
+  },
+);
+
+// GET /api/resident/statement?from=2026-04-01&to=2026-10-31&format=pdf
+documentsRouter.get("/api/resident/statement", validateQuery(accountStatementQuerySchema), async (req, res) => {
+  if (!req.auth!.flatId) return res.status(404).json({ success: false, message: "No flat linked to this account" });
+
+  try {
+    const flat = await prisma.flat.findUnique({ where: { id: req.auth!.flatId }, include: { resident: true } });
+    if (!flat) return res.status(404).json({ success: false, message: "No flat linked to this account" });
+    await sendStatement(res, flat, req.query as unknown as AccountStatementQuery);
+  } catch (err) {
+    sendError(res, err, "Failed to build statement");
+  }
+});
@@ -0,0 +1,182 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { fileNameOf, noticePdf } from "../documents";
+import { findFlatByNumber } from "../flats";
+import {
+  DunningError,
+  clearFlat,
+  defaultersReport,
+  escalateFlat,
+  getDunningPolicy,
+  runDunning,
+  toDunningEventRow,
+  toDunningPolicyRow,
+} from "../dunning";
+import { validateBody, validateParams } from "../validate";
+import {
+  dunningPolicySchema,
+  escalateDunningSchema,
+  flatNumberParamSchema,
+  idParamSchema,
+  resolveDunningSchema,
+  type DunningPolicyInput,
+  type DunningStage,
+  type EscalateDunningInput,
+  type FlatDunning,
+  type ResolveDunningInput,
+} from "../../src/lib/schemas";
+
+export const dunningRouter = express.Router();
+
+const eventInclude = { flat: true, createdBy: true } as const;
+
+const STAGE_LABELS: Record<DunningStage, string> = {
+  NONE: "good standing",
+  REMINDER: "reminder",
+  NOTICE: "formal notice",
+  SUSPENSION: "amenity suspension",
+  HEARING: "committee hearing",
+};
+
+// GET /api/admin/dunning-policy
+dunningRouter.get("/api/admin/dunning-policy", async (req, res) => {
+  try {
+    res.json(toDunningPolicyRow(await getDunningPolicy()));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/dunning-policy
+dunningRouter.put("/api/admin/dunning-policy", validateBody(dunningPolicySchema), async (req, res) => {
+  const input: DunningPolicyInput = req.body;
+
+  try {
+    const policy = await prisma.dunningPolicy.upsert({
+      where: { id: 1 },
+      update: input,
+      create: { id: 1, ...input },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "DUNNING_POLICY_UPDATED",
+      details: `Reminder at ${input.reminderDays} days, notice at ${input.noticeDays}, suspension at ${input.suspensionDays}, hearing at ${input.hearingDays}; ${input.enabled ? "escalating on schedule" : "manual escalation only"}`,
+    });
+    res.json({ success: true, policy: toDunningPolicyRow(policy) });
+  } catch (err) {
+    sendError(res, err, "Failed to update escalation ladder", 400);
+  }
+});
+
+// GET /api/admin/defaulters
+dunningRouter.get("/api/admin/defaulters", async (req, res) => {
+  try {
+    res.json(await defaultersReport());
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/dunning/run
+// The server walks the ladder every six hours on its own; this runs it immediately.
+dunningRouter.post("/api/admin/dunning/run", async (req, res) => {
+  try {
+    const result = await runDunning();
+    res.json({ success: true, message: `${result.escalated} flats escalated, ${result.cleared} cleared`, ...result });
+  } catch (err) {
+    sendError(res, err, "Failed to run the escalation ladder");
+  }
+});
+
+// GET /api/admin/flats/:flatId/dunning
+dunningRouter.get("/api/admin/flats/:flatId/dunning", validateParams(flatNumberParamSchema), async (req, res) => {
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const events = await prisma.dunningEvent.findMany({ where: { flatId: flat.id }, include: eventInclude, orderBy: { id: "desc" } });
+    const body: FlatDunning = {
+      flat_id: flat.number,
+      stage: flat.dunningStage as DunningStage,
+      stage_since: flat.dunningSince?.toISOString() ?? null,
+      events: events.map(toDunningEventRow),
+    };
+    res.json(body);
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/flats/:flatId/dunning/escalate
+// Moves the flat to the next stage now, whatever the ladder's day counts say.
+dunningRouter.post("/api/admin/flats/:flatId/dunning/escalate", validateParams(flatNumberParamSchema), validateBody(escalateDunningSchema), async (req, res) => {
+  const input: EscalateDunningInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const { event, reminderError } = await escalateFlat(flat.id, { adminId: req.auth!.userId, ...input });
+    const stage = STAGE_LABELS[event.stage as DunningStage];
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "DUNNING_ESCALATED",
+      target: `Flat ${flat.number}`,
+      details: `Moved to ${stage} with ₹${event.overdueAmount} overdue${event.noticeNo ? `, notice ${event.noticeNo}` : ""}${input.note ? `: ${input.note}` : ""}`,
+    });
+    const extra = event.noticeNo
+      ? ` Notice ${event.noticeNo} is ready to print.`
+      : reminderError ? ` The reminder email was not sent: ${reminderError}` : "";
+    res.json({ success: true, message: `Flat ${flat.number} moved to ${stage}.${extra}`, event_id: event.id });
+  } catch (err) {
+    if (err instanceof DunningError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to escalate", 400);
+  }
+});
+
+// POST /api/admin/flats/:flatId/dunning/clear
+dunningRouter.post("/api/admin/flats/:flatId/dunning/clear", validateParams(flatNumberParamSchema), validateBody(resolveDunningSchema), async (req, res) => {
+  const { note }: ResolveDunningInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const { event } = await clearFlat(flat.id, { adminId: req.auth!.userId, note });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "DUNNING_CLEARED",
+      target: `Flat ${flat.number}`,
+      details: `Taken off the ladder at ${STAGE_LABELS[event.previousStage as DunningStage]}: ${note}`,
+    });
+    res.json({ success: true, message: `Flat ${flat.number} is back in good standing` });
+  } catch (err) {
+    if (err instanceof DunningError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to clear dunning", 400);
+  }
+});
+
+// GET /api/admin/dunning/:id/notice
+dunningRouter.get("/api/admin/dunning/:id/notice", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const event = await prisma.dunningEvent.findUnique({
+      where: { id: Number(req.params.id) },
+      include: { flat: { include: { resident: true } } },
+    });
+    if (!event?.noticeNo) return res.status(404).json({ success: false, message: "Notice not found" });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileNameOf(event.noticeNo)}.pdf"`);
+    res.send(noticePdf(event));
+  } catch (err) {
+    sendError(res, err, "Failed to generate notice");
+  }
+});
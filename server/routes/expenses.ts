@@ -0,0 +1,328 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { raiseBudgetAlerts } from "../budgets";
+import { LedgerError, postExpense, unpostExpense } from "../ledger";
+import {
+  ExpenseError,
+  expenseInclude,
+  financeReport,
+  readBillFile,
+  removeBillFile,
+  saveBillFile,
+  startOfDay,
+  toExpenseRow,
+} from "../expenses";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  expenseCategorySchema,
+  expenseSchema,
+  expensesQuerySchema,
+  financeReportQuerySchema,
+  idParamSchema,
+  vendorSchema,
+  type ExpenseCategoryInput,
+  type ExpenseCategoryRow,
+  type ExpenseInput,
+  type ExpensesQuery,
+  type FinanceReportQuery,
+  type VendorInput,
+  type VendorRow,
+} from "../../src/lib/schemas";
+
+export const expensesRouter = express.Router();
+
+const toCategoryRow = (c: { id: number; name: string; active: boolean; _count: { expenses: number } }): ExpenseCategoryRow => ({
+  id: c.id,
+  name: c.name,
+  active: c.active,
+  expenses: c._count.expenses,
+});
+
+const toVendorRow = (v: {
+  id: number;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  gstin: string | null;
+  categoryId: number | null;
+  category: { name: string } | null;
+  active: boolean;
+}): VendorRow => ({
+  id: v.id,
+  name: v.name,
+  phone: v.phone,
+  email: v.email,
+  gstin: v.gstin,
+  category_id: v.categoryId,
+  category: v.category?.name ?? null,
+  active: v.active,
+});
+
+const categoryCount = { _count: { select: { expenses: true } } } as const;
+
+// New expenses can only go to active categories and vendors; existing ones keep whatever they had.
+async function checkExpenseRefs(input: ExpenseInput, current?: { categoryId: number; vendorId: number | null }) {
+  const category = await prisma.expenseCategory.findUnique({ where: { id: input.categoryId } });
+  if (!category) return "That category does not exist";
+  if (!category.active && category.id !== current?.categoryId) return `${category.name} is no longer in use`;
+  if (!input.vendorId) return null;
+  const vendor = await prisma.vendor.findUnique({ where: { id: input.vendorId } });
+  if (!vendor) return "That vendor does not exist";
+  if (!vendor.active && vendor.id !== current?.vendorId) return `${vendor.name} is no longer in use`;
+  return null;
+}
+
+const expenseData = ({ billFile, spentOn, vendorId, reference, ...input }: ExpenseInput) => ({
+  ...input,
+  spentOn: startOfDay(spentOn),
+  vendorId: vendorId ?? null,
+  reference: reference || null,
+});
+
+// GET /api/admin/expense-categories
+expensesRouter.get("/api/admin/expense-categories", async (req, res) => {
+  try {
+    const categories = await prisma.expenseCategory.findMany({ include: categoryCount, orderBy: { name: "asc" } });
+    res.json(categories.map(toCategoryRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/expense-categories
+expensesRouter.post("/api/admin/expense-categories", validateBody(expenseCategorySchema), async (req, res) => {
+  const input: ExpenseCategoryInput = req.body;
+
+  try {
+    const category = await prisma.expenseCategory.create({ data: input, include: categoryCount });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EXPENSE_CATEGORY_CREATED",
+      target: category.name,
+      details: `Added expense category ${category.name}`,
+    });
+    res.json({ success: true, category: toCategoryRow(category) });
+  } catch (err) {
+    sendError(res, err, "Failed to create category", 400);
+  }
+});
+
+// PUT /api/admin/expense-categories/:id
+// Categories with expenses can't be deleted, only retired; renaming relabels their history.
+expensesRouter.put("/api/admin/expense-categories/:id", validateParams(idParamSchema), validateBody(expenseCategorySchema), async (req, res) => {
+  const input: ExpenseCategoryInput = req.body;
+
+  try {
+    const category = await prisma.expenseCategory.update({ where: { id: Number(req.params.id) }, data: input, include: categoryCount });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EXPENSE_CATEGORY_UPDATED",
+      target: category.name,
+      details: `${category.name}${category.active ? "" : " (retired)"}`,
+    });
+    res.json({ success: true, category: toCategoryRow(category) });
+  } catch (err) {
+    sendError(res, err, "Failed to update category", 400);
+  }
+});
+
+// GET /api/admin/vendors
+expensesRouter.get("/api/admin/vendors", async (req, res) => {
+  try {
+    const vendors = await prisma.vendor.findMany({ include: { category: true }, orderBy: { name: "asc" } });
+    res.json(vendors.map(toVendorRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/vendors
+expensesRouter.post("/api/admin/vendors", validateBody(vendorSchema), async (req, res) => {
+  const input: VendorInput = req.body;
+
+  try {
+    const vendor = await prisma.vendor.create({ data: input, include: { category: true } });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "VENDOR_CREATED",
+      target: vendor.name,
+      details: `Added vendor ${vendor.name}${vendor.category ? ` for ${vendor.category.name}` : ""}`,
+    });
+    res.json({ success: true, vendor: toVendorRow(vendor) });
+  } catch (err) {
+    sendError(res, err, "Failed to add vendor", 400);
+  }
+});
+
+// PUT /api/admin/vendors/:id
+expensesRouter.put("/api/admin/vendors/:id", validateParams(idParamSchema), validateBody(vendorSchema), async (req, res) => {
+  const input: VendorInput = req.body;
+
+  try {
+    const vendor = await prisma.vendor.update({
+      where: { id: Number(req.params.id) },
+      data: { phone: null, email: null, gstin: null, categoryId: null, ...input },
+      include: { category: true },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "VENDOR_UPDATED",
+      target: vendor.name,
+      details: `Updated vendor ${vendor.name}${vendor.active ? "" : " (inactive)"}`,
+    });
+    res.json({ success: true, vendor: toVendorRow(vendor) });
+  } catch (err) {
+    sendError(res, err, "Failed to update vendor", 400);
+  }
+});
+
+// GET /api/admin/expenses
+expensesRouter.get("/api/admin/expenses", validateQuery(expensesQuerySchema), async (req, res) => {
+  const { from, to, categoryId, vendorId } = req.query as ExpensesQuery;
+
+  try {
+    const end = to ? startOfDay(to) : undefined;
+    end?.setDate(end.getDate() + 1);
+    const expenses = await prisma.expense.findMany({
+      where: { categoryId, vendorId, spentOn: { gte: from ? startOfDay(from) : undefined, lt: end } },
+      include: expenseInclude,
+      orderBy: [{ spentOn: "desc" }, { id: "desc" }],
+      take: 500,
+    });
+    res.json(expenses.map(toExpenseRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/expenses
+expensesRouter.post("/api/admin/expenses", validateBody(expenseSchema), async (req, res) => {
+  const input: ExpenseInput = req.body;
+
+  try {
+    const problem = await checkExpenseRefs(input);
+    if (problem) return res.status(400).json({ success: false, message: problem });
+
+    const file = input.billFile ? await saveBillFile(input.billFile) : null;
+    const expense = await prisma.$transaction(async tx => {
+      const expense = await tx.expense.create({
+        data: { ...expenseData(input), ...file, createdById: req.auth!.userId },
+        include: expenseInclude,
+      });
+      await postExpense(tx, expense);
+      return expense;
+    }).catch(async err => {
+      await removeBillFile(file?.billFile ?? null);
+      throw err;
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EXPENSE_RECORDED",
+      target: expense.category.name,
+      details: `₹${expense.amount} ${expense.description}${expense.vendor ? ` to ${expense.vendor.name}` : ""} by ${expense.mode}`,
+    });
+    const alerts = await raiseBudgetAlerts(expense.categoryId, expense.spentOn);
+    res.json({ success: true, expense: toExpenseRow(expense), budget_alerts: alerts });
+  } catch (err) {
+    if (err instanceof ExpenseError) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+    if (err instanceof LedgerError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to record expense", 400);
+  }
+});
+
+// PUT /api/admin/expenses/:id
+// Leaving billFile out keeps the attached bill; null removes it. The ledger entry is reversed and
+// posted again.
+expensesRouter.put("/api/admin/expenses/:id", validateParams(idParamSchema), validateBody(expenseSchema), async (req, res) => {
+  const input: ExpenseInput = req.body;
+
+  try {
+    const current = await prisma.expense.findUnique({ where: { id: Number(req.params.id) } });
+    if (!current) return res.status(404).json({ success: false, message: "Expense not found" });
+    const problem = await checkExpenseRefs(input, current);
+    if (problem) return res.status(400).json({ success: false, message: problem });
+
+    const saved = input.billFile ? await saveBillFile(input.billFile) : null;
+    const file = saved ?? (input.billFile === null ? { billFile: null, billFileName: null, billFileType: null } : {});
+    const expense = await prisma.$transaction(async tx => {
+      const expense = await tx.expense.update({
+        where: { id: current.id },
+        data: { ...expenseData(input), ...file },
+        include: expenseInclude,
+      });
+      await postExpense(tx, expense, req.auth!.userId);
+      return expense;
+    }).catch(async err => {
+      await removeBillFile(saved?.billFile ?? null);
+      throw err;
+    });
+    if (input.billFile !== undefined) await removeBillFile(current.billFile);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EXPENSE_UPDATED",
+      target: expense.category.name,
+      details: `₹${expense.amount} ${expense.description} on ${toExpenseRow(expense).spent_on}`,
+    });
+    const alerts = await raiseBudgetAlerts(expense.categoryId, expense.spentOn);
+    res.json({ success: true, expense: toExpenseRow(expense), budget_alerts: alerts });
+  } catch (err) {
+    if (err instanceof ExpenseError) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+    if (err instanceof LedgerError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to update expense", 400);
+  }
+});
+
+// DELETE /api/admin/expenses/:id
+expensesRouter.delete("/api/admin/expenses/:id", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const expense = await prisma.$transaction(async tx => {
+      await unpostExpense(tx, Number(req.params.id), req.auth!.userId);
+      return tx.expense.delete({ where: { id: Number(req.params.id) }, include: expenseInclude });
+    });
+    await removeBillFile(expense.billFile);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EXPENSE_DELETED",
+      target: expense.category.name,
+      details: `Removed ₹${expense.amount} ${expense.description} from ${toExpenseRow(expense).spent_on}`,
+    });
+    res.json({ success: true });
+  } catch (err) {
+    sendError(res, err, "Failed to delete expense", 400);
+  }
+});
+
+// GET /api/admin/expenses/:id/bill
+expensesRouter.get("/api/admin/expenses/:id/bill", validateParams(idParamSchema), async (req, res) => {
+  try {
+    const expense = await prisma.expense.findUnique({ where: { id: Number(req.params.id) } });
+    const file = expense?.billFile ? await readBillFile(expense.billFile) : null;
+    if (!expense || !file) return res.status(404).json({ success: false, message: "No bill is attached to this expense" });
+    res.setHeader("Content-Type", expense.billFileType ?? "application/octet-stream");
+    res.setHeader("Content-Disposition", `attachment; filename="${(expense.billFileName ?? expense.billFile).replace(/["\\\r\n]/g, "_")}"`);
+    res.send(file);
+  } catch (err) {
+    sendError(res, err, "Failed to fetch bill");
+  }
+});
+
+// GET /api/admin/reports/finance
+expensesRouter.get("/api/admin/reports/finance", validateQuery(financeReportQuerySchema), async (req, res) => {
+  const { from, to } = req.query as FinanceReportQuery;
+
+  try {
+    res.json(await financeReport(from, to));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
@@ -0,0 +1,187 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import {
+  LedgerError,
+  accountBalanceRow,
+  accountLedger,
+  journalInclude,
+  listAccounts,
+  postVoucher,
+  reverseVoucher,
+  toJournalEntryRow,
+  trialBalance,
+} from "../ledger";
+import { startOfDay } from "../expenses";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  accountLedgerQuerySchema,
+  accountSchema,
+  idParamSchema,
+  journalQuerySchema,
+  journalVoucherSchema,
+  reverseJournalSchema,
+  trialBalanceQuerySchema,
+  type AccountInput,
+  type AccountLedgerQuery,
+  type JournalQuery,
+  type JournalVoucherInput,
+  type ReverseJournalInput,
+  type TrialBalanceQuery,
+} from "../../src/lib/schemas";
+
+export const ledgerRouter = express.Router();
+
+// The leading digit of an account code follows its type, as in the seeded chart.
+const TYPE_DIGITS: Record<AccountInput["type"], string> = { ASSET: "1", LIABILITY: "2", EQUITY: "3", INCOME: "4", EXPENSE: "5" };
+
+const codeProblem = ({ code, type }: AccountInput) =>
+  code.startsWith(TYPE_DIGITS[type]) ? null : `${type.toLowerCase()} account codes start with ${TYPE_DIGITS[type]}`;
+
+// GET /api/admin/accounts
+ledgerRouter.get("/api/admin/accounts", async (req, res) => {
+  try {
+    res.json(await listAccounts());
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/accounts
+ledgerRouter.post("/api/admin/accounts", validateBody(accountSchema), async (req, res) => {
+  const input: AccountInput = req.body;
+
+  try {
+    const problem = codeProblem(input);
+    if (problem) return res.status(400).json({ success: false, message: problem });
+
+    const account = await prisma.ledgerAccount.create({ data: input });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ACCOUNT_CREATED",
+      target: account.code,
+      details: `Opened ${account.type.toLowerCase()} account ${account.code} ${account.name}`,
+    });
+    res.json({ success: true, account: await accountBalanceRow(account.id) });
+  } catch (err) {
+    sendError(res, err, "Failed to open account", 400);
+  }
+});
+
+// PUT /api/admin/accounts/:id
+// Accounts are never deleted. System accounts can be renamed and renumbered but keep their type
+// and can't be retired, since the automatic postings depend on them.
+ledgerRouter.put("/api/admin/accounts/:id", validateParams(idParamSchema), validateBody(accountSchema), async (req, res) => {
+  const input: AccountInput = req.body;
+
+  try {
+    const current = await prisma.ledgerAccount.findUnique({ where: { id: Number(req.params.id) } });
+    if (!current) return res.status(404).json({ success: false, message: "Account not found" });
+    if (current.key && (input.type !== current.type || !input.active)) {
+      return res.status(409).json({ success: false, message: `${current.name} is used by the automatic postings; it can be renamed but not retyped or retired` });
+    }
+    const problem = codeProblem(input);
+    if (problem) return res.status(400).json({ success: false, message: problem });
+
+    const account = await prisma.ledgerAccount.update({ where: { id: current.id }, data: input });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ACCOUNT_UPDATED",
+      target: account.code,
+      details: `${account.code} ${account.name}${account.active ? "" : " (inactive)"}`,
+    });
+    res.json({ success: true, account: await accountBalanceRow(account.id) });
+  } catch (err) {
+    sendError(res, err, "Failed to update account", 400);
+  }
+});
+
+// GET /api/admin/accounts/:id/ledger?from=2026-04-01&to=2026-10-31
+ledgerRouter.get("/api/admin/accounts/:id/ledger", validateParams(idParamSchema), validateQuery(accountLedgerQuerySchema), async (req, res) => {
+  const { from, to } = req.query as AccountLedgerQuery;
+
+  try {
+    const ledger = await accountLedger(Number(req.params.id), from, to);
+    if (!ledger) return res.status(404).json({ success: false, message: "Account not found" });
+    res.json(ledger);
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/journal
+ledgerRouter.get("/api/admin/journal", validateQuery(journalQuerySchema), async (req, res) => {
+  const { from, to, source, accountId } = req.query as unknown as JournalQuery;
+
+  try {
+    const end = to ? startOfDay(to) : undefined;
+    end?.setDate(end.getDate() + 1);
+    const entries = await prisma.journalEntry.findMany({
+      where: {
+        source,
+        date: { gte: from ? startOfDay(from) : undefined, lt: end },
+        ...(accountId ? { lines: { some: { accountId } } } : {}),
+      },
+      include: journalInclude,
+      orderBy: [{ date: "desc" }, { id: "desc" }],
+      take: 500,
+    });
+    res.json(entries.map(toJournalEntryRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/journal
+ledgerRouter.post("/api/admin/journal", validateBody(journalVoucherSchema), async (req, res) => {
+  const input: JournalVoucherInput = req.body;
+
+  try {
+    const row = toJournalEntryRow(await postVoucher(input, req.auth!.userId));
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "JOURNAL_POSTED",
+      target: row.voucher_no ?? undefined,
+      details: `₹${row.total} on ${row.date}: ${row.narration}`,
+    });
+    res.json({ success: true, message: `${row.voucher_no} posted`, entry: row });
+  } catch (err) {
+    if (err instanceof LedgerError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to post voucher", 400);
+  }
+});
+
+// POST /api/admin/journal/:id/reverse
+ledgerRouter.post("/api/admin/journal/:id/reverse", validateParams(idParamSchema), validateBody(reverseJournalSchema), async (req, res) => {
+  const { date }: ReverseJournalInput = req.body;
+
+  try {
+    const row = toJournalEntryRow(await reverseVoucher(Number(req.params.id), date, req.auth!.userId));
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "JOURNAL_REVERSED",
+      target: row.reversal_of ?? undefined,
+      details: `${row.reversal_of} reversed by ${row.voucher_no} on ${row.date}`,
+    });
+    res.json({ success: true, message: `${row.reversal_of} reversed by ${row.voucher_no}`, entry: row });
+  } catch (err) {
+    if (err instanceof LedgerError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to reverse voucher", 400);
+  }
+});
+
+// GET /api/admin/trial-balance?asOf=2026-10-31
+ledgerRouter.get("/api/admin/trial-balance", validateQuery(trialBalanceQuerySchema), async (req, res) => {
+  const { asOf } = req.query as TrialBalanceQuery;
+
+  try {
+    res.json(await trialBalance(asOf));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
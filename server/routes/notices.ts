@@ -0,0 +1,76 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { validateBody } from "../validate";
+import { alertSchema, eventSchema, type AlertInput, type AlertRow, type EventInput, type EventRow } from "../../src/lib/schemas";
+
+export const noticesRouter = express.Router();
+
+// GET /api/admin/alerts
+noticesRouter.get("/api/admin/alerts", async (req, res) => {
+  try {
+    const alerts = await prisma.alert.findMany({ orderBy: { createdAt: "desc" } });
+    res.json(alerts.map((a): AlertRow => ({
+      id: a.id,
+      tower: a.tower,
+      title: a.title,
+      message: a.message,
+      severity: a.severity as AlertRow["severity"],
+      created_at: a.createdAt.toISOString(),
+    })));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/alerts
+noticesRouter.post("/api/admin/alerts", validateBody(alertSchema), async (req, res) => {
+  const { tower, title, message, severity }: AlertInput = req.body;
+
+  try {
+    const alert = await prisma.alert.create({ data: { tower, title, message, severity } });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "ALERT_SENT",
+      target: tower === "All" ? "All towers" : `Tower ${tower}`,
+      details: `${severity} alert "${title}"`,
+    });
+    res.json({ success: true, alert });
+  } catch (err) {
+    sendError(res, err, "Failed to send alert", 400);
+  }
+});
+
+// GET /api/events
+noticesRouter.get("/api/events", async (req, res) => {
+  try {
+    const events = await prisma.event.findMany({ orderBy: { date: "asc" } });
+    res.json(events.map((e): EventRow => ({
+      id: e.id,
+      title: e.title,
+      description: e.description,
+      date: e.date.toISOString(),
+    })));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/events
+noticesRouter.post("/api/admin/events", validateBody(eventSchema), async (req, res) => {
+  const { title, description, date }: EventInput = req.body;
+
+  try {
+    const event = await prisma.event.create({ data: { title, description, date } });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "EVENT_CREATED",
+      target: `Event "${title}"`,
+      details: `Scheduled for ${date.toDateString()}`,
+    });
+    res.json({ success: true, event });
+  } catch (err) {
+    sendError(res, err, "Failed to create event", 400);
+  }
+});
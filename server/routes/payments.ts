@@ -0,0 +1,219 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { findFlatByNumber } from "../flats";
+import { PaymentError, confirmPayment, createPayment, paymentInclude, toPaymentRow } from "../payments";
+import {
+  GatewaySignatureError,
+  capturedEvent,
+  confirmCapturedPayment,
+  findGateway,
+  handleGatewayCallback,
+  startOnlinePayment,
+} from "../gateways";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  idParamSchema,
+  onlinePaymentSchema,
+  paymentsQuerySchema,
+  recordPaymentSchema,
+  rejectPaymentSchema,
+  residentPaymentSchema,
+  type OnlinePaymentInput,
+  type PaymentsQuery,
+  type RecordPaymentInput,
+  type ResidentPaymentInput,
+} from "../../src/lib/schemas";
+
+export const paymentsRouter = express.Router();
+
+// GET /api/admin/payments?status=PENDING&flatId=A101
+paymentsRouter.get("/api/admin/payments", validateQuery(paymentsQuerySchema), async (req, res) => {
+  const { status, flatId } = req.query as PaymentsQuery;
+
+  try {
+    const flat = flatId ? await findFlatByNumber(flatId) : null;
+    if (flatId && !flat) return res.json([]);
+
+    const payments = await prisma.payment.findMany({
+      where: { status, flatId: flat?.id },
+      include: paymentInclude,
+      orderBy: { paidAt: "desc" },
+      take: 200,
+    });
+    res.json(payments.map(toPaymentRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/payments
+// Cash, cheques and transfers received at the office; confirmed as soon as they're recorded.
+paymentsRouter.post("/api/admin/payments", validateBody(recordPaymentSchema), async (req, res) => {
+  const { flatId, ...input }: RecordPaymentInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(flatId);
+    if (!flat) {
+      return res.status(400).json({ success: false, message: "Validation failed", errors: { flatId: `Flat ${flatId} does not exist` } });
+    }
+
+    const payment = await createPayment({ ...input, flatId: flat.id, recordedById: req.auth!.userId, status: "CONFIRMED" });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "PAYMENT_RECORDED",
+      target: `Flat ${flat.number}`,
+      details: `₹${payment.amount} by ${payment.mode}${payment.reference ? ` (${payment.reference})` : ""}`,
+    });
+    res.json({ success: true, message: `₹${payment.amount} recorded for Flat ${flat.number}`, payment: toPaymentRow(payment) });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to record payment", 400);
+  }
+});
+
+// POST /api/admin/payments/:id/confirm
+// Online payments are normally confirmed by their gateway's callback; one the gateway captured but
+// that was left pending is settled here the same way the callback would have settled it.
+paymentsRouter.post("/api/admin/payments/:id/confirm", validateParams(idParamSchema), async (req, res) => {
+  const id = Number(req.params.id);
+
+  try {
+    const current = await prisma.payment.findUnique({ where: { id } });
+    const payment = current?.gateway
+      ? (await confirmCapturedPayment(id, req.auth!.userId)).payment
+      : await confirmPayment(id, req.auth!.userId);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "PAYMENT_CONFIRMED",
+      target: `Flat ${payment.flat.number}`,
+      details: `₹${payment.amount} by ${payment.mode} (${payment.reference}) confirmed${payment.note ? `: ${payment.note}` : ""}`,
+    });
+    res.json({ success: true, message: "Payment confirmed", payment: toPaymentRow(payment) });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to confirm payment", 400);
+  }
+});
+
+// POST /api/admin/payments/:id/reject
+// Money the gateway has already taken can't be turned away here; confirming it credits the flat.
+paymentsRouter.post("/api/admin/payments/:id/reject", validateParams(idParamSchema), validateBody(rejectPaymentSchema), async (req, res) => {
+  const { reason } = req.body as { reason: string };
+
+  try {
+    const current = await prisma.payment.findUnique({ where: { id: Number(req.params.id) } });
+    if (current && await capturedEvent(prisma, current)) {
+      return res.status(409).json({ success: false, message: "The gateway has already captured this payment; confirm it to credit the flat instead" });
+    }
+
+    const { count } = await prisma.payment.updateMany({
+      where: { id: Number(req.params.id), status: "PENDING" },
+      data: { status: "REJECTED", note: reason, recordedById: req.auth!.userId },
+    });
+    if (!count) {
+      return res.status(409).json({ success: false, message: "Only pending payments can be rejected" });
+    }
+
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { id: Number(req.params.id) }, include: paymentInclude });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "PAYMENT_REJECTED",
+      target: `Flat ${payment.flat.number}`,
+      details: `₹${payment.amount} by ${payment.mode} (${payment.reference}) rejected: ${reason}`,
+    });
+    res.json({ success: true, message: "Payment rejected", payment: toPaymentRow(payment) });
+  } catch (err) {
+    sendError(res, err, "Failed to reject payment", 400);
+  }
+});
+
+// GET /api/resident/payments
+paymentsRouter.get("/api/resident/payments", async (req, res) => {
+  if (!req.auth!.flatId) return res.json([]);
+
+  try {
+    const payments = await prisma.payment.findMany({
+      where: { flatId: req.auth!.flatId },
+      include: paymentInclude,
+      orderBy: { paidAt: "desc" },
+    });
+    res.json(payments.map(toPaymentRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/resident/payments
+// A transfer the resident has already made; it settles the bills once an admin confirms it.
+paymentsRouter.post("/api/resident/payments", validateBody(residentPaymentSchema), async (req, res) => {
+  const input: ResidentPaymentInput = req.body;
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+
+  try {
+    const payment = await createPayment({ ...input, flatId: req.auth!.flatId, status: "PENDING" });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "PAYMENT_SUBMITTED",
+      target: `Flat ${payment.flat.number}`,
+      details: `₹${payment.amount} by ${payment.mode} (${payment.reference}) awaiting confirmation`,
+    });
+    res.json({
+      success: true,
+      message: "Payment submitted. Your bills will be updated once the society office confirms it.",
+      payment: toPaymentRow(payment),
+    });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to submit payment", 400);
+  }
+});
+
+// POST /api/resident/payments/online
+// Returns the provider's checkout URL; the bills settle when its webhook arrives.
+paymentsRouter.post("/api/resident/payments/online", validateBody(onlinePaymentSchema), async (req, res) => {
+  const input: OnlinePaymentInput = req.body;
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+
+  try {
+    const session = await startOnlinePayment({ ...input, flatId: req.auth!.flatId, flatNumber: req.auth!.flat! });
+    res.json({ success: true, redirectUrl: session.redirectUrl });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Could not start online payment");
+  }
+});
+
+// POST /api/payments/webhook/:provider
+// Public, and parsed as raw bytes in server.ts so the signature is checked against exactly what
+// was sent. Always 200 once verified (even for duplicates) so the provider stops retrying.
+paymentsRouter.post("/api/payments/webhook/:provider", async (req, res) => {
+  const gateway = findGateway(req.params.provider);
+  if (!gateway) {
+    return res.status(404).json({ success: false, message: "Unknown payment provider" });
+  }
+
+  try {
+    const callback = gateway.verifyWebhook(req.body as Buffer, req.headers);
+    const { outcome } = await handleGatewayCallback(gateway.name, callback);
+    res.json({ success: true, outcome });
+  } catch (err) {
+    if (err instanceof GatewaySignatureError) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to process webhook");
+  }
+});
@@ -0,0 +1,134 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { PaymentError } from "../payments";
+import { ReconciliationError, confirmBankLine, ignoreBankLine, importStatement, toBankLineRows } from "../reconciliation";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import { round } from "../money";
+import {
+  bankLinesQuerySchema,
+  confirmBankLineSchema,
+  confirmBankLinesSchema,
+  idParamSchema,
+  ignoreBankLineSchema,
+  importStatementSchema,
+  type BankLinesQuery,
+  type ConfirmBankLineInput,
+  type ImportStatementInput,
+} from "../../src/lib/schemas";
+
+export const reconciliationRouter = express.Router();
+
+const isMatchError = (err: unknown) => err instanceof ReconciliationError || err instanceof PaymentError;
+
+// POST /api/admin/bank-statements
+// The CSV text and its column mapping; the body limit is raised for this path in server.ts.
+reconciliationRouter.post("/api/admin/bank-statements", validateBody(importStatementSchema), async (req, res) => {
+  const { fileName, csv, mapping }: ImportStatementInput = req.body;
+
+  try {
+    const result = await importStatement(fileName, csv, mapping, req.auth!.userId);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BANK_STATEMENT_IMPORTED",
+      target: fileName,
+      details: `${result.imported} credits imported (${result.suggested} matched automatically, ${result.unmatched} to review), ${result.duplicates} already imported`,
+    });
+    res.json({ success: true, result });
+  } catch (err) {
+    if (err instanceof ReconciliationError) {
+      return res.status(400).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to import statement", 400);
+  }
+});
+
+// GET /api/admin/bank-lines?status=UNMATCHED&statementId=3
+reconciliationRouter.get("/api/admin/bank-lines", validateQuery(bankLinesQuerySchema), async (req, res) => {
+  const { status, statementId } = req.query as unknown as BankLinesQuery;
+
+  try {
+    const lines = await prisma.bankStatementLine.findMany({
+      where: { status, statementId },
+      include: { flat: true },
+      orderBy: [{ txnDate: "desc" }, { id: "desc" }],
+      take: 500,
+    });
+    res.json(await toBankLineRows(lines));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/bank-lines/:id/confirm
+// Records the payment for one line, optionally matched to a different flat or bills.
+reconciliationRouter.post("/api/admin/bank-lines/:id/confirm", validateParams(idParamSchema), validateBody(confirmBankLineSchema), async (req, res) => {
+  const override: ConfirmBankLineInput = req.body;
+
+  try {
+    const line = await confirmBankLine(Number(req.params.id), req.auth!.userId, override);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BANK_LINE_MATCHED",
+      target: `Flat ${line.flat!.number}`,
+      details: `₹${line.amount} credit of ${line.txnDate.toISOString().slice(0, 10)} recorded as payment #${line.paymentId}`,
+    });
+    res.json({ success: true, message: `₹${line.amount} recorded for Flat ${line.flat!.number}` });
+  } catch (err) {
+    if (isMatchError(err)) {
+      return res.status(409).json({ success: false, message: (err as Error).message });
+    }
+    sendError(res, err, "Failed to confirm match", 400);
+  }
+});
+
+// POST /api/admin/bank-lines/confirm
+// Confirms several suggested matches; each line succeeds or fails on its own.
+reconciliationRouter.post("/api/admin/bank-lines/confirm", validateBody(confirmBankLinesSchema), async (req, res) => {
+  const { ids } = req.body as { ids: number[] };
+  const failed: { id: number; message: string }[] = [];
+  let total = 0;
+
+  for (const id of ids) {
+    try {
+      const line = await confirmBankLine(id, req.auth!.userId);
+      total += line.amount;
+    } catch (err) {
+      if (!isMatchError(err)) return sendError(res, err, "Failed to confirm matches");
+      failed.push({ id, message: (err as Error).message });
+    }
+  }
+
+  const confirmed = ids.length - failed.length;
+  if (confirmed) {
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BANK_LINES_MATCHED",
+      details: `${confirmed} statement credits totalling ₹${round(total)} recorded as payments`,
+    });
+  }
+  res.json({ success: true, message: `${confirmed} of ${ids.length} matches confirmed`, failed });
+});
+
+// POST /api/admin/bank-lines/:id/ignore
+// Credits that aren't maintenance (bank interest, refunds, deposits for events...).
+reconciliationRouter.post("/api/admin/bank-lines/:id/ignore", validateParams(idParamSchema), validateBody(ignoreBankLineSchema), async (req, res) => {
+  const { reason } = req.body as { reason: string };
+
+  try {
+    const { count } = await ignoreBankLine(Number(req.params.id), reason);
+    if (!count) {
+      return res.status(409).json({ success: false, message: "Only lines awaiting review can be ignored" });
+    }
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "BANK_LINE_IGNORED",
+      target: `Statement line #${req.params.id}`,
+      details: reason,
+    });
+    res.json({ success: true, message: "Line ignored" });
+  } catch (err) {
+    sendError(res, err, "Failed to ignore line", 400);
+  }
+});
@@ -0,0 +1,174 @@
+import express from "express";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { hashPassword } from "../auth";
+import { logActivity } from "../activity";
+import { findFlatByNumber } from "../flats";
+import { validateBody, validateParams, validateQuery } from "../validate";
+import {
+  approveRegistrationSchema,
+  idParamSchema,
+  registerSchema,
+  registrationsQuerySchema,
+  rejectRegistrationSchema,
+  type ApproveRegistrationInput,
+  type RegisterInput,
+  type RegistrationRow,
+} from "../../src/lib/schemas";
+
+export const registrationsRouter = express.Router();
+
+// POST /api/register
+registrationsRouter.post("/api/register", validateBody(registerSchema), async (req, res) => {
+  const { name, email, username, password, phone, flatId }: RegisterInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(flatId);
+    if (!flat) {
+      return res.status(400).json({ success: false, message: "Validation failed", errors: { flatId: `Flat ${flatId} does not exist` } });
+    }
+
+    const existing = await prisma.user.findFirst({
+      where: { OR: [{ username }, { email }] },
+    });
+    if (existing) {
+      const field = existing.username === username ? "username" : "email";
+      return res.status(409).json({ success: false, message: "Validation failed", errors: { [field]: `This ${field} is already registered` } });
+    }
+
+    await prisma.user.create({
+      data: {
+        name,
+        email,
+        username,
+        phone,
+        passwordHash: await hashPassword(password),
+        role: "resident",
+        status: "PENDING",
+        flatId: flat.id,
+      },
+    });
+    res.json({ success: true, message: "Registration submitted. You can sign in once the society admin approves it." });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/registrations?status=PENDING
+registrationsRouter.get("/api/admin/registrations", validateQuery(registrationsQuerySchema), async (req, res) => {
+  const { status } = req.query as { status: RegistrationRow["status"] };
+  try {
+    const users = await prisma.user.findMany({
+      where: { role: "resident", status },
+      include: { flat: true },
+      orderBy: { createdAt: "asc" },
+    });
+    res.json(users.map((u): RegistrationRow => ({
+      id: u.id,
+      name: u.name,
+      email: u.email,
+      username: u.username,
+      phone: u.phone,
+      flat_id: u.flat?.number ?? null,
+      status: u.status as RegistrationRow["status"],
+      rejection_reason: u.rejectionReason,
+      created_at: u.createdAt.toISOString(),
+    })));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/registrations/:id/approve
+// Mirrors approveResident in src/lib/db.ts: activate the user and make them the flat's resident.
+// If the flat already has someone else as its resident, that's a 409 unless replaceResident is set;
+// then the replaced resident's own account is rejected and unlinked from the flat.
+registrationsRouter.post("/api/admin/registrations/:id/approve", validateParams(idParamSchema), validateBody(approveRegistrationSchema), async (req, res) => {
+  const { replaceResident }: ApproveRegistrationInput = req.body;
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: Number(req.params.id) }, include: { flat: { include: { resident: true } } } });
+    if (!user || user.status !== "PENDING" || !user.flat) {
+      return res.status(404).json({ success: false, message: "No pending registration with that id" });
+    }
+    const current = user.flat.resident;
+    const replacing = current && current.email !== user.email ? current : null;
+    if (replacing && !replaceResident) {
+      return res.status(409).json({
+        success: false,
+        message: `Flat ${user.flat.number} already has ${replacing.name} (${replacing.email}) as its resident`,
+      });
+    }
+
+    const resident = {
+      name: user.name,
+      email: user.email,
+      phone: user.phone ?? "",
+    };
+    const flat = user.flat;
+    const revoked = await prisma.$transaction(async tx => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { status: "APPROVED", rejectionReason: null },
+      });
+      await tx.resident.upsert({
+        where: { flatId: flat.id },
+        update: resident,
+        create: { ...resident, flatId: flat.id },
+      });
+      if (!replacing) return [];
+      const previous = await tx.user.findMany({
+        where: { role: "resident", flatId: flat.id, email: replacing.email, id: { not: user.id } },
+      });
+      await tx.user.updateMany({
+        where: { id: { in: previous.map(u => u.id) } },
+        data: { status: "REJECTED", flatId: null, rejectionReason: `Replaced as resident of Flat ${flat.number} by ${user.name}` },
+      });
+      return previous;
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "REGISTRATION_APPROVED",
+      target: `User @${user.username}`,
+      details: `${user.name} approved as resident of Flat ${flat.number}${replacing ? `, replacing ${replacing.name}` : ""}`,
+    });
+    for (const previous of revoked) {
+      await logActivity({
+        userId: req.auth!.userId,
+        action: "RESIDENT_ACCESS_REVOKED",
+        target: `User @${previous.username}`,
+        details: `${previous.name} unlinked from Flat ${flat.number} after ${user.name} replaced them as resident`,
+      });
+    }
+    res.json({ success: true, message: `${user.name} approved` });
+  } catch (err) {
+    sendError(res, err, "Failed to approve registration", 400);
+  }
+});
+
+// POST /api/admin/registrations/:id/reject
+registrationsRouter.post("/api/admin/registrations/:id/reject", validateParams(idParamSchema), validateBody(rejectRegistrationSchema), async (req, res) => {
+  const { reason } = req.body as { reason: string };
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id: Number(req.params.id) } });
+    if (!user || user.status !== "PENDING") {
+      return res.status(404).json({ success: false, message: "No pending registration with that id" });
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { status: "REJECTED", rejectionReason: reason },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "REGISTRATION_REJECTED",
+      target: `User @${user.username}`,
+      details: `${user.name} rejected: ${reason}`,
+    });
+    res.json({ success: true, message: `${user.name} rejected` });
+  } catch (err) {
+    sendError(res, err, "Failed to reject registration", 400);
+  }
+});
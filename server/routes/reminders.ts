@@ -0,0 +1,164 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { findFlatByNumber } from "../flats";
+import { clearMailbox, listMailbox, readMailboxMessage, usingMailbox } from "../mailer";
+import {
+  ReminderError,
+  getReminderPolicy,
+  runReminders,
+  sendFlatReminder,
+  toReminderLogRow,
+  toReminderPolicyRow,
+  undeliverableAddresses,
+} from "../reminders";
+import { validateBody, validateParams } from "../validate";
+import {
+  flatNumberParamSchema,
+  mailboxIdParamSchema,
+  reminderPolicySchema,
+  type ReminderPolicyInput,
+} from "../../src/lib/schemas";
+
+export const remindersRouter = express.Router();
+
+const logInclude = { flat: true, bill: true, sentBy: true } as const;
+
+// GET /api/admin/reminder-policy
+remindersRouter.get("/api/admin/reminder-policy", async (req, res) => {
+  try {
+    res.json(toReminderPolicyRow(await getReminderPolicy()));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// PUT /api/admin/reminder-policy
+remindersRouter.put("/api/admin/reminder-policy", validateBody(reminderPolicySchema), async (req, res) => {
+  const input: ReminderPolicyInput = req.body;
+
+  try {
+    const policy = await prisma.reminderPolicy.upsert({
+      where: { id: 1 },
+      update: input,
+      create: { id: 1, ...input },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "REMINDER_POLICY_UPDATED",
+      details: input.enabled
+        ? `${input.upcomingDays} days before due, ${input.overdueDays} days after${input.overdueRepeatDays ? ` then every ${input.overdueRepeatDays} days` : ""}, final notice at ${input.finalNoticeDays} days`
+        : "Scheduled reminders turned off",
+    });
+    res.json({ success: true, policy: toReminderPolicyRow(policy) });
+  } catch (err) {
+    sendError(res, err, "Failed to update reminder schedule", 400);
+  }
+});
+
+// POST /api/admin/reminders/run
+// The server checks every hour on its own; this runs the schedule immediately.
+remindersRouter.post("/api/admin/reminders/run", async (req, res) => {
+  try {
+    const result = await runReminders();
+    const skipped = result.skipped ? `, ${result.skipped} skipped (no email)` : "";
+    const held = result.held ? `, ${result.held} held back after failed sends` : "";
+    res.json({ success: true, message: `${result.sent} reminders sent, ${result.failed} failed${skipped}${held}`, ...result });
+  } catch (err) {
+    sendError(res, err, "Failed to send reminders");
+  }
+});
+
+// GET /api/admin/reminders
+// The most recent reminders across all flats.
+remindersRouter.get("/api/admin/reminders", async (req, res) => {
+  try {
+    const logs = await prisma.reminderLog.findMany({ include: logInclude, orderBy: { id: "desc" }, take: 200 });
+    res.json(logs.map(toReminderLogRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/reminders/undeliverable
+remindersRouter.get("/api/admin/reminders/undeliverable", async (req, res) => {
+  try {
+    res.json(await undeliverableAddresses());
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/flats/:flatId/reminders
+remindersRouter.get("/api/admin/flats/:flatId/reminders", validateParams(flatNumberParamSchema), async (req, res) => {
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const logs = await prisma.reminderLog.findMany({ where: { flatId: flat.id }, include: logInclude, orderBy: { id: "desc" } });
+    res.json(logs.map(toReminderLogRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/flats/:flatId/reminders
+// "Send Reminder": emails the flat about its oldest open bill right away.
+remindersRouter.post("/api/admin/flats/:flatId/reminders", validateParams(flatNumberParamSchema), async (req, res) => {
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const log = await sendFlatReminder(flat.id, req.auth!.userId);
+    if (log.status !== "SENT") {
+      return res.status(502).json({ success: false, message: `Could not send the reminder: ${log.error}` });
+    }
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "REMINDER_SENT",
+      target: `Flat ${flat.number}`,
+      details: `${log.kind.toLowerCase()} reminder emailed to ${log.recipient}`,
+    });
+    res.json({ success: true, message: `Reminder sent to ${log.recipient}` });
+  } catch (err) {
+    if (err instanceof ReminderError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to send reminder");
+  }
+});
+
+// GET /api/admin/mailbox
+// Mail the dev transport filed instead of sending. Empty (and disabled) when SMTP is configured.
+remindersRouter.get("/api/admin/mailbox", async (req, res) => {
+  try {
+    const enabled = usingMailbox();
+    res.json({ enabled, messages: enabled ? await listMailbox() : [] });
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/admin/mailbox/:id
+remindersRouter.get("/api/admin/mailbox/:id", validateParams(mailboxIdParamSchema), async (req, res) => {
+  try {
+    const message = await readMailboxMessage(req.params.id);
+    if (!message) return res.status(404).json({ success: false, message: "Message not found" });
+    res.json(message);
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// DELETE /api/admin/mailbox
+remindersRouter.delete("/api/admin/mailbox", async (req, res) => {
+  try {
+    await clearMailbox();
+    res.json({ success: true, message: "Mailbox emptied" });
+  } catch (err) {
+    sendError(res, err, "Failed to empty mailbox");
+  }
+});
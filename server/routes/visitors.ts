@@ -0,0 +1,185 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { findFlatByNumber, towerOf } from "../flats";
+import { checkInVisitor, generatePassCode, parsePassInput, passStatus, redeemPass, toPassRow, toVisitorRow } from "../visitors";
+import { validateBody } from "../validate";
+import {
+  guestPassSchema,
+  passCheckInSchema,
+  visitorEntrySchema,
+  visitorExitSchema,
+  type GuestPassInput,
+  type VisitorEntryInput,
+} from "../../src/lib/schemas";
+
+export const visitorsRouter = express.Router();
+
+// GET /api/security/visitors
+// Today's log at the gate: everyone who came in today plus anyone still inside from earlier.
+visitorsRouter.get("/api/security/visitors", async (req, res) => {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  try {
+    const visitors = await prisma.visitor.findMany({
+      where: { OR: [{ entryTime: { gte: startOfDay } }, { exitTime: null }] },
+      include: { flat: { include: { wing: true } } },
+      orderBy: { entryTime: "desc" },
+    });
+    res.json(visitors.map(toVisitorRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/security/visitor-entry
+visitorsRouter.post("/api/security/visitor-entry", validateBody(visitorEntrySchema), async (req, res) => {
+  const { name, tower, flatId }: VisitorEntryInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(flatId);
+    if (!flat) {
+      return res.status(400).json({ success: false, message: "Validation failed", errors: { flatId: `Flat ${flatId} does not exist` } });
+    }
+    const wing = await prisma.wing.findUniqueOrThrow({ where: { id: flat.wingId } });
+    if (tower && towerOf(wing.name) !== tower) {
+      return res.status(400).json({ success: false, message: "Validation failed", errors: { flatId: `Flat ${flat.number} is not in Tower ${tower}` } });
+    }
+
+    const visitor = await checkInVisitor(name, flat, req.auth!.userId);
+    res.json({ success: true, visitor: toVisitorRow(visitor) });
+  } catch (err) {
+    sendError(res, err, "Failed to record entry", 400);
+  }
+});
+
+// POST /api/security/visitor-exit
+visitorsRouter.post("/api/security/visitor-exit", validateBody(visitorExitSchema), async (req, res) => {
+  try {
+    const visitor = await prisma.visitor.findUnique({
+      where: { id: req.body.id },
+      include: { flat: true },
+    });
+    if (!visitor) {
+      return res.status(404).json({ success: false, message: "Visitor not found" });
+    }
+    if (visitor.exitTime) {
+      return res.status(409).json({ success: false, message: `${visitor.name} has already checked out` });
+    }
+
+    const updated = await prisma.visitor.update({
+      where: { id: visitor.id },
+      data: { exitTime: new Date() },
+      include: { flat: { include: { wing: true } } },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "VISITOR_EXIT",
+      target: `Flat ${visitor.flat.number}`,
+      details: `${visitor.name} checked out`,
+    });
+    res.json({ success: true, visitor: toVisitorRow(updated) });
+  } catch (err) {
+    sendError(res, err, "Failed to record exit", 400);
+  }
+});
+
+// GET /api/resident/visitors
+// Full visitor history for the signed-in resident's flat.
+visitorsRouter.get("/api/resident/visitors", async (req, res) => {
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+
+  try {
+    const visitors = await prisma.visitor.findMany({
+      where: { flatId: req.auth!.flatId },
+      include: { flat: { include: { wing: true } } },
+      orderBy: { entryTime: "desc" },
+      take: 200,
+    });
+    res.json(visitors.map(toVisitorRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// GET /api/resident/passes
+visitorsRouter.get("/api/resident/passes", async (req, res) => {
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+
+  try {
+    const passes = await prisma.visitorPass.findMany({
+      where: { flatId: req.auth!.flatId },
+      orderBy: { validFrom: "desc" },
+      take: 50,
+    });
+    res.json(passes.map(toPassRow));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/resident/passes
+visitorsRouter.post("/api/resident/passes", validateBody(guestPassSchema), async (req, res) => {
+  const { guestName, validFrom, validUntil }: GuestPassInput = req.body;
+  if (!req.auth!.flatId) {
+    return res.status(403).json({ success: false, message: "Your account is not linked to a flat" });
+  }
+
+  try {
+    const pass = await prisma.visitorPass.create({
+      data: {
+        code: await generatePassCode(),
+        guestName,
+        flatId: req.auth!.flatId,
+        createdById: req.auth!.userId,
+        validFrom,
+        validUntil,
+      },
+    });
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "VISITOR_PASS_CREATED",
+      target: `Flat ${req.auth!.flat}`,
+      details: `Guest pass for ${guestName}`,
+    });
+    res.json({ success: true, pass: toPassRow(pass) });
+  } catch (err) {
+    sendError(res, err, "Failed to create guest pass", 400);
+  }
+});
+
+// POST /api/security/pass-checkin
+// Redeems a guest pass code (typed or scanned) and checks the guest in.
+visitorsRouter.post("/api/security/pass-checkin", validateBody(passCheckInSchema), async (req, res) => {
+  const code = parsePassInput(req.body.code);
+
+  try {
+    const pass = await prisma.visitorPass.findUnique({ where: { code }, include: { flat: true } });
+    if (!pass) {
+      return res.status(404).json({ success: false, message: "Invalid pass code" });
+    }
+    const status = passStatus(pass);
+    if (status !== "Active") {
+      const reasons: Record<string, string> = {
+        Used: "This pass has already been used",
+        Upcoming: "This pass is not valid yet",
+        Expired: "This pass has expired",
+      };
+      return res.status(409).json({ success: false, status, message: reasons[status] });
+    }
+
+    const visitor = await redeemPass(pass, req.auth!.userId);
+    if (!visitor) {
+      return res.status(409).json({ success: false, status: "Used", message: "This pass has already been used" });
+    }
+    res.json({ success: true, visitor: toVisitorRow(visitor) });
+  } catch (err) {
+    sendError(res, err, "Failed to check in with pass", 400);
+  }
+});
@@ -0,0 +1,104 @@
+import express from "express";
+import { prisma } from "../prisma";
+import { sendError } from "../errors";
+import { logActivity } from "../activity";
+import { findFlatByNumber } from "../flats";
+import { PaymentError } from "../payments";
+import { refundCredit, toWalletEntryRow, transferCredit } from "../wallet";
+import { validateBody, validateParams } from "../validate";
+import {
+  flatNumberParamSchema,
+  refundCreditSchema,
+  transferCreditSchema,
+  type RefundCreditInput,
+  type TransferCreditInput,
+  type FlatWallet,
+} from "../../src/lib/schemas";
+
+export const walletRouter = express.Router();
+
+async function walletOf(flat: { id: string; number: string; credit: number }): Promise<FlatWallet> {
+  const entries = await prisma.walletEntry.findMany({
+    where: { flatId: flat.id },
+    include: { createdBy: true },
+    orderBy: { id: "desc" },
+  });
+  return { flat_id: flat.number, credit: flat.credit, entries: entries.map(toWalletEntryRow) };
+}
+
+// GET /api/admin/flats/:flatId/wallet
+walletRouter.get("/api/admin/flats/:flatId/wallet", validateParams(flatNumberParamSchema), async (req, res) => {
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    res.json(await walletOf(flat));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+// POST /api/admin/flats/:flatId/wallet/refund
+walletRouter.post("/api/admin/flats/:flatId/wallet/refund", validateParams(flatNumberParamSchema), validateBody(refundCreditSchema), async (req, res) => {
+  const input: RefundCreditInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const entry = await refundCredit(flat.id, input, req.auth!.userId);
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "CREDIT_REFUNDED",
+      target: `Flat ${flat.number}`,
+      details: `₹${input.amount} advance credit refunded by ${input.mode}${input.reference ? ` (${input.reference})` : ""}; ₹${entry.balance} left`,
+    });
+    res.json({ success: true, message: `₹${input.amount} refunded to Flat ${flat.number}` });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to refund credit", 400);
+  }
+});
+
+// POST /api/admin/flats/:flatId/wallet/transfer
+walletRouter.post("/api/admin/flats/:flatId/wallet/transfer", validateParams(flatNumberParamSchema), validateBody(transferCreditSchema), async (req, res) => {
+  const input: TransferCreditInput = req.body;
+
+  try {
+    const flat = await findFlatByNumber(req.params.flatId);
+    if (!flat) {
+      return res.status(404).json({ success: false, message: `Flat ${req.params.flatId} does not exist` });
+    }
+    const { to, applied } = await transferCredit(flat.id, input, req.auth!.userId);
+    const paid = applied ? `, ₹${applied} of it applied to open bills` : "";
+    await logActivity({
+      userId: req.auth!.userId,
+      action: "CREDIT_TRANSFERRED",
+      target: `Flat ${flat.number}`,
+      details: `₹${input.amount} advance credit moved to Flat ${to.number}${paid}`,
+    });
+    res.json({ success: true, message: `₹${input.amount} transferred to Flat ${to.number}${paid}` });
+  } catch (err) {
+    if (err instanceof PaymentError) {
+      return res.status(409).json({ success: false, message: err.message });
+    }
+    sendError(res, err, "Failed to transfer credit", 400);
+  }
+});
+
+// GET /api/resident/wallet
+walletRouter.get("/api/resident/wallet", async (req, res) => {
+  if (!req.auth!.flatId) return res.status(404).json({ success: false, message: "No flat linked to this account" });
+
+  try {
+    const flat = await prisma.flat.findUnique({ where: { id: req.auth!.flatId } });
+    if (!flat) return res.status(404).json({ success: false, message: "No flat linked to this account" });
+    res.json(await walletOf(flat));
+  } catch (err) {
+    sendError(res, err);
+  }
+});
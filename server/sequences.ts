@@ -0,0 +1,36 @@
+import type { Prisma } from "@prisma/client";
+
+export const INVOICE_SERIES = "INV";
+export const RECEIPT_SERIES = "RCT";
+export const CREDIT_NOTE_SERIES = "CN";
+export const DEBIT_NOTE_SERIES = "DN";
+export const JOURNAL_SERIES = "JV";
+
+// Takes the next number in a series. Call it inside the transaction that creates the document:
+// if that rolls back the number is handed out again, so a series has no gaps.
+async function nextInSeries(tx: Prisma.TransactionClient, series: string) {
+  const sequence = await tx.documentSequence.upsert({
+    where: { series },
+    create: { series, next: 2 },
+    update: { next: { increment: 1 } },
+  });
+  return sequence.next - 1;
+}
+
+// "RCT-000042"
+export async function nextDocumentNumber(tx: Prisma.TransactionClient, series: string) {
+  return `${series}-${String(await nextInSeries(tx, series)).padStart(6, "0")}`;
+}
+
+// Indian financial year (April to March) a date falls in, e.g. "26-27".
+export function financialYear(date: Date) {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${String(start % 100).padStart(2, "0")}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+// "INV/26-27/00042". GST invoices are numbered consecutively within a financial year in at most
+// 16 characters, so each year is its own series and numbering restarts every April.
+export async function nextInvoiceNumber(tx: Prisma.TransactionClient, issuedAt = new Date()) {
+  const series = `${INVOICE_SERIES}/${financialYear(issuedAt)}`;
+  return `${series}/${String(await nextInSeries(tx, series)).padStart(5, "0")}`;
+}
@@ -0,0 +1,172 @@
+import { prisma } from "./prisma";
+import { round } from "./money";
+import { toCsv } from "../src/lib/csv";
+import { periodLabel, type AccountStatement } from "../src/lib/schemas";
+
+type Entry = Omit<AccountStatement["entries"][number], "balance" | "date"> & { at: Date };
+
+const ADJUSTMENT_LABELS: Record<string, string> = {
+  CREDIT_NOTE: "Credit note",
+  WAIVER: "Late fee waiver",
+  DEBIT_NOTE: "Debit note",
+};
+
+// "2026-10-19" in local time, matching how dates are picked in the UI.
+const dayOf = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+const startOfDay = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+// Start of the financial year (1 April) that `today` falls in.
+function financialYearStart(today: Date) {
+  return new Date(today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, 3, 1);
+}
+
+// Everything that changed what the flat owes, oldest first. A bill is debited when raised with
+// its charges and their GST; penalties are debited as they accrue, so a statement shows them on
+// the day they were added rather than folded into the original bill. Payments count once confirmed,
+// in full: the part kept as advance credit already lowers the balance, so moving it into or out
+// of the wallet is a memo line. Refunds and transfers to other flats are debits, transfers in credits.
+// Credit and debit notes count on the day they were approved, against the bill as it was invoiced.
+async function flatEntries(flatId: string): Promise<Entry[]> {
+  const [bills, payments, wallet, adjustments] = await Promise.all([
+    prisma.maintenanceBill.findMany({ where: { flatId }, include: { lineItems: { orderBy: { id: "asc" } } } }),
+    prisma.payment.findMany({ where: { flatId, status: "CONFIRMED" } }),
+    prisma.walletEntry.findMany({ where: { flatId }, include: { payment: true, bill: true } }),
+    prisma.billAdjustment.findMany({ where: { status: "APPROVED", bill: { flatId } }, include: { bill: true } }),
+  ]);
+
+  const entries: Entry[] = [];
+  for (const bill of bills) {
+    const penalties = bill.lineItems.filter(i => i.kind === "PENALTY");
+    const penaltyTotal = penalties.reduce((sum, i) => sum + i.amount + i.taxAmount, 0);
+    entries.push({
+      at: bill.createdAt,
+      kind: "BILL",
+      reference: bill.invoiceNo,
+      description: `Maintenance for ${periodLabel(bill.period)}`,
+      // Whatever isn't a penalty, so bills raised before itemization still add up.
+      debit: round(bill.amount - penaltyTotal),
+      credit: 0,
+    });
+    for (const item of penalties) {
+      entries.push({
+        at: item.createdAt,
+        kind: "PENALTY",
+        reference: bill.invoiceNo,
+        description: `${item.head} on ${periodLabel(bill.period)} bill (${item.description})`,
+        debit: round(item.amount + item.taxAmount),
+        credit: 0,
+      });
+    }
+  }
+  for (const payment of payments) {
+    entries.push({
+      at: payment.paidAt,
+      kind: "PAYMENT",
+      reference: payment.receiptNo,
+      description: `Payment by ${payment.mode}${payment.reference ? ` (${payment.reference})` : ""}`,
+      debit: 0,
+      credit: payment.amount,
+    });
+  }
+  for (const adjustment of adjustments) {
+    const debit = adjustment.kind === "DEBIT_NOTE";
+    entries.push({
+      at: adjustment.reviewedAt!,
+      kind: adjustment.kind as Entry["kind"],
+      reference: adjustment.documentNo,
+      description: `${ADJUSTMENT_LABELS[adjustment.kind]} on the ${periodLabel(adjustment.bill.period)} bill: ${adjustment.reason}`,
+      debit: debit ? adjustment.amount : 0,
+      credit: debit ? 0 : adjustment.amount,
+    });
+  }
+  for (const entry of wallet) {
+    const amount = Math.abs(entry.amount);
+    const base = { at: entry.createdAt, reference: null, debit: 0, credit: 0 };
+    const note = entry.note ? ` (${entry.note})` : "";
+    if (entry.kind === "ADJUSTMENT") {
+      entries.push({
+        ...base,
+        kind: "ADVANCE",
+        description: `₹${amount} kept as advance credit${note}`,
+      });
+    } else if (entry.kind === "ADVANCE") {
+      entries.push({
+        ...base,
+        kind: "ADVANCE",
+        reference: entry.payment?.receiptNo ?? null,
+        description: `₹${amount} of the payment kept as advance credit`,
+      });
+    } else if (entry.kind === "APPLIED") {
+      entries.push({
+        ...base,
+        kind: "CREDIT_APPLIED",
+        reference: entry.bill?.invoiceNo ?? null,
+        description: `₹${amount} advance credit applied${entry.bill ? ` to the ${periodLabel(entry.bill.period)} bill` : ""}`,
+      });
+    } else if (entry.kind === "REFUND") {
+      entries.push({ ...base, kind: "REFUND", description: `Refund of advance credit${note}`, debit: amount });
+    } else {
+      const out = entry.kind === "TRANSFER_OUT";
+      entries.push({
+        ...base,
+        kind: "TRANSFER",
+        description: `Advance credit transfer${note}`,
+        debit: out ? amount : 0,
+        credit: out ? 0 : amount,
+      });
+    }
+  }
+  // Stable, so a payment's ADVANCE memo stays after the payment recorded at the same moment.
+  return entries.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+// Statement for the days from..to, both inclusive, with everything earlier carried in as the
+// opening balance. A positive balance is owed by the flat.
+export async function accountStatement(flat: { id: string; number: string }, from?: string, to?: string): Promise<AccountStatement> {
+  const first = from ?? dayOf(financialYearStart(new Date()));
+  const last = to ?? dayOf(new Date());
+  const start = startOfDay(first);
+  const end = startOfDay(last);
+  end.setDate(end.getDate() + 1);
+
+  let balance = 0;
+  let totalDebit = 0;
+  let totalCredit = 0;
+  const rows: AccountStatement["entries"] = [];
+  for (const { at, ...entry } of await flatEntries(flat.id)) {
+    if (at >= end) break;
+    balance = round(balance + entry.debit - entry.credit);
+    if (at < start) continue;
+    totalDebit += entry.debit;
+    totalCredit += entry.credit;
+    rows.push({ date: at.toISOString(), ...entry, balance });
+  }
+
+  const closing = balance;
+  return {
+    flat_id: flat.number,
+    from: first,
+    to: last,
+    opening_balance: round(closing - totalDebit + totalCredit),
+    total_debit: round(totalDebit),
+    total_credit: round(totalCredit),
+    closing_balance: closing,
+    entries: rows,
+  };
+}
+
+export function statementCsv(statement: AccountStatement) {
+  return toCsv([
+    ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"],
+    [statement.from, "", "", "Opening balance", "", "", statement.opening_balance],
+    ...statement.entries.map(e => [dayOf(new Date(e.date)), e.kind, e.reference, e.description, e.debit || "", e.credit || "", e.balance]),
+    [statement.to, "", "", "Closing balance", statement.total_debit, statement.total_credit, statement.closing_balance],
+  ]);
+}
+
+export const statementFileName = (statement: AccountStatement) =>
+  `statement_${statement.flat_id}_${statement.from}_${statement.to}`;
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { BillLineItem } from "@prisma/client";
+import { adjustmentLines, taxSummary } from "./tax";
+import { fakeDbFixture } from "./testing";
+
+// As the client receives it, where a credit of ₹0 tax is plain 0 rather than -0.
+const sent = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const line = (head: string, amount: number, taxRate: number, kind = "CHARGE") =>
+  ({ head, amount, taxRate, taxAmount: Math.round(amount * taxRate) / 100, kind }) as BillLineItem;
+
+describe("adjustmentLines", () => {
+  test("spreads a credit note over the bill's lines, taking GST back at each line's rate", () => {
+    assert.deepEqual(sent(adjustmentLines({ kind: "CREDIT_NOTE", amount: 690 }, [line("Maintenance", 5000, 18), line("Water Charges", 1000, 0)])), [
+      { head: "Maintenance", amount: -500, taxRate: 18, taxAmount: -90 },
+      { head: "Water Charges", amount: -100, taxRate: 0, taxAmount: 0 },
+    ]);
+  });
+
+  test("only takes waivers off late fees and interest", () => {
+    assert.deepEqual(adjustmentLines({ kind: "WAIVER", amount: 118 }, [line("Maintenance", 5000, 18), line("Late Fee", 200, 18, "PENALTY")]), [
+      { head: "Late Fee", amount: -100, taxRate: 18, taxAmount: -18 },
+    ]);
+  });
+
+  test("adds debit notes", () => {
+    assert.deepEqual(adjustmentLines({ kind: "DEBIT_NOTE", amount: 590 }, [line("Parking", 1000, 18)]), [
+      { head: "Parking", amount: 500, taxRate: 18, taxAmount: 90 },
+    ]);
+  });
+
+  test("puts the rounding on the last line so the shares add up to the note", () => {
+    const lines = adjustmentLines({ kind: "CREDIT_NOTE", amount: 100 }, [line("A", 500, 0), line("B", 500, 0), line("C", 500, 0)]);
+    assert.deepEqual(lines.map(l => l.amount), [-33.33, -33.33, -33.34]);
+  });
+});
+
+describe("taxSummary", () => {
+  const on = (month: number, day: number) => new Date(2026, month - 1, day);
+
+  const fixture = fakeDbFixture(() => ({
+    taxPolicy: [{ id: 1, enabled: true, gstin: "27AAAAA0000A1Z5", sacCode: "999598", rate: 18, threshold: 7500, exemptHeads: "[]", updatedAt: on(4, 1) }],
+    flat: [{ id: "f1", number: "A101" }, { id: "f2", number: "B202" }],
+    maintenanceBill: [
+      { id: "sep", flatId: "f1", period: "2026-09", invoiceNo: "INV/26-27/00001", createdAt: on(9, 1) },
+      { id: "oct", flatId: "f1", period: "2026-10", invoiceNo: "INV/26-27/00002", createdAt: on(10, 1) },
+      { id: "oct2", flatId: "f2", period: "2026-10", invoiceNo: "INV/26-27/00003", createdAt: on(10, 2) },
+    ],
+    billLineItem: [
+      { billId: "sep", ...line("Maintenance", 5000, 18), createdAt: on(9, 1) },
+      { billId: "sep", ...line("Late Fee", 200, 18, "PENALTY"), createdAt: on(10, 10) },
+      { billId: "oct", ...line("Maintenance", 5000, 18), createdAt: on(10, 1) },
+      { billId: "oct", ...line("Water Charges", 1000, 0), createdAt: on(10, 1) },
+      { billId: "oct2", ...line("Parking", 1000, 18), createdAt: on(10, 2) },
+    ],
+    billAdjustment: [
+      { billId: "oct", kind: "CREDIT_NOTE", amount: 690, status: "APPROVED", documentNo: "CN-000001", reviewedAt: on(10, 15) },
+      { billId: "sep", kind: "WAIVER", amount: 118, status: "APPROVED", documentNo: "CN-000002", reviewedAt: on(10, 20) },
+      { billId: "oct2", kind: "DEBIT_NOTE", amount: 590, status: "APPROVED", documentNo: "DN-000001", reviewedAt: on(10, 25) },
+      { billId: "oct", kind: "CREDIT_NOTE", amount: 1000, status: "PENDING", reviewedAt: null },
+      { billId: "sep", kind: "CREDIT_NOTE", amount: 1000, status: "APPROVED", documentNo: "CN-000000", reviewedAt: on(9, 20) },
+    ],
+  }));
+
+  test("nets the notes approved in the month into its taxable value and GST", async () => {
+    const summary = await taxSummary("2026-10");
+    assert.deepEqual(summary.totals, {
+      taxable_value: 6100,
+      exempt_value: 900,
+      cgst: 549,
+      sgst: 549,
+      invoices: 3,
+      notes: 3,
+      total_tax: 1098,
+      gross: 8098,
+    });
+    assert.deepEqual(summary.by_head.find(h => h.head === "Maintenance"), { head: "Maintenance", taxable_value: 4500, exempt_value: 0, cgst: 405, sgst: 405 });
+    assert.deepEqual(sent(summary.by_rate.find(r => r.rate === 0)), { rate: 0, taxable_value: 0, exempt_value: 900, cgst: 0, sgst: 0 });
+  });
+
+  test("lists each note against its invoice", async () => {
+    const { notes } = await taxSummary("2026-10");
+    assert.deepEqual(notes.map(n => [n.document_no, n.invoice_no, n.total]), [
+      ["CN-000001", "INV/26-27/00002", -690],
+      ["CN-000002", "INV/26-27/00001", -118],
+      ["DN-000001", "INV/26-27/00003", 590],
+    ]);
+  });
+
+  test("leaves the invoices as they were raised", async () => {
+    const { invoices } = await taxSummary("2026-10");
+    assert.deepEqual(invoices.map(i => [i.invoice_no, i.total]), [
+      ["INV/26-27/00001", 236],
+      ["INV/26-27/00002", 6900],
+      ["INV/26-27/00003", 1180],
+    ]);
+  });
+});
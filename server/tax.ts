@@ -0,0 +1,173 @@
+import type { BillAdjustment, BillLineItem, Prisma, TaxPolicy } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { LineItem } from "./charges";
+import { round } from "./money";
+import type { TaxPolicyRow, TaxSummary } from "../src/lib/schemas";
+
+export function getTaxPolicy(db: Prisma.TransactionClient = prisma) {
+  return db.taxPolicy.upsert({ where: { id: 1 }, update: {}, create: { id: 1 } });
+}
+
+const exemptHeadsOf = (policy: TaxPolicy): string[] => JSON.parse(policy.exemptHeads);
+
+export function toTaxPolicyRow(p: TaxPolicy): TaxPolicyRow {
+  return {
+    enabled: p.enabled,
+    gstin: p.gstin,
+    sac_code: p.sacCode,
+    rate: p.rate,
+    threshold: p.threshold,
+    exempt_heads: exemptHeadsOf(p),
+    updated_at: p.updatedAt.toISOString(),
+  };
+}
+
+// Taxes a month's charge lines for one flat. Only non-exempt heads count towards the threshold,
+// and once they exceed it every one of them is taxed in full (not just the excess), as the CBIC
+// clarified for housing societies. At or under the threshold the whole bill is exempt.
+export function applyTax<T extends LineItem>(items: T[], policy: TaxPolicy): (T & { taxRate: number; taxAmount: number })[] {
+  const exempt = new Set(exemptHeadsOf(policy).map(h => h.toLowerCase()));
+  const taxable = (item: T) => policy.enabled && policy.rate > 0 && !exempt.has(item.head.toLowerCase());
+  const base = items.filter(taxable).reduce((sum, i) => sum + i.amount, 0);
+  const charged = base > policy.threshold;
+
+  return items.map(item =>
+    charged && taxable(item)
+      ? { ...item, taxRate: policy.rate, taxAmount: round((item.amount * policy.rate) / 100) }
+      : { ...item, taxRate: 0, taxAmount: 0 },
+  );
+}
+
+// Intra-state supply: the tax is split equally, with any odd paisa going to SGST.
+export function splitTax(taxAmount: number) {
+  const cgst = round(taxAmount / 2);
+  return { cgst, sgst: round(taxAmount - cgst) };
+}
+
+type Totals = { taxable_value: number; exempt_value: number; cgst: number; sgst: number };
+
+type TaxLine = Pick<BillLineItem, "head" | "amount" | "taxRate" | "taxAmount">;
+
+const emptyTotals = (): Totals => ({ taxable_value: 0, exempt_value: 0, cgst: 0, sgst: 0 });
+
+function addLine(totals: Totals, line: TaxLine) {
+  const { cgst, sgst } = splitTax(line.taxAmount);
+  if (line.taxRate > 0) totals.taxable_value = round(totals.taxable_value + line.amount);
+  else totals.exempt_value = round(totals.exempt_value + line.amount);
+  totals.cgst = round(totals.cgst + cgst);
+  totals.sgst = round(totals.sgst + sgst);
+}
+
+// What a credit or debit note does to the tax already charged on its invoice. The note's amount
+// includes GST, so it is spread over the lines it corrects in proportion to what each one charged,
+// and each share splits into value and tax at that line's rate. Waivers only touch late fees and
+// interest. Credits come out negative; the last line takes the rounding, so the shares always add
+// up to the note.
+export function adjustmentLines(adjustment: Pick<BillAdjustment, "kind" | "amount">, lineItems: BillLineItem[]): TaxLine[] {
+  const sign = adjustment.kind === "DEBIT_NOTE" ? 1 : -1;
+  const lines = lineItems
+    .filter(i => adjustment.kind !== "WAIVER" || i.kind === "PENALTY")
+    .filter(i => i.amount + i.taxAmount > 0);
+  const gross = lines.reduce((sum, i) => sum + i.amount + i.taxAmount, 0);
+  if (!lines.length) return [{ head: "Adjustment", amount: sign * adjustment.amount, taxRate: 0, taxAmount: 0 }];
+
+  let left = adjustment.amount;
+  return lines.map((item, i) => {
+    const share = i === lines.length - 1 ? left : round((adjustment.amount * (item.amount + item.taxAmount)) / gross);
+    left = round(left - share);
+    const taxAmount = round((share * item.taxAmount) / (item.amount + item.taxAmount));
+    return { head: item.head, amount: sign * round(share - taxAmount), taxRate: item.taxRate, taxAmount: sign * taxAmount };
+  });
+}
+
+// Every line charged during the calendar month: the charges on bills raised in it and the
+// penalties accrued in it, less the credit notes and waivers approved in it and plus the debit
+// notes. Taxes are split per line and then summed, matching the invoices and notes.
+export async function taxSummary(period: string): Promise<TaxSummary> {
+  const [year, month] = period.split("-").map(Number);
+  const during = { gte: new Date(year, month - 1, 1), lt: new Date(year, month, 1) };
+  const [policy, lines, adjustments] = await Promise.all([
+    getTaxPolicy(),
+    prisma.billLineItem.findMany({
+      where: { createdAt: during },
+      include: { bill: { include: { flat: true } } },
+      orderBy: { id: "asc" },
+    }),
+    prisma.billAdjustment.findMany({
+      where: { status: "APPROVED", reviewedAt: during },
+      include: { bill: { include: { flat: true, lineItems: true } } },
+      orderBy: { id: "asc" },
+    }),
+  ]);
+
+  const totals = emptyTotals();
+  const byRate = new Map<number, Totals>();
+  const byHead = new Map<string, Totals>();
+  const invoices = new Map<string, TaxSummary["invoices"][number]>();
+  const notes: TaxSummary["notes"] = [];
+
+  const tally = (line: TaxLine) => {
+    addLine(totals, line);
+
+    if (!byRate.has(line.taxRate)) byRate.set(line.taxRate, emptyTotals());
+    addLine(byRate.get(line.taxRate)!, line);
+
+    if (!byHead.has(line.head)) byHead.set(line.head, emptyTotals());
+    addLine(byHead.get(line.head)!, line);
+  };
+
+  for (const line of lines) {
+    tally(line);
+
+    if (!invoices.has(line.billId)) {
+      invoices.set(line.billId, {
+        invoice_no: line.bill.invoiceNo,
+        flat_id: line.bill.flat.number,
+        invoice_date: line.bill.createdAt.toISOString(),
+        ...emptyTotals(),
+        total: 0,
+      });
+    }
+    const invoice = invoices.get(line.billId)!;
+    addLine(invoice, line);
+    invoice.total = round(invoice.total + line.amount + line.taxAmount);
+  }
+
+  // A note only corrects what its invoice carried when it was approved.
+  for (const { bill, ...adjustment } of adjustments) {
+    const noteDate = adjustment.reviewedAt!;
+    const note: TaxSummary["notes"][number] = {
+      document_no: adjustment.documentNo,
+      kind: adjustment.kind as TaxSummary["notes"][number]["kind"],
+      invoice_no: bill.invoiceNo,
+      flat_id: bill.flat.number,
+      note_date: noteDate.toISOString(),
+      ...emptyTotals(),
+      total: 0,
+    };
+    for (const line of adjustmentLines(adjustment, bill.lineItems.filter(i => i.createdAt <= noteDate))) {
+      tally(line);
+      addLine(note, line);
+      note.total = round(note.total + line.amount + line.taxAmount);
+    }
+    notes.push(note);
+  }
+
+  const totalTax = round(totals.cgst + totals.sgst);
+  return {
+    period,
+    gstin: policy.gstin,
+    sac_code: policy.sacCode,
+    totals: {
+      ...totals,
+      invoices: invoices.size,
+      notes: notes.length,
+      total_tax: totalTax,
+      gross: round(totals.taxable_value + totals.exempt_value + totalTax),
+    },
+    by_rate: [...byRate].sort(([a], [b]) => b - a).map(([rate, t]) => ({ rate, ...t })),
+    by_head: [...byHead].map(([head, t]) => ({ head, ...t })),
+    invoices: [...invoices.values()],
+    notes,
+  };
+}
@@ -0,0 +1,353 @@
+import { afterEach, beforeEach } from "node:test";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { round } from "./money";
+
+// An in-memory stand-in for the Prisma client, for tests of code that reads and writes the
+// database. It covers the parts of the query API the server uses: equality, in/notIn/not and range
+// filters, compound unique keys, filters and includes on the relations listed below, orderBy and
+// take, nested creates and increment/decrement updates.
+
+type Row = Record<string, unknown>;
+
+// relation -> [related model, foreign key, where the key lives]. "own" keys are on this row
+// (a bill's flat); "many" and "one" keys are on the related rows (a payment's allocations, a
+// flat's resident).
+type Relation = [model: string, key: string, side: "own" | "many" | "one"];
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  flat: { bills: ["maintenanceBill", "flatId", "many"], resident: ["resident", "flatId", "one"] },
+  maintenanceBill: {
+    flat: ["flat", "flatId", "own"],
+    lineItems: ["billLineItem", "billId", "many"],
+    reminders: ["reminderLog", "billId", "many"],
+    allocations: ["paymentAllocation", "billId", "many"],
+  },
+  billLineItem: { bill: ["maintenanceBill", "billId", "own"] },
+  billAdjustment: { bill: ["maintenanceBill", "billId", "own"] },
+  payment: {
+    flat: ["flat", "flatId", "own"],
+    recordedBy: ["user", "recordedById", "own"],
+    allocations: ["paymentAllocation", "paymentId", "many"],
+  },
+  paymentAllocation: { bill: ["maintenanceBill", "billId", "own"], payment: ["payment", "paymentId", "own"] },
+  walletEntry: { flat: ["flat", "flatId", "own"] },
+  journalEntry: {
+    lines: ["journalLine", "entryId", "many"],
+    createdBy: ["user", "createdById", "own"],
+    reversalOf: ["journalEntry", "reversalOfId", "own"],
+    reversedBy: ["journalEntry", "reversalOfId", "one"],
+  },
+  journalLine: { account: ["ledgerAccount", "accountId", "own"], flat: ["flat", "flatId", "own"] },
+  expense: {
+    category: ["expenseCategory", "categoryId", "own"],
+    vendor: ["vendor", "vendorId", "own"],
+    createdBy: ["user", "createdById", "own"],
+  },
+  dunningEvent: { flat: ["flat", "flatId", "own"] },
+  resident: { flat: ["flat", "flatId", "own"] },
+};
+
+// Unique keys besides the id, so a second insert fails the way the database would fail it.
+const UNIQUE: Record<string, string[][]> = {
+  gatewayEvent: [["provider", "eventId"]],
+  billLineItem: [["billId", "accrualKey"]],
+  journalEntry: [["voucherNo"], ["reversalOfId"]],
+  documentSequence: [["series"]],
+  ledgerAccount: [["code"], ["key"]],
+  payment: [["receiptNo"], ["gatewayOrderId"]],
+};
+
+const OPERATORS = new Set(["equals", "in", "notIn", "not", "lt", "lte", "gt", "gte", "contains", "startsWith"]);
+
+const isPlainObject = (v: unknown): v is Row =>
+  typeof v === "object" && v !== null && !(v instanceof Date) && !Array.isArray(v);
+
+const asRow = (v: unknown): Row => (isPlainObject(v) ? v : {});
+const asList = (v: unknown): unknown[] => (Array.isArray(v) ? v : v === undefined ? [] : [v]);
+
+// Columns left out of a row read as null, as they would from the database.
+const comparable = (v: unknown) => (v instanceof Date ? v.getTime() : v ?? null);
+
+// Orders two numbers, two strings or two dates; null when they can't be compared.
+function compare(a: unknown, b: unknown) {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (typeof x === "number" && typeof y === "number") return x - y;
+  if (typeof x === "string" && typeof y === "string") return x < y ? -1 : x > y ? 1 : 0;
+  return null;
+}
+
+function matchesValue(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter)) return comparable(value) === comparable(filter);
+  return Object.entries(filter).every(([op, operand]) => {
+    if (operand === undefined) return true;
+    const v = comparable(value);
+    const o = comparable(operand);
+    const order = compare(value, operand);
+    switch (op) {
+      case "equals": return v === o;
+      case "in": return asList(operand).map(comparable).includes(v);
+      case "notIn": return !asList(operand).map(comparable).includes(v);
+      case "not": return !matchesValue(value, operand);
+      case "lt": return order !== null && order < 0;
+      case "lte": return order !== null && order <= 0;
+      case "gt": return order !== null && order > 0;
+      case "gte": return order !== null && order >= 0;
+      case "contains": return typeof v === "string" && typeof o === "string" && v.includes(o);
+      case "startsWith": return typeof v === "string" && typeof o === "string" && v.startsWith(o);
+      default: throw new Error(`The fake database doesn't support "${op}" filters`);
+    }
+  });
+}
+
+// Nulls sort first, as SQLite puts them.
+function sortRows(rows: Row[], orderBy?: unknown) {
+  const order = asList(orderBy).flatMap(o => Object.entries(asRow(o)));
+  return [...rows].sort((a, b) => {
+    for (const [key, direction] of order) {
+      const x = comparable(a[key]);
+      const y = comparable(b[key]);
+      if (x === y) continue;
+      const c = x === null ? -1 : y === null ? 1 : Math.sign(compare(x, y) ?? 0);
+      if (c) return c * (direction === "desc" ? -1 : 1);
+    }
+    return 0;
+  });
+}
+
+const uniqueViolation = (model: string, fields: string[]) =>
+  new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on ${model}.${fields.join(", ")}`, {
+    code: "P2002",
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+export class FakeDb {
+  tables: Record<string, Row[]> = {};
+  private ids: Record<string, number> = {};
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [model, rows] of Object.entries(seed)) {
+      for (const row of rows) this.insert(model, row);
+    }
+  }
+
+  rows(model: string) {
+    return (this.tables[model] ??= []);
+  }
+
+  insert(model: string, data: unknown) {
+    const nested: [string, Row][] = [];
+    const row: Row = {};
+    for (const [key, value] of Object.entries(asRow(data))) {
+      if (isPlainObject(value) && "create" in value) nested.push([key, value]);
+      else if (value !== undefined) row[key] = value;
+    }
+    if (row.id === undefined) row.id = (this.ids[model] = (this.ids[model] ?? 0) + 1);
+    else if (typeof row.id === "number") this.ids[model] = Math.max(this.ids[model] ?? 0, row.id);
+    row.createdAt ??= new Date();
+    this.checkUnique(model, row);
+    this.rows(model).push(row);
+
+    for (const [key, { create }] of nested) {
+      const [related, foreignKey] = RELATIONS[model][key];
+      for (const child of asList(create)) this.insert(related, { ...asRow(child), [foreignKey]: row.id });
+    }
+    return row;
+  }
+
+  matches(model: string, row: Row, where: unknown = {}): boolean {
+    return Object.entries(asRow(where)).every(([key, filter]) => {
+      if (filter === undefined) return true;
+      if (key === "AND") return asList(filter).every(w => this.matches(model, row, w));
+      if (key === "OR") return asList(filter).some(w => this.matches(model, row, w));
+      if (key === "NOT") return !this.matches(model, row, filter);
+
+      const relation = RELATIONS[model]?.[key];
+      if (relation) {
+        const [related, foreignKey, side] = relation;
+        if (side !== "many") {
+          const target = this.rows(related).find(r => (side === "own" ? r.id === row[foreignKey] : r[foreignKey] === row.id));
+          return filter === null ? !target : !!target && this.matches(related, target, filter);
+        }
+        const children = this.rows(related).filter(r => r[foreignKey] === row.id);
+        const { some, none, every } = asRow(filter);
+        if (some) return children.some(c => this.matches(related, c, some));
+        if (none) return !children.some(c => this.matches(related, c, none));
+        if (every) return children.every(c => this.matches(related, c, every));
+      }
+      // A compound unique key such as provider_eventId: { provider, eventId }.
+      if (!(key in row) && isPlainObject(filter) && !Object.keys(filter).some(k => OPERATORS.has(k))) {
+        return this.matches(model, row, filter);
+      }
+      return matchesValue(row[key], filter);
+    });
+  }
+
+  private checkUnique(model: string, row: Row, except?: Row) {
+    for (const fields of UNIQUE[model] ?? []) {
+      if (fields.some(f => row[f] === null || row[f] === undefined)) continue;
+      if (this.rows(model).some(other => other !== except && fields.every(f => comparable(other[f]) === comparable(row[f])))) {
+        throw uniqueViolation(model, fields);
+      }
+    }
+  }
+
+  private withIncludes(model: string, row: Row, include?: unknown): Row {
+    if (!include) return { ...row };
+    const result = { ...row };
+    for (const [key, spec] of Object.entries(asRow(include))) {
+      if (!spec) continue;
+      const [related, foreignKey, side] = RELATIONS[model]?.[key] ?? [];
+      if (!related) throw new Error(`The fake database doesn't know the ${model}.${key} relation`);
+      const args = asRow(spec);
+      if (side !== "many") {
+        const target = this.rows(related).find(r => (side === "own" ? r.id === row[foreignKey] : r[foreignKey] === row.id));
+        result[key] = target ? this.withIncludes(related, target, args.include) : null;
+      } else {
+        const children = sortRows(this.rows(related).filter(r => r[foreignKey] === row.id && this.matches(related, r, args.where)), args.orderBy);
+        result[key] = children.map(c => this.withIncludes(related, c, args.include));
+      }
+    }
+    return result;
+  }
+
+  private apply(model: string, row: Row, data: unknown) {
+    const next = { ...row };
+    for (const [key, value] of Object.entries(asRow(data))) {
+      if (value === undefined) continue;
+      if (isPlainObject(value) && "increment" in value) next[key] = Number(row[key]) + Number(value.increment);
+      else if (isPlainObject(value) && "decrement" in value) next[key] = Number(row[key]) - Number(value.decrement);
+      else next[key] = value;
+    }
+    this.checkUnique(model, next, row);
+    return Object.assign(row, next);
+  }
+
+  // A Prisma delegate (prisma.payment, tx.flat...) over one table.
+  delegate(model: string) {
+    const find = (where?: unknown) => this.rows(model).find(r => this.matches(model, r, where));
+    const notFound = () =>
+      new Prisma.PrismaClientKnownRequestError(`No ${model} found`, { code: "P2025", clientVersion: Prisma.prismaVersion.client });
+    const findMany = ({ where, orderBy, take, include }: Row = {}) =>
+      sortRows(this.rows(model).filter(r => this.matches(model, r, where)), orderBy)
+        .slice(0, typeof take === "number" ? take : undefined)
+        .map(r => this.withIncludes(model, r, include));
+
+    return {
+      findUnique: async ({ where, include }: Row) => {
+        const row = find(where);
+        return row ? this.withIncludes(model, row, include) : null;
+      },
+      findFirst: async ({ where, include, orderBy }: Row = {}) => findMany({ where, include, orderBy })[0] ?? null,
+      findUniqueOrThrow: async ({ where, include }: Row) => {
+        const row = find(where);
+        if (!row) throw notFound();
+        return this.withIncludes(model, row, include);
+      },
+      findMany: async (args?: Row) => findMany(args),
+      count: async ({ where }: Row = {}) => this.rows(model).filter(r => this.matches(model, r, where)).length,
+      create: async ({ data, include }: Row) => this.withIncludes(model, this.insert(model, data), include),
+      createManyAndReturn: async ({ data }: Row) => asList(data).map(d => ({ ...this.insert(model, d) })),
+      createMany: async ({ data }: Row) => ({ count: asList(data).map(d => this.insert(model, d)).length }),
+      update: async ({ where, data, include }: Row) => {
+        const row = find(where);
+        if (!row) throw notFound();
+        return this.withIncludes(model, this.apply(model, row, data), include);
+      },
+      updateMany: async ({ where, data }: Row) => {
+        const rows = this.rows(model).filter(r => this.matches(model, r, where));
+        rows.forEach(r => this.apply(model, r, data));
+        return { count: rows.length };
+      },
+      upsert: async ({ where, create, update, include }: Row) => {
+        const row = find(where);
+        return this.withIncludes(model, row ? this.apply(model, row, update) : this.insert(model, create), include);
+      },
+      delete: async ({ where }: Row) => {
+        const row = find(where);
+        if (!row) throw notFound();
+        this.tables[model] = this.rows(model).filter(r => r !== row);
+        return row;
+      },
+      deleteMany: async ({ where }: Row = {}) => {
+        const before = this.rows(model).length;
+        this.tables[model] = this.rows(model).filter(r => !this.matches(model, r, where));
+        return { count: before - this.tables[model].length };
+      },
+    };
+  }
+
+  // The object handed to code that expects a Prisma.TransactionClient.
+  client() {
+    return new Proxy({} as Row, {
+      get: (_, model: string) => this.delegate(model),
+    }) as unknown as Prisma.TransactionClient;
+  }
+}
+
+// Points the shared client at a FakeDb for the rest of the test. Transactions run straight
+// through against the fake; a thrown error doesn't roll anything back, so tests that expect one
+// should check the error, not what's left behind. Call the returned function to undo it.
+export function useFakeDb(db: FakeDb) {
+  const target = prisma as unknown as Row;
+  const replaced = new Map<string, unknown>();
+  const replace = (key: string, value: unknown) => {
+    if (!replaced.has(key)) replaced.set(key, target[key]);
+    target[key] = value;
+  };
+
+  const models = ["flat", "maintenanceBill", "billLineItem", "payment", "paymentAllocation", "gatewayEvent", "walletEntry",
+    "documentSequence", "ledgerAccount", "journalEntry", "journalLine", "activityLog", "dunningPolicy", "dunningEvent",
+    "expense", "expenseCategory", "billAdjustment", "user", "resident", "reminderPolicy", "reminderLog", "taxPolicy",
+    "penaltyPolicy"];
+  for (const model of models) replace(model, db.delegate(model));
+  replace("$transaction", async (fn: (tx: Prisma.TransactionClient) => unknown) => fn(db.client()));
+
+  return () => {
+    for (const [key, value] of replaced) target[key] = value;
+  };
+}
+
+// Gives every test in the file a fresh FakeDb built from seed() behind the shared client, and puts
+// the client back afterwards. reset() starts the current test over from other rows.
+export function fakeDbFixture(seed: () => Record<string, Row[]> = () => ({})) {
+  let restore = () => {};
+  const fixture = {
+    db: new FakeDb(),
+    reset(rows = seed()) {
+      restore();
+      fixture.db = new FakeDb(rows);
+      restore = useFakeDb(fixture.db);
+    },
+  };
+  beforeEach(() => fixture.reset());
+  afterEach(() => {
+    restore();
+    restore = () => {};
+  });
+  return fixture;
+}
+
+// The accounts the ledger migration seeds for the automatic postings to look up by key.
+export const SYSTEM_ACCOUNTS = [
+  { code: "1100", name: "Bank", type: "ASSET", key: "BANK", active: true },
+  { code: "1110", name: "Cash in Hand", type: "ASSET", key: "CASH", active: true },
+  { code: "1200", name: "Member Receivables", type: "ASSET", key: "RECEIVABLES", active: true },
+  { code: "2100", name: "Member Advances", type: "LIABILITY", key: "ADVANCES", active: true },
+  { code: "2200", name: "GST Output", type: "LIABILITY", key: "GST_OUTPUT", active: true },
+  { code: "3100", name: "General Fund", type: "EQUITY", key: "SURPLUS", active: true },
+  { code: "4800", name: "Late Fees & Interest", type: "INCOME", key: "PENALTY_INCOME", active: true },
+  { code: "4900", name: "Bill Adjustments", type: "INCOME", key: "ADJUSTMENTS", active: true },
+];
+
+// Debits minus credits on each account code across the journal.
+export function accountBalances(db: FakeDb) {
+  const codes = new Map(db.rows("ledgerAccount").map(a => [a.id, String(a.code)]));
+  const balances: Record<string, number> = {};
+  for (const line of db.rows("journalLine")) {
+    const code = codes.get(line.accountId) ?? `#${line.accountId}`;
+    balances[code] = round((balances[code] ?? 0) + Number(line.debit) - Number(line.credit));
+  }
+  return balances;
+}
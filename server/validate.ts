@@ -0,0 +1,27 @@
+import type { Request, Response, NextFunction } from "express";
+import type { z } from "zod";
+import { toFieldErrors, type ApiErrorBody } from "../src/lib/schemas";
+
+type Source = "body" | "query" | "params";
+
+// Parses req[source] with the schema and replaces it with the parsed (trimmed, coerced) value.
+// Invalid input never reaches the handler; the client gets a 400 with per-field messages.
+function validate(source: Source, schema: z.ZodType) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req[source]);
+    if (!result.success) {
+      const body: ApiErrorBody = {
+        success: false,
+        message: "Validation failed",
+        errors: toFieldErrors(result.error),
+      };
+      return res.status(400).json(body);
+    }
+    Object.assign(req, { [source]: result.data });
+    next();
+  };
+}
+
+export const validateBody = (schema: z.ZodType) => validate("body", schema);
+export const validateQuery = (schema: z.ZodType) => validate("query", schema);
+export const validateParams = (schema: z.ZodType) => validate("params", schema);
@@ -0,0 +1,106 @@
+import crypto from "crypto";
+import { Prisma, type Flat, type Visitor, type VisitorPass, type Wing } from "@prisma/client";
+import { prisma } from "./prisma";
+import { logActivity } from "./activity";
+import { towerOf } from "./flats";
+import type { GuestPassRow, VisitorRow } from "../src/lib/schemas";
+
+type VisitorWithFlat = Visitor & { flat: Flat & { wing: Wing } };
+
+// Shape of the `Visitor` interface in App.tsx.
+export function toVisitorRow(v: VisitorWithFlat): VisitorRow {
+  return {
+    id: v.id,
+    name: v.name,
+    tower: towerOf(v.flat.wing.name),
+    flat_id: v.flat.number,
+    entry_time: v.entryTime.toISOString(),
+    exit_time: v.exitTime?.toISOString() ?? null,
+    status: v.exitTime ? "Out" : "In",
+  };
+}
+
+// Entry time is always the server clock, never the client's.
+function insertVisitor(tx: Prisma.TransactionClient, name: string, flat: Flat, guardId: number) {
+  return tx.visitor.create({
+    data: { name, flatId: flat.id, checkedInById: guardId },
+    include: { flat: { include: { wing: true } } },
+  });
+}
+
+function logEntry(name: string, flat: Flat, guardId: number, note?: string) {
+  return logActivity({
+    userId: guardId,
+    action: "VISITOR_ENTRY",
+    target: `Flat ${flat.number}`,
+    details: note ? `${name} checked in (${note})` : `${name} checked in`,
+  });
+}
+
+// Records a visitor at the gate.
+export async function checkInVisitor(name: string, flat: Flat, guardId: number) {
+  const visitor = await insertVisitor(prisma, name, flat, guardId);
+  await logEntry(name, flat, guardId);
+  return visitor;
+}
+
+// Marks the pass used and checks its guest in, in one transaction so a failed check-in leaves the
+// pass unused. The claim is a conditional update, so two guards scanning the same code at once
+// can't both succeed: the loser gets null.
+export async function redeemPass(pass: VisitorPass & { flat: Flat }, guardId: number) {
+  const now = new Date();
+  const visitor = await prisma.$transaction(async tx => {
+    const claimed = await tx.visitorPass.updateMany({
+      where: { id: pass.id, usedAt: null, validUntil: { gte: now } },
+      data: { usedAt: now },
+    });
+    if (claimed.count === 0) return null;
+
+    const visitor = await insertVisitor(tx, pass.guestName, pass.flat, guardId);
+    await tx.visitorPass.update({ where: { id: pass.id }, data: { visitorId: visitor.id } });
+    return visitor;
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  if (visitor) await logEntry(pass.guestName, pass.flat, guardId, `guest pass ${pass.code}`);
+  return visitor;
+}
+
+// No 0/O or 1/I so codes survive being read out over the intercom.
+const PASS_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PASS_CODE_LENGTH = 6;
+// Text encoded in the pass QR; scanners type this into the guard's code field.
+const PASS_QR_PREFIX = "TOWERTECH-PASS:";
+
+export async function generatePassCode() {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = Array.from({ length: PASS_CODE_LENGTH }, () => PASS_ALPHABET[crypto.randomInt(PASS_ALPHABET.length)]).join("");
+    if (!(await prisma.visitorPass.findUnique({ where: { code } }))) return code;
+  }
+  throw new Error("Could not allocate a unique pass code");
+}
+
+// Accepts either a typed code or a scanned QR payload.
+export function parsePassInput(input: string) {
+  const value = input.trim().toUpperCase();
+  return value.startsWith(PASS_QR_PREFIX) ? value.slice(PASS_QR_PREFIX.length) : value;
+}
+
+export function passStatus(pass: VisitorPass, now = new Date()): GuestPassRow["status"] {
+  if (pass.usedAt) return "Used";
+  if (now < pass.validFrom) return "Upcoming";
+  if (now > pass.validUntil) return "Expired";
+  return "Active";
+}
+
+export function toPassRow(pass: VisitorPass): GuestPassRow {
+  return {
+    id: pass.id,
+    code: pass.code,
+    qr_payload: `${PASS_QR_PREFIX}${pass.code}`,
+    guest_name: pass.guestName,
+    valid_from: pass.validFrom.toISOString(),
+    valid_until: pass.validUntil.toISOString(),
+    used_at: pass.usedAt?.toISOString() ?? null,
+    status: passStatus(pass),
+  };
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { prisma } from "./prisma";
+import { applyCredit } from "./wallet";
+import { SYSTEM_ACCOUNTS, accountBalances, fakeDbFixture } from "./testing";
+
+const seed = (credit = 0) => ({
+  ledgerAccount: SYSTEM_ACCOUNTS,
+  flat: [{ id: "f1", number: "A101", credit }],
+  maintenanceBill: [
+    { id: "sep", flatId: "f1", period: "2026-09", amount: 5000, adjustment: 0, paidAmount: 3000, status: "PARTIAL" },
+    { id: "aug", flatId: "f1", period: "2026-08", amount: 5000, adjustment: 0, paidAmount: 0, status: "UNPAID" },
+    { id: "jul", flatId: "f1", period: "2026-07", amount: 5000, adjustment: 0, paidAmount: 5000, status: "PAID" },
+    { id: "oct", flatId: "f1", period: "2026-10", amount: 5000, adjustment: -500, paidAmount: 0, status: "UNPAID" },
+  ],
+});
+
+const fixture = fakeDbFixture(seed);
+const bills = () => Object.fromEntries(fixture.db.rows("maintenanceBill").map(b => [b.id, [b.paidAmount, b.status]]));
+const apply = () => prisma.$transaction(tx => applyCredit(tx, "f1"));
+
+describe("applyCredit", () => {
+  test("pays open bills oldest first until the credit runs out", async () => {
+    fixture.reset(seed(6500));
+    assert.equal(await apply(), 6500);
+    assert.deepEqual(bills(), { sep: [4500, "PARTIAL"], aug: [5000, "PAID"], jul: [5000, "PAID"], oct: [0, "UNPAID"] });
+    assert.equal(fixture.db.rows("flat")[0].credit, 0);
+    assert.deepEqual(fixture.db.rows("walletEntry").map(e => [e.kind, e.billId, e.amount, e.balance]), [
+      ["APPLIED", "aug", -5000, 1500],
+      ["APPLIED", "sep", -1500, 0],
+    ]);
+    assert.deepEqual(accountBalances(fixture.db), { 1200: -6500, 2100: 6500 });
+  });
+
+  test("keeps what's left once everything is paid, counting credit notes", async () => {
+    fixture.reset(seed(20000));
+    assert.equal(await apply(), 11500);
+    assert.deepEqual(bills(), { sep: [5000, "PAID"], aug: [5000, "PAID"], jul: [5000, "PAID"], oct: [4500, "PAID"] });
+    assert.equal(fixture.db.rows("flat")[0].credit, 8500);
+  });
+
+  test("does nothing without credit", async () => {
+    assert.equal(await apply(), 0);
+    assert.equal(fixture.db.rows("walletEntry").length, 0);
+  });
+});
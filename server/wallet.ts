@@ -0,0 +1,90 @@
+import { Prisma, type User, type WalletEntry } from "@prisma/client";
+import { prisma } from "./prisma";
+import { postTransfer } from "./ledger";
+import { OPEN_BILL_STATUSES, PaymentError, billBalance, billStatus, billTotal, postWalletEntry } from "./payments";
+import { normalizeFlatNumber } from "./flats";
+import { round } from "./money";
+import { periodLabel, type RefundCreditInput, type TransferCreditInput, type WalletEntryRow } from "../src/lib/schemas";
+
+type Tx = Prisma.TransactionClient;
+
+// Pays the flat's open bills, oldest first, out of its advance credit. Returns the amount used.
+export async function applyCredit(tx: Tx, flatId: string) {
+  const flat = await tx.flat.findUniqueOrThrow({ where: { id: flatId } });
+  if (flat.credit <= 0) return 0;
+
+  const bills = await tx.maintenanceBill.findMany({
+    where: { flatId, status: { in: OPEN_BILL_STATUSES } },
+    orderBy: { period: "asc" },
+  });
+  let credit = flat.credit;
+  for (const bill of bills) {
+    const share = round(Math.min(credit, billBalance(bill)));
+    if (share <= 0) break;
+    const paidAmount = round(bill.paidAmount + share);
+    await tx.maintenanceBill.update({
+      where: { id: bill.id },
+      data: { paidAmount, status: billStatus(billTotal(bill), paidAmount) },
+    });
+    await postWalletEntry(tx, flatId, -share, {
+      kind: "APPLIED",
+      billId: bill.id,
+      note: `Applied to the ${periodLabel(bill.period)} bill`,
+    });
+    credit = round(credit - share);
+  }
+  return round(flat.credit - credit);
+}
+
+// Money handed back to the owner; it leaves the society's books for this flat.
+export function refundCredit(flatId: string, { amount, mode, reference, note }: RefundCreditInput, adminId: number) {
+  return prisma.$transaction(tx =>
+    postWalletEntry(tx, flatId, -amount, {
+      kind: "REFUND",
+      mode,
+      note: [`Refunded by ${mode}${reference ? ` (${reference})` : ""}`, note].filter(Boolean).join(": "),
+      createdById: adminId,
+    }),
+  { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+// Moves credit to another flat (an owner with two flats, a sale settled between owners...), where
+// it immediately pays any open bills.
+export function transferCredit(fromFlatId: string, { toFlatId, amount, note }: TransferCreditInput, adminId: number) {
+  return prisma.$transaction(async tx => {
+    const [from, to] = await Promise.all([
+      tx.flat.findUniqueOrThrow({ where: { id: fromFlatId } }),
+      tx.flat.findFirst({ where: { number: normalizeFlatNumber(toFlatId) } }),
+    ]);
+    if (!to) throw new PaymentError(`Flat ${toFlatId} does not exist`);
+    if (to.id === from.id) throw new PaymentError("Pick a different flat to transfer to");
+
+    const out = await postWalletEntry(tx, from.id, -amount, {
+      kind: "TRANSFER_OUT",
+      note: [`To flat ${to.number}`, note].filter(Boolean).join(": "),
+      createdById: adminId,
+    });
+    await postWalletEntry(tx, to.id, amount, {
+      kind: "TRANSFER_IN",
+      note: [`From flat ${from.number}`, note].filter(Boolean).join(": "),
+      createdById: adminId,
+    });
+    await postTransfer(tx, out, from, to);
+    const applied = await applyCredit(tx, to.id);
+    return { from, to, applied };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+}
+
+export function toWalletEntryRow(e: WalletEntry & { createdBy: User | null }): WalletEntryRow {
+  return {
+    id: e.id,
+    kind: e.kind as WalletEntryRow["kind"],
+    amount: e.amount,
+    balance: e.balance,
+    payment_id: e.paymentId,
+    bill_id: e.billId,
+    note: e.note,
+    created_by: e.createdBy?.name ?? null,
+    created_at: e.createdAt.toISOString(),
+  };
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   LayoutDashboard, 
   Users, 
@@ -27,7 +27,15 @@ import {
   Filter,
   Activity,
   Eye,
-  EyeOff
+  EyeOff,
+  Trash2,
+  Wallet,
+  Landmark,
+  Mail,
+  Send,
+  Receipt,
+  Paperclip,
+  BookOpen
 } from 'lucide-react';
 import { 
   BarChart, 
@@ -48,6 +56,103 @@ import { motion, AnimatePresence } from 'motion/react';
 import { format } from 'date-fns';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { z } from 'zod';
+import {
+  ACCOUNT_TYPES,
+  ADJUSTMENT_KINDS,
+  CHARGE_BASES,
+  DUNNING_STAGES,
+  FLAT_TYPES,
+  JOURNAL_SOURCES,
+  accountSchema,
+  adjustmentSchema,
+  alertSchema,
+  bookingSchema,
+  budgetPolicySchema,
+  budgetSchema,
+  copyBudgetsSchema,
+  chargeRuleSchema,
+  dunningPolicySchema,
+  escalateDunningSchema,
+  eventSchema,
+  expenseCategorySchema,
+  expenseSchema,
+  flatAttributesSchema,
+  generateBillsSchema,
+  journalVoucherSchema,
+  guestPassSchema,
+  loginSchema,
+  PAYMENT_MODES,
+  passCheckInSchema,
+  penaltyPolicySchema,
+  periodLabel,
+  financialYearLabel,
+  financialYearOf,
+  financialYearPeriods,
+  taxPolicySchema,
+  refundCreditSchema,
+  reminderPolicySchema,
+  transferCreditSchema,
+  vendorSchema,
+  recordPaymentSchema,
+  registerSchema,
+  rejectAdjustmentSchema,
+  rejectPaymentSchema,
+  rejectRegistrationSchema,
+  reverseJournalSchema,
+  resolveDunningSchema,
+  residentPaymentSchema,
+  onlinePaymentSchema,
+  importStatementSchema,
+  ignoreBankLineSchema,
+  STATEMENT_DATE_FORMATS,
+  toFieldErrors,
+  visitorEntrySchema,
+  type AccountLedger,
+  type AccountRow,
+  type ActivityLogRow,
+  type AdjustmentRow,
+  type AlertRow,
+  type ApiErrorBody,
+  type BillRow,
+  type BillRun,
+  type ChargeRuleRow,
+  type PaymentRow,
+  type BankLineRow,
+  type AccountStatement,
+  type DefaultersReport,
+  type DunningPolicyRow,
+  type DunningStage,
+  type BillFileInput,
+  type BudgetAlertRow,
+  type BudgetPolicyRow,
+  type BudgetReport,
+  type BudgetRow,
+  type ExpenseCategoryRow,
+  type ExpenseRow,
+  type FinanceReport,
+  type FlatDunning,
+  type FlatWallet,
+  type MailboxMessage,
+  type ReminderLogRow,
+  type ReminderPolicyRow,
+  type UndeliverableAddress,
+  type StatementImport,
+  type StatementMapping,
+  type PenaltyPolicyRow,
+  type TaxPolicyRow,
+  type TaxSummary,
+  type TrialBalance,
+  type VendorRow,
+  type EventRow,
+  type FlatRow,
+  type GuestPassRow,
+  type JournalEntryRow,
+  type RegistrationRow,
+  type SessionUser,
+  type VisitorRow
+} from './lib/schemas';
+import { parseCsv, toCsv } from './lib/csv';
 
 // --- Utility ---
 function cn(...inputs: ClassValue[]) {
@@ -55,33 +160,34 @@ function cn(...inputs: ClassValue[]) {
 }
 
 // --- Types ---
-type Role = 'admin' | 'resident' | 'security';
+// Shapes returned by the API live next to their schemas in src/lib/schemas.ts.
+type User = SessionUser;
+type Flat = FlatRow;
+type Registration = RegistrationRow;
+type ActivityLog = ActivityLogRow;
+type Alert = AlertRow;
+type Visitor = VisitorRow;
+type GuestPass = GuestPassRow;
+type Event = EventRow;
 
-interface User {
-  id: number;
-  username: string;
-  role: Role;
-  flat_id: string | null;
-  name: string;
-}
-
-interface Flat {
-  id: string;
-  tower: string;
-  floor: number;
-  flat_number: number;
-  owner_name: string;
-  maintenance_status: 'Paid' | 'Unpaid';
-}
-
-interface Bill {
-  id: number;
-  flat_id: string;
-  amount: number;
-  month: string;
-  due_date: string;
-  status: 'Paid' | 'Unpaid';
-}
+type Bill = BillRow;
+type ChargeRule = ChargeRuleRow;
+type PenaltyPolicy = PenaltyPolicyRow;
+type TaxPolicy = TaxPolicyRow;
+type ReminderPolicy = ReminderPolicyRow;
+type ReminderLog = ReminderLogRow;
+type DunningPolicy = DunningPolicyRow;
+type Payment = PaymentRow;
+type BankLine = BankLineRow;
+type Adjustment = AdjustmentRow;
+type ExpenseCategory = ExpenseCategoryRow;
+type Vendor = VendorRow;
+type Expense = ExpenseRow;
+type Budget = BudgetRow;
+type BudgetPolicy = BudgetPolicyRow;
+type BudgetAlert = BudgetAlertRow;
+type Account = AccountRow;
+type JournalEntry = JournalEntryRow;
 
 interface Complaint {
   id: number;
@@ -93,39 +199,53 @@ interface Complaint {
   created_at: string;
 }
 
-interface ActivityLog {
-  id: number;
-  user_id: number;
-  user_name: string;
-  action: string;
-  details: string;
-  timestamp: string;
+// --- Validation ---
+
+// Runs a shared request schema over form data. Returns the parsed values,
+// or alerts the field-level messages and returns null.
+function checkForm<T extends z.ZodType>(schema: T, data: unknown): z.infer<T> | null {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  alert(Object.values(toFieldErrors(result.error)).join('\n'));
+  return null;
 }
 
-interface Alert {
-  id: number;
-  tower: string;
-  title: string;
-  message: string;
-  severity: 'Low' | 'Medium' | 'High';
-  created_at: string;
+// Message for a failed API response, including any per-field errors from the validation envelope.
+function describeError(body: ApiErrorBody) {
+  return body.errors ? [body.message, ...Object.values(body.errors)].join('\n') : body.message;
 }
 
-interface Visitor {
-  id: number;
-  name: string;
-  tower: string;
-  flat_id: string;
-  entry_time: string;
-  exit_time: string | null;
-  status: 'In' | 'Out';
+// --- Downloads ---
+
+// Fetches a generated file (the API needs the auth header, so a plain link won't do) and saves it
+// under the name from Content-Disposition.
+async function downloadFile(apiFetch: any, url: string) {
+  const res = await apiFetch(url);
+  if (!res.ok) {
+    alert(describeError(await res.json()));
+    return;
+  }
+  const name = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? 'download';
+  saveFile(await res.blob(), name);
 }
 
-interface Event {
-  id: number;
-  title: string;
-  description: string;
-  date: string;
+// Reads a picked file for sending inline in a JSON body.
+function readDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function saveFile(blob: Blob, name: string) {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(href);
 }
 
 // --- Components ---
@@ -141,13 +261,15 @@ const Button = ({
   onClick, 
   variant = 'primary', 
   className,
-  disabled
+  disabled,
+  type
 }: { 
   children: React.ReactNode; 
   onClick?: () => void; 
   variant?: 'primary' | 'secondary' | 'danger' | 'ghost';
   className?: string;
   disabled?: boolean;
+  type?: 'button' | 'submit';
 }) => {
   const variants = {
     primary: "bg-red-600 text-white hover:bg-red-700",
@@ -158,6 +280,7 @@ const Button = ({
 
   return (
     <button 
+      type={type}
       onClick={onClick}
       disabled={disabled}
       className={cn(
@@ -208,12 +331,40 @@ export default function App() {
     localStorage.setItem('towertech_dark', isDarkMode.toString());
   }, [isDarkMode]);
 
+  useEffect(() => {
+    // Restore the session from a stored token after a page reload
+    if (!token || user) return;
+    fetch('/api/me', { headers: { 'Authorization': `Bearer ${token}` } })
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setUser(data.user);
+          setActiveTab(data.user.role === 'security' ? 'visitors' : 'dashboard');
+        } else {
+          handleLogout();
+        }
+      })
+      .catch(() => handleLogout());
+  }, []);
+
   useEffect(() => {
     if (user && user.role === 'security' && activeTab === 'dashboard') {
       setActiveTab('visitors');
     }
   }, [user, activeTab]);
 
+  useEffect(() => {
+    // Back from the payment gateway's checkout
+    if (!user) return;
+    const outcome = new URLSearchParams(window.location.search).get('payment');
+    if (!outcome) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    setActiveTab('bills');
+    alert(outcome === 'success'
+      ? 'Payment received. Your bills will update as soon as the gateway confirms it.'
+      : 'The payment did not go through. You have not been charged.');
+  }, [user]);
+
   const apiFetch = async (url: string, options: RequestInit = {}) => {
     const headers = {
       'Content-Type': 'application/json',
@@ -231,16 +382,16 @@ export default function App() {
   // Auth Logic
   const handleLogin = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setLoading(true);
     const formData = new FormData(e.currentTarget);
-    const username = formData.get('username');
-    const password = formData.get('password');
+    const credentials = checkForm(loginSchema, Object.fromEntries(formData.entries()));
+    if (!credentials) return;
+    setLoading(true);
 
     try {
       const res = await fetch('/api/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password })
+        body: JSON.stringify(credentials)
       });
       const data = await res.json();
       if (data.success) {
@@ -249,7 +400,7 @@ export default function App() {
         localStorage.setItem('towertech_token', data.token);
         setActiveTab(data.user.role === 'security' ? 'visitors' : 'dashboard');
       } else {
-        alert(data.message);
+        alert(describeError(data));
       }
     } catch (err) {
       alert("Login failed");
@@ -260,9 +411,10 @@ export default function App() {
 
   const handleRegister = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setLoading(true);
     const formData = new FormData(e.currentTarget);
-    const data = Object.fromEntries(formData.entries());
+    const data = checkForm(registerSchema, Object.fromEntries(formData.entries()));
+    if (!data) return;
+    setLoading(true);
 
     try {
       const res = await fetch('/api/register', {
@@ -272,10 +424,10 @@ export default function App() {
       });
       const result = await res.json();
       if (result.success) {
-        alert("Account created! Please login.");
+        alert(result.message);
         setAuthMode('login');
       } else {
-        alert(result.message);
+        alert(describeError(result));
       }
     } catch (err) {
       alert("Registration failed");
@@ -396,9 +548,15 @@ export default function App() {
                     </button>
                   </div>
                 </div>
-                <div>
-                  <label className="block text-sm font-medium text-slate-300 mb-1">Flat ID (Optional)</label>
-                  <input name="flatId" className="w-full px-4 py-2 bg-slate-800 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="e.g., A-101" />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Phone</label>
+                    <input name="phone" type="tel" required className="w-full px-4 py-2 bg-slate-800 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="98765 43210" />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-1">Flat Number</label>
+                    <input name="flatId" required className="w-full px-4 py-2 bg-slate-800 border border-slate-700 text-white rounded-lg focus:ring-2 focus:ring-red-500 outline-none" placeholder="e.g., A-101" />
+                  </div>
                 </div>
                 <Button disabled={loading} className="w-full py-3 mt-2">
                   {loading ? "Creating Account..." : "Register"}
@@ -486,11 +644,17 @@ export default function App() {
           {user.role === 'admin' && (
             <>
               <SidebarItem icon={<Users size={20} />} label="Towers & Flats" active={activeTab === 'flats'} onClick={() => setActiveTab('flats')} />
+              <SidebarItem icon={<UserPlus size={20} />} label="Registrations" active={activeTab === 'registrations'} onClick={() => setActiveTab('registrations')} />
               <SidebarItem icon={<CreditCard size={20} />} label="Maintenance" active={activeTab === 'maintenance'} onClick={() => setActiveTab('maintenance')} />
+              <SidebarItem icon={<Wallet size={20} />} label="Payments" active={activeTab === 'payments'} onClick={() => setActiveTab('payments')} />
+              <SidebarItem icon={<Landmark size={20} />} label="Bank Reconciliation" active={activeTab === 'reconciliation'} onClick={() => setActiveTab('reconciliation')} />
+              <SidebarItem icon={<Receipt size={20} />} label="Expenses" active={activeTab === 'expenses'} onClick={() => setActiveTab('expenses')} />
+              <SidebarItem icon={<BookOpen size={20} />} label="General Ledger" active={activeTab === 'ledger'} onClick={() => setActiveTab('ledger')} />
               <SidebarItem icon={<AlertTriangle size={20} />} label="Emergency Alerts" active={activeTab === 'alerts'} onClick={() => setActiveTab('alerts')} />
               <SidebarItem icon={<Calendar size={20} />} label="Society Events" active={activeTab === 'events'} onClick={() => setActiveTab('events')} />
               <SidebarItem icon={<TrendingUp size={20} />} label="Financial Reports" active={activeTab === 'reports'} onClick={() => setActiveTab('reports')} />
               <SidebarItem icon={<Activity size={20} />} label="Activity Logs" active={activeTab === 'logs'} onClick={() => setActiveTab('logs')} />
+              <SidebarItem icon={<Mail size={20} />} label="Mailbox" active={activeTab === 'mailbox'} onClick={() => setActiveTab('mailbox')} />
             </>
           )}
 
@@ -576,11 +740,17 @@ export default function App() {
           >
             {activeTab === 'dashboard' && user.role !== 'security' && <DashboardView user={user} apiFetch={apiFetch} />}
             {activeTab === 'flats' && <AdminFlatsView apiFetch={apiFetch} />}
+            {activeTab === 'registrations' && <AdminRegistrationsView apiFetch={apiFetch} />}
             {activeTab === 'maintenance' && <AdminMaintenanceView apiFetch={apiFetch} />}
+            {activeTab === 'payments' && <AdminPaymentsView apiFetch={apiFetch} />}
+            {activeTab === 'reconciliation' && <AdminReconciliationView apiFetch={apiFetch} />}
+            {activeTab === 'expenses' && <AdminExpensesView apiFetch={apiFetch} />}
+            {activeTab === 'ledger' && <AdminLedgerView apiFetch={apiFetch} />}
             {activeTab === 'alerts' && <AdminAlertsView apiFetch={apiFetch} />}
             {activeTab === 'events' && <AdminEventsView apiFetch={apiFetch} />}
             {activeTab === 'reports' && <AdminReportsView apiFetch={apiFetch} />}
             {activeTab === 'logs' && <AdminLogsView apiFetch={apiFetch} />}
+            {activeTab === 'mailbox' && <AdminMailboxView apiFetch={apiFetch} />}
             {activeTab === 'bills' && <ResidentBillsView user={user} apiFetch={apiFetch} />}
             {activeTab === 'complaints' && <ResidentComplaintsView user={user} apiFetch={apiFetch} />}
             {activeTab === 'bookings' && <ResidentBookingsView user={user} apiFetch={apiFetch} />}
@@ -780,19 +950,30 @@ function AdminFlatsView({ apiFetch }: { apiFetch: any }) {
   const [flats, setFlats] = useState<Flat[]>([]);
   const [filter, setFilter] = useState('All');
   const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<Flat | null>(null);
 
-  useEffect(() => {
+  const load = () => {
     apiFetch('/api/admin/flats').then((res: any) => res.json()).then(setFlats);
-  }, []);
+  };
+
+  useEffect(load, []);
 
   const filteredFlats = flats.filter(f => {
-    const matchesTower = filter === 'All' || f.tower_id === filter;
+    const matchesTower = filter === 'All' || f.tower === filter;
     const matchesSearch = f.id.toLowerCase().includes(search.toLowerCase()) || f.owner_name.toLowerCase().includes(search.toLowerCase());
     return matchesTower && matchesSearch;
   });
 
   return (
     <div className="space-y-6">
+      {selected && (
+        <FlatDetailsPanel
+          flat={selected}
+          apiFetch={apiFetch}
+          onClose={() => setSelected(null)}
+          onSaved={() => { setSelected(null); load(); }}
+        />
+      )}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0">
           {['All', 'A', 'B', 'C', 'D'].map(t => (
@@ -829,9 +1010,17 @@ function AdminFlatsView({ apiFetch }: { apiFetch: any }) {
                 {flat.maintenance_status}
               </Badge>
             </div>
-            <p className="text-xs text-slate-400 mb-4">{flat.owner_name}</p>
+            <p className="text-xs text-slate-400">{flat.owner_name}</p>
+            <p className="text-[10px] text-slate-500 mb-4">{flat.flat_type} · {flat.carpet_area} sq ft · {flat.parking_slots} parking</p>
+            {flat.credit > 0 && <p className="text-[10px] text-emerald-400 -mt-3 mb-4">₹{flat.credit.toLocaleString()} advance credit</p>}
+            {flat.dunning_stage !== 'NONE' && (
+              <div className="-mt-2 mb-4"><Badge variant={DUNNING_STAGE_BADGES[flat.dunning_stage].variant}>{DUNNING_STAGE_BADGES[flat.dunning_stage].label}</Badge></div>
+            )}
             <div className="flex gap-2">
-              <Button variant="secondary" className="text-[10px] px-2 py-1 flex-1 bg-slate-700 text-slate-200">Details</Button>
+              <Button variant="secondary" onClick={() => setSelected(flat)} className="text-[10px] px-2 py-1 flex-1 bg-slate-700 text-slate-200">Details</Button>
+              {flat.maintenance_status === 'Unpaid' && (
+                <Button variant="secondary" onClick={() => sendReminder(apiFetch, flat.id)} className="text-[10px] px-2 py-1 flex-1 bg-slate-700 text-slate-200">Send Reminder</Button>
+              )}
             </div>
           </Card>
         ))}
@@ -840,213 +1029,2657 @@ function AdminFlatsView({ apiFetch }: { apiFetch: any }) {
   );
 }
 
-function AdminMaintenanceView({ apiFetch }: { apiFetch: any }) {
+function FlatDetailsPanel({ flat, apiFetch, onClose, onSaved }: { flat: Flat, apiFetch: any, onClose: () => void, onSaved: () => void }) {
   const [loading, setLoading] = useState(false);
-  const [flats, setFlats] = useState<Flat[]>([]);
-  const [bills, setBills] = useState<any[]>([]);
 
-  useEffect(() => {
-    apiFetch('/api/admin/flats').then((res: any) => res.json()).then(setFlats);
-  }, []);
-
-  const generateBills = async () => {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const data = checkForm(flatAttributesSchema, Object.fromEntries(new FormData(e.currentTarget).entries()));
+    if (!data) return;
     setLoading(true);
     try {
-      const res = await apiFetch('/api/admin/generate-bills', {
-        method: 'POST',
-        body: JSON.stringify({
-          month: format(new Date(), 'MMMM yyyy'),
-          amount: 1500,
-          dueDate: format(new Date(new Date().getFullYear(), new Date().getMonth(), 10), 'yyyy-MM-dd')
-        })
+      const res = await apiFetch(`/api/admin/flats/${flat.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(data)
       });
-      const data = await res.json();
-      if (data.success) {
-        alert("Bills generated successfully!");
-      } else {
-        alert(data.message);
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
       }
+      onSaved();
     } catch (err) {
-      alert("Failed to generate bills");
+      alert("Failed to update flat");
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <div className="space-y-6">
-      <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
-        <h3 className="text-xl font-bold mb-6 text-white">Generate Monthly Bills</h3>
-        <div className="space-y-6">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Billing Month</label>
-              <input type="text" readOnly value={format(new Date(), 'MMMM yyyy')} className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg outline-none text-white" />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Amount (₹)</label>
-              <input type="number" defaultValue={1500} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
-            </div>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Due Date</label>
-            <input type="date" defaultValue={format(new Date(new Date().getFullYear(), new Date().getMonth(), 10), 'yyyy-MM-dd')} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
-          </div>
-          <div className="p-4 bg-red-900/20 rounded-xl border border-red-800 flex gap-3">
-            <Info className="text-red-400 shrink-0" size={20} />
-            <p className="text-xs text-red-300">Generating bills will create a new maintenance record for all 112 flats. Residents will receive an automated simulation email.</p>
-          </div>
-          <Button onClick={generateBills} disabled={loading} className="w-full py-3">
-            {loading ? "Generating..." : "Generate Bills for All Flats"}
-          </Button>
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Flat {flat.id}</h3>
+          <p className="text-xs text-slate-400">{flat.owner_name} · Tower {flat.tower}, floor {flat.floor}</p>
         </div>
-      </Card>
+        <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+      </div>
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Type</label>
+          <select name="type" defaultValue={flat.flat_type} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+            {FLAT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Carpet Area (sq ft)</label>
+          <input name="carpetArea" type="number" step="0.01" defaultValue={flat.carpet_area} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Parking Slots</label>
+          <input name="parkingSlots" type="number" defaultValue={flat.parking_slots} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <Button disabled={loading}>{loading ? "Saving..." : "Save"}</Button>
+      </form>
+      <p className="text-xs text-slate-500 mt-3">Changes apply from the next bill run; bills already raised keep their amounts.</p>
+      <div className="mt-6 space-y-6">
+        <WalletCard key={`wallet-${flat.id}`} flat={flat} apiFetch={apiFetch} onChanged={onSaved} />
+        <BillAdjustmentsCard key={`adjustments-${flat.id}`} flat={flat} apiFetch={apiFetch} />
+        <ReminderHistory key={`reminders-${flat.id}`} flat={flat} apiFetch={apiFetch} />
+        <DunningHistory key={`dunning-${flat.id}`} flatId={flat.id} apiFetch={apiFetch} onChanged={onSaved} />
+        <AccountStatementCard key={flat.id} apiFetch={apiFetch} path={`/api/admin/flats/${flat.id}/statement`} />
+      </div>
+    </Card>
+  );
+}
+
+async function sendReminder(apiFetch: any, flatId: string) {
+  const res = await apiFetch(`/api/admin/flats/${flatId}/reminders`, { method: 'POST' });
+  const result = await res.json();
+  alert(result.success ? result.message : describeError(result));
+  return result.success as boolean;
+}
+
+const REMINDER_STATUS_VARIANTS: Record<ReminderLog['status'], 'success' | 'warning' | 'danger'> = {
+  SENT: 'success',
+  SKIPPED: 'warning',
+  FAILED: 'danger'
+};
+
+function ReminderHistory({ flat, apiFetch }: { flat: Flat, apiFetch: any }) {
+  const [logs, setLogs] = useState<ReminderLog[]>([]);
+  const [sending, setSending] = useState(false);
+
+  const load = () => {
+    apiFetch(`/api/admin/flats/${flat.id}/reminders`).then((res: any) => res.json()).then(setLogs);
+  };
+
+  useEffect(load, [flat.id]);
+
+  const send = async () => {
+    setSending(true);
+    try {
+      await sendReminder(apiFetch, flat.id);
+      load();
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-slate-400 uppercase font-bold">Dues Reminders</p>
+        <Button variant="secondary" onClick={send} disabled={sending || flat.maintenance_status === 'Paid'} className="text-xs px-3 py-1 flex items-center gap-1">
+          <Send size={12} />
+          {sending ? 'Sending...' : 'Send Reminder'}
+        </Button>
+      </div>
+      {logs.length === 0 && <p className="text-xs text-slate-500">No reminders sent yet.</p>}
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {logs.map(l => (
+          <div key={l.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-300 truncate">
+              {format(new Date(l.created_at), 'dd MMM yyyy, HH:mm')} · {l.subject}
+              <span className="text-slate-500"> ({l.sent_by ?? 'scheduled'}{l.error ? `: ${l.error}` : ''})</span>
+            </span>
+            <Badge variant={REMINDER_STATUS_VARIANTS[l.status]}>{l.status}</Badge>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
 
-function AdminAlertsView({ apiFetch }: { apiFetch: any }) {
+const DUNNING_STAGE_BADGES: Record<DunningStage, { label: string, variant: 'success' | 'warning' | 'danger' | 'neutral' | 'info' }> = {
+  NONE: { label: 'Good standing', variant: 'success' },
+  REMINDER: { label: 'Reminder', variant: 'info' },
+  NOTICE: { label: 'Formal notice', variant: 'warning' },
+  SUSPENSION: { label: 'Amenities suspended', variant: 'danger' },
+  HEARING: { label: 'Committee hearing', variant: 'danger' }
+};
+
+const nextDunningStage = (stage: DunningStage) => DUNNING_STAGES[DUNNING_STAGES.indexOf(stage) + 1] as DunningStage | undefined;
+
+// Moves a flat to the next rung of the ladder. Returns whether it did.
+async function escalateDunning(apiFetch: any, flatId: string, stage: DunningStage) {
+  const next = nextDunningStage(stage);
+  if (!next || !confirm(`Move flat ${flatId} to "${DUNNING_STAGE_BADGES[next].label}"?`)) return false;
+  const input = checkForm(escalateDunningSchema, {
+    note: prompt("Note (optional):") || undefined,
+    hearingDate: (next === 'HEARING' && prompt("Hearing date (yyyy-mm-dd), if already set:")) || undefined
+  });
+  if (!input) return false;
+  const res = await apiFetch(`/api/admin/flats/${flatId}/dunning/escalate`, {
+    method: 'POST',
+    body: JSON.stringify(input)
+  });
+  const result = await res.json();
+  alert(result.success ? result.message : describeError(result));
+  return result.success as boolean;
+}
+
+function DunningHistory({ flatId, apiFetch, onChanged }: { flatId: string, apiFetch: any, onChanged: () => void }) {
+  const [dunning, setDunning] = useState<FlatDunning | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setLoading(true);
-    const formData = new FormData(e.currentTarget);
-    const data = {
-      tower: formData.get('tower'),
-      title: formData.get('title'),
-      message: formData.get('message'),
-      severity: formData.get('severity')
-    };
+  const load = () => {
+    apiFetch(`/api/admin/flats/${flatId}/dunning`).then((res: any) => res.json()).then(setDunning);
+  };
+
+  useEffect(load, [flatId]);
 
+  const act = async (action: () => Promise<boolean>) => {
+    setLoading(true);
     try {
-      await apiFetch('/api/admin/alerts', {
-        method: 'POST',
-        body: JSON.stringify(data)
-      });
-      alert("Alert sent successfully!");
-      (e.target as HTMLFormElement).reset();
-    } catch (err) {
-      alert("Failed to send alert");
+      if (await action()) {
+        load();
+        onChanged();
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  const clear = () => act(async () => {
+    const input = checkForm(resolveDunningSchema, { note: prompt("Why is this flat coming off the ladder? (e.g. payment plan agreed)") ?? '' });
+    if (!input) return false;
+    const res = await apiFetch(`/api/admin/flats/${flatId}/dunning/clear`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+    const result = await res.json();
+    alert(result.success ? result.message : describeError(result));
+    return result.success as boolean;
+  });
+
+  if (!dunning) return null;
+  const badge = DUNNING_STAGE_BADGES[dunning.stage];
+
   return (
-    <div className="max-w-2xl mx-auto">
-      <Card className="p-8">
-        <h3 className="text-xl font-bold mb-6 text-white">Create Emergency Alert</h3>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Target Tower</label>
-              <select name="tower" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white">
-                <option value="All">All Towers</option>
-                <option value="A">Tower A</option>
-                <option value="B">Tower B</option>
-                <option value="C">Tower C</option>
-                <option value="D">Tower D</option>
-              </select>
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">Severity</label>
-              <select name="severity" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white">
-                <option value="Low">Low</option>
-                <option value="Medium">Medium</option>
-                <option value="High">High</option>
-              </select>
-            </div>
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Alert Title</label>
-            <input name="title" required type="text" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" placeholder="e.g., Water Supply Interruption" />
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-xs text-slate-400 uppercase font-bold">Dunning</p>
+          <div className="flex items-center gap-2 mt-1">
+            <Badge variant={badge.variant}>{badge.label}</Badge>
+            {dunning.stage_since && <span className="text-xs text-slate-500">since {format(new Date(dunning.stage_since), 'dd MMM yyyy')}</span>}
           </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Message</label>
-            <textarea name="message" required rows={4} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" placeholder="Detailed message for residents..." />
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => act(() => escalateDunning(apiFetch, flatId, dunning.stage))} disabled={loading || dunning.stage === 'HEARING'} className="text-xs px-3 py-1">Escalate</Button>
+          <Button variant="secondary" onClick={clear} disabled={loading || dunning.stage === 'NONE'} className="text-xs px-3 py-1">Clear</Button>
+        </div>
+      </div>
+      {dunning.events.length === 0 && <p className="text-xs text-slate-500">This flat has never been in arrears long enough to escalate.</p>}
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {dunning.events.map(e => (
+          <div key={e.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-300">
+              {format(new Date(e.created_at), 'dd MMM yyyy')} · {e.stage === 'NONE' ? `Cleared from ${DUNNING_STAGE_BADGES[e.previous_stage].label.toLowerCase()}` : DUNNING_STAGE_BADGES[e.stage].label}
+              {e.stage !== 'NONE' && ` (₹${e.overdue_amount.toLocaleString()}, ${e.days_overdue} days overdue)`}
+              {e.hearing_at && `, hearing on ${format(new Date(e.hearing_at), 'dd MMM yyyy')}`}
+              <span className="text-slate-500"> · {e.created_by ?? 'scheduled'}{e.note ? `: ${e.note}` : ''}</span>
+            </span>
+            {e.notice_no && (
+              <button onClick={() => downloadFile(apiFetch, `/api/admin/dunning/${e.id}/notice`)} className="text-red-400 hover:text-red-300 flex items-center gap-1 shrink-0">
+                <Download size={12} />
+                {e.notice_no}
+              </button>
+            )}
           </div>
-          <Button disabled={loading} className="w-full py-3">
-            {loading ? "Sending..." : "Broadcast Alert"}
-          </Button>
-        </form>
-      </Card>
+        ))}
+      </div>
     </div>
   );
 }
 
-function AdminEventsView({ apiFetch }: { apiFetch: any }) {
-  const [events, setEvents] = useState<Event[]>([]);
+const ADJUSTMENT_LABELS: Record<Adjustment['kind'], string> = {
+  CREDIT_NOTE: 'Credit note',
+  WAIVER: 'Late fee waiver',
+  DEBIT_NOTE: 'Debit note'
+};
+
+const ADJUSTMENT_STATUS_VARIANTS: Record<Adjustment['status'], 'success' | 'warning' | 'danger'> = {
+  APPROVED: 'success',
+  PENDING: 'warning',
+  REJECTED: 'danger'
+};
+
+function AdjustmentLine({ adjustment, apiFetch }: { adjustment: Adjustment, apiFetch: any }) {
+  const a = adjustment;
+  return (
+    <div>
+      <p className="text-white">
+        {ADJUSTMENT_LABELS[a.kind]} · {a.kind === 'DEBIT_NOTE' ? '+' : '−'}₹{a.amount.toLocaleString()}
+        <span className="text-slate-400"> on Flat {a.flat_id}, {a.month}{a.invoice_no && ` (${a.invoice_no})`}</span>
+      </p>
+      <p className="text-xs text-slate-400">{a.reason}</p>
+      <p className="text-xs text-slate-500">
+        Raised by {a.requested_by} on {format(new Date(a.created_at), 'dd MMM yyyy')}
+        {a.reviewed_by && `, ${a.status.toLowerCase()} by ${a.reviewed_by}${a.review_note ? `: ${a.review_note}` : ''}`}
+      </p>
+      {a.document_no && (
+        <button onClick={() => downloadFile(apiFetch, `/api/admin/adjustments/${a.id}/document`)} className="text-xs text-red-400 hover:underline">
+          {a.document_no}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Corrections are raised here and approved from the payments screen by a second admin.
+function BillAdjustmentsCard({ flat, apiFetch }: { flat: Flat, apiFetch: any }) {
+  const [bills, setBills] = useState<Bill[]>([]);
+  const [adjustments, setAdjustments] = useState<Adjustment[]>([]);
   const [loading, setLoading] = useState(false);
 
-  useEffect(() => {
-    apiFetch('/api/events').then((res: any) => res.json()).then(setEvents);
-  }, []);
+  const load = () => {
+    apiFetch(`/api/admin/flats/${flat.id}/bills`).then((res: any) => res.json()).then(setBills);
+    apiFetch(`/api/admin/adjustments?flatId=${flat.id}`).then((res: any) => res.json()).then(setAdjustments);
+  };
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    setLoading(true);
-    const formData = new FormData(e.currentTarget);
-    const data = {
-      title: formData.get('title'),
-      description: formData.get('description'),
-      date: formData.get('date')
-    };
+  useEffect(load, [flat.id]);
 
+  const raise = async (bill: Bill) => {
+    const kind = prompt(`Adjustment type (${ADJUSTMENT_KINDS.join(', ')}):`, bill.penalty > 0 ? 'WAIVER' : 'CREDIT_NOTE')?.toUpperCase();
+    if (!kind) return;
+    const input = checkForm(adjustmentSchema, {
+      kind,
+      amount: prompt("Amount (₹, tax included):", kind === 'WAIVER' ? String(bill.penalty) : '') ?? '',
+      reason: prompt("Reason:") ?? ''
+    });
+    if (!input) return;
+    setLoading(true);
     try {
-      await apiFetch('/api/admin/events', {
+      const res = await apiFetch(`/api/admin/bills/${bill.id}/adjustments`, {
         method: 'POST',
-        body: JSON.stringify(data)
+        body: JSON.stringify(input)
       });
-      const res = await apiFetch('/api/events');
-      const newEvents = await res.json();
-      setEvents(newEvents);
-      (e.target as HTMLFormElement).reset();
-    } catch (err) {
-      alert("Failed to create event");
+      const result = await res.json();
+      alert(result.success ? result.message : describeError(result));
+      if (result.success) load();
     } finally {
       setLoading(false);
     }
   };
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-      <Card className="p-6 lg:col-span-1 h-fit">
-        <h3 className="text-lg font-bold mb-4 text-white">Add New Event</h3>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Event Title</label>
-            <input name="title" required type="text" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Date</label>
-            <input name="date" required type="date" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-slate-300 mb-1">Description</label>
-            <textarea name="description" required rows={3} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700">
+      <p className="text-xs text-slate-400 uppercase font-bold mb-3">Bills &amp; Adjustments</p>
+      {bills.length === 0 && <p className="text-xs text-slate-500">No bills raised for this flat yet.</p>}
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {bills.map(b => (
+          <div key={b.id} className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-slate-300">
+              {b.month} · ₹{b.amount.toLocaleString()}
+              {b.adjustment !== 0 && <span className="text-slate-500"> ({b.adjustment > 0 ? '+' : '−'}₹{Math.abs(b.adjustment).toLocaleString()} adjusted)</span>}
+              <span className="text-slate-500"> · ₹{b.balance.toLocaleString()} due</span>
+            </span>
+            <Button variant="secondary" onClick={() => raise(b)} disabled={loading} className="text-xs px-2 py-0.5">Adjust</Button>
           </div>
-          <Button disabled={loading} className="w-full">
-            {loading ? "Creating..." : "Create Event"}
-          </Button>
-        </form>
-      </Card>
-
-      <div className="lg:col-span-2 space-y-4">
-        <h3 className="text-lg font-bold text-white">Upcoming Events</h3>
-        {events.map(event => (
-          <Card key={event.id} className="p-4 flex items-center gap-6">
-            <div className="w-16 h-16 bg-red-900/20 rounded-xl flex flex-col items-center justify-center text-red-400 shrink-0">
-              <span className="text-xs font-bold uppercase">{format(new Date(event.date), 'MMM')}</span>
-              <span className="text-xl font-black">{format(new Date(event.date), 'dd')}</span>
-            </div>
-            <div className="flex-1">
-              <h4 className="font-bold text-white">{event.title}</h4>
-              <p className="text-sm text-slate-400 line-clamp-1">{event.description}</p>
-            </div>
-          </Card>
         ))}
-        {events.length === 0 && <p className="text-center py-12 text-slate-400">No events scheduled.</p>}
+      </div>
+      {adjustments.length > 0 && (
+        <div className="mt-4 pt-3 border-t border-slate-700 space-y-3 max-h-64 overflow-y-auto">
+          {adjustments.map(a => (
+            <div key={a.id} className="flex items-start justify-between gap-2 text-sm">
+              <AdjustmentLine adjustment={a} apiFetch={apiFetch} />
+              <Badge variant={ADJUSTMENT_STATUS_VARIANTS[a.status]}>{a.status}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const WALLET_ENTRY_LABELS: Record<FlatWallet['entries'][number]['kind'], string> = {
+  ADVANCE: 'Advance paid',
+  APPLIED: 'Applied to bill',
+  REFUND: 'Refunded',
+  TRANSFER_IN: 'Transfer in',
+  TRANSFER_OUT: 'Transfer out',
+  ADJUSTMENT: 'Credit note'
+};
+
+function WalletCard({ flat, apiFetch, onChanged }: { flat: Flat, apiFetch: any, onChanged: () => void }) {
+  const [wallet, setWallet] = useState<FlatWallet | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    apiFetch(`/api/admin/flats/${flat.id}/wallet`).then((res: any) => res.json()).then(setWallet);
+  };
+
+  useEffect(load, [flat.id]);
+
+  const submit = async (action: 'refund' | 'transfer', body: object) => {
+    setLoading(true);
+    try {
+      const res = await apiFetch(`/api/admin/flats/${flat.id}/wallet/${action}`, {
+        method: 'POST',
+        body: JSON.stringify(body)
+      });
+      const result = await res.json();
+      alert(result.success ? result.message : describeError(result));
+      if (result.success) {
+        load();
+        onChanged();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refund = () => {
+    const mode = prompt("Refund mode (CASH, CHEQUE, UPI or NEFT):", 'NEFT')?.toUpperCase();
+    if (!mode) return;
+    const input = checkForm(refundCreditSchema, {
+      amount: prompt("Amount to refund (₹):", String(wallet!.credit)) ?? '',
+      mode,
+      reference: (mode !== 'CASH' && prompt("Cheque number or transaction reference:")) || undefined,
+      note: prompt("Note (optional):") || undefined
+    });
+    if (input) submit('refund', input);
+  };
+
+  const transfer = () => {
+    const input = checkForm(transferCreditSchema, {
+      toFlatId: prompt("Transfer to flat:") ?? '',
+      amount: prompt("Amount to transfer (₹):", String(wallet!.credit)) ?? '',
+      note: prompt("Reason (optional):") || undefined
+    });
+    if (input) submit('transfer', input);
+  };
+
+  if (!wallet) return null;
+
+  return (
+    <div className="p-4 bg-slate-900 rounded-xl border border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <p className="text-xs text-slate-400 uppercase font-bold">Advance Credit</p>
+          <p className="text-2xl font-black text-white">₹{wallet.credit.toLocaleString()}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={refund} disabled={loading || wallet.credit <= 0} className="text-xs px-3 py-1">Refund</Button>
+          <Button variant="secondary" onClick={transfer} disabled={loading || wallet.credit <= 0} className="text-xs px-3 py-1">Transfer</Button>
+        </div>
+      </div>
+      {wallet.entries.length === 0 && <p className="text-xs text-slate-500">No advance payments yet. Payments beyond the flat's dues are kept here and applied to new bills.</p>}
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {wallet.entries.map(e => (
+          <div key={e.id} className="flex justify-between text-xs">
+            <span className="text-slate-300">
+              {format(new Date(e.created_at), 'dd MMM yyyy')} · {WALLET_ENTRY_LABELS[e.kind]}
+              {e.note && <span className="text-slate-500"> ({e.note})</span>}
+            </span>
+            <span className={e.amount > 0 ? 'text-emerald-400' : 'text-slate-300'}>
+              {e.amount > 0 ? '+' : '−'}₹{Math.abs(e.amount).toLocaleString()}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function AdminRegistrationsView({ apiFetch }: { apiFetch: any }) {
+  const [applicants, setApplicants] = useState<Registration[]>([]);
+
+  const load = () => {
+    apiFetch('/api/admin/registrations').then((res: any) => res.json()).then(setApplicants);
+  };
+
+  useEffect(load, []);
+
+  const approve = async (id: number, replaceResident = false) => {
+    const res = await apiFetch(`/api/admin/registrations/${id}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ replaceResident })
+    });
+    const data = await res.json();
+    if (res.status === 409 && !replaceResident) {
+      if (confirm(`${data.message}. Replace them with this applicant? Their own login will be revoked.`)) return approve(id, true);
+    } else if (!data.success) {
+      alert(describeError(data));
+    }
+    load();
+  };
+
+  const reject = async (id: number) => {
+    const input = checkForm(rejectRegistrationSchema, { reason: prompt("Reason for rejection (shown to the applicant):") ?? '' });
+    if (!input) return;
+    const res = await apiFetch(`/api/admin/registrations/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+    const data = await res.json();
+    if (!data.success) alert(describeError(data));
+    load();
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-bold mb-6 text-white">Pending Registrations</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="py-3 font-semibold text-slate-400 text-sm">Applicant</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Flat</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Contact</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Applied</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {applicants.map(a => (
+              <tr key={a.id}>
+                <td className="py-4">
+                  <p className="font-medium text-white">{a.name}</p>
+                  <p className="text-xs text-slate-400">@{a.username}</p>
+                </td>
+                <td className="py-4 text-slate-200">{a.flat_id}</td>
+                <td className="py-4 text-sm text-slate-300">
+                  <p>{a.email}</p>
+                  <p className="text-xs text-slate-400">{a.phone}</p>
+                </td>
+                <td className="py-4 text-xs text-slate-400">{format(new Date(a.created_at), 'PPP')}</td>
+                <td className="py-4">
+                  <div className="flex justify-end gap-2">
+                    <Button onClick={() => approve(a.id)} className="text-xs px-3 py-1">Approve</Button>
+                    <Button onClick={() => reject(a.id)} variant="secondary" className="text-xs px-3 py-1">Reject</Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {applicants.length === 0 && <p className="text-center py-12 text-slate-400">No registrations awaiting approval.</p>}
+    </Card>
+  );
+}
+
+function AdminMaintenanceView({ apiFetch }: { apiFetch: any }) {
+  const [loading, setLoading] = useState(false);
+  const [flats, setFlats] = useState<Flat[]>([]);
+  const [period, setPeriod] = useState(format(new Date(), 'yyyy-MM'));
+  const [dueDate, setDueDate] = useState(format(new Date(new Date().getFullYear(), new Date().getMonth(), 10), 'yyyy-MM-dd'));
+  const [run, setRun] = useState<BillRun | null>(null);
+
+  useEffect(() => {
+    apiFetch('/api/admin/flats').then((res: any) => res.json()).then(setFlats);
+  }, []);
+
+  // A stale preview would misreport what Generate is about to do.
+  useEffect(() => setRun(null), [period, dueDate]);
+
+  const generateBills = async (dryRun: boolean) => {
+    const input = checkForm(generateBillsSchema, { period, dueDate, dryRun });
+    if (!input) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/generate-bills', {
+        method: 'POST',
+        body: JSON.stringify(input)
+      });
+      const data = await res.json();
+      if (!data.success) {
+        alert(describeError(data));
+        return;
+      }
+      setRun(data.run);
+      if (!dryRun) {
+        alert(data.message);
+        apiFetch('/api/admin/flats').then((res: any) => res.json()).then(setFlats);
+      }
+    } catch (err) {
+      alert("Failed to generate bills");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+        <h3 className="text-xl font-bold mb-6 text-white">Generate Monthly Bills</h3>
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Billing Month</label>
+              <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="w-full px-4 py-2 bg-slate-900 border border-slate-700 rounded-lg outline-none text-white" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Due Date</label>
+              <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+            </div>
+          </div>
+          <div className="p-4 bg-red-900/20 rounded-xl border border-red-800 flex gap-3">
+            <Info className="text-red-400 shrink-0" size={20} />
+            <p className="text-xs text-red-300">Every one of the {flats.length} flats, vacant ones included, gets one bill per month, itemized from the charge rules below. Flats already billed for the month are skipped, so running this again only fills the gaps.</p>
+          </div>
+          {run && (
+            <div className="p-4 bg-slate-900 rounded-xl border border-slate-700 space-y-2">
+              <p className="text-sm font-bold text-white">
+                {run.dry_run ? 'Preview' : 'Result'} for {periodLabel(run.period)}
+              </p>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-black text-white">{run.new_bills}</p>
+                  <p className="text-xs text-slate-400">{run.dry_run ? 'Bills to raise' : 'Bills raised'}{run.vacant_flats > 0 && ` (${run.vacant_flats} vacant)`}</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-black text-white">₹{run.total_amount.toLocaleString()}</p>
+                  <p className="text-xs text-slate-400">Total{run.total_tax > 0 && ` (incl. ₹${run.total_tax.toLocaleString()} GST)`}</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-black text-white">{run.already_billed.length}</p>
+                  <p className="text-xs text-slate-400">Already billed</p>
+                </div>
+              </div>
+              {run.credit_applied > 0 && (
+                <p className="text-xs text-emerald-400">
+                  ₹{run.credit_applied.toLocaleString()} {run.dry_run ? 'will be' : 'was'} paid from advance credit.
+                </p>
+              )}
+              {run.already_billed.length > 0 && (
+                <p className="text-xs text-slate-400">
+                  Skipped: {run.already_billed.map(b => `${b.flat_id} (₹${b.amount}, ${b.status})`).join(', ')}
+                </p>
+              )}
+              {run.no_charges.length > 0 && (
+                <p className="text-xs text-amber-400">
+                  No rule applies to {run.no_charges.join(', ')}; these flats get no bill.
+                </p>
+              )}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <Button variant="secondary" onClick={() => generateBills(true)} disabled={loading} className="py-3">
+              Preview
+            </Button>
+            <Button onClick={() => generateBills(false)} disabled={loading} className="py-3">
+              {loading ? "Working..." : "Generate Missing Bills"}
+            </Button>
+          </div>
+          <Button
+            variant="ghost"
+            onClick={() => downloadFile(apiFetch, `/api/admin/documents/export?period=${period}`)}
+            className="w-full flex items-center justify-center gap-2 text-slate-300 hover:bg-slate-700"
+          >
+            <Download size={16} />
+            Download {periodLabel(period)} invoices &amp; receipts (zip)
+          </Button>
+        </div>
+      </Card>
+      <DefaultersCard apiFetch={apiFetch} />
+      <ChargeRulesCard apiFetch={apiFetch} />
+      <PenaltyPolicyCard apiFetch={apiFetch} />
+      <TaxPolicyCard apiFetch={apiFetch} />
+      <ReminderPolicyCard apiFetch={apiFetch} />
+      <DunningPolicyCard apiFetch={apiFetch} />
+    </div>
+  );
+}
+
+const BASIS_LABELS: Record<ChargeRule['basis'], string> = {
+  FIXED: 'Fixed amount',
+  PER_SQFT: 'Per sq ft of carpet area',
+  PER_PARKING_SLOT: 'Per parking slot'
+};
+
+function ChargeRulesCard({ apiFetch }: { apiFetch: any }) {
+  const [rules, setRules] = useState<ChargeRule[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    apiFetch('/api/admin/charge-rules').then((res: any) => res.json()).then(setRules);
+  };
+
+  useEffect(load, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = checkForm(chargeRuleSchema, Object.fromEntries(new FormData(form).entries()));
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/charge-rules', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      form.reset();
+      load();
+    } catch (err) {
+      alert("Failed to add charge rule");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = async (rule: ChargeRule) => {
+    const res = await apiFetch(`/api/admin/charge-rules/${rule.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ head: rule.head, basis: rule.basis, rate: rule.rate, flatType: rule.flat_type, active: !rule.active })
+    });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    load();
+  };
+
+  const remove = async (rule: ChargeRule) => {
+    if (!confirm(`Delete the ${rule.head} rule? Bills already raised are not affected.`)) return;
+    const res = await apiFetch(`/api/admin/charge-rules/${rule.id}`, { method: 'DELETE' });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    load();
+  };
+
+  return (
+    <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+      <h3 className="text-xl font-bold mb-2 text-white">Charge Rules</h3>
+      <p className="text-xs text-slate-400 mb-6">Each bill gets one line per head. A rule for a specific flat type overrides the all-types rule with the same head.</p>
+      <div className="space-y-2 mb-6">
+        {rules.map(rule => (
+          <div key={rule.id} className={cn("flex items-center justify-between p-3 rounded-lg bg-slate-900 border border-slate-700", !rule.active && "opacity-50")}>
+            <div>
+              <p className="font-bold text-white text-sm">{rule.head} <span className="text-slate-400 font-normal">· {rule.flat_type ?? 'All types'}</span></p>
+              <p className="text-xs text-slate-400">₹{rule.rate} — {BASIS_LABELS[rule.basis]}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => toggle(rule)}>
+                {rule.active ? 'Disable' : 'Enable'}
+              </Button>
+              <Button variant="ghost" className="p-2 text-red-500 hover:bg-red-500/10" onClick={() => remove(rule)}>
+                <Trash2 size={16} />
+              </Button>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && <p className="text-sm text-slate-400">No charge rules yet. Bills cannot be raised until at least one applies.</p>}
+      </div>
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+        <input name="head" placeholder="Head, e.g. Sinking Fund" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <input name="rate" type="number" step="0.01" placeholder="Rate (₹)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <select name="basis" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+          {CHARGE_BASES.map(b => <option key={b} value={b}>{BASIS_LABELS[b]}</option>)}
+        </select>
+        <select name="flatType" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+          <option value="">All flat types</option>
+          {FLAT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <Button disabled={loading} className="col-span-2">
+          {loading ? "Saving..." : "Add Rule"}
+        </Button>
+      </form>
+    </Card>
+  );
+}
+
+function PenaltyPolicyCard({ apiFetch }: { apiFetch: any }) {
+  const [policy, setPolicy] = useState<PenaltyPolicy | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/admin/penalty-policy').then((res: any) => res.json()).then(setPolicy);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const data = checkForm(penaltyPolicySchema, Object.fromEntries(new FormData(e.currentTarget).entries()));
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/penalty-policy', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      setPolicy(result.policy);
+      alert("Late payment terms saved");
+    } catch (err) {
+      alert("Failed to save late payment terms");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accrueNow = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/penalties/accrue', { method: 'POST' });
+      const result = await res.json();
+      alert(result.success ? result.message : describeError(result));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!policy) return null;
+
+  return (
+    <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+      <h3 className="text-xl font-bold mb-2 text-white">Late Payment Terms</h3>
+      <p className="text-xs text-slate-400 mb-6">Once a bill is unpaid past its due date plus the grace period, the late fee is added once and interest for every started month overdue. Penalties show as separate lines on the bill and are accrued automatically every few hours.</p>
+      <form key={policy.updated_at} onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Grace Period (days)</label>
+          <input name="graceDays" type="number" defaultValue={policy.grace_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Late Fee (₹, one-time)</label>
+          <input name="lateFee" type="number" step="0.01" defaultValue={policy.late_fee} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Interest (% per month)</label>
+          <input name="interestRate" type="number" step="0.01" defaultValue={policy.interest_rate} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Interest Type</label>
+          <select name="interestMode" defaultValue={policy.interest_mode} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+            <option value="SIMPLE">Simple</option>
+            <option value="COMPOUND">Compound (monthly)</option>
+          </select>
+        </div>
+        <Button disabled={loading}>{loading ? "Saving..." : "Save Terms"}</Button>
+        <Button type="button" variant="secondary" onClick={accrueNow} disabled={loading}>Accrue Now</Button>
+      </form>
+    </Card>
+  );
+}
+
+function TaxPolicyCard({ apiFetch }: { apiFetch: any }) {
+  const [policy, setPolicy] = useState<TaxPolicy | null>(null);
+  const [heads, setHeads] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/admin/tax-policy').then((res: any) => res.json()).then(setPolicy);
+    apiFetch('/api/admin/charge-rules').then((res: any) => res.json())
+      .then((rules: ChargeRule[]) => setHeads([...new Set(rules.map(r => r.head))]));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const data = checkForm(taxPolicySchema, {
+      ...Object.fromEntries(form.entries()),
+      enabled: form.get('enabled') === 'on',
+      exemptHeads: form.getAll('exemptHeads')
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/tax-policy', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      setPolicy(result.policy);
+      alert("GST settings saved");
+    } catch (err) {
+      alert("Failed to save GST settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!policy) return null;
+
+  // Heads that are exempt but no longer have a rule stay listed so they can be unticked.
+  const allHeads = [...new Set([...heads, ...policy.exempt_heads])];
+
+  return (
+    <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+      <h3 className="text-xl font-bold mb-2 text-white">GST</h3>
+      <p className="text-xs text-slate-400 mb-6">When a flat's taxable charges for the month exceed the threshold, all of them are taxed at the rate below, split equally into CGST and SGST. Exempt heads never attract GST and don't count towards the threshold. Changes apply to bills generated afterwards.</p>
+      <form key={policy.updated_at} onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+        <label className="col-span-2 flex items-center gap-2 text-sm text-slate-300">
+          <input name="enabled" type="checkbox" defaultChecked={policy.enabled} />
+          Charge GST on maintenance bills
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Society GSTIN</label>
+          <input name="gstin" defaultValue={policy.gstin ?? ''} placeholder="27AAAAA0000A1Z5" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white uppercase" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">SAC Code</label>
+          <input name="sacCode" defaultValue={policy.sac_code} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">GST Rate (%)</label>
+          <input name="rate" type="number" step="0.01" defaultValue={policy.rate} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Threshold (₹ per flat per month)</label>
+          <input name="threshold" type="number" step="0.01" defaultValue={policy.threshold} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div className="col-span-2">
+          <p className="text-sm font-medium text-slate-300 mb-2">Exempt Heads</p>
+          <div className="flex flex-wrap gap-3">
+            {allHeads.map(head => (
+              <label key={head} className="flex items-center gap-2 text-sm text-slate-300">
+                <input name="exemptHeads" type="checkbox" value={head} defaultChecked={policy.exempt_heads.includes(head)} />
+                {head}
+              </label>
+            ))}
+            {allHeads.length === 0 && <p className="text-xs text-slate-400">Add charge rules to choose exempt heads.</p>}
+          </div>
+        </div>
+        <Button disabled={loading} className="col-span-2">{loading ? "Saving..." : "Save GST Settings"}</Button>
+      </form>
+    </Card>
+  );
+}
+
+function ReminderPolicyCard({ apiFetch }: { apiFetch: any }) {
+  const [policy, setPolicy] = useState<ReminderPolicy | null>(null);
+  const [undeliverable, setUndeliverable] = useState<UndeliverableAddress[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadUndeliverable = () => {
+    apiFetch('/api/admin/reminders/undeliverable').then((res: any) => res.json()).then(setUndeliverable);
+  };
+
+  useEffect(() => {
+    apiFetch('/api/admin/reminder-policy').then((res: any) => res.json()).then(setPolicy);
+    loadUndeliverable();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const data = checkForm(reminderPolicySchema, { ...Object.fromEntries(form.entries()), enabled: form.get('enabled') === 'on' });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/reminder-policy', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      setPolicy(result.policy);
+      alert("Reminder schedule saved");
+    } catch (err) {
+      alert("Failed to save reminder schedule");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runNow = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/reminders/run', { method: 'POST' });
+      const result = await res.json();
+      alert(result.success ? result.message : describeError(result));
+      loadUndeliverable();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!policy) return null;
+
+  return (
+    <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+      <h3 className="text-xl font-bold mb-2 text-white">Dues Reminders</h3>
+      <p className="text-xs text-slate-400 mb-6">Residents are emailed before a bill falls due, again once it is overdue (repeating at the interval below) and a final notice after that. Each stage goes out once per bill, with at most one email per flat each time the schedule is checked (every hour). A failed email is retried with growing gaps and given up on after five failures in a row.</p>
+      <form key={policy.updated_at} onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+        <label className="col-span-2 flex items-center gap-2 text-sm text-slate-300">
+          <input name="enabled" type="checkbox" defaultChecked={policy.enabled} />
+          Send reminders automatically
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Upcoming (days before due)</label>
+          <input name="upcomingDays" type="number" defaultValue={policy.upcoming_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Overdue (days after due)</label>
+          <input name="overdueDays" type="number" defaultValue={policy.overdue_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Repeat overdue every (days, 0 = once)</label>
+          <input name="overdueRepeatDays" type="number" defaultValue={policy.overdue_repeat_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Final notice (days after due)</label>
+          <input name="finalNoticeDays" type="number" defaultValue={policy.final_notice_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <Button disabled={loading}>{loading ? "Saving..." : "Save Schedule"}</Button>
+        <Button type="button" variant="secondary" onClick={runNow} disabled={loading}>Send Due Reminders Now</Button>
+      </form>
+      {undeliverable.length > 0 && (
+        <div className="mt-6">
+          <p className="text-xs text-slate-400 uppercase font-bold mb-2">Undeliverable addresses</p>
+          <p className="text-xs text-slate-500 mb-2">The schedule has stopped emailing these residents. Correct the address, or send a reminder by hand once it works again to resume.</p>
+          <div className="space-y-1">
+            {undeliverable.map(u => (
+              <div key={u.recipient} className="flex justify-between gap-4 text-xs">
+                <span className="text-slate-300">{u.flat_id} · {u.recipient}</span>
+                <span className="text-slate-500 truncate" title={u.last_error ?? undefined}>{u.failures} failures, last {format(new Date(u.last_attempt), 'dd MMM HH:mm')}{u.last_error ? `: ${u.last_error}` : ''}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function DefaultersCard({ apiFetch }: { apiFetch: any }) {
+  const [report, setReport] = useState<DefaultersReport | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    apiFetch('/api/admin/defaulters').then((res: any) => res.json()).then(setReport);
+  };
+
+  useEffect(load, []);
+
+  const escalate = async (flatId: string, stage: DunningStage) => {
+    setLoading(true);
+    try {
+      if (await escalateDunning(apiFetch, flatId, stage)) load();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runNow = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/dunning/run', { method: 'POST' });
+      const result = await res.json();
+      alert(result.success ? result.message : describeError(result));
+      load();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCSV = () => {
+    if (!report) return;
+    const rows = [
+      ['Flat', 'Resident', 'Overdue Amount', 'Overdue Bills', 'Oldest Due Date', 'Days Overdue', 'Months Overdue', 'Stage', 'Stage Since', 'Ladder Stage'],
+      ...report.flats.map(f => [
+        f.flat_id, f.resident, f.overdue_amount, f.overdue_bills, format(new Date(f.oldest_due), 'dd-MM-yyyy'), f.days_overdue, f.months_overdue,
+        f.stage, f.stage_since && format(new Date(f.stage_since), 'dd-MM-yyyy'), f.due_stage
+      ])
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `defaulters_${format(new Date(report.as_of), 'yyyy-MM-dd')}.csv`);
+  };
+
+  if (!report) return null;
+
+  return (
+    <Card className="p-8 bg-slate-800 border-slate-700">
+      <div className="flex items-center justify-between mb-6 gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">Defaulters</h3>
+          <p className="text-xs text-slate-400">{report.flats.length} flats with ₹{report.total_overdue.toLocaleString()} past due, as of {format(new Date(report.as_of), 'dd MMM yyyy')}.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={runNow} disabled={loading} className="text-xs px-3 py-1">Run Ladder Now</Button>
+          <Button variant="secondary" onClick={exportCSV} disabled={!report.flats.length} className="text-xs px-3 py-1 flex items-center gap-1">
+            <Download size={12} />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {([['By months overdue', report.by_age], ['By amount', report.by_amount]] as const).map(([title, buckets]) => (
+          <div key={title}>
+            <p className="text-xs text-slate-400 uppercase font-bold mb-2">{title}</p>
+            <div className="space-y-1">
+              {buckets.map(b => (
+                <div key={b.label} className="flex justify-between text-xs">
+                  <span className="text-slate-300">{b.label}</span>
+                  <span className="text-slate-400">{b.flats} flats · ₹{b.amount.toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      {report.flats.length === 0 && <p className="text-sm text-slate-500">No flat has a bill past its due date.</p>}
+      {report.flats.length > 0 && (
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-slate-700">
+              <th className="py-2 font-semibold text-slate-400">Flat</th>
+              <th className="py-2 font-semibold text-slate-400 text-right">Overdue</th>
+              <th className="py-2 font-semibold text-slate-400 text-right">Age</th>
+              <th className="py-2 font-semibold text-slate-400">Stage</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700">
+            {report.flats.map(f => (
+              <React.Fragment key={f.flat_id}>
+                <tr>
+                  <td className="py-2">
+                    <p className="text-white font-medium">{f.flat_id}</p>
+                    <p className="text-xs text-slate-500">{f.resident ?? 'Vacant'}</p>
+                  </td>
+                  <td className="py-2 text-right">
+                    <p className="text-white">₹{f.overdue_amount.toLocaleString()}</p>
+                    <p className="text-xs text-slate-500">{f.overdue_bills} bills</p>
+                  </td>
+                  <td className="py-2 text-right">
+                    <p className="text-slate-300">{f.months_overdue > 0 ? `${f.months_overdue} mo` : `${f.days_overdue} days`}</p>
+                    <p className="text-xs text-slate-500">since {format(new Date(f.oldest_due), 'dd MMM yyyy')}</p>
+                  </td>
+                  <td className="py-2">
+                    <Badge variant={DUNNING_STAGE_BADGES[f.stage].variant}>{DUNNING_STAGE_BADGES[f.stage].label}</Badge>
+                    {DUNNING_STAGES.indexOf(f.due_stage) > DUNNING_STAGES.indexOf(f.stage) && (
+                      <p className="text-[10px] text-amber-400 mt-1">Ladder says: {DUNNING_STAGE_BADGES[f.due_stage].label.toLowerCase()}</p>
+                    )}
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button variant="secondary" onClick={() => escalate(f.flat_id, f.stage)} disabled={loading || f.stage === 'HEARING'} className="text-xs px-2 py-1 mr-2">Escalate</Button>
+                    <Button variant="ghost" onClick={() => setExpanded(expanded === f.flat_id ? null : f.flat_id)} className="text-xs px-2 py-1 text-slate-300 hover:bg-slate-700">
+                      {expanded === f.flat_id ? 'Hide' : 'History'}
+                    </Button>
+                  </td>
+                </tr>
+                {expanded === f.flat_id && (
+                  <tr>
+                    <td colSpan={5} className="py-2">
+                      <DunningHistory flatId={f.flat_id} apiFetch={apiFetch} onChanged={load} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
+
+function DunningPolicyCard({ apiFetch }: { apiFetch: any }) {
+  const [policy, setPolicy] = useState<DunningPolicy | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/admin/dunning-policy').then((res: any) => res.json()).then(setPolicy);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const data = checkForm(dunningPolicySchema, { ...Object.fromEntries(form.entries()), enabled: form.get('enabled') === 'on' });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/dunning-policy', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      setPolicy(result.policy);
+      alert("Escalation ladder saved");
+    } catch (err) {
+      alert("Failed to save escalation ladder");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!policy) return null;
+
+  return (
+    <Card className="p-8 max-w-2xl mx-auto bg-slate-800 border-slate-700">
+      <h3 className="text-xl font-bold mb-2 text-white">Escalation Ladder</h3>
+      <p className="text-xs text-slate-400 mb-6">Flats in arrears move up one stage at a time once their oldest overdue bill is as many days late as below: a reminder email, a formal notice to print and serve, suspension of amenity bookings, and a hearing before the committee. A flat drops off the ladder as soon as nothing is overdue.</p>
+      <form key={policy.updated_at} onSubmit={handleSubmit} className="grid grid-cols-2 gap-4">
+        <label className="col-span-2 flex items-center gap-2 text-sm text-slate-300">
+          <input name="enabled" type="checkbox" defaultChecked={policy.enabled} />
+          Escalate automatically (otherwise only from the defaulters list)
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Reminder (days overdue)</label>
+          <input name="reminderDays" type="number" defaultValue={policy.reminder_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Formal notice (days overdue)</label>
+          <input name="noticeDays" type="number" defaultValue={policy.notice_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Amenity suspension (days overdue)</label>
+          <input name="suspensionDays" type="number" defaultValue={policy.suspension_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Committee hearing (days overdue)</label>
+          <input name="hearingDays" type="number" defaultValue={policy.hearing_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Minimum arrears (₹)</label>
+          <input name="minAmount" type="number" step="0.01" defaultValue={policy.min_amount} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-1">Days between stages (at least)</label>
+          <input name="stepIntervalDays" type="number" defaultValue={policy.step_interval_days} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        <Button disabled={loading} className="col-span-2">{loading ? "Saving..." : "Save Ladder"}</Button>
+      </form>
+    </Card>
+  );
+}
+
+const BILL_STATUS_BADGES: Record<Bill['status'], { label: string, variant: 'success' | 'warning' | 'danger' }> = {
+  PAID: { label: 'Paid', variant: 'success' },
+  PARTIAL: { label: 'Part-paid', variant: 'warning' },
+  UNPAID: { label: 'Unpaid', variant: 'danger' }
+};
+
+const PAYMENT_STATUS_VARIANTS: Record<Payment['status'], 'success' | 'warning' | 'danger'> = {
+  CONFIRMED: 'success',
+  PENDING: 'warning',
+  REJECTED: 'danger'
+};
+
+// Open bills as checkboxes; none ticked means "oldest dues first".
+function BillPicker({ bills, selected, onChange }: { bills: Bill[], selected: string[], onChange: (ids: string[]) => void }) {
+  const toggle = (id: string) => onChange(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+
+  return (
+    <div className="space-y-1">
+      {bills.map(bill => (
+        <label key={bill.id} className="flex items-center justify-between p-2 rounded-lg bg-slate-900 border border-slate-700 text-sm cursor-pointer">
+          <span className="flex items-center gap-2 text-white">
+            <input type="checkbox" checked={selected.includes(bill.id)} onChange={() => toggle(bill.id)} />
+            {bill.month}
+          </span>
+          <span className="text-slate-300">₹{bill.balance.toLocaleString()} due</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function AdminPaymentsView({ apiFetch }: { apiFetch: any }) {
+  const [pending, setPending] = useState<Payment[]>([]);
+  const [recent, setRecent] = useState<Payment[]>([]);
+  const [flatId, setFlatId] = useState('');
+  const [flatBills, setFlatBills] = useState<Bill[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    // Online checkouts still in progress settle themselves; only captured ones left pending need a look
+    apiFetch('/api/admin/payments?status=PENDING').then((res: any) => res.json())
+      .then((rows: Payment[]) => setPending(rows.filter(p => p.mode !== 'ONLINE' || p.note)));
+    apiFetch('/api/admin/payments').then((res: any) => res.json()).then(setRecent);
+  };
+
+  useEffect(load, []);
+
+  const loadFlatBills = async () => {
+    setSelected([]);
+    if (!flatId.trim()) return setFlatBills([]);
+    const res = await apiFetch(`/api/admin/flats/${encodeURIComponent(flatId.trim())}/bills`);
+    const data = await res.json();
+    setFlatBills(Array.isArray(data) ? data.filter((b: Bill) => b.status !== 'PAID') : []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const fields = Object.fromEntries(new FormData(form).entries());
+    const data = checkForm(recordPaymentSchema, {
+      ...fields,
+      flatId,
+      paidAt: fields.paidAt || undefined,
+      note: fields.note || undefined,
+      reference: fields.reference || undefined,
+      billIds: selected.length ? selected : undefined
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/payments', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      alert(result.message);
+      form.reset();
+      setFlatId('');
+      setFlatBills([]);
+      setSelected([]);
+      load();
+    } catch (err) {
+      alert("Failed to record payment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmPayment = async (id: number) => {
+    const res = await apiFetch(`/api/admin/payments/${id}/confirm`, { method: 'POST' });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    load();
+  };
+
+  const rejectPayment = async (id: number) => {
+    const input = checkForm(rejectPaymentSchema, { reason: prompt("Why is this payment being rejected?") ?? '' });
+    if (!input) return;
+    const res = await apiFetch(`/api/admin/payments/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    load();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          <h3 className="text-lg font-bold mb-4 text-white">Record Offline Payment</h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <input value={flatId} onChange={(e) => setFlatId(e.target.value)} onBlur={loadFlatBills} placeholder="Flat, e.g. A101" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <input name="amount" type="number" step="0.01" placeholder="Amount (₹)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <select name="mode" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+                {PAYMENT_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <input name="reference" placeholder="Cheque no. / UTR" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <input name="paidAt" type="date" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <input name="note" placeholder="Note (optional)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+            </div>
+            {flatBills.length > 0 && (
+              <div>
+                <p className="text-xs text-slate-400 mb-2">Apply to (leave unticked to settle the oldest dues first):</p>
+                <BillPicker bills={flatBills} selected={selected} onChange={setSelected} />
+              </div>
+            )}
+            <Button disabled={loading} className="w-full">{loading ? "Saving..." : "Record Payment"}</Button>
+          </form>
+        </Card>
+
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          <h3 className="text-lg font-bold mb-4 text-white">Awaiting Confirmation</h3>
+          <div className="space-y-3">
+            {pending.map(p => (
+              <div key={p.id} className="p-3 rounded-lg bg-slate-900 border border-slate-700">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-bold text-white">Flat {p.flat_id} · ₹{p.amount.toLocaleString()}</p>
+                    <p className="text-xs text-slate-400">{p.mode} {p.reference} · {format(new Date(p.paid_at), 'dd MMM yyyy')}</p>
+                    <p className="text-xs text-slate-500">{[...p.allocations.map(a => `${a.month} ₹${a.amount}`), ...(p.advance > 0 ? [`advance ₹${p.advance}`] : [])].join(', ')}</p>
+                    {p.mode === 'ONLINE' && <p className="text-xs text-amber-400">{p.note}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => confirmPayment(p.id)} className="text-xs px-3 py-1">Confirm</Button>
+                    {p.mode !== 'ONLINE' && <Button variant="secondary" onClick={() => rejectPayment(p.id)} className="text-xs px-3 py-1">Reject</Button>}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {pending.length === 0 && <p className="text-sm text-slate-400">Nothing to confirm.</p>}
+          </div>
+        </Card>
+      </div>
+
+      <AdjustmentApprovalsCard apiFetch={apiFetch} />
+
+      <Card className="p-6">
+        <h3 className="text-lg font-bold mb-4 text-white">Recent Payments</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-800">
+                <th className="py-3 font-semibold text-slate-400 text-sm">Date</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Flat</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Amount</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Mode</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Applied To</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Status</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Receipt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map(p => (
+                <tr key={p.id} className="border-b border-slate-800/50">
+                  <td className="py-3 text-sm text-slate-300">{format(new Date(p.paid_at), 'dd MMM yyyy')}</td>
+                  <td className="py-3 text-sm text-white font-medium">{p.flat_id}</td>
+                  <td className="py-3 text-sm text-white">₹{p.amount.toLocaleString()}</td>
+                  <td className="py-3 text-sm text-slate-300">{p.mode}{p.reference && <span className="text-slate-500"> · {p.reference}</span>}</td>
+                  <td className="py-3 text-xs text-slate-400">{[...p.allocations.map(a => a.month), ...(p.advance > 0 ? [`₹${p.advance} advance`] : [])].join(', ')}</td>
+                  <td className="py-3"><Badge variant={PAYMENT_STATUS_VARIANTS[p.status]}>{p.status}</Badge></td>
+                  <td className="py-3">
+                    {p.receipt_no && (
+                      <button onClick={() => downloadFile(apiFetch, `/api/admin/payments/${p.id}/receipt`)} className="text-xs text-red-400 hover:underline">
+                        {p.receipt_no}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+// The checker's side of bill adjustments: the server refuses approvals from whoever raised them.
+function AdjustmentApprovalsCard({ apiFetch }: { apiFetch: any }) {
+  const [pending, setPending] = useState<Adjustment[]>([]);
+
+  const load = () => {
+    apiFetch('/api/admin/adjustments?status=PENDING').then((res: any) => res.json()).then(setPending);
+  };
+
+  useEffect(load, []);
+
+  const review = async (id: number, action: 'approve' | 'reject') => {
+    const input = action === 'approve'
+      ? { note: prompt("Note (optional):") || undefined }
+      : checkForm(rejectAdjustmentSchema, { note: prompt("Why is this adjustment being rejected?") ?? '' });
+    if (!input) return;
+    const res = await apiFetch(`/api/admin/adjustments/${id}/${action}`, {
+      method: 'POST',
+      body: JSON.stringify(input)
+    });
+    const result = await res.json();
+    alert(result.success ? result.message : describeError(result));
+    load();
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <h3 className="text-lg font-bold mb-1 text-white">Adjustments Awaiting Approval</h3>
+      <p className="text-xs text-slate-400 mb-4">Credit notes, waivers and debit notes take effect once an admin other than the one who raised them approves.</p>
+      <div className="space-y-3">
+        {pending.map(a => (
+          <div key={a.id} className="p-3 rounded-lg bg-slate-900 border border-slate-700 flex justify-between items-start gap-4 text-sm">
+            <AdjustmentLine adjustment={a} apiFetch={apiFetch} />
+            <div className="flex gap-2">
+              <Button onClick={() => review(a.id, 'approve')} className="text-xs px-3 py-1">Approve</Button>
+              <Button variant="secondary" onClick={() => review(a.id, 'reject')} className="text-xs px-3 py-1">Reject</Button>
+            </div>
+          </div>
+        ))}
+        {pending.length === 0 && <p className="text-sm text-slate-400">Nothing to approve.</p>}
+      </div>
+    </Card>
+  );
+}
+
+// Column guesses for common bank exports; the treasurer can correct them before importing.
+function guessMapping(rows: string[][]): StatementMapping {
+  const headerRow = Math.max(0, rows.findIndex(r => r.filter(Boolean).length >= 3 && r.some(c => /date/i.test(c))));
+  const headers = rows[headerRow] ?? [];
+  const find = (pattern: RegExp) => Math.max(0, headers.findIndex(h => pattern.test(h)));
+  const reference = headers.findIndex(h => /ref|utr|chq|cheque/i.test(h));
+  const sample = rows[headerRow + 1]?.[find(/date/i)] ?? '';
+  return {
+    headerRow,
+    date: find(/date/i),
+    narration: find(/narration|description|particulars|remarks|details/i),
+    credit: find(/credit|deposit|\bcr\b/i),
+    reference: reference === -1 ? undefined : reference,
+    dateFormat: /^\d{4}-/.test(sample) ? 'YYYY-MM-DD' : /[a-z]{3}/i.test(sample) ? 'DD-MMM-YYYY' : 'DD/MM/YYYY'
+  };
+}
+
+const BANK_LINE_TABS: { status: BankLine['status'], label: string }[] = [
+  { status: 'SUGGESTED', label: 'Suggested' },
+  { status: 'UNMATCHED', label: 'Needs Review' },
+  { status: 'MATCHED', label: 'Matched' },
+  { status: 'IGNORED', label: 'Ignored' }
+];
+
+// Email filed by the dev mail transport. With SMTP configured mail really goes out and this stays empty.
+function AdminMailboxView({ apiFetch }: { apiFetch: any }) {
+  const [enabled, setEnabled] = useState(true);
+  const [messages, setMessages] = useState<MailboxMessage[]>([]);
+  const [open, setOpen] = useState<MailboxMessage | null>(null);
+
+  const load = () => {
+    apiFetch('/api/admin/mailbox').then((res: any) => res.json()).then((data: { enabled: boolean, messages: MailboxMessage[] }) => {
+      setEnabled(data.enabled);
+      setMessages(data.messages);
+      setOpen(current => data.messages.find(m => m.id === current?.id) ?? data.messages[0] ?? null);
+    });
+  };
+
+  useEffect(load, []);
+
+  const clear = async () => {
+    if (!confirm("Delete every message in the local mailbox?")) return;
+    await apiFetch('/api/admin/mailbox', { method: 'DELETE' });
+    load();
+  };
+
+  if (!enabled) {
+    return (
+      <Card className="p-12 text-center">
+        <p className="text-slate-400">Email is being sent over SMTP, so there is no local mailbox. Set MAIL_TRANSPORT=mailbox to capture mail here instead.</p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="p-4 lg:col-span-1">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Local Mailbox</h3>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={load} className="text-xs px-2 py-1 text-slate-300 hover:bg-slate-800">Refresh</Button>
+            <Button variant="ghost" onClick={clear} disabled={!messages.length} className="p-2 text-slate-400 hover:bg-slate-800">
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        </div>
+        {messages.length === 0 && <p className="text-sm text-slate-400 py-8 text-center">No mail yet.</p>}
+        <div className="divide-y divide-slate-800 max-h-[70vh] overflow-y-auto">
+          {messages.map(m => (
+            <button
+              key={m.id}
+              onClick={() => setOpen(m)}
+              className={cn("w-full text-left py-3 px-2 rounded-lg", open?.id === m.id ? "bg-slate-800" : "hover:bg-slate-800/50")}
+            >
+              <p className="text-sm font-semibold text-white truncate">{m.subject}</p>
+              <p className="text-xs text-slate-400 truncate">{m.to} · {format(new Date(m.date), 'dd MMM, HH:mm')}</p>
+            </button>
+          ))}
+        </div>
+      </Card>
+      <Card className="p-6 lg:col-span-2">
+        {open ? (
+          <>
+            <h3 className="text-lg font-bold text-white">{open.subject}</h3>
+            <p className="text-xs text-slate-400 mt-1">From {open.from}</p>
+            <p className="text-xs text-slate-400">To {open.to} · {format(new Date(open.date), 'PPpp')}</p>
+            {/* Sandboxed so nothing in a message can run in the admin's session */}
+            <iframe title="Message" sandbox="" srcDoc={open.html} className="w-full h-[60vh] mt-4 rounded-lg bg-white" />
+          </>
+        ) : (
+          <p className="text-slate-400 text-center py-12">Select a message.</p>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function AdminReconciliationView({ apiFetch }: { apiFetch: any }) {
+  const [file, setFile] = useState<{ name: string, csv: string, rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<StatementMapping | null>(null);
+  const [status, setStatus] = useState<BankLine['status']>('SUGGESTED');
+  const [lines, setLines] = useState<BankLine[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    apiFetch(`/api/admin/bank-lines?status=${status}`).then((res: any) => res.json()).then(setLines);
+  };
+
+  useEffect(load, [status]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    if (!picked) return;
+    const csv = await picked.text();
+    const rows = parseCsv(csv);
+    setFile({ name: picked.name, csv, rows });
+    setMapping(guessMapping(rows));
+  };
+
+  const handleImport = async () => {
+    const data = checkForm(importStatementSchema, { fileName: file?.name, csv: file?.csv, mapping });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/bank-statements', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      const summary: StatementImport = result.result;
+      alert([
+        `${summary.imported} credits imported: ${summary.suggested} matched automatically, ${summary.unmatched} need review.`,
+        summary.duplicates ? `${summary.duplicates} were already imported from an earlier statement.` : '',
+        summary.skipped ? `${summary.skipped} rows skipped (debits or unreadable dates).` : ''
+      ].filter(Boolean).join('\n'));
+      setFile(null);
+      setMapping(null);
+      if (status === 'SUGGESTED') load(); else setStatus('SUGGESTED');
+    } catch (err) {
+      alert("Failed to import statement");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const post = async (url: string, body: object) => {
+    const res = await apiFetch(url, { method: 'POST', body: JSON.stringify(body) });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    return result;
+  };
+
+  const confirmLine = async (line: BankLine) => {
+    await post(`/api/admin/bank-lines/${line.id}/confirm`, {});
+    load();
+  };
+
+  const matchToFlat = async (line: BankLine) => {
+    const flatId = prompt('Which flat is this credit from? Its oldest dues will be settled first.', line.flat_id ?? '');
+    if (!flatId) return;
+    await post(`/api/admin/bank-lines/${line.id}/confirm`, { flatId });
+    load();
+  };
+
+  const confirmAll = async () => {
+    const result = await post('/api/admin/bank-lines/confirm', { ids: lines.map(l => l.id) });
+    if (result.success) {
+      alert([result.message, ...result.failed.map((f: { id: number, message: string }) => `Line #${f.id}: ${f.message}`)].join('\n'));
+    }
+    load();
+  };
+
+  const ignoreLine = async (line: BankLine) => {
+    const input = checkForm(ignoreBankLineSchema, { reason: prompt('Why is this credit being ignored? (e.g. bank interest, event deposit)') ?? '' });
+    if (!input) return;
+    await post(`/api/admin/bank-lines/${line.id}/ignore`, input);
+    load();
+  };
+
+  const headers = file && mapping ? file.rows[mapping.headerRow] ?? [] : [];
+  const preview = file && mapping ? file.rows.slice(mapping.headerRow + 1, mapping.headerRow + 4) : [];
+  const selectClass = "w-full px-3 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm";
+
+  const columnSelect = (field: 'date' | 'narration' | 'credit' | 'reference', label: string) => mapping && (
+    <label className="block">
+      <span className="block text-xs text-slate-400 mb-1">{label}</span>
+      <select
+        value={mapping[field] ?? ''}
+        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+        className={selectClass}
+      >
+        {field === 'reference' && <option value="">None</option>}
+        {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 bg-slate-800 border-slate-700">
+        <h3 className="text-lg font-bold mb-1 text-white">Import Bank Statement</h3>
+        <p className="text-xs text-slate-400 mb-4">Upload the CSV export from net banking. Credits are matched to flats by the flat number in the narration, the amount and the date; nothing is recorded until you confirm.</p>
+        <input type="file" accept=".csv,text/csv" onChange={handleFile} className="text-sm text-slate-300" />
+        {file && mapping && (
+          <div className="mt-4 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">Header row</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={mapping.headerRow + 1}
+                  onChange={(e) => setMapping({ ...mapping, headerRow: Math.max(0, Number(e.target.value) - 1) })}
+                  className={selectClass}
+                />
+              </label>
+              {columnSelect('date', 'Date')}
+              {columnSelect('narration', 'Narration')}
+              {columnSelect('credit', 'Credit amount')}
+              {columnSelect('reference', 'Reference')}
+              <label className="block">
+                <span className="block text-xs text-slate-400 mb-1">Date format</span>
+                <select value={mapping.dateFormat} onChange={(e) => setMapping({ ...mapping, dateFormat: e.target.value as StatementMapping['dateFormat'] })} className={selectClass}>
+                  {STATEMENT_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+            </div>
+            <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-1">
+              <p className="text-xs font-semibold text-slate-400">{file.name}: {file.rows.length - mapping.headerRow - 1} rows. First few as mapped:</p>
+              {preview.map((row, i) => (
+                <p key={i} className="text-xs text-slate-300 truncate">
+                  {row[mapping.date]} · ₹{row[mapping.credit] || '—'} · {row[mapping.narration]}
+                </p>
+              ))}
+            </div>
+            <Button onClick={handleImport} disabled={loading} className="w-full">{loading ? "Importing..." : "Import Statement"}</Button>
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-6 bg-slate-800 border-slate-700">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div className="flex gap-2">
+            {BANK_LINE_TABS.map(tab => (
+              <Button key={tab.status} variant={status === tab.status ? 'primary' : 'ghost'} onClick={() => setStatus(tab.status)} className="text-xs px-3 py-1">
+                {tab.label}
+              </Button>
+            ))}
+          </div>
+          {status === 'SUGGESTED' && lines.length > 0 && (
+            <Button onClick={confirmAll} className="text-xs px-3 py-1">Confirm all {lines.length}</Button>
+          )}
+        </div>
+        <div className="space-y-3">
+          {lines.map(line => (
+            <div key={line.id} className="p-3 rounded-lg bg-slate-900 border border-slate-700 flex justify-between items-start gap-4">
+              <div className="min-w-0">
+                <p className="font-bold text-white">
+                  ₹{line.amount.toLocaleString()} <span className="text-xs font-normal text-slate-400">on {format(new Date(line.txn_date), 'dd MMM yyyy')}</span>
+                </p>
+                <p className="text-xs text-slate-400 truncate">{line.narration}{line.reference && ` · ${line.reference}`}</p>
+                {line.flat_id && (
+                  <p className="text-xs text-slate-300">
+                    Flat {line.flat_id}{line.bills.length > 0 && ` · ${line.bills.map(b => b.month).join(', ')}`}
+                  </p>
+                )}
+                {line.match_reason && <p className={cn("text-xs", line.status === 'UNMATCHED' ? 'text-amber-400' : 'text-slate-500')}>{line.match_reason}</p>}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {line.status === 'SUGGESTED' && <Button onClick={() => confirmLine(line)} className="text-xs px-3 py-1">Confirm</Button>}
+                {(line.status === 'SUGGESTED' || line.status === 'UNMATCHED') && (
+                  <>
+                    <Button variant="secondary" onClick={() => matchToFlat(line)} className="text-xs px-3 py-1">{line.status === 'SUGGESTED' ? 'Other flat' : 'Match to flat'}</Button>
+                    <Button variant="ghost" onClick={() => ignoreLine(line)} className="text-xs px-3 py-1 text-slate-400">Ignore</Button>
+                  </>
+                )}
+                {line.status === 'MATCHED' && <Badge variant="success">Payment #{line.payment_id}</Badge>}
+              </div>
+            </div>
+          ))}
+          {lines.length === 0 && <p className="text-sm text-slate-400">No statement lines here.</p>}
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+function AdminExpensesView({ apiFetch }: { apiFetch: any }) {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [filters, setFilters] = useState({ from: '', to: '', categoryId: '', vendorId: '' });
+  const [editing, setEditing] = useState<Expense | null>(null);
+  // undefined keeps whatever bill is attached, null removes it
+  const [billFile, setBillFile] = useState<BillFileInput | null | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    const query = new URLSearchParams(Object.entries(filters).filter(([, v]) => v));
+    apiFetch(`/api/admin/expenses?${query}`).then((res: any) => res.json()).then(setExpenses);
+  };
+
+  const loadLists = () => {
+    apiFetch('/api/admin/expense-categories').then((res: any) => res.json()).then(setCategories);
+    apiFetch('/api/admin/vendors').then((res: any) => res.json()).then(setVendors);
+  };
+
+  useEffect(load, [filters]);
+  useEffect(loadLists, []);
+
+  const startEdit = (expense: Expense | null) => {
+    setEditing(expense);
+    setBillFile(undefined);
+  };
+
+  const handleBillFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    setBillFile(picked ? { fileName: picked.name, dataUrl: await readDataUrl(picked) } : undefined);
+  };
+
+  // A vendor's usual category fills in the category
+  const pickVendor = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const vendor = vendors.find(v => v.id === Number(e.target.value));
+    const category = e.target.form?.elements.namedItem('categoryId') as HTMLSelectElement | null;
+    if (vendor?.category_id && category) category.value = String(vendor.category_id);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const fields = Object.fromEntries(new FormData(form).entries());
+    const data = checkForm(expenseSchema, {
+      ...fields,
+      vendorId: fields.vendorId || undefined,
+      reference: fields.reference || undefined,
+      billFile
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch(editing ? `/api/admin/expenses/${editing.id}` : '/api/admin/expenses', {
+        method: editing ? 'PUT' : 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      if (result.budget_alerts.length) alert(result.budget_alerts.join('\n'));
+      form.reset();
+      startEdit(null);
+      load();
+      loadLists();
+    } catch (err) {
+      alert("Failed to save expense");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const remove = async (expense: Expense) => {
+    if (!confirm(`Delete the ₹${expense.amount.toLocaleString()} expense "${expense.description}"?`)) return;
+    const res = await apiFetch(`/api/admin/expenses/${expense.id}`, { method: 'DELETE' });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    if (editing?.id === expense.id) startEdit(null);
+    load();
+    loadLists();
+  };
+
+  const exportCSV = () => {
+    const rows = [
+      ['Date', 'Category', 'Vendor', 'Description', 'Amount', 'Mode', 'Reference', 'Bill Attached', 'Recorded By'],
+      ...expenses.map(x => [
+        format(new Date(`${x.spent_on}T00:00`), 'dd-MM-yyyy'), x.category, x.vendor, x.description, x.amount, x.mode, x.reference, x.bill_file ? 'Yes' : 'No', x.created_by
+      ])
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `expenses_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  };
+
+  const total = expenses.reduce((sum, x) => sum + x.amount, 0);
+  const activeCategories = categories.filter(c => c.active || c.id === editing?.category_id);
+  const activeVendors = vendors.filter(v => v.active || v.id === editing?.vendor_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6 bg-slate-800 border-slate-700">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-white">{editing ? 'Edit Expense' : 'Record Expense'}</h3>
+            {editing && <Button variant="ghost" onClick={() => startEdit(null)} className="text-xs px-2 py-1">Cancel</Button>}
+          </div>
+          <form key={editing?.id ?? 'new'} onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <input name="spentOn" type="date" defaultValue={editing?.spent_on ?? format(new Date(), 'yyyy-MM-dd')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <input name="amount" type="number" step="0.01" defaultValue={editing?.amount} placeholder="Amount (₹)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <select name="vendorId" defaultValue={editing?.vendor_id ?? ''} onChange={pickVendor} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+                <option value="">No vendor</option>
+                {activeVendors.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+              </select>
+              <select name="categoryId" defaultValue={editing?.category_id ?? ''} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+                <option value="">Category</option>
+                {activeCategories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <input name="description" defaultValue={editing?.description} placeholder="What was it for?" className="col-span-2 px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+              <select name="mode" defaultValue={editing?.mode ?? 'NEFT'} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+                {PAYMENT_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <input name="reference" defaultValue={editing?.reference ?? ''} placeholder="Cheque no. / UTR" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+            </div>
+            <div className="text-xs text-slate-400 space-y-2">
+              <label className="block">
+                Vendor bill (PNG, JPEG, WebP or PDF, up to 4 MB)
+                <input type="file" accept="image/png,image/jpeg,image/webp,application/pdf" onChange={handleBillFile} className="block mt-1 text-slate-300" />
+              </label>
+              {editing?.bill_file && billFile === undefined && (
+                <p className="flex items-center gap-2">
+                  <Paperclip size={12} /> {editing.bill_file}
+                  <button type="button" onClick={() => setBillFile(null)} className="text-red-400 hover:underline">Remove</button>
+                </p>
+              )}
+              {editing?.bill_file && billFile === null && <p>The attached bill will be removed.</p>}
+            </div>
+            <Button disabled={loading} className="w-full">{loading ? "Saving..." : editing ? "Save Changes" : "Record Expense"}</Button>
+          </form>
+        </Card>
+
+        <VendorsCard categories={categories} vendors={vendors} apiFetch={apiFetch} onChanged={loadLists} />
+      </div>
+
+      <ExpenseCategoriesCard categories={categories} apiFetch={apiFetch} onChanged={loadLists} />
+
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-white">Expenses</h3>
+            <p className="text-xs text-slate-400">{expenses.length} shown, ₹{total.toLocaleString()} in total.</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+            <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+            <select value={filters.categoryId} onChange={(e) => setFilters({ ...filters, categoryId: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm">
+              <option value="">All categories</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+            <select value={filters.vendorId} onChange={(e) => setFilters({ ...filters, vendorId: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm">
+              <option value="">All vendors</option>
+              {vendors.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+            </select>
+            <Button onClick={exportCSV} variant="secondary" disabled={!expenses.length} className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+              <Download size={14} />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-800">
+                <th className="py-3 font-semibold text-slate-400 text-sm">Date</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Category</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Description</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Amount</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Mode</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Bill</th>
+                <th className="py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {expenses.map(x => (
+                <tr key={x.id} className="border-b border-slate-800/50">
+                  <td className="py-3 text-sm text-slate-300">{format(new Date(`${x.spent_on}T00:00`), 'dd MMM yyyy')}</td>
+                  <td className="py-3 text-sm text-slate-300">{x.category}</td>
+                  <td className="py-3 text-sm text-white">{x.description}{x.vendor && <span className="text-slate-500"> · {x.vendor}</span>}</td>
+                  <td className="py-3 text-sm text-white">₹{x.amount.toLocaleString()}</td>
+                  <td className="py-3 text-sm text-slate-300">{x.mode}{x.reference && <span className="text-slate-500"> · {x.reference}</span>}</td>
+                  <td className="py-3">
+                    {x.bill_file && (
+                      <button onClick={() => downloadFile(apiFetch, `/api/admin/expenses/${x.id}/bill`)} className="text-xs text-red-400 hover:underline flex items-center gap-1">
+                        <Paperclip size={12} /> View
+                      </button>
+                    )}
+                  </td>
+                  <td className="py-3 text-right whitespace-nowrap">
+                    <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => startEdit(x)}>Edit</Button>
+                    <Button variant="ghost" className="p-2 text-red-500 hover:bg-red-500/10" onClick={() => remove(x)}>
+                      <Trash2 size={16} />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+              {expenses.length === 0 && (
+                <tr><td colSpan={7} className="py-4 text-sm text-slate-400">No expenses match.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+function VendorsCard({ categories, vendors, apiFetch, onChanged }: { categories: ExpenseCategory[], vendors: Vendor[], apiFetch: any, onChanged: () => void }) {
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const fields = Object.fromEntries(new FormData(form).entries());
+    // Blank optional fields are left out rather than sent as empty strings
+    const data = checkForm(vendorSchema, Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== '')));
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/vendors', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      form.reset();
+      onChanged();
+    } catch (err) {
+      alert("Failed to add vendor");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = async (vendor: Vendor) => {
+    const res = await apiFetch(`/api/admin/vendors/${vendor.id}`, {
+      method: 'PUT',
+      body: JSON.stringify({
+        name: vendor.name,
+        phone: vendor.phone ?? undefined,
+        email: vendor.email ?? undefined,
+        gstin: vendor.gstin ?? undefined,
+        categoryId: vendor.category_id ?? undefined,
+        active: !vendor.active
+      })
+    });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    onChanged();
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <h3 className="text-lg font-bold mb-4 text-white">Vendors</h3>
+      <div className="space-y-2 mb-4 max-h-64 overflow-y-auto">
+        {vendors.map(v => (
+          <div key={v.id} className={cn("flex items-center justify-between p-3 rounded-lg bg-slate-900 border border-slate-700", !v.active && "opacity-50")}>
+            <div>
+              <p className="font-bold text-white text-sm">{v.name}{v.category && <span className="text-slate-400 font-normal"> · {v.category}</span>}</p>
+              <p className="text-xs text-slate-400">{[v.phone, v.email, v.gstin && `GSTIN ${v.gstin}`].filter(Boolean).join(' · ')}</p>
+            </div>
+            <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => toggle(v)}>
+              {v.active ? 'Disable' : 'Enable'}
+            </Button>
+          </div>
+        ))}
+        {vendors.length === 0 && <p className="text-sm text-slate-400">No vendors yet.</p>}
+      </div>
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3">
+        <input name="name" placeholder="Vendor name" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <select name="categoryId" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+          <option value="">Usual category</option>
+          {categories.filter(c => c.active).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <input name="phone" placeholder="Phone" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <input name="email" placeholder="Email" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <input name="gstin" placeholder="GSTIN (optional)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <Button disabled={loading}>{loading ? "Saving..." : "Add Vendor"}</Button>
+      </form>
+    </Card>
+  );
+}
+
+// Categories that have expenses are retired rather than deleted, so past reports keep their heads.
+function ExpenseCategoriesCard({ categories, apiFetch, onChanged }: { categories: ExpenseCategory[], apiFetch: any, onChanged: () => void }) {
+  const save = async (category: ExpenseCategory | null, input: { name: string, active: boolean }) => {
+    const data = checkForm(expenseCategorySchema, input);
+    if (!data) return;
+    const res = await apiFetch(category ? `/api/admin/expense-categories/${category.id}` : '/api/admin/expense-categories', {
+      method: category ? 'PUT' : 'POST',
+      body: JSON.stringify(data)
+    });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    onChanged();
+  };
+
+  const add = () => {
+    const name = prompt("Name of the new category");
+    if (name !== null) save(null, { name, active: true });
+  };
+
+  const rename = (category: ExpenseCategory) => {
+    const name = prompt(`Rename ${category.name} to`, category.name);
+    if (name !== null && name !== category.name) save(category, { name, active: category.active });
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Expense Categories</h3>
+        <Button variant="secondary" onClick={add} className="text-xs px-3 py-1 flex items-center gap-1">
+          <Plus size={12} />
+          Add Category
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {categories.map(c => (
+          <div key={c.id} className={cn("flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-sm", !c.active && "opacity-50")}>
+            <button onClick={() => rename(c)} className="text-white hover:underline">{c.name}</button>
+            <span className="text-xs text-slate-500">{c.expenses}</span>
+            <button onClick={() => save(c, { name: c.name, active: !c.active })} className="text-xs text-slate-400 hover:text-white">
+              {c.active ? 'Retire' : 'Restore'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+// --- General ledger ---
+
+const ACCOUNT_TYPE_LABELS: Record<Account['type'], string> = {
+  ASSET: 'Assets',
+  LIABILITY: 'Liabilities & Funds',
+  EQUITY: 'Equity',
+  INCOME: 'Income',
+  EXPENSE: 'Expenses'
+};
+
+const JOURNAL_SOURCE_LABELS: Record<JournalEntry['source'], string> = {
+  BILL: 'Bill',
+  PENALTY: 'Late fee',
+  PAYMENT: 'Payment',
+  WALLET: 'Advance credit',
+  ADJUSTMENT: 'Adjustment',
+  EXPENSE: 'Expense',
+  MANUAL: 'Voucher'
+};
+
+const formatDay = (day: string) => format(new Date(`${day}T00:00`), 'dd MMM yyyy');
+const amountCell = (n: number) => n ? `₹${n.toLocaleString()}` : '';
+
+function AdminLedgerView({ apiFetch }: { apiFetch: any }) {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selected, setSelected] = useState<Account | null>(null);
+  // Bumped after anything is posted so the trial balance and journal reload
+  const [version, setVersion] = useState(0);
+
+  const loadAccounts = () => {
+    apiFetch('/api/admin/accounts').then((res: any) => res.json()).then(setAccounts);
+  };
+
+  useEffect(loadAccounts, [version]);
+
+  const changed = () => setVersion(version + 1);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <JournalVoucherCard accounts={accounts} apiFetch={apiFetch} onPosted={changed} />
+        <ChartOfAccountsCard accounts={accounts} apiFetch={apiFetch} onChanged={changed} onSelect={setSelected} />
+      </div>
+      {selected && <AccountLedgerCard key={`${selected.id}-${version}`} account={selected} apiFetch={apiFetch} onClose={() => setSelected(null)} />}
+      <TrialBalanceCard key={`tb-${version}`} apiFetch={apiFetch} />
+      <JournalCard key={`jv-${version}`} apiFetch={apiFetch} onChanged={changed} />
+    </div>
+  );
+}
+
+const emptyVoucherLine = () => ({ accountId: '', debit: '', credit: '', flatId: '', memo: '' });
+
+// Opening balances, bank charges, interest, fund transfers: anything the automatic postings from
+// bills, payments and expenses don't cover.
+function JournalVoucherCard({ accounts, apiFetch, onPosted }: { accounts: Account[], apiFetch: any, onPosted: () => void }) {
+  const [lines, setLines] = useState([emptyVoucherLine(), emptyVoucherLine()]);
+  const [loading, setLoading] = useState(false);
+
+  const setLine = (index: number, field: keyof ReturnType<typeof emptyVoucherLine>, value: string) =>
+    setLines(lines.map((l, i) => i === index ? { ...l, [field]: value } : l));
+
+  const debits = lines.reduce((sum, l) => sum + (Number(l.debit) || 0), 0);
+  const credits = lines.reduce((sum, l) => sum + (Number(l.credit) || 0), 0);
+  const difference = Math.round((debits - credits) * 100) / 100;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const fields = Object.fromEntries(new FormData(form).entries());
+    const data = checkForm(journalVoucherSchema, {
+      date: fields.date,
+      narration: fields.narration,
+      lines: lines
+        .filter(l => l.accountId || l.debit || l.credit)
+        .map(l => ({ accountId: l.accountId, debit: l.debit || 0, credit: l.credit || 0, flatId: l.flatId || undefined, memo: l.memo || undefined }))
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/journal', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      alert(result.message);
+      form.reset();
+      setLines([emptyVoucherLine(), emptyVoucherLine()]);
+      onPosted();
+    } catch (err) {
+      alert("Failed to post voucher");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <h3 className="text-lg font-bold mb-1 text-white">Journal Voucher</h3>
+      <p className="text-xs text-slate-400 mb-4">A flat number on a line posts it to that member's account, e.g. for opening dues.</p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          <input name="date" type="date" defaultValue={format(new Date(), 'yyyy-MM-dd')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+          <input name="narration" placeholder="Narration" className="col-span-2 px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        </div>
+        {lines.map((line, i) => (
+          <div key={i} className="grid grid-cols-12 gap-2">
+            <select value={line.accountId} onChange={(e) => setLine(i, 'accountId', e.target.value)} className="col-span-4 px-2 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm">
+              <option value="">Account</option>
+              {accounts.filter(a => a.active).map(a => <option key={a.id} value={a.id}>{a.code} {a.name}</option>)}
+            </select>
+            <input value={line.debit} onChange={(e) => setLine(i, 'debit', e.target.value)} type="number" step="0.01" placeholder="Debit" className="col-span-2 px-2 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm" />
+            <input value={line.credit} onChange={(e) => setLine(i, 'credit', e.target.value)} type="number" step="0.01" placeholder="Credit" className="col-span-2 px-2 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm" />
+            <input value={line.flatId} onChange={(e) => setLine(i, 'flatId', e.target.value)} placeholder="Flat" className="col-span-1 px-2 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm" />
+            <input value={line.memo} onChange={(e) => setLine(i, 'memo', e.target.value)} placeholder="Memo" className="col-span-2 px-2 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white text-sm" />
+            <Button type="button" variant="ghost" disabled={lines.length <= 2} onClick={() => setLines(lines.filter((_, j) => j !== i))} className="col-span-1 p-2 text-red-500 hover:bg-red-500/10">
+              <Trash2 size={14} />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center justify-between text-sm">
+          <Button type="button" variant="ghost" onClick={() => setLines([...lines, emptyVoucherLine()])} className="text-xs px-2 py-1 flex items-center gap-1">
+            <Plus size={12} />
+            Add Line
+          </Button>
+          <span className={cn(difference ? "text-rose-400" : "text-slate-400")}>
+            Dr ₹{debits.toLocaleString()} · Cr ₹{credits.toLocaleString()}{difference ? ` · off by ₹${Math.abs(difference).toLocaleString()}` : ''}
+          </span>
+        </div>
+        <Button disabled={loading} className="w-full">{loading ? "Posting..." : "Post Voucher"}</Button>
+      </form>
+    </Card>
+  );
+}
+
+// Accounts are never deleted; the ones automatic postings rely on can't be retyped or retired.
+function ChartOfAccountsCard({ accounts, apiFetch, onChanged, onSelect }: { accounts: Account[], apiFetch: any, onChanged: () => void, onSelect: (account: Account) => void }) {
+  const [loading, setLoading] = useState(false);
+
+  const save = async (account: Account | null, input: unknown) => {
+    const data = checkForm(accountSchema, input);
+    if (!data) return false;
+    const res = await apiFetch(account ? `/api/admin/accounts/${account.id}` : '/api/admin/accounts', {
+      method: account ? 'PUT' : 'POST',
+      body: JSON.stringify(data)
+    });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    onChanged();
+    return result.success;
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    setLoading(true);
+    try {
+      if (await save(null, Object.fromEntries(new FormData(form).entries()))) form.reset();
+    } catch (err) {
+      alert("Failed to open account");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rename = (account: Account) => {
+    const name = prompt(`Rename ${account.code} ${account.name} to`, account.name);
+    if (name !== null && name !== account.name) save(account, { code: account.code, name, type: account.type, active: account.active });
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <h3 className="text-lg font-bold mb-4 text-white">Chart of Accounts</h3>
+      <div className="space-y-4 mb-4 max-h-96 overflow-y-auto">
+        {ACCOUNT_TYPES.map(type => (
+          <div key={type}>
+            <p className="text-xs font-bold uppercase text-slate-500 mb-1">{ACCOUNT_TYPE_LABELS[type]}</p>
+            {accounts.filter(a => a.type === type).map(a => (
+              <div key={a.id} className={cn("flex items-center justify-between py-1.5 text-sm", !a.active && "opacity-50")}>
+                <button onClick={() => onSelect(a)} className="text-left text-white hover:underline">
+                  <span className="text-slate-500 mr-2">{a.code}</span>{a.name}
+                  {(a.charge_head || a.category) && <span className="text-xs text-slate-500"> · {a.charge_head ? `head ${a.charge_head}` : a.category}</span>}
+                </button>
+                <div className="flex items-center gap-2 whitespace-nowrap">
+                  <span className="text-slate-300">₹{a.balance.toLocaleString()}</span>
+                  <button onClick={() => rename(a)} className="text-xs text-slate-400 hover:text-white">Rename</button>
+                  {!a.key && (
+                    <button onClick={() => save(a, { code: a.code, name: a.name, type: a.type, active: !a.active })} className="text-xs text-slate-400 hover:text-white">
+                      {a.active ? 'Retire' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} className="grid grid-cols-4 gap-3">
+        <input name="code" placeholder="Code" className="px-3 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <input name="name" placeholder="Account name" className="col-span-2 px-3 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <select name="type" className="px-3 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+          {ACCOUNT_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <Button disabled={loading} className="col-span-4">{loading ? "Saving..." : "Open Account"}</Button>
+      </form>
+    </Card>
+  );
+}
+
+function AccountLedgerCard({ account, apiFetch, onClose }: { account: Account, apiFetch: any, onClose: () => void }) {
+  const [range, setRange] = useState({ from: `${currentFinancialYear()}-04-01`, to: format(new Date(), 'yyyy-MM-dd') });
+  const [ledger, setLedger] = useState<AccountLedger | null>(null);
+
+  useEffect(() => {
+    const query = new URLSearchParams(Object.entries(range).filter(([, v]) => v));
+    apiFetch(`/api/admin/accounts/${account.id}/ledger?${query}`).then((res: any) => res.json()).then(setLedger);
+  }, [range]);
+
+  const exportCSV = () => {
+    if (!ledger) return;
+    const rows = [
+      ['Date', 'Voucher / Reference', 'Narration', 'Flat', 'Debit', 'Credit', 'Balance'],
+      ['', '', 'Opening balance', '', '', '', ledger.opening],
+      ...ledger.lines.map(l => [formatDay(l.date), l.voucher_no ?? l.reference, l.narration, l.flat_id, l.debit, l.credit, l.balance])
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `ledger_${account.code}_${range.from}_${range.to}.csv`);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">{account.code} {account.name}</h3>
+          {ledger && <p className="text-xs text-slate-400">Opening ₹{ledger.opening.toLocaleString()} · closing ₹{ledger.closing.toLocaleString()}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="date" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <input type="date" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <Button onClick={exportCSV} variant="secondary" disabled={!ledger?.lines.length} className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+            <Download size={14} />
+            Export CSV
+          </Button>
+          <Button variant="ghost" onClick={onClose} className="p-2"><X size={16} /></Button>
+        </div>
+      </div>
+      <div className="overflow-x-auto max-h-96 overflow-y-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="py-3 font-semibold text-slate-400 text-sm">Date</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Narration</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Debit</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Credit</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ledger?.lines.map((l, i) => (
+              <tr key={i} className="border-b border-slate-800/50">
+                <td className="py-2 text-sm text-slate-300 whitespace-nowrap">{formatDay(l.date)}</td>
+                <td className="py-2 text-sm text-white">
+                  {l.narration}
+                  <span className="text-xs text-slate-500"> · {[l.voucher_no ?? l.reference, l.flat_id && `flat ${l.flat_id}`].filter(Boolean).join(' · ') || JOURNAL_SOURCE_LABELS[l.source]}</span>
+                </td>
+                <td className="py-2 text-sm text-slate-300 text-right">{amountCell(l.debit)}</td>
+                <td className="py-2 text-sm text-slate-300 text-right">{amountCell(l.credit)}</td>
+                <td className="py-2 text-sm text-white text-right">₹{l.balance.toLocaleString()}</td>
+              </tr>
+            ))}
+            {ledger?.lines.length === 0 && (
+              <tr><td colSpan={5} className="py-4 text-sm text-slate-400">Nothing posted to this account in the period.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+function TrialBalanceCard({ apiFetch }: { apiFetch: any }) {
+  const [asOf, setAsOf] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<TrialBalance | null>(null);
+
+  useEffect(() => {
+    if (asOf) apiFetch(`/api/admin/trial-balance?asOf=${asOf}`).then((res: any) => res.json()).then(setReport);
+  }, [asOf]);
+
+  const exportCSV = () => {
+    if (!report) return;
+    const rows = [
+      ['Code', 'Account', 'Type', 'Debit', 'Credit'],
+      ...report.rows.map(r => [r.code, r.name, r.type, r.debit || '', r.credit || '']),
+      ['', 'Total', '', report.total_debit, report.total_credit]
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `trial_balance_${report.as_of}.csv`);
+  };
+
+  if (!report) return null;
+  const balanced = Math.abs(report.total_debit - report.total_credit) < 0.005;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Trial Balance</h3>
+          <p className="text-xs text-slate-400">Closing balances at the end of {formatDay(report.as_of)}.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={balanced ? 'success' : 'danger'}>{balanced ? 'Balanced' : 'Out of balance'}</Badge>
+          <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <Button onClick={exportCSV} variant="secondary" disabled={!report.rows.length} className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+            <Download size={14} />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="py-3 font-semibold text-slate-400 text-sm">Code</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Account</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Type</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Debit</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Credit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {report.rows.map(r => (
+              <tr key={r.account_id}>
+                <td className="py-2 text-sm text-slate-400">{r.code}</td>
+                <td className="py-2 text-sm text-white">{r.name}</td>
+                <td className="py-2 text-sm text-slate-400">{ACCOUNT_TYPE_LABELS[r.type]}</td>
+                <td className="py-2 text-sm text-slate-200 text-right">{amountCell(r.debit)}</td>
+                <td className="py-2 text-sm text-slate-200 text-right">{amountCell(r.credit)}</td>
+              </tr>
+            ))}
+            {report.rows.length === 0 && (
+              <tr><td colSpan={5} className="py-4 text-sm text-slate-400">Nothing has been posted by this date.</td></tr>
+            )}
+            {report.rows.length > 0 && (
+              <tr className="font-bold">
+                <td></td>
+                <td className="py-4 text-white">Total</td>
+                <td></td>
+                <td className="py-4 text-white text-right">₹{report.total_debit.toLocaleString()}</td>
+                <td className="py-4 text-white text-right">₹{report.total_credit.toLocaleString()}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+// Vouchers are corrected by reversing them; automatic entries change with their bill, payment or expense.
+function JournalCard({ apiFetch, onChanged }: { apiFetch: any, onChanged: () => void }) {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [filters, setFilters] = useState({ from: '', to: '', source: '' });
+
+  useEffect(() => {
+    const query = new URLSearchParams(Object.entries(filters).filter(([, v]) => v));
+    apiFetch(`/api/admin/journal?${query}`).then((res: any) => res.json()).then(setEntries);
+  }, [filters]);
+
+  const reverse = async (entry: JournalEntry) => {
+    const date = prompt(`Reverse ${entry.voucher_no} as of (yyyy-mm-dd)`, format(new Date(), 'yyyy-MM-dd'));
+    if (date === null) return;
+    const data = checkForm(reverseJournalSchema, { date: date || undefined });
+    if (!data) return;
+    const res = await apiFetch(`/api/admin/journal/${entry.id}/reverse`, {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+    const result = await res.json();
+    alert(result.success ? result.message : describeError(result));
+    onChanged();
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Journal</h3>
+          <p className="text-xs text-slate-400">The latest {entries.length} entries, newest first.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <select value={filters.source} onChange={(e) => setFilters({ ...filters, source: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm">
+            <option value="">All sources</option>
+            {JOURNAL_SOURCES.map(s => <option key={s} value={s}>{JOURNAL_SOURCE_LABELS[s]}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+        {entries.map(entry => (
+          <div key={entry.id} className="p-3 rounded-lg bg-slate-900 border border-slate-800">
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <div>
+                <p className="text-sm text-white">{entry.narration}</p>
+                <p className="text-xs text-slate-500">
+                  {[formatDay(entry.date), entry.voucher_no ?? entry.reference, entry.created_by, entry.reversed_by && `reversed by ${entry.reversed_by}`].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 whitespace-nowrap">
+                <Badge variant={entry.source === 'MANUAL' ? 'info' : 'neutral'}>{JOURNAL_SOURCE_LABELS[entry.source]}</Badge>
+                {entry.source === 'MANUAL' && !entry.reversed_by && !entry.reversal_of && (
+                  <Button variant="ghost" className="text-xs px-2 py-1" onClick={() => reverse(entry)}>Reverse</Button>
+                )}
+              </div>
+            </div>
+            <table className="w-full text-xs">
+              <tbody>
+                {entry.lines.map((l, i) => (
+                  <tr key={i}>
+                    <td className={cn("py-0.5 text-slate-300", l.credit > 0 && "pl-6")}>
+                      {l.code} {l.account}{l.flat_id && <span className="text-slate-500"> · flat {l.flat_id}</span>}{l.memo && <span className="text-slate-500"> · {l.memo}</span>}
+                    </td>
+                    <td className="py-0.5 text-right text-slate-300 w-28">{amountCell(l.debit)}</td>
+                    <td className="py-0.5 text-right text-slate-300 w-28">{amountCell(l.credit)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+        {entries.length === 0 && <p className="text-sm text-slate-400">No journal entries match.</p>}
+      </div>
+    </Card>
+  );
+}
+
+function AdminAlertsView({ apiFetch }: { apiFetch: any }) {
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const data = checkForm(alertSchema, Object.fromEntries(formData.entries()));
+    if (!data) return;
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/admin/alerts', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      alert("Alert sent successfully!");
+      (e.target as HTMLFormElement).reset();
+    } catch (err) {
+      alert("Failed to send alert");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <Card className="p-8">
+        <h3 className="text-xl font-bold mb-6 text-white">Create Emergency Alert</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Target Tower</label>
+              <select name="tower" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white">
+                <option value="All">All Towers</option>
+                <option value="A">Tower A</option>
+                <option value="B">Tower B</option>
+                <option value="C">Tower C</option>
+                <option value="D">Tower D</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Severity</label>
+              <select name="severity" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white">
+                <option value="Low">Low</option>
+                <option value="Medium">Medium</option>
+                <option value="High">High</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Alert Title</label>
+            <input name="title" required type="text" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" placeholder="e.g., Water Supply Interruption" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Message</label>
+            <textarea name="message" required rows={4} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" placeholder="Detailed message for residents..." />
+          </div>
+          <Button disabled={loading} className="w-full py-3">
+            {loading ? "Sending..." : "Broadcast Alert"}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
+
+function AdminEventsView({ apiFetch }: { apiFetch: any }) {
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/events').then((res: any) => res.json()).then(setEvents);
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const data = checkForm(eventSchema, Object.fromEntries(formData.entries()));
+    if (!data) return;
+    setLoading(true);
+
+    try {
+      const created = await apiFetch('/api/admin/events', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await created.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      const res = await apiFetch('/api/events');
+      const newEvents = await res.json();
+      setEvents(newEvents);
+      (e.target as HTMLFormElement).reset();
+    } catch (err) {
+      alert("Failed to create event");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="p-6 lg:col-span-1 h-fit">
+        <h3 className="text-lg font-bold mb-4 text-white">Add New Event</h3>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Event Title</label>
+            <input name="title" required type="text" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Date</label>
+            <input name="date" required type="date" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Description</label>
+            <textarea name="description" required rows={3} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white" />
+          </div>
+          <Button disabled={loading} className="w-full">
+            {loading ? "Creating..." : "Create Event"}
+          </Button>
+        </form>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-4">
+        <h3 className="text-lg font-bold text-white">Upcoming Events</h3>
+        {events.map(event => (
+          <Card key={event.id} className="p-4 flex items-center gap-6">
+            <div className="w-16 h-16 bg-red-900/20 rounded-xl flex flex-col items-center justify-center text-red-400 shrink-0">
+              <span className="text-xs font-bold uppercase">{format(new Date(event.date), 'MMM')}</span>
+              <span className="text-xl font-black">{format(new Date(event.date), 'dd')}</span>
+            </div>
+            <div className="flex-1">
+              <h4 className="font-bold text-white">{event.title}</h4>
+              <p className="text-sm text-slate-400 line-clamp-1">{event.description}</p>
+            </div>
+          </Card>
+        ))}
+        {events.length === 0 && <p className="text-center py-12 text-slate-400">No events scheduled.</p>}
       </div>
     </div>
   );
@@ -1054,14 +3687,51 @@ function AdminEventsView({ apiFetch }: { apiFetch: any }) {
 
 function AdminLogsView({ apiFetch }: { apiFetch: any }) {
   const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [filters, setFilters] = useState({ userId: '', action: '', from: '', to: '' });
+  const [options, setOptions] = useState<{ actions: string[], users: { id: number, name: string }[] }>({ actions: [], users: [] });
+  const [loading, setLoading] = useState(false);
+
+  const fetchPage = async (cursor: number | null) => {
+    setLoading(true);
+    const params = new URLSearchParams(Object.entries(filters).filter(([, v]) => v));
+    if (cursor) params.set('cursor', String(cursor));
+    try {
+      const res = await apiFetch(`/api/admin/logs?${params}`);
+      const data = await res.json();
+      setLogs(prev => cursor ? [...prev, ...data.logs] : data.logs);
+      setNextCursor(data.nextCursor);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   useEffect(() => {
-    apiFetch('/api/admin/logs').then((res: any) => res.json()).then(setLogs);
+    apiFetch('/api/admin/logs/filters').then((res: any) => res.json()).then(setOptions);
   }, []);
 
+  useEffect(() => {
+    fetchPage(null);
+  }, [filters]);
+
+  const setFilter = (key: keyof typeof filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters({ ...filters, [key]: e.target.value });
+
   return (
     <Card className="p-6">
       <h3 className="text-lg font-bold mb-6 text-white">System Activity Logs</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <select value={filters.userId} onChange={setFilter('userId')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white text-sm">
+          <option value="">All Users</option>
+          {options.users.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <select value={filters.action} onChange={setFilter('action')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white text-sm">
+          <option value="">All Actions</option>
+          {options.actions.map(a => <option key={a} value={a}>{a}</option>)}
+        </select>
+        <input type="date" value={filters.from} onChange={setFilter('from')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white text-sm" />
+        <input type="date" value={filters.to} onChange={setFilter('to')} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white text-sm" />
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full text-left">
           <thead>
@@ -1069,6 +3739,7 @@ function AdminLogsView({ apiFetch }: { apiFetch: any }) {
               <th className="py-3 font-semibold text-slate-400 text-sm">Timestamp</th>
               <th className="py-3 font-semibold text-slate-400 text-sm">User</th>
               <th className="py-3 font-semibold text-slate-400 text-sm">Action</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Target</th>
               <th className="py-3 font-semibold text-slate-400 text-sm">Details</th>
             </tr>
           </thead>
@@ -1080,210 +3751,971 @@ function AdminLogsView({ apiFetch }: { apiFetch: any }) {
                 <td className="py-4">
                   <Badge variant="info">{log.action}</Badge>
                 </td>
+                <td className="py-4 text-sm text-slate-300">{log.target ?? '-'}</td>
                 <td className="py-4 text-sm text-slate-200">{log.details}</td>
               </tr>
             ))}
           </tbody>
         </table>
       </div>
-      <div className="mt-6 flex justify-center">
-        <Button variant="secondary" className="text-sm bg-slate-800 text-slate-200 hover:bg-slate-700">Load More Logs</Button>
+      {logs.length === 0 && !loading && <p className="text-center py-12 text-slate-400">No activity matches these filters.</p>}
+      {nextCursor && (
+        <div className="mt-6 flex justify-center">
+          <Button onClick={() => fetchPage(nextCursor)} disabled={loading} variant="secondary" className="text-sm bg-slate-800 text-slate-200 hover:bg-slate-700">
+            {loading ? "Loading..." : "Load More Logs"}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function AdminReportsView({ apiFetch }: { apiFetch: any }) {
+  // Months as yyyy-MM; left empty the server reports the last twelve months
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [report, setReport] = useState<FinanceReport | null>(null);
+
+  useEffect(() => {
+    const query = new URLSearchParams(Object.entries(range).filter(([, v]) => v));
+    apiFetch(`/api/admin/reports/finance?${query}`).then(async (res: any) => {
+      const body = await res.json();
+      if (res.ok) setReport(body); else alert(describeError(body));
+    });
+  }, [range.from, range.to]);
+
+  const COLORS = ['#ef4444', '#f87171', '#fca5a5', '#fecaca', '#fee2e2', '#94a3b8', '#64748b', '#475569'];
+
+  const exportCSV = () => {
+    if (!report) return;
+    const rows = [
+      ['Month', 'Income', 'Expense', 'Net'],
+      ...report.months.map(m => [m.month, m.income, m.expense, Math.round((m.income - m.expense) * 100) / 100]),
+      ['Total', report.total_income, report.total_expense, Math.round((report.total_income - report.total_expense) * 100) / 100],
+      [],
+      ['Category', 'Expenses', 'Amount', 'Share %'],
+      ...report.by_category.map(c => [c.category, c.expenses, c.amount, Math.round(c.amount / report.total_expense * 1000) / 10])
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `financial_report_${report.from}_${report.to}.csv`);
+  };
+
+  if (!report) return null;
+
+  const chartData = report.months.map(m => ({ name: format(new Date(`${m.period}-01T00:00`), 'MMM yy'), income: m.income, expense: m.expense }));
+  const pieData = report.by_category.map(c => ({ name: c.category, value: c.amount }));
+  const net = Math.round((report.total_income - report.total_expense) * 100) / 100;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-slate-400">
+          {periodLabel(report.from)} to {periodLabel(report.to)}: collected ₹{report.total_income.toLocaleString()}, spent ₹{report.total_expense.toLocaleString()},
+          <span className={cn("font-bold", net < 0 ? "text-rose-500" : "text-emerald-500")}> net {net < 0 ? '-' : '+'}₹{Math.abs(net).toLocaleString()}</span>
+        </p>
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <input type="month" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          to
+          <input type="month" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="p-6">
+          <h3 className="text-lg font-bold mb-6 text-white">Income vs Expense</h3>
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
+                <XAxis dataKey="name" stroke="#94a3b8" />
+                <YAxis stroke="#94a3b8" />
+                <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '8px', color: '#fff' }} />
+                <Legend />
+                <Line type="monotone" dataKey="income" stroke="#ef4444" strokeWidth={3} dot={{ r: 6 }} />
+                <Line type="monotone" dataKey="expense" stroke="#94a3b8" strokeWidth={3} dot={{ r: 6 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card className="p-6">
+          <h3 className="text-lg font-bold mb-6 text-white">Expense Distribution</h3>
+          <div className="h-80 flex flex-col items-center justify-center">
+            {pieData.length === 0 ? (
+              <p className="text-sm text-slate-400">No expenses recorded in this period.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={pieData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={60}
+                    outerRadius={100}
+                    paddingAngle={5}
+                    dataKey="value"
+                  >
+                    {pieData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '8px', color: '#fff' }} />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold text-white">Financial Summary</h3>
+          <Button onClick={exportCSV} variant="secondary" className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+            <Download size={14} />
+            Export CSV
+          </Button>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-800">
+                <th className="py-3 font-semibold text-slate-400 text-sm">Category</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Expenses</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm">Actual</th>
+                <th className="py-3 font-semibold text-slate-400 text-sm text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {report.by_category.map(c => (
+                <tr key={c.category_id}>
+                  <td className="py-4 font-medium text-white">{c.category}</td>
+                  <td className="py-4 text-slate-200">{c.expenses}</td>
+                  <td className="py-4 text-slate-200">₹{c.amount.toLocaleString()}</td>
+                  <td className="py-4 text-slate-200 text-right">{(c.amount / report.total_expense * 100).toFixed(1)}%</td>
+                </tr>
+              ))}
+              {report.by_category.length === 0 && (
+                <tr><td colSpan={4} className="py-4 text-sm text-slate-400">Record expenses under Expenses to see where the money goes.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      <BudgetVsActualCard apiFetch={apiFetch} />
+
+      <BudgetAlertsCard apiFetch={apiFetch} />
+
+      <TaxSummaryCard apiFetch={apiFetch} />
+    </div>
+  );
+}
+
+const BUDGET_STATUS_BADGES: Record<BudgetReport['rows'][number]['status'], { label: string, variant: 'success' | 'warning' | 'danger' | 'neutral' }> = {
+  UNDER: { label: 'On track', variant: 'success' },
+  WARNING: { label: 'Near limit', variant: 'warning' },
+  OVER: { label: 'Over', variant: 'danger' },
+  UNBUDGETED: { label: 'No budget', variant: 'neutral' }
+};
+
+const currentFinancialYear = () => financialYearOf(format(new Date(), 'yyyy-MM'));
+const shortMonth = (period: string) => format(new Date(`${period}-01T00:00`), 'MMM');
+
+// Committee budgets per expense category against what was actually spent; each row opens up into
+// its month-by-month figures and the expenses behind them.
+function BudgetVsActualCard({ apiFetch }: { apiFetch: any }) {
+  const [year, setYear] = useState(currentFinancialYear());
+  const [report, setReport] = useState<BudgetReport | null>(null);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [open, setOpen] = useState<number | null>(null);
+  const [planning, setPlanning] = useState(false);
+
+  const load = () => {
+    apiFetch(`/api/admin/budgets/report?year=${year}`).then((res: any) => res.json()).then(setReport);
+    apiFetch(`/api/admin/budgets?year=${year}`).then((res: any) => res.json()).then(setBudgets);
+  };
+
+  useEffect(load, [year]);
+
+  const exportCSV = () => {
+    if (!report) return;
+    const rows = [
+      ['Category', 'Annual Budget', 'Budget to Date', 'Actual', 'Variance', 'Used %', 'Status'],
+      ...report.rows.map(r => [r.category, r.annual, r.budget, r.actual, r.variance, r.used_percent, BUDGET_STATUS_BADGES[r.status].label]),
+      ['Total', report.totals.annual, report.totals.budget, report.totals.actual, report.totals.variance, '', '']
+    ];
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `budget_vs_actual_${report.label.replace(/\s+/g, '_')}.csv`);
+  };
+
+  if (!report) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Budget vs Actual</h3>
+          <p className="text-xs text-slate-400">
+            {report.through ? `${report.label} to the end of ${periodLabel(report.through)}.` : `${report.label} hasn't started yet.`} Click a category for its expenses.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={year} onChange={(e) => { setYear(Number(e.target.value)); setOpen(null); }} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm">
+            {[-2, -1, 0, 1].map(offset => currentFinancialYear() + offset).map(y => <option key={y} value={y}>{financialYearLabel(y)}</option>)}
+          </select>
+          <Button variant="secondary" onClick={() => setPlanning(!planning)} className="text-xs px-3 py-1.5">
+            {planning ? 'Close Planner' : 'Plan Budget'}
+          </Button>
+          <Button onClick={exportCSV} variant="secondary" disabled={!report.rows.length} className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+            <Download size={14} />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+      {planning && <BudgetPlanner year={year} budgets={budgets} apiFetch={apiFetch} onChanged={load} />}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-slate-800">
+              <th className="py-3 font-semibold text-slate-400 text-sm">Category</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Annual</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Budgeted</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Actual</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm">Variance</th>
+              <th className="py-3 font-semibold text-slate-400 text-sm text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {report.rows.map(row => (
+              <ReportRow
+                key={row.category_id}
+                row={row}
+                year={year}
+                open={open === row.category_id}
+                onToggle={() => setOpen(open === row.category_id ? null : row.category_id)}
+                apiFetch={apiFetch}
+              />
+            ))}
+            {report.rows.length === 0 && (
+              <tr><td colSpan={6} className="py-4 text-sm text-slate-400">No budgets or expenses for {report.label} yet.</td></tr>
+            )}
+            {report.rows.length > 0 && (
+              <tr className="font-bold">
+                <td className="py-4 text-white">Total</td>
+                <td className="py-4 text-slate-200">₹{report.totals.annual.toLocaleString()}</td>
+                <td className="py-4 text-slate-200">₹{report.totals.budget.toLocaleString()}</td>
+                <td className="py-4 text-slate-200">₹{report.totals.actual.toLocaleString()}</td>
+                <td className={cn("py-4", report.totals.variance > 0 ? "text-rose-500" : "text-emerald-500")}>
+                  {report.totals.variance > 0 ? "+" : ""}₹{report.totals.variance.toLocaleString()}
+                </td>
+                <td></td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </Card>
+  );
+}
+
+function ReportRow({ row, year, open, onToggle, apiFetch }: { row: BudgetReport['rows'][number], year: number, open: boolean, onToggle: () => void, apiFetch: any }) {
+  const isOver = row.variance > 0;
+  const badge = BUDGET_STATUS_BADGES[row.status];
+
+  return (
+    <>
+      <tr onClick={onToggle} className="cursor-pointer hover:bg-slate-800/50">
+        <td className="py-4 font-medium text-white flex items-center gap-1">
+          <ChevronRight size={14} className={cn("text-slate-500 transition-transform", open && "rotate-90")} />
+          {row.category}
+        </td>
+        <td className="py-4 text-slate-200">₹{row.annual.toLocaleString()}</td>
+        <td className="py-4 text-slate-200">₹{row.budget.toLocaleString()}</td>
+        <td className="py-4 text-slate-200">₹{row.actual.toLocaleString()}{row.used_percent !== null && <span className="text-xs text-slate-500"> · {row.used_percent}%</span>}</td>
+        <td className={cn("py-4 font-bold", isOver ? "text-rose-500" : "text-emerald-500")}>
+          {isOver ? "+" : ""}₹{row.variance.toLocaleString()}
+        </td>
+        <td className="py-4 text-right">
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </td>
+      </tr>
+      {open && (
+        <tr>
+          <td colSpan={6} className="pb-4">
+            <BudgetDrillDown row={row} year={year} apiFetch={apiFetch} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function BudgetDrillDown({ row, year, apiFetch }: { row: BudgetReport['rows'][number], year: number, apiFetch: any }) {
+  const [expenses, setExpenses] = useState<Expense[] | null>(null);
+
+  useEffect(() => {
+    apiFetch(`/api/admin/expenses?categoryId=${row.category_id}&from=${year}-04-01&to=${year + 1}-03-31`).then((res: any) => res.json()).then(setExpenses);
+  }, [row.category_id, year]);
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-900 border border-slate-700 space-y-4">
+      <div className="grid grid-cols-6 md:grid-cols-12 gap-2 text-center">
+        {row.months.map(m => (
+          <div key={m.period} className="text-xs">
+            <p className="text-slate-500">{shortMonth(m.period)}</p>
+            <p className={cn("font-bold", m.actual > m.budget ? "text-rose-500" : "text-white")}>₹{m.actual.toLocaleString()}</p>
+            <p className="text-slate-500">of ₹{m.budget.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+      {!expenses ? (
+        <p className="text-xs text-slate-400">Loading expenses...</p>
+      ) : expenses.length === 0 ? (
+        <p className="text-xs text-slate-400">No expenses recorded under {row.category} in {financialYearLabel(year)}.</p>
+      ) : (
+        <table className="w-full text-left text-sm">
+          <tbody className="divide-y divide-slate-800">
+            {expenses.map(x => (
+              <tr key={x.id}>
+                <td className="py-2 text-slate-400">{format(new Date(`${x.spent_on}T00:00`), 'dd MMM yyyy')}</td>
+                <td className="py-2 text-white">{x.description}{x.vendor && <span className="text-slate-500"> · {x.vendor}</span>}</td>
+                <td className="py-2 text-slate-400">{x.mode}{x.reference && ` · ${x.reference}`}</td>
+                <td className="py-2 text-white text-right">₹{x.amount.toLocaleString()}</td>
+                <td className="py-2 text-right">
+                  {x.bill_file && (
+                    <button onClick={() => downloadFile(apiFetch, `/api/admin/expenses/${x.id}/bill`)} className="text-xs text-red-400 hover:underline">
+                      <Paperclip size={12} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function BudgetPlanner({ year, budgets, apiFetch, onChanged }: { year: number, budgets: Budget[], apiFetch: any, onChanged: () => void }) {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [categoryId, setCategoryId] = useState('');
+  const [split, setSplit] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    apiFetch('/api/admin/expense-categories').then((res: any) => res.json()).then(setCategories);
+  }, []);
+
+  const existing = budgets.find(b => b.category_id === Number(categoryId));
+  const periods = financialYearPeriods(year);
+
+  const pick = (id: string) => {
+    setCategoryId(id);
+    const budget = budgets.find(b => b.category_id === Number(id));
+    // Budgets that aren't the server's even split open with their months showing
+    setSplit(!!budget && budget.monthly.slice(0, 11).some(m => m !== Math.floor(budget.annual / 12)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fields = Object.fromEntries(new FormData(e.currentTarget).entries());
+    const monthly = split ? periods.map((_, i) => Number(fields[`month${i}`] || 0)) : undefined;
+    const data = checkForm(budgetSchema, {
+      year,
+      categoryId,
+      annual: monthly ? monthly.reduce((sum, m) => sum + m, 0) : fields.annual,
+      monthly
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/budgets', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      if (result.budget_alerts.length) alert(result.budget_alerts.join('\n'));
+      setCategoryId('');
+      setSplit(false);
+      onChanged();
+    } catch (err) {
+      alert("Failed to save budget");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const remove = async (budget: Budget) => {
+    if (!confirm(`Remove the ${budget.category} budget for ${financialYearLabel(year)}?`)) return;
+    const res = await apiFetch(`/api/admin/budgets/${budget.id}`, { method: 'DELETE' });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    onChanged();
+  };
+
+  const copyPrevious = async () => {
+    const answer = prompt(`Copy ${financialYearLabel(year - 1)} budgets into ${financialYearLabel(year)}, changed by what percentage?`, '0');
+    if (answer === null) return;
+    const data = checkForm(copyBudgetsSchema, { fromYear: year - 1, toYear: year, increasePercent: answer });
+    if (!data) return;
+    const res = await apiFetch('/api/admin/budgets/copy', {
+      method: 'POST',
+      body: JSON.stringify(data)
+    });
+    const result = await res.json();
+    alert(result.success ? result.message : describeError(result));
+    onChanged();
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-slate-900 border border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-bold text-white">{financialYearLabel(year)} budget</p>
+        <Button variant="ghost" onClick={copyPrevious} className="text-xs px-2 py-1">Copy from {financialYearLabel(year - 1)}</Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {budgets.map(b => (
+          <div key={b.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-sm">
+            <button onClick={() => pick(String(b.category_id))} className="text-white hover:underline">{b.category}</button>
+            <span className="text-xs text-slate-400">₹{b.annual.toLocaleString()}</span>
+            <button onClick={() => remove(b)} className="text-slate-500 hover:text-red-400"><X size={12} /></button>
+          </div>
+        ))}
+        {budgets.length === 0 && <p className="text-xs text-slate-400">No budgets set for this year.</p>}
+      </div>
+      <form key={`${categoryId}-${existing?.updated_at}`} onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-3 gap-3">
+          <select value={categoryId} onChange={(e) => pick(e.target.value)} className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white">
+            <option value="">Category</option>
+            {categories.filter(c => c.active || c.id === existing?.category_id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <input name="annual" type="number" step="0.01" disabled={split} defaultValue={existing?.annual} placeholder="Annual budget (₹)" className="px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-800 text-white disabled:opacity-50" />
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={split} onChange={(e) => setSplit(e.target.checked)} />
+            Set each month
+          </label>
+        </div>
+        {split && (
+          <div className="grid grid-cols-4 md:grid-cols-6 gap-2">
+            {periods.map((period, i) => (
+              <label key={period} className="text-xs text-slate-400">
+                {shortMonth(period)}
+                <input name={`month${i}`} type="number" step="0.01" defaultValue={existing?.monthly[i]} className="w-full mt-1 px-2 py-1 border border-slate-700 rounded outline-none bg-slate-800 text-white" />
+              </label>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-slate-500">Without monthly figures the annual budget is spread evenly from April to March.</p>
+        <Button disabled={loading || !categoryId} className="w-full">{loading ? "Saving..." : existing ? "Update Budget" : "Set Budget"}</Button>
+      </form>
+    </div>
+  );
+}
+
+function BudgetAlertsCard({ apiFetch }: { apiFetch: any }) {
+  const [policy, setPolicy] = useState<BudgetPolicy | null>(null);
+  const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = () => {
+    apiFetch('/api/admin/budget-alerts?status=OPEN').then((res: any) => res.json()).then(setAlerts);
+  };
+
+  useEffect(() => {
+    apiFetch('/api/admin/budget-policy').then((res: any) => res.json()).then(setPolicy);
+    load();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const data = checkForm(budgetPolicySchema, { alertPercent: form.get('alertPercent'), emailAdmins: form.get('emailAdmins') === 'on' });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/admin/budget-policy', {
+        method: 'PUT',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      setPolicy(result.policy);
+    } catch (err) {
+      alert("Failed to save budget alerts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const acknowledge = async (id: number) => {
+    const res = await apiFetch(`/api/admin/budget-alerts/${id}/acknowledge`, { method: 'POST' });
+    const result = await res.json();
+    if (!result.success) alert(describeError(result));
+    load();
+  };
+
+  if (!policy) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Budget Alerts</h3>
+          <p className="text-xs text-slate-400">Raised when a category's spending for the year, or for a month, reaches the threshold and again when it goes over.</p>
+        </div>
+        <form key={policy.updated_at} onSubmit={handleSubmit} className="flex items-center gap-3 text-sm text-slate-300">
+          <label className="flex items-center gap-2">
+            Warn at
+            <input name="alertPercent" type="number" defaultValue={policy.alert_percent} className="w-16 px-2 py-1 border border-slate-700 rounded outline-none bg-slate-800 text-white" />
+            %
+          </label>
+          <label className="flex items-center gap-2">
+            <input name="emailAdmins" type="checkbox" defaultChecked={policy.email_admins} />
+            Email admins
+          </label>
+          <Button disabled={loading} variant="secondary" className="text-xs px-3 py-1">Save</Button>
+        </form>
+      </div>
+      <div className="space-y-2">
+        {alerts.map(a => (
+          <div key={a.id} className="flex items-center justify-between p-3 rounded-lg bg-slate-900 border border-slate-700">
+            <div>
+              <p className="text-sm text-white">
+                <Badge variant={a.level === 'OVER' ? 'danger' : 'warning'}>{a.level === 'OVER' ? 'Over' : 'Near limit'}</Badge>
+                <span className="ml-2 font-bold">{a.category}</span> · {a.scope === 'YEAR' ? financialYearLabel(a.year) : periodLabel(a.scope)}
+              </p>
+              <p className="text-xs text-slate-400">₹{a.actual.toLocaleString()} spent against ₹{a.budget.toLocaleString()} · {format(new Date(a.created_at), 'dd MMM yyyy')}</p>
+            </div>
+            <Button variant="ghost" onClick={() => acknowledge(a.id)} className="text-xs px-2 py-1">Acknowledge</Button>
+          </div>
+        ))}
+        {alerts.length === 0 && <p className="text-sm text-slate-400">No open alerts.</p>}
       </div>
     </Card>
   );
 }
 
-function AdminReportsView({ apiFetch }: { apiFetch: any }) {
-  const data = [
-    { name: 'Jan', income: 168000, expense: 120000 },
-    { name: 'Feb', income: 168000, expense: 135000 },
-    { name: 'Mar', income: 168000, expense: 142000 },
-    { name: 'Apr', income: 168000, expense: 158000 },
-  ];
-
-  const pieData = [
-    { name: 'Security', value: 45000 },
-    { name: 'Maintenance', value: 35000 },
-    { name: 'Utilities', value: 25000 },
-    { name: 'Landscaping', value: 15000 },
-  ];
-
-  const COLORS = ['#ef4444', '#f87171', '#fca5a5', '#fee2e2'];
+// The month's outward supplies, invoice by invoice, in the shape the GST return asks for.
+function TaxSummaryCard({ apiFetch }: { apiFetch: any }) {
+  const [period, setPeriod] = useState(format(new Date(), 'yyyy-MM'));
+  const [summary, setSummary] = useState<TaxSummary | null>(null);
+
+  useEffect(() => {
+    apiFetch(`/api/admin/tax/summary?period=${period}`).then((res: any) => res.json()).then(setSummary);
+  }, [period]);
 
   const exportCSV = () => {
-    const headers = ["Category", "Budgeted", "Actual", "Variance", "Status"];
+    if (!summary) return;
     const rows = [
-      ["Security Services", 45000, 45000, 0, "Under"],
-      ["Electrical Maintenance", 15000, 18500, 3500, "Over"],
-      ["Water Supply", 20000, 19200, -800, "Under"],
-      ["Cleaning & Hygiene", 12000, 12000, 0, "Under"]
+      ['Document', 'Document No', 'Date', 'Flat', 'Against Invoice', 'Taxable Value', 'Exempt Value', 'CGST', 'SGST', 'Value'],
+      ...summary.invoices.map(i => [
+        'Invoice', i.invoice_no, format(new Date(i.invoice_date), 'dd-MM-yyyy'), i.flat_id, '', i.taxable_value, i.exempt_value, i.cgst, i.sgst, i.total
+      ]),
+      ...summary.notes.map(n => [
+        n.kind === 'DEBIT_NOTE' ? 'Debit Note' : 'Credit Note', n.document_no, format(new Date(n.note_date), 'dd-MM-yyyy'), n.flat_id, n.invoice_no,
+        n.taxable_value, n.exempt_value, n.cgst, n.sgst, n.total
+      ]),
+      ['Total', '', '', '', '', summary.totals.taxable_value, summary.totals.exempt_value, summary.totals.cgst, summary.totals.sgst, summary.totals.gross]
     ];
-    
-    let csvContent = "data:text/csv;charset=utf-8," 
-      + headers.join(",") + "\n"
-      + rows.map(e => e.join(",")).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `financial_report_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    saveFile(new Blob([toCsv(rows)], { type: 'text/csv' }), `gst_summary_${period}.csv`);
   };
 
   return (
-    <div className="space-y-6">
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <Card className="p-6">
-          <h3 className="text-lg font-bold mb-6 text-white">Income vs Expense</h3>
-          <div className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={data}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#334155" />
-                <XAxis dataKey="name" stroke="#94a3b8" />
-                <YAxis stroke="#94a3b8" />
-                <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '8px', color: '#fff' }} />
-                <Legend />
-                <Line type="monotone" dataKey="income" stroke="#ef4444" strokeWidth={3} dot={{ r: 6 }} />
-                <Line type="monotone" dataKey="expense" stroke="#94a3b8" strokeWidth={3} dot={{ r: 6 }} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </Card>
-
-        <Card className="p-6">
-          <h3 className="text-lg font-bold mb-6 text-white">Expense Distribution</h3>
-          <div className="h-80 flex flex-col items-center">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={pieData}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={60}
-                  outerRadius={100}
-                  paddingAngle={5}
-                  dataKey="value"
-                >
-                  {pieData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                  ))}
-                </Pie>
-                <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #1e293b', borderRadius: '8px', color: '#fff' }} />
-                <Legend />
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
-        </Card>
-      </div>
-
-      <Card className="p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h3 className="text-lg font-bold text-white">Financial Summary</h3>
-          <Button onClick={exportCSV} variant="secondary" className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4 gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">GST Summary</h3>
+          {summary?.gstin && <p className="text-xs text-slate-400">GSTIN {summary.gstin} · SAC {summary.sac_code}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <Button onClick={exportCSV} variant="secondary" disabled={!summary?.invoices.length && !summary?.notes.length} className="flex items-center gap-2 text-xs bg-slate-800 text-slate-300 hover:bg-slate-700">
             <Download size={14} />
             Export CSV
           </Button>
         </div>
-        <div className="overflow-x-auto">
-          <table className="w-full text-left">
-            <thead>
-              <tr className="border-b border-slate-800">
-                <th className="py-3 font-semibold text-slate-400 text-sm">Category</th>
-                <th className="py-3 font-semibold text-slate-400 text-sm">Budgeted</th>
-                <th className="py-3 font-semibold text-slate-400 text-sm">Actual</th>
-                <th className="py-3 font-semibold text-slate-400 text-sm">Variance</th>
-                <th className="py-3 font-semibold text-slate-400 text-sm text-right">Status</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-800">
-              <ReportRow category="Security Services" budgeted={45000} actual={45000} />
-              <ReportRow category="Electrical Maintenance" budgeted={15000} actual={18500} />
-              <ReportRow category="Water Supply" budgeted={20000} actual={19200} />
-              <ReportRow category="Cleaning & Hygiene" budgeted={12000} actual={12000} />
-            </tbody>
-          </table>
+      </div>
+      {summary && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+            {([
+              ['Taxable Value', summary.totals.taxable_value],
+              ['Exempt Value', summary.totals.exempt_value],
+              ['CGST', summary.totals.cgst],
+              ['SGST', summary.totals.sgst],
+              ['Total Tax', summary.totals.total_tax]
+            ] as [string, number][]).map(([label, value]) => (
+              <div key={label} className="p-3 bg-slate-800 rounded-lg">
+                <p className="text-lg font-black text-white">₹{value.toLocaleString()}</p>
+                <p className="text-xs text-slate-400">{label}</p>
+              </div>
+            ))}
+          </div>
+          {summary.by_head.length > 0 && (
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-slate-800">
+                  <th className="py-2 font-semibold text-slate-400">Head</th>
+                  <th className="py-2 font-semibold text-slate-400 text-right">Taxable</th>
+                  <th className="py-2 font-semibold text-slate-400 text-right">Exempt</th>
+                  <th className="py-2 font-semibold text-slate-400 text-right">CGST</th>
+                  <th className="py-2 font-semibold text-slate-400 text-right">SGST</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {summary.by_head.map(h => (
+                  <tr key={h.head}>
+                    <td className="py-2 text-white">{h.head}</td>
+                    <td className="py-2 text-slate-300 text-right">₹{h.taxable_value.toLocaleString()}</td>
+                    <td className="py-2 text-slate-300 text-right">₹{h.exempt_value.toLocaleString()}</td>
+                    <td className="py-2 text-slate-300 text-right">₹{h.cgst.toLocaleString()}</td>
+                    <td className="py-2 text-slate-300 text-right">₹{h.sgst.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-400">
+            {summary.totals.invoices} invoices{summary.totals.notes > 0 && ` and ${summary.totals.notes} credit/debit notes`} in {periodLabel(period)}, ₹{summary.totals.gross.toLocaleString()} including tax.
+            {summary.by_rate.filter(r => r.rate > 0).map(r => ` ${r.rate}%: ₹${r.taxable_value.toLocaleString()} taxable.`).join('')}
+          </p>
         </div>
-      </Card>
-    </div>
+      )}
+    </Card>
   );
 }
 
-function ReportRow({ category, budgeted, actual }: { category: string, budgeted: number, actual: number }) {
-  const variance = actual - budgeted;
-  const isOver = variance > 0;
-
-  return (
-    <tr>
-      <td className="py-4 font-medium text-white">{category}</td>
-      <td className="py-4 text-slate-200">₹{budgeted.toLocaleString()}</td>
-      <td className="py-4 text-slate-200">₹{actual.toLocaleString()}</td>
-      <td className={cn("py-4 font-bold", isOver ? "text-rose-500" : "text-emerald-500")}>
-        {isOver ? "+" : ""}₹{variance.toLocaleString()}
-      </td>
-      <td className="py-4 text-right">
-        <Badge variant={isOver ? 'danger' : 'success'}>{isOver ? 'Over' : 'Under'}</Badge>
-      </td>
-    </tr>
-  );
-}
+function ResidentBillsView({ user, apiFetch }: { user: User, apiFetch: any }) {
+  const [bills, setBills] = useState<Bill[] | null>(null);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [paying, setPaying] = useState(false);
+  const [credit, setCredit] = useState(0);
 
-// --- Resident Views ---
+  const load = () => {
+    apiFetch('/api/resident/bills').then((res: any) => res.json()).then(setBills);
+    apiFetch('/api/resident/payments').then((res: any) => res.json()).then(setPayments);
+    apiFetch('/api/resident/wallet').then((res: any) => res.json()).then((w: FlatWallet) => setCredit(w.credit ?? 0));
+  };
 
-function ResidentBillsView({ user, apiFetch }: { user: User, apiFetch: any }) {
-  const [data, setData] = useState<any>(null);
+  useEffect(load, [user]);
 
-  useEffect(() => {
-    apiFetch('/api/resident/dashboard').then((res: any) => res.json()).then(setData);
-  }, [user]);
+  if (!bills) return <p className="text-white">Loading...</p>;
 
-  if (!data) return <p className="text-white">Loading...</p>;
+  const unpaid = bills.filter(b => b.status !== 'PAID');
+  const outstanding = unpaid.reduce((sum, b) => sum + b.balance, 0);
+  const outstandingPenalty = unpaid.reduce((sum, b) => sum + b.penalty, 0);
 
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Card className="p-6 md:col-span-1 bg-red-600 text-white border-none shadow-lg shadow-red-900/20">
+        <div className="md:col-span-1 space-y-6">
+        <Card className="p-6 bg-red-600 text-white border-none shadow-lg shadow-red-900/20">
           <p className="text-xs opacity-70 uppercase font-bold">Current Outstanding</p>
-          <h3 className="text-4xl font-black mt-2">₹{data.flat.maintenance_status === 'Unpaid' ? '1,500' : '0'}</h3>
+          <h3 className="text-4xl font-black mt-2">₹{outstanding.toLocaleString()}</h3>
+          {outstandingPenalty > 0 && (
+            <p className="text-xs opacity-80 mt-1">
+              Includes ₹{outstandingPenalty.toLocaleString()} in late fees &amp; interest
+            </p>
+          )}
+          {credit > 0 && (
+            <p className="text-xs opacity-80 mt-1">₹{credit.toLocaleString()} advance credit, applied to your next bills</p>
+          )}
           <p className="text-sm opacity-80 mt-4">Flat {user.flat_id}</p>
           <p className="text-sm opacity-80">{user.name}</p>
-          {data.flat.maintenance_status === 'Unpaid' && (
-            <Button variant="secondary" className="w-full mt-6 bg-white text-red-600 font-bold hover:bg-slate-100">Pay Now</Button>
-          )}
+          <Button variant="secondary" onClick={() => setPaying(!paying)} className="w-full mt-6 bg-white text-red-600 font-bold hover:bg-slate-100">
+            {outstanding > 0 ? 'Pay Now' : 'Pay in Advance'}
+          </Button>
         </Card>
 
+        {paying && (
+          <ResidentPaymentForm
+            bills={unpaid}
+            apiFetch={apiFetch}
+            onDone={() => { setPaying(false); load(); }}
+          />
+        )}
+        </div>
+
         <div className="md:col-span-2 space-y-4">
           <h3 className="text-lg font-bold text-white">Billing History</h3>
-          {data.bills.map((bill: Bill) => (
-            <Card key={bill.id} className="p-4 flex items-center justify-between bg-slate-800 border-slate-700">
-              <div>
-                <p className="font-bold text-white">{bill.month}</p>
-                <p className="text-xs text-slate-400">Due: {bill.due_date}</p>
-              </div>
-              <div className="flex items-center gap-4">
-                <div className="text-right">
-                  <p className="font-bold text-white">₹{bill.amount}</p>
-                  <Badge variant={bill.status === 'Paid' ? 'success' : 'danger'}>{bill.status}</Badge>
+          {bills.length === 0 && <p className="text-sm text-slate-400">No bills yet.</p>}
+          {bills.map(bill => (
+            <Card key={bill.id} className="p-4 bg-slate-800 border-slate-700">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-bold text-white">{bill.month}</p>
+                  {bill.invoice_no && <p className="text-xs text-slate-500">{bill.invoice_no}</p>}
+                  <p className="text-xs text-slate-400">Due: {bill.due_date ? format(new Date(bill.due_date), 'dd MMM yyyy') : '—'}</p>
                 </div>
-                {bill.status === 'Paid' && (
-                  <Button 
-                    variant="ghost" 
+                <div className="flex items-center gap-4">
+                  <div className="text-right">
+                    <p className="font-bold text-white">₹{bill.amount.toLocaleString()}</p>
+                    {bill.status === 'PARTIAL' && <p className="text-xs text-slate-400">₹{bill.balance.toLocaleString()} left</p>}
+                    <Badge variant={BILL_STATUS_BADGES[bill.status].variant}>
+                      {bill.status !== 'PAID' && bill.penalty > 0 ? 'Overdue' : BILL_STATUS_BADGES[bill.status].label}
+                    </Badge>
+                  </div>
+                  <Button
+                    variant="ghost"
                     className="p-2 text-red-500 hover:bg-red-500/10"
-                    onClick={() => window.print()}
+                    onClick={() => downloadFile(apiFetch, `/api/resident/bills/${bill.id}/invoice`)}
                   >
                     <FileText size={18} />
                   </Button>
+                </div>
+              </div>
+              <div className="mt-3 pt-3 border-t border-slate-700 space-y-1">
+                {bill.line_items.filter(item => item.kind === 'CHARGE').map((item, i) => (
+                  <div key={i} className="flex justify-between text-xs">
+                    <span className="text-slate-300">{item.head} <span className="text-slate-500">({item.description})</span></span>
+                    <span className="text-slate-300">₹{item.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+                {bill.penalty > 0 && (
+                  <>
+                    <div className="flex justify-between text-xs font-semibold pt-1">
+                      <span className="text-slate-400">Principal</span>
+                      <span className="text-slate-300">₹{bill.principal.toLocaleString()}</span>
+                    </div>
+                    {bill.line_items.filter(item => item.kind === 'PENALTY').map((item, i) => (
+                      <div key={i} className="flex justify-between text-xs">
+                        <span className="text-amber-400">{item.head} <span className="text-amber-600">({item.description})</span></span>
+                        <span className="text-amber-400">₹{item.amount.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-xs font-semibold">
+                      <span className="text-amber-400">Penalty</span>
+                      <span className="text-amber-400">₹{bill.penalty.toLocaleString()}</span>
+                    </div>
+                  </>
+                )}
+                {bill.tax > 0 && (
+                  <div className="flex justify-between text-xs font-semibold pt-1">
+                    <span className="text-slate-400">GST @ {Math.max(...bill.line_items.map(i => i.tax_rate))}% (CGST + SGST)</span>
+                    <span className="text-slate-300">₹{bill.tax.toLocaleString()}</span>
+                  </div>
+                )}
+                {bill.adjustment !== 0 && (
+                  <div className="flex justify-between text-xs font-semibold pt-1">
+                    <span className="text-slate-400">{bill.adjustment < 0 ? 'Credit notes' : 'Debit notes'}</span>
+                    <span className={bill.adjustment < 0 ? 'text-emerald-400' : 'text-amber-400'}>
+                      {bill.adjustment < 0 ? '−' : '+'}₹{Math.abs(bill.adjustment).toLocaleString()}
+                    </span>
+                  </div>
                 )}
               </div>
             </Card>
           ))}
+
+          {payments.length > 0 && (
+            <>
+              <h3 className="text-lg font-bold text-white pt-4">Payments</h3>
+              {payments.map(p => (
+                <Card key={p.id} className="p-4 flex items-center justify-between bg-slate-800 border-slate-700">
+                  <div>
+                    <p className="font-bold text-white">₹{p.amount.toLocaleString()} <span className="text-xs font-normal text-slate-400">via {p.mode}{p.reference && ` · ${p.reference}`}</span></p>
+                    <p className="text-xs text-slate-400">{format(new Date(p.paid_at), 'dd MMM yyyy')} · {[...p.allocations.map(a => a.month), ...(p.advance > 0 ? [`₹${p.advance} advance`] : [])].join(', ')}</p>
+                    {p.status === 'REJECTED' && p.note && <p className="text-xs text-rose-400">{p.note}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={PAYMENT_STATUS_VARIANTS[p.status]}>{p.status === 'PENDING' ? 'Awaiting confirmation' : p.status === 'CONFIRMED' ? 'Confirmed' : 'Rejected'}</Badge>
+                    {p.status === 'CONFIRMED' && (
+                      <Button variant="ghost" className="p-2 text-slate-300 hover:bg-slate-700" onClick={() => downloadFile(apiFetch, `/api/resident/payments/${p.id}/receipt`)}>
+                        <Download size={16} />
+                      </Button>
+                    )}
+                  </div>
+                </Card>
+              ))}
+            </>
+          )}
         </div>
       </div>
+
+      <AccountStatementCard apiFetch={apiFetch} path="/api/resident/statement" />
     </div>
   );
 }
 
+// Ledger view of a flat's account: every bill, penalty and payment with a running balance.
+// Shared by the resident's bills page and the admin flat panel; `path` is the statement endpoint.
+function AccountStatementCard({ apiFetch, path }: { apiFetch: any, path: string }) {
+  const today = new Date();
+  const [from, setFrom] = useState(format(new Date(today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, 3, 1), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(today, 'yyyy-MM-dd'));
+  const [statement, setStatement] = useState<AccountStatement | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    apiFetch(`${path}?from=${from}&to=${to}`).then(async (res: any) => {
+      const body = await res.json();
+      if (!res.ok) {
+        alert(describeError(body));
+        return;
+      }
+      setStatement(body);
+    });
+  }, [path, from, to]);
+
+  // Positive balances are owed by the flat, negative ones paid in advance.
+  const balance = (n: number) => `₹${Math.abs(n).toLocaleString()} ${n < 0 ? 'Cr' : 'Dr'}`;
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-bold text-white">Account Statement</h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <span className="text-slate-400 text-sm pb-1.5">to</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-lg outline-none text-white text-sm" />
+          <Button variant="secondary" onClick={() => downloadFile(apiFetch, `${path}?from=${from}&to=${to}&format=pdf`)} className="flex items-center gap-2 text-xs">
+            <Download size={14} />
+            PDF
+          </Button>
+          <Button variant="secondary" onClick={() => downloadFile(apiFetch, `${path}?from=${from}&to=${to}&format=csv`)} className="flex items-center gap-2 text-xs">
+            <Download size={14} />
+            CSV
+          </Button>
+        </div>
+      </div>
+      {statement && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="py-2 font-semibold text-slate-400">Date</th>
+                <th className="py-2 font-semibold text-slate-400">Particulars</th>
+                <th className="py-2 font-semibold text-slate-400 text-right">Debit</th>
+                <th className="py-2 font-semibold text-slate-400 text-right">Credit</th>
+                <th className="py-2 font-semibold text-slate-400 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              <tr>
+                <td className="py-2 text-slate-400">{format(new Date(`${statement.from}T00:00:00`), 'dd MMM yyyy')}</td>
+                <td className="py-2 text-slate-300 font-semibold">Opening balance</td>
+                <td />
+                <td />
+                <td className="py-2 text-right text-slate-200 font-semibold">{balance(statement.opening_balance)}</td>
+              </tr>
+              {statement.entries.map((e, i) => (
+                <tr key={i}>
+                  <td className="py-2 text-slate-400">{format(new Date(e.date), 'dd MMM yyyy')}</td>
+                  <td className="py-2">
+                    <p className={e.kind === 'PENALTY' ? 'text-amber-400' : 'text-white'}>{e.description}</p>
+                    {e.reference && <p className="text-xs text-slate-500">{e.reference}</p>}
+                  </td>
+                  <td className="py-2 text-right text-slate-200">{e.debit ? `₹${e.debit.toLocaleString()}` : ''}</td>
+                  <td className="py-2 text-right text-emerald-400">{e.credit ? `₹${e.credit.toLocaleString()}` : ''}</td>
+                  <td className="py-2 text-right text-slate-200">{balance(e.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-slate-600">
+                <td className="py-2 text-slate-400">{format(new Date(`${statement.to}T00:00:00`), 'dd MMM yyyy')}</td>
+                <td className="py-2 text-slate-300 font-semibold">Closing balance</td>
+                <td className="py-2 text-right text-slate-300">₹{statement.total_debit.toLocaleString()}</td>
+                <td className="py-2 text-right text-slate-300">₹{statement.total_credit.toLocaleString()}</td>
+                <td className="py-2 text-right text-white font-bold">{balance(statement.closing_balance)}</td>
+              </tr>
+            </tfoot>
+          </table>
+          {statement.entries.length === 0 && <p className="text-center py-6 text-sm text-slate-400">No transactions in this period.</p>}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+function ResidentPaymentForm({ bills, apiFetch, onDone }: { bills: Bill[], apiFetch: any, onDone: () => void }) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const formRef = useRef<HTMLFormElement>(null);
+  const due = (selected.length ? bills.filter(b => selected.includes(b.id)) : bills).reduce((sum, b) => sum + b.balance, 0);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const fields = Object.fromEntries(new FormData(e.currentTarget).entries());
+    const data = checkForm(residentPaymentSchema, {
+      ...fields,
+      reference: fields.reference || undefined,
+      billIds: selected.length ? selected : undefined
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/resident/payments', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
+      alert(result.message);
+      onDone();
+    } catch (err) {
+      alert("Failed to submit payment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hands over to the payment gateway's checkout; it sends the resident back with ?payment=...
+  const handlePayOnline = async () => {
+    const data = checkForm(onlinePaymentSchema, {
+      amount: new FormData(formRef.current!).get('amount'),
+      billIds: selected.length ? selected : undefined
+    });
+    if (!data) return;
+    setLoading(true);
+    try {
+      const res = await apiFetch('/api/resident/payments/online', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        setLoading(false);
+        return;
+      }
+      window.location.href = result.redirectUrl;
+    } catch (err) {
+      alert("Could not start online payment");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-slate-800 border-slate-700">
+      <h3 className="text-lg font-bold text-white mb-1">Pay Maintenance</h3>
+      <p className="text-xs text-slate-400 mb-4">Pay online for instant confirmation, or report a UPI, NEFT or cheque payment and the office will confirm it. You can pay part of a bill, or more than you owe: with no bills ticked, the extra is kept as advance credit for future bills.</p>
+      <form ref={formRef} onSubmit={handleSubmit} className="space-y-3">
+        <BillPicker bills={bills} selected={selected} onChange={setSelected} />
+        <input key={due} name="amount" type="number" step="0.01" defaultValue={due} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <Button type="button" onClick={handlePayOnline} disabled={loading} className="w-full">{loading ? "Please wait..." : "Pay Online"}</Button>
+        <p className="text-xs text-slate-500 text-center">or report a payment you've already made</p>
+        <select name="mode" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white">
+          <option value="UPI">UPI</option>
+          <option value="NEFT">NEFT</option>
+          <option value="CHEQUE">Cheque</option>
+        </select>
+        <input name="reference" placeholder="UTR / transaction ID / cheque no." className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+        <Button variant="secondary" disabled={loading} className="w-full">{loading ? "Submitting..." : "Submit Payment"}</Button>
+      </form>
+    </Card>
+  );
+}
+
 function ResidentComplaintsView({ user, apiFetch }: { user: User, apiFetch: any }) {
   const [complaints, setComplaints] = useState<Complaint[]>([]);
   const [loading, setLoading] = useState(false);
@@ -1381,13 +4813,10 @@ function ResidentBookingsView({ user, apiFetch }: { user: User, apiFetch: any })
 
   const handleBook = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setLoading(true);
     const formData = new FormData(e.currentTarget);
-    const data = {
-      amenity: formData.get('amenity'),
-      date: formData.get('date'),
-      timeSlot: formData.get('timeSlot')
-    };
+    const data = checkForm(bookingSchema, Object.fromEntries(formData.entries()));
+    if (!data) return;
+    setLoading(true);
 
     try {
       const res = await apiFetch('/api/resident/book', {
@@ -1398,9 +4827,9 @@ function ResidentBookingsView({ user, apiFetch }: { user: User, apiFetch: any })
       if (result.success) {
         const bRes = await apiFetch('/api/amenities/bookings');
         setBookings(await bRes.json());
-        alert("Booking confirmed!");
-      } else {
         alert(result.message);
+      } else {
+        alert(describeError(result));
       }
     } catch (err) {
       alert("Booking failed");
@@ -1452,7 +4881,10 @@ function ResidentBookingsView({ user, apiFetch }: { user: User, apiFetch: any })
               </div>
               <p className="text-sm text-slate-300 mt-1">{format(new Date(b.date), 'PPP')}</p>
               <p className="text-xs text-slate-400">{b.time_slot}</p>
-              <p className="text-[10px] text-slate-400 mt-2">Booked by Flat {b.flat_id}</p>
+              <div className="flex justify-between items-center mt-2">
+                <p className="text-[10px] text-slate-400">Booked by Flat {b.flat_id}</p>
+                <Badge variant={b.status === 'APPROVED' ? 'success' : 'warning'}>{b.status}</Badge>
+              </div>
             </Card>
           ))}
         </div>
@@ -1464,12 +4896,88 @@ function ResidentBookingsView({ user, apiFetch }: { user: User, apiFetch: any })
 function ResidentVisitorsView({ user, apiFetch }: { user: User, apiFetch: any }) {
   const [visitors, setVisitors] = useState<Visitor[]>([]);
 
+  const [passes, setPasses] = useState<GuestPass[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadPasses = () => {
+    apiFetch('/api/resident/passes').then((res: any) => res.json()).then(setPasses);
+  };
+
   useEffect(() => {
-    apiFetch('/api/resident/dashboard').then((res: any) => res.json()).then((data: any) => setVisitors(data.visitors));
+    apiFetch('/api/resident/visitors').then((res: any) => res.json()).then(setVisitors);
+    loadPasses();
   }, [user]);
 
+  const handleCreatePass = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const data = checkForm(guestPassSchema, Object.fromEntries(new FormData(form).entries()));
+    if (!data) return;
+    setLoading(true);
+
+    try {
+      const res = await apiFetch('/api/resident/passes', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (result.success) {
+        alert(`Pass created! Share code ${result.pass.code} with ${result.pass.guest_name}.`);
+        form.reset();
+        loadPasses();
+      } else {
+        alert(describeError(result));
+      }
+    } catch (err) {
+      alert("Failed to create pass");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="p-6 lg:col-span-1 h-fit bg-slate-800 border-slate-700">
+          <h3 className="text-lg font-bold mb-4 text-white">Create Guest Pass</h3>
+          <form onSubmit={handleCreatePass} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Guest Name</label>
+              <input name="guestName" required type="text" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" placeholder="Full Name" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Valid From</label>
+              <input name="validFrom" required type="datetime-local" defaultValue={format(new Date(), "yyyy-MM-dd'T'HH:mm")} className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">Valid Until</label>
+              <input name="validUntil" required type="datetime-local" className="w-full px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white" />
+            </div>
+            <Button disabled={loading} className="w-full">
+              {loading ? "Creating..." : "Create Pass"}
+            </Button>
+          </form>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-4">
+          <h3 className="text-lg font-bold text-white">Guest Passes</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {passes.map(p => (
+              <Card key={p.id} className="p-4 bg-slate-800 border-slate-700">
+                <div className="flex justify-between items-start mb-2">
+                  <h4 className="font-bold text-white">{p.guest_name}</h4>
+                  <Badge variant={p.status === 'Active' ? 'success' : p.status === 'Upcoming' ? 'info' : 'neutral'}>{p.status}</Badge>
+                </div>
+                <p className="text-2xl font-black tracking-[0.3em] text-red-500">{p.code}</p>
+                <p className="text-[10px] text-slate-500 mt-1 break-all">QR: {p.qr_payload}</p>
+                <p className="text-xs text-slate-400 mt-2">{format(new Date(p.valid_from), 'PPP p')} - {format(new Date(p.valid_until), 'PPP p')}</p>
+              </Card>
+            ))}
+          </div>
+          {passes.length === 0 && <p className="text-center py-8 text-slate-300">No guest passes yet.</p>}
+        </div>
+      </div>
+
       <h3 className="text-lg font-bold text-white">Visitor History</h3>
       <div className="overflow-x-auto">
         <table className="w-full text-left">
@@ -1558,22 +5066,49 @@ function SecurityVisitorsView({ apiFetch }: { apiFetch: any }) {
 
 function SecurityNewEntryView({ apiFetch }: { apiFetch: any }) {
   const [loading, setLoading] = useState(false);
+  const [passCode, setPassCode] = useState('');
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+  const handlePassCheckIn = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    const data = checkForm(passCheckInSchema, { code: passCode });
+    if (!data) return;
     setLoading(true);
+    try {
+      const res = await apiFetch('/api/security/pass-checkin', {
+        method: 'POST',
+        body: JSON.stringify(data)
+      });
+      const result = await res.json();
+      if (result.success) {
+        alert(`${result.visitor.name} checked in to Flat ${result.visitor.flat_id}`);
+        setPassCode('');
+      } else {
+        alert(describeError(result));
+      }
+    } catch (err) {
+      alert("Failed to check in with pass");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
     const formData = new FormData(e.currentTarget);
-    const data = {
-      name: formData.get('name'),
-      tower: formData.get('tower'),
-      flatId: formData.get('flatId')
-    };
+    const data = checkForm(visitorEntrySchema, Object.fromEntries(formData.entries()));
+    if (!data) return;
+    setLoading(true);
 
     try {
-      await apiFetch('/api/security/visitor-entry', {
+      const res = await apiFetch('/api/security/visitor-entry', {
         method: 'POST',
         body: JSON.stringify(data)
       });
+      const result = await res.json();
+      if (!result.success) {
+        alert(describeError(result));
+        return;
+      }
       alert("Entry recorded successfully!");
       (e.target as HTMLFormElement).reset();
     } catch (err) {
@@ -1584,7 +5119,23 @@ function SecurityNewEntryView({ apiFetch }: { apiFetch: any }) {
   };
 
   return (
-    <div className="max-w-md mx-auto">
+    <div className="max-w-md mx-auto space-y-6">
+      <Card className="p-8 bg-slate-800 border-slate-700">
+        <h3 className="text-xl font-bold mb-2 text-white">Guest Pass</h3>
+        <p className="text-xs text-slate-400 mb-4">Enter the code shown by the visitor, or scan their pass QR into the field.</p>
+        <form onSubmit={handlePassCheckIn} className="flex gap-2">
+          <input
+            value={passCode}
+            onChange={(e) => setPassCode(e.target.value)}
+            required
+            type="text"
+            className="flex-1 px-4 py-2 border border-slate-700 rounded-lg outline-none bg-slate-900 text-white uppercase tracking-widest"
+            placeholder="e.g., K7P2XM"
+          />
+          <Button disabled={loading}>Verify</Button>
+        </form>
+      </Card>
+
       <Card className="p-8 bg-slate-800 border-slate-700">
         <h3 className="text-xl font-bold mb-6 text-white">Record New Visitor</h3>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -0,0 +1,1328 @@
+import { z } from 'zod';
+
+// Request and response schemas shared by server.ts routes and the App.tsx forms.
+// The server validates every body/query against these; the forms run the same checks before submitting.
+
+// --- Helpers ---
+
+export type FieldErrors = Record<string, string>;
+
+// Envelope returned by the API for any 4xx caused by bad input.
+export interface ApiErrorBody {
+  success: false;
+  message: string;
+  errors?: FieldErrors;
+}
+
+// First message per field, keyed by dotted path ("validUntil", "items.0.amount").
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join('.') || 'form';
+    if (!errors[key]) errors[key] = issue.message;
+  }
+  return errors;
+}
+
+const requiredText = (label: string) => z.string({ error: `${label} is required` }).trim().min(1, `${label} is required`);
+const date = (label: string) => z.coerce.date({ error: `${label} must be a valid date` });
+const TOWERS = ['A', 'B', 'C', 'D'] as const;
+
+export const idParamSchema = z.object({
+  id: z.coerce.number({ error: 'Invalid id' }).int('Invalid id').positive('Invalid id')
+});
+
+// --- Auth & onboarding ---
+
+export const loginSchema = z.object({
+  username: requiredText('Username').toLowerCase(),
+  password: z.string({ error: 'Password is required' }).min(1, 'Password is required')
+});
+
+export const registerSchema = z.object({
+  name: requiredText('Full name'),
+  email: z.email('Enter a valid email address').trim().toLowerCase(),
+  username: requiredText('Username')
+    .toLowerCase()
+    .regex(/^[a-z0-9._]{3,30}$/, 'Username must be 3-30 letters, digits, dots or underscores'),
+  password: z.string({ error: 'Password is required' }).min(6, 'Password must be at least 6 characters'),
+  phone: requiredText('Phone').regex(/^\+?[\d\s-]{10,15}$/, 'Enter a valid phone number'),
+  flatId: requiredText('Flat number')
+});
+
+export const registrationsQuerySchema = z.object({
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).default('PENDING')
+});
+
+// Approving someone for a flat that already has a resident moves that resident out, so the
+// admin has to ask for it.
+export const approveRegistrationSchema = z.object({
+  replaceResident: z.boolean().default(false)
+});
+
+export const rejectRegistrationSchema = z.object({
+  reason: requiredText('Rejection reason').min(3, 'Give the applicant a reason of at least 3 characters')
+});
+
+// --- Admin console ---
+
+export const addResidentSchema = z.object({
+  name: requiredText('Name'),
+  email: z.email('Enter a valid email address').trim().toLowerCase(),
+  phone: requiredText('Phone'),
+  flatId: requiredText('Flat')
+});
+
+export const complaintStatusSchema = z.object({
+  status: z.enum(['PENDING', 'IN_PROGRESS', 'RESOLVED'], { error: 'Status must be PENDING, IN_PROGRESS or RESOLVED' })
+});
+
+export const logsQuerySchema = z.object({
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  userId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).optional(),
+  from: date('From').optional(),
+  to: date('To').optional()
+});
+
+export const alertSchema = z.object({
+  tower: z.enum(['All', ...TOWERS], { error: 'Pick a tower' }).default('All'),
+  title: requiredText('Alert title'),
+  message: requiredText('Message'),
+  severity: z.enum(['Low', 'Medium', 'High'], { error: 'Severity must be Low, Medium or High' }).default('Low')
+});
+
+export const eventSchema = z.object({
+  title: requiredText('Event title'),
+  description: requiredText('Description'),
+  date: date('Date')
+});
+
+// --- Billing ---
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Bills are keyed on a "yyyy-MM" period. Accepts that form or a label like "October 2026" / "Oct 2026".
+export function normalizePeriod(value: string): string | null {
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})$/);
+  if (iso) {
+    const month = Number(iso[2]);
+    return month >= 1 && month <= 12 ? `${iso[1]}-${String(month).padStart(2, '0')}` : null;
+  }
+  const label = value.trim().match(/^([a-z]{3,9})\s+(\d{4})$/i);
+  if (!label) return null;
+  const index = MONTHS.findIndex(m => m.toLowerCase().startsWith(label[1].toLowerCase()));
+  return index === -1 ? null : `${label[2]}-${String(index + 1).padStart(2, '0')}`;
+}
+
+// "2026-10" -> "October 2026"
+export function periodLabel(period: string) {
+  const [year, month] = period.split('-');
+  return `${MONTHS[Number(month) - 1]} ${year}`;
+}
+
+export const billingPeriod = requiredText('Billing month')
+  .refine(v => normalizePeriod(v) !== null, 'Use a month like 2026-10 or October 2026')
+  .transform(v => normalizePeriod(v)!);
+
+export const generateBillsSchema = z.object({
+  period: billingPeriod,
+  dueDate: date('Due date').optional(),
+  // Preview counts and totals without raising anything.
+  dryRun: z.boolean().default(false)
+});
+
+export const FLAT_TYPES = ['1BHK', '2BHK', '3BHK', '4BHK', 'Penthouse'] as const;
+
+// How a charge head turns into an amount: a flat sum, rate x carpet area, or rate x parking slots.
+export const CHARGE_BASES = ['FIXED', 'PER_SQFT', 'PER_PARKING_SLOT'] as const;
+
+export const chargeRuleSchema = z.object({
+  head: requiredText('Charge head'),
+  basis: z.enum(CHARGE_BASES, { error: `Basis must be one of ${CHARGE_BASES.join(', ')}` }),
+  rate: z.coerce.number({ error: 'Rate must be a number' }).positive('Rate must be greater than zero'),
+  // Empty means the rule applies to every flat type.
+  flatType: z.preprocess(v => (v === '' ? null : v), z.enum(FLAT_TYPES, { error: 'Pick a flat type' }).nullable().default(null)),
+  active: z.boolean().default(true)
+});
+
+export const flatAttributesSchema = z.object({
+  type: z.enum(FLAT_TYPES, { error: 'Pick a flat type' }),
+  carpetArea: z.coerce.number({ error: 'Carpet area must be a number' }).min(0, 'Carpet area cannot be negative'),
+  parkingSlots: z.coerce.number({ error: 'Parking slots must be a number' }).int('Parking slots must be a whole number').min(0, 'Parking slots cannot be negative')
+});
+
+export const INTEREST_MODES = ['SIMPLE', 'COMPOUND'] as const;
+
+export const penaltyPolicySchema = z.object({
+  graceDays: z.coerce.number({ error: 'Grace period must be a number' }).int('Grace period must be whole days').min(0, 'Grace period cannot be negative').max(90, 'Grace period can be at most 90 days'),
+  lateFee: z.coerce.number({ error: 'Late fee must be a number' }).min(0, 'Late fee cannot be negative'),
+  interestRate: z.coerce.number({ error: 'Interest rate must be a number' }).min(0, 'Interest rate cannot be negative').max(10, 'Interest rate can be at most 10% a month'),
+  interestMode: z.enum(INTEREST_MODES, { error: 'Interest must be SIMPLE or COMPOUND' })
+});
+
+// --- Tax ---
+
+// State code, PAN, entity number, "Z", checksum character.
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const taxPolicySchema = z.object({
+  enabled: z.boolean(),
+  gstin: z.preprocess(
+    v => (v === '' ? null : v),
+    z.string().trim().toUpperCase().regex(GSTIN_PATTERN, 'Enter a valid 15-character GSTIN').nullable().default(null)
+  ),
+  sacCode: requiredText('SAC code').regex(/^\d{4,8}$/, 'SAC code must be 4 to 8 digits'),
+  rate: z.coerce.number({ error: 'GST rate must be a number' }).min(0, 'GST rate cannot be negative').max(28, 'GST rate can be at most 28%'),
+  threshold: z.coerce.number({ error: 'Threshold must be a number' }).min(0, 'Threshold cannot be negative'),
+  exemptHeads: z.array(requiredText('Exempt head')).default([])
+}).refine(p => !p.enabled || p.gstin, { path: ['gstin'], message: 'Enter the society GSTIN before charging GST' });
+
+export const taxSummaryQuerySchema = z.object({
+  period: billingPeriod
+});
+
+export const flatNumberParamSchema = z.object({
+  flatId: requiredText('Flat number')
+});
+
+// --- Payments ---
+
+export const PAYMENT_MODES = ['CASH', 'CHEQUE', 'UPI', 'NEFT'] as const;
+export const PAYMENT_STATUSES = ['PENDING', 'CONFIRMED', 'REJECTED'] as const;
+
+const referenceRequired = (p: { mode: string; reference?: string }) => p.mode === 'CASH' || !!p.reference;
+const referenceIssue = { path: ['reference'], message: 'Enter the cheque number or transaction reference' };
+
+const paymentFields = {
+  amount: z.coerce.number({ error: 'Amount must be a number' }).positive('Amount must be greater than zero'),
+  reference: z.string().trim().max(64, 'Reference is too long').optional(),
+  // Bills to settle, oldest first; when omitted the payment goes to the flat's oldest dues and
+  // anything beyond them becomes advance credit.
+  billIds: z.array(z.string()).optional()
+};
+
+export const recordPaymentSchema = z.object({
+  ...paymentFields,
+  flatId: requiredText('Flat number'),
+  mode: z.enum(PAYMENT_MODES, { error: `Mode must be one of ${PAYMENT_MODES.join(', ')}` }),
+  paidAt: date('Payment date').optional(),
+  note: z.string().trim().max(200, 'Note is too long').optional()
+}).refine(referenceRequired, referenceIssue);
+
+// Residents report transfers they've already made; cash has to go through the office.
+export const residentPaymentSchema = z.object({
+  ...paymentFields,
+  mode: z.enum(['CHEQUE', 'UPI', 'NEFT'], { error: 'Mode must be CHEQUE, UPI or NEFT' })
+}).refine(referenceRequired, referenceIssue);
+
+export const onlinePaymentSchema = z.object({
+  amount: paymentFields.amount,
+  billIds: paymentFields.billIds
+});
+
+export const paymentsQuerySchema = z.object({
+  status: z.enum(PAYMENT_STATUSES).optional(),
+  flatId: z.string().trim().min(1).optional()
+});
+
+export const rejectPaymentSchema = z.object({
+  reason: requiredText('Reason')
+});
+
+// --- Advance credit ---
+
+// ADJUSTMENT is the part of a paid bill handed back as credit after a credit note.
+export const WALLET_ENTRY_KINDS = ['ADVANCE', 'APPLIED', 'REFUND', 'TRANSFER_IN', 'TRANSFER_OUT', 'ADJUSTMENT'] as const;
+
+export const refundCreditSchema = z.object({
+  amount: paymentFields.amount,
+  mode: z.enum(PAYMENT_MODES, { error: `Mode must be one of ${PAYMENT_MODES.join(', ')}` }),
+  reference: paymentFields.reference,
+  note: z.string().trim().max(200, 'Note is too long').optional()
+}).refine(referenceRequired, referenceIssue);
+
+export const transferCreditSchema = z.object({
+  toFlatId: requiredText('Flat to transfer to'),
+  amount: paymentFields.amount,
+  note: z.string().trim().max(200, 'Note is too long').optional()
+});
+
+// --- Bill adjustments ---
+
+// A WAIVER is a credit note limited to the late fees and interest on the bill.
+export const ADJUSTMENT_KINDS = ['CREDIT_NOTE', 'WAIVER', 'DEBIT_NOTE'] as const;
+export const ADJUSTMENT_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const;
+
+export const adjustmentSchema = z.object({
+  kind: z.enum(ADJUSTMENT_KINDS, { error: `Type must be one of ${ADJUSTMENT_KINDS.join(', ')}` }),
+  amount: paymentFields.amount,
+  reason: requiredText('Reason').max(500, 'Reason is too long')
+});
+
+export const adjustmentsQuerySchema = z.object({
+  status: z.enum(ADJUSTMENT_STATUSES).optional(),
+  flatId: z.string().trim().min(1).optional()
+});
+
+export const approveAdjustmentSchema = z.object({
+  note: z.string().trim().max(500, 'Note is too long').optional()
+});
+
+export const rejectAdjustmentSchema = z.object({
+  note: requiredText('Reason').max(500, 'Reason is too long')
+});
+
+// --- Dues reminders ---
+
+export const REMINDER_KINDS = ['UPCOMING', 'OVERDUE', 'FINAL'] as const;
+export const REMINDER_STATUSES = ['SENT', 'FAILED', 'SKIPPED'] as const;
+
+const dayCount = (label: string) =>
+  z.coerce.number({ error: `${label} must be a number` }).int(`${label} must be whole days`).min(0, `${label} cannot be negative`).max(365, `${label} can be at most 365`);
+
+export const reminderPolicySchema = z.object({
+  enabled: z.boolean(),
+  upcomingDays: dayCount('Days before the due date'),
+  overdueDays: dayCount('Days after the due date'),
+  overdueRepeatDays: dayCount('Repeat interval'),
+  finalNoticeDays: dayCount('Final notice day')
+}).refine(p => p.finalNoticeDays > p.overdueDays, {
+  path: ['finalNoticeDays'],
+  message: 'The final notice has to come after the first overdue reminder'
+});
+
+export const mailboxIdParamSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'Invalid message id')
+});
+
+// --- Defaulters & dunning ---
+
+// The escalation ladder, in order. NONE is a flat in good standing.
+export const DUNNING_STAGES = ['NONE', 'REMINDER', 'NOTICE', 'SUSPENSION', 'HEARING'] as const;
+
+export const dunningPolicySchema = z.object({
+  enabled: z.boolean(),
+  minAmount: z.coerce.number({ error: 'Minimum arrears must be a number' }).min(0, 'Minimum arrears cannot be negative'),
+  reminderDays: dayCount('Reminder day'),
+  noticeDays: dayCount('Notice day'),
+  suspensionDays: dayCount('Suspension day'),
+  hearingDays: dayCount('Hearing day'),
+  stepIntervalDays: dayCount('Gap between stages')
+}).refine(p => p.reminderDays < p.noticeDays && p.noticeDays < p.suspensionDays && p.suspensionDays < p.hearingDays, {
+  path: ['hearingDays'],
+  message: 'Each stage has to come after the one before it'
+});
+
+export const escalateDunningSchema = z.object({
+  note: z.string().trim().max(500, 'Note is too long').optional(),
+  // Only used when escalating to a committee hearing
+  hearingDate: z.iso.date('Pick a valid hearing date').optional()
+});
+
+export const resolveDunningSchema = z.object({
+  note: requiredText('Reason').max(500, 'Reason is too long')
+});
+
+// --- Invoices & receipts ---
+
+export const billIdParamSchema = z.object({
+  id: z.uuid('Invalid bill id')
+});
+
+export const documentsExportQuerySchema = z.object({
+  period: billingPeriod
+});
+
+// --- Account statements ---
+
+export const STATEMENT_FORMATS = ['json', 'pdf', 'csv'] as const;
+
+// Both ends inclusive. Without a range the statement covers the financial year to date.
+export const accountStatementQuerySchema = z.object({
+  from: z.iso.date('Pick a valid start date').optional(),
+  to: z.iso.date('Pick a valid end date').optional(),
+  format: z.enum(STATEMENT_FORMATS, { error: 'Format must be json, pdf or csv' }).default('json')
+}).refine(q => !q.from || !q.to || q.from <= q.to, { path: ['to'], message: 'End date must not be before the start date' });
+
+// --- Bank reconciliation ---
+
+export const STATEMENT_DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MMM-YYYY'] as const;
+export const BANK_LINE_STATUSES = ['SUGGESTED', 'UNMATCHED', 'MATCHED', 'IGNORED'] as const;
+
+const statementColumn = (label: string) =>
+  z.coerce.number({ error: `Pick the ${label} column` }).int(`Pick the ${label} column`).min(0, `Pick the ${label} column`);
+
+// Which CSV columns hold what. Columns are indexes into the header row, since banks name them
+// differently ("Narration", "Particulars", "Description"...) and often put a preamble above it.
+export const statementMappingSchema = z.object({
+  headerRow: z.coerce.number({ error: 'Header row must be a number' }).int().min(0),
+  date: statementColumn('date'),
+  narration: statementColumn('narration'),
+  credit: statementColumn('credit amount'),
+  reference: statementColumn('reference').optional(),
+  dateFormat: z.enum(STATEMENT_DATE_FORMATS, { error: 'Pick the date format used in the statement' })
+});
+
+export const importStatementSchema = z.object({
+  fileName: requiredText('File name'),
+  csv: requiredText('Statement').max(5_000_000, 'Statement is too large; split it by month'),
+  mapping: statementMappingSchema
+});
+
+export const bankLinesQuerySchema = z.object({
+  status: z.enum(BANK_LINE_STATUSES).optional(),
+  statementId: z.coerce.number().int().positive().optional()
+});
+
+// Overrides the suggestion: a different flat (its oldest dues are settled) or specific bills.
+export const confirmBankLineSchema = z.object({
+  flatId: z.string().trim().min(1).optional(),
+  billIds: z.array(z.uuid('Invalid bill id')).min(1).optional()
+});
+
+export const confirmBankLinesSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1, 'Select at least one line')
+});
+
+export const ignoreBankLineSchema = z.object({
+  reason: requiredText('Reason')
+});
+
+// --- Expenses ---
+
+export const BILL_FILE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf'] as const;
+
+const optionalText = (label: string, max: number) => z.string().trim().max(max, `${label} is too long`).optional();
+
+export const expenseCategorySchema = z.object({
+  name: requiredText('Category name').max(60, 'Category name is too long'),
+  active: z.boolean().default(true)
+});
+
+export const vendorSchema = z.object({
+  name: requiredText('Vendor name').max(100, 'Vendor name is too long'),
+  phone: optionalText('Phone', 20),
+  email: z.email('Enter a valid email').optional(),
+  gstin: z.string().trim().toUpperCase().regex(GSTIN_PATTERN, 'Enter a valid 15-character GSTIN').optional(),
+  categoryId: z.coerce.number().int().positive('Pick a category').optional(),
+  active: z.boolean().default(true)
+});
+
+// The vendor's bill as a data URL, sent inline with the expense; the body limit is raised for
+// the expenses endpoints in server.ts.
+export const billFileSchema = z.object({
+  fileName: requiredText('File name').max(200, 'File name is too long'),
+  dataUrl: z.string()
+    .max(5_600_000, 'The bill must be under 4 MB')
+    .refine(url => BILL_FILE_TYPES.some(type => url.startsWith(`data:${type};base64,`)), 'Attach the bill as a PNG, JPEG, WebP or PDF')
+});
+
+// On update, billFile left out keeps the stored bill and null removes it.
+export const expenseSchema = z.object({
+  categoryId: z.coerce.number({ error: 'Pick a category' }).int().positive('Pick a category'),
+  vendorId: z.coerce.number().int().positive('Pick a vendor').optional(),
+  description: requiredText('Description').max(200, 'Description is too long'),
+  amount: paymentFields.amount,
+  spentOn: z.iso.date('Pick a valid date'),
+  mode: z.enum(PAYMENT_MODES, { error: `Mode must be one of ${PAYMENT_MODES.join(', ')}` }),
+  reference: paymentFields.reference,
+  billFile: billFileSchema.nullable().optional()
+}).refine(referenceRequired, referenceIssue);
+
+export const expensesQuerySchema = z.object({
+  from: z.iso.date('Pick a valid start date').optional(),
+  to: z.iso.date('Pick a valid end date').optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  vendorId: z.coerce.number().int().positive().optional()
+});
+
+// Both ends inclusive; without a range the report covers the last twelve months.
+export const financeReportQuerySchema = z.object({
+  from: billingPeriod.optional(),
+  to: billingPeriod.optional()
+}).refine(q => !q.from || !q.to || q.from <= q.to, { path: ['to'], message: 'End month must not be before the start month' });
+
+// --- Budgets ---
+
+export const BUDGET_ALERT_LEVELS = ['WARNING', 'OVER'] as const;
+export const BUDGET_STATUSES = ['UNDER', 'WARNING', 'OVER', 'UNBUDGETED'] as const;
+
+// Financial years run April to March and go by the calendar year they start in: 2026 is FY 2026-27.
+export function financialYearOf(period: string) {
+  const [year, month] = period.split('-').map(Number);
+  return month >= 4 ? year : year - 1;
+}
+
+// 2026 -> "FY 2026-27"
+export function financialYearLabel(year: number) {
+  return `FY ${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+// The year's twelve "yyyy-MM" periods, April first.
+export function financialYearPeriods(year: number) {
+  return Array.from({ length: 12 }, (_, i) => `${i < 9 ? year : year + 1}-${String(((i + 3) % 12) + 1).padStart(2, '0')}`);
+}
+
+const financialYear = z.coerce.number({ error: 'Pick a financial year' }).int('Pick a financial year')
+  .min(2000, 'Pick a financial year from 2000 on').max(2100, 'Pick a financial year before 2100');
+
+const budgetAmount = (label: string) =>
+  z.coerce.number({ error: `${label} must be a number` }).min(0, `${label} cannot be negative`);
+
+export const budgetSchema = z.object({
+  year: financialYear,
+  categoryId: z.coerce.number({ error: 'Pick a category' }).int().positive('Pick a category'),
+  annual: budgetAmount('Annual budget'),
+  // April first; left out, the annual budget is spread evenly over the year.
+  monthly: z.array(budgetAmount('Monthly budget')).length(12, 'Give a budget for each of the twelve months').optional()
+}).refine(b => !b.monthly || Math.abs(b.monthly.reduce((sum, m) => sum + m, 0) - b.annual) < 1, {
+  path: ['monthly'],
+  message: 'The monthly budgets must add up to the annual budget'
+});
+
+export const budgetsQuerySchema = z.object({
+  year: financialYear
+});
+
+// Starts a year's plan from another year's, scaled by increasePercent. Categories the target year
+// already has a budget for are left alone.
+export const copyBudgetsSchema = z.object({
+  fromYear: financialYear,
+  toYear: financialYear,
+  increasePercent: z.coerce.number({ error: 'Increase must be a number' }).min(-50, 'Increase can be at least -50%').max(100, 'Increase can be at most 100%').default(0)
+}).refine(c => c.fromYear !== c.toYear, { path: ['toYear'], message: 'Pick a different year to copy to' });
+
+export const budgetPolicySchema = z.object({
+  alertPercent: z.coerce.number({ error: 'Alert threshold must be a number' }).int('Alert threshold must be a whole percentage')
+    .min(50, 'Alert threshold must be at least 50%').max(100, 'Alert threshold can be at most 100%'),
+  emailAdmins: z.boolean()
+});
+
+export const budgetAlertsQuerySchema = z.object({
+  status: z.enum(['OPEN', 'ACKNOWLEDGED']).optional()
+});
+
+// --- General ledger ---
+
+export const ACCOUNT_TYPES = ['ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE'] as const;
+export const JOURNAL_SOURCES = ['BILL', 'PENALTY', 'PAYMENT', 'WALLET', 'ADJUSTMENT', 'EXPENSE', 'MANUAL'] as const;
+
+// Assets and expenses carry debit balances; liabilities, funds and income carry credit balances.
+export const isDebitAccount = (type: string) => type === 'ASSET' || type === 'EXPENSE';
+
+export const accountSchema = z.object({
+  code: z.string().trim().regex(/^\d{4,6}$/, 'Account code must be 4 to 6 digits'),
+  name: requiredText('Account name').max(100, 'Account name is too long'),
+  type: z.enum(ACCOUNT_TYPES, { error: `Type must be one of ${ACCOUNT_TYPES.join(', ')}` }),
+  active: z.boolean().default(true)
+});
+
+const journalAmount = (label: string) =>
+  z.coerce.number({ error: `${label} must be a number` }).min(0, `${label} cannot be negative`).default(0);
+
+// flatId is a flat number and puts the line on that member's sub-ledger, e.g. for opening dues.
+export const journalLineSchema = z.object({
+  accountId: z.coerce.number({ error: 'Pick an account' }).int().positive('Pick an account'),
+  debit: journalAmount('Debit'),
+  credit: journalAmount('Credit'),
+  flatId: z.string().trim().min(1).optional(),
+  memo: optionalText('Memo', 200)
+}).refine(l => (l.debit > 0) !== (l.credit > 0), { path: ['debit'], message: 'Enter either a debit or a credit on each line' });
+
+export const journalVoucherSchema = z.object({
+  date: z.iso.date('Pick a valid date'),
+  narration: requiredText('Narration').max(300, 'Narration is too long'),
+  lines: z.array(journalLineSchema).min(2, 'A voucher needs at least two lines')
+}).refine(v => Math.abs(v.lines.reduce((sum, l) => sum + l.debit - l.credit, 0)) < 0.005, {
+  path: ['lines'],
+  message: 'Total debits must equal total credits'
+});
+
+// Left out, the reversal is dated today.
+export const reverseJournalSchema = z.object({
+  date: z.iso.date('Pick a valid date').optional()
+});
+
+export const journalQuerySchema = z.object({
+  from: z.iso.date('Pick a valid start date').optional(),
+  to: z.iso.date('Pick a valid end date').optional(),
+  source: z.enum(JOURNAL_SOURCES).optional(),
+  accountId: z.coerce.number().int().positive().optional()
+});
+
+export const accountLedgerQuerySchema = z.object({
+  from: z.iso.date('Pick a valid start date').optional(),
+  to: z.iso.date('Pick a valid end date').optional()
+}).refine(q => !q.from || !q.to || q.from <= q.to, { path: ['to'], message: 'End date must not be before the start date' });
+
+// Balances at the end of asOf; today when left out.
+export const trialBalanceQuerySchema = z.object({
+  asOf: z.iso.date('Pick a valid date').optional()
+});
+
+// --- Visitors ---
+
+export const visitorEntrySchema = z.object({
+  name: requiredText('Visitor name'),
+  tower: z.enum(TOWERS, { error: 'Pick a tower' }).optional(),
+  flatId: requiredText('Flat number')
+});
+
+export const visitorExitSchema = idParamSchema;
+
+export const MAX_PASS_DAYS = 7;
+
+export const guestPassSchema = z.object({
+  guestName: requiredText('Guest name'),
+  validFrom: date('Valid from'),
+  validUntil: date('Valid until')
+})
+  .refine(p => p.validUntil > p.validFrom, { path: ['validUntil'], message: 'Must be after the start time' })
+  .refine(p => p.validUntil > new Date(), { path: ['validUntil'], message: 'Must be in the future' })
+  .refine(p => p.validUntil.getTime() - p.validFrom.getTime() <= MAX_PASS_DAYS * 24 * 60 * 60 * 1000, {
+    path: ['validUntil'],
+    message: `A pass can be valid for at most ${MAX_PASS_DAYS} days`
+  });
+
+export const passCheckInSchema = z.object({
+  code: requiredText('Pass code')
+});
+
+// --- Amenities ---
+
+export const AMENITIES = ['Clubhouse', 'Gym', 'Swimming Pool'] as const;
+
+export const bookingSchema = z.object({
+  amenity: z.enum(AMENITIES, { error: `Amenity must be one of ${AMENITIES.join(', ')}` }),
+  date: z.iso.date('Pick a valid date'),
+  timeSlot: requiredText('Time slot')
+});
+
+export const bookingStatusSchema = z.object({
+  status: z.enum(['APPROVED', 'REJECTED', 'CANCELLED'], { error: 'Status must be APPROVED, REJECTED or CANCELLED' })
+});
+
+// --- Response rows (what list endpoints return) ---
+
+export const sessionUserSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  name: z.string(),
+  role: z.enum(['admin', 'resident', 'security']),
+  flat_id: z.string().nullable()
+});
+
+export const flatRowSchema = z.object({
+  id: z.string(),
+  tower: z.string(),
+  floor: z.number(),
+  flat_number: z.number(),
+  owner_name: z.string(),
+  maintenance_status: z.enum(['Paid', 'Unpaid']),
+  flat_type: z.string(),
+  carpet_area: z.number(),
+  parking_slots: z.number(),
+  credit: z.number(),
+  dunning_stage: z.enum(DUNNING_STAGES)
+});
+
+export const registrationRowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  username: z.string(),
+  phone: z.string().nullable(),
+  flat_id: z.string().nullable(),
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']),
+  rejection_reason: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const activityLogRowSchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  user_name: z.string(),
+  action: z.string(),
+  target: z.string().nullable(),
+  details: z.string(),
+  timestamp: z.string()
+});
+
+export const alertRowSchema = z.object({
+  id: z.number(),
+  tower: z.string(),
+  title: z.string(),
+  message: z.string(),
+  severity: z.enum(['Low', 'Medium', 'High']),
+  created_at: z.string()
+});
+
+export const eventRowSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string(),
+  date: z.string()
+});
+
+export const visitorRowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  tower: z.string(),
+  flat_id: z.string(),
+  entry_time: z.string(),
+  exit_time: z.string().nullable(),
+  status: z.enum(['In', 'Out'])
+});
+
+export const guestPassRowSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  qr_payload: z.string(),
+  guest_name: z.string(),
+  valid_from: z.string(),
+  valid_until: z.string(),
+  used_at: z.string().nullable(),
+  status: z.enum(['Active', 'Upcoming', 'Used', 'Expired'])
+});
+
+export const bookingRowSchema = z.object({
+  id: z.number(),
+  amenity: z.string(),
+  date: z.string(),
+  time_slot: z.string(),
+  starts_at: z.string(),
+  ends_at: z.string(),
+  flat_id: z.string(),
+  status: z.string()
+});
+
+export const billRunSchema = z.object({
+  period: z.string(),
+  dry_run: z.boolean(),
+  flat_count: z.number(),
+  new_bills: z.number(),
+  vacant_flats: z.number(),
+  total_amount: z.number(),
+  // GST included in total_amount
+  total_tax: z.number(),
+  // Paid straight away out of the flats' advance credit
+  credit_applied: z.number(),
+  // Flats no active rule produced a charge for; they get no bill.
+  no_charges: z.array(z.string()),
+  already_billed: z.array(z.object({
+    flat_id: z.string(),
+    amount: z.number(),
+    status: z.string()
+  }))
+});
+
+export const chargeRuleRowSchema = z.object({
+  id: z.number(),
+  head: z.string(),
+  basis: z.enum(CHARGE_BASES),
+  rate: z.number(),
+  flat_type: z.string().nullable(),
+  active: z.boolean()
+});
+
+export const penaltyPolicyRowSchema = z.object({
+  grace_days: z.number(),
+  late_fee: z.number(),
+  interest_rate: z.number(),
+  interest_mode: z.enum(INTEREST_MODES),
+  updated_at: z.string()
+});
+
+export const taxPolicyRowSchema = z.object({
+  enabled: z.boolean(),
+  gstin: z.string().nullable(),
+  sac_code: z.string(),
+  rate: z.number(),
+  threshold: z.number(),
+  exempt_heads: z.array(z.string()),
+  updated_at: z.string()
+});
+
+const taxTotals = {
+  taxable_value: z.number(),
+  exempt_value: z.number(),
+  cgst: z.number(),
+  sgst: z.number()
+};
+
+// Everything charged in a calendar month (bills raised and penalties accrued, net of the credit
+// and debit notes approved), for GSTR-1/3B.
+export const taxSummarySchema = z.object({
+  period: z.string(),
+  gstin: z.string().nullable(),
+  sac_code: z.string(),
+  totals: z.object({ ...taxTotals, invoices: z.number(), notes: z.number(), total_tax: z.number(), gross: z.number() }),
+  by_rate: z.array(z.object({ rate: z.number(), ...taxTotals })),
+  by_head: z.array(z.object({ head: z.string(), ...taxTotals })),
+  invoices: z.array(z.object({
+    invoice_no: z.string().nullable(),
+    flat_id: z.string(),
+    invoice_date: z.string(),
+    ...taxTotals,
+    total: z.number()
+  })),
+  // Credit notes and waivers come out negative
+  notes: z.array(z.object({
+    document_no: z.string().nullable(),
+    kind: z.enum(ADJUSTMENT_KINDS),
+    invoice_no: z.string().nullable(),
+    flat_id: z.string(),
+    note_date: z.string(),
+    ...taxTotals,
+    total: z.number()
+  }))
+});
+
+export const billRowSchema = z.object({
+  id: z.string(),
+  flat_id: z.string(),
+  period: z.string(),
+  month: z.string(),
+  invoice_no: z.string().nullable(),
+  // amount = principal (the charge heads) + penalty (late fee and interest accrued so far) + tax
+  amount: z.number(),
+  principal: z.number(),
+  penalty: z.number(),
+  tax: z.number(),
+  // Net of approved credit and debit notes; balance = amount + adjustment - paid
+  adjustment: z.number(),
+  paid: z.number(),
+  balance: z.number(),
+  due_date: z.string().nullable(),
+  status: z.enum(['UNPAID', 'PARTIAL', 'PAID']),
+  line_items: z.array(z.object({
+    kind: z.enum(['CHARGE', 'PENALTY']),
+    head: z.string(),
+    description: z.string(),
+    amount: z.number(),
+    tax_rate: z.number(),
+    tax_amount: z.number()
+  }))
+});
+
+export const paymentRowSchema = z.object({
+  id: z.number(),
+  flat_id: z.string(),
+  amount: z.number(),
+  mode: z.enum([...PAYMENT_MODES, 'ONLINE']),
+  reference: z.string().nullable(),
+  receipt_no: z.string().nullable(),
+  status: z.enum(PAYMENT_STATUSES),
+  note: z.string().nullable(),
+  paid_at: z.string(),
+  recorded_by: z.string().nullable(),
+  // Paid beyond the bills; goes to the flat's wallet once confirmed
+  advance: z.number(),
+  allocations: z.array(z.object({
+    bill_id: z.string(),
+    month: z.string(),
+    amount: z.number()
+  }))
+});
+
+export const bankLineRowSchema = z.object({
+  id: z.number(),
+  statement_id: z.number(),
+  txn_date: z.string(),
+  narration: z.string(),
+  reference: z.string().nullable(),
+  amount: z.number(),
+  status: z.enum(BANK_LINE_STATUSES),
+  flat_id: z.string().nullable(),
+  // The bills a confirmation would settle (or did settle, once MATCHED)
+  bills: z.array(z.object({
+    bill_id: z.string(),
+    month: z.string(),
+    balance: z.number()
+  })),
+  match_reason: z.string().nullable(),
+  payment_id: z.number().nullable()
+});
+
+export const STATEMENT_ENTRY_KINDS = [
+  'BILL', 'PENALTY', 'PAYMENT', 'ADVANCE', 'CREDIT_APPLIED', 'REFUND', 'TRANSFER', 'CREDIT_NOTE', 'WAIVER', 'DEBIT_NOTE'
+] as const;
+
+// Debits raise what the flat owes, credits lower it; balance is after the entry. ADVANCE and
+// CREDIT_APPLIED lines are memos of money moving between the wallet and the bills, so they
+// carry no amount.
+export const accountStatementSchema = z.object({
+  flat_id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  opening_balance: z.number(),
+  total_debit: z.number(),
+  total_credit: z.number(),
+  closing_balance: z.number(),
+  entries: z.array(z.object({
+    date: z.string(),
+    kind: z.enum(STATEMENT_ENTRY_KINDS),
+    reference: z.string().nullable(),
+    description: z.string(),
+    debit: z.number(),
+    credit: z.number(),
+    balance: z.number()
+  }))
+});
+
+export const walletEntryRowSchema = z.object({
+  id: z.number(),
+  kind: z.enum(WALLET_ENTRY_KINDS),
+  amount: z.number(),
+  balance: z.number(),
+  payment_id: z.number().nullable(),
+  bill_id: z.string().nullable(),
+  note: z.string().nullable(),
+  created_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const flatWalletSchema = z.object({
+  flat_id: z.string(),
+  credit: z.number(),
+  entries: z.array(walletEntryRowSchema)
+});
+
+export const adjustmentRowSchema = z.object({
+  id: z.number(),
+  bill_id: z.string(),
+  flat_id: z.string(),
+  month: z.string(),
+  invoice_no: z.string().nullable(),
+  kind: z.enum(ADJUSTMENT_KINDS),
+  amount: z.number(),
+  reason: z.string(),
+  status: z.enum(ADJUSTMENT_STATUSES),
+  document_no: z.string().nullable(),
+  requested_by: z.string(),
+  reviewed_by: z.string().nullable(),
+  review_note: z.string().nullable(),
+  reviewed_at: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const reminderPolicyRowSchema = z.object({
+  enabled: z.boolean(),
+  upcoming_days: z.number(),
+  overdue_days: z.number(),
+  overdue_repeat_days: z.number(),
+  final_notice_days: z.number(),
+  updated_at: z.string()
+});
+
+export const reminderLogRowSchema = z.object({
+  id: z.number(),
+  flat_id: z.string(),
+  bill_id: z.string().nullable(),
+  month: z.string().nullable(),
+  kind: z.enum(REMINDER_KINDS),
+  status: z.enum(REMINDER_STATUSES),
+  recipient: z.string().nullable(),
+  subject: z.string(),
+  error: z.string().nullable(),
+  // null for reminders sent on schedule
+  sent_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const reminderRunSchema = z.object({
+  sent: z.number(),
+  failed: z.number(),
+  skipped: z.number(),
+  // flats not emailed because their address has been failing
+  held: z.number()
+});
+
+// A resident's email the reminder schedule stopped sending to after repeated failures.
+export const undeliverableAddressSchema = z.object({
+  flat_id: z.string(),
+  recipient: z.string(),
+  failures: z.number(),
+  last_error: z.string().nullable(),
+  last_attempt: z.string()
+});
+
+// A message filed by the dev mail transport instead of being sent.
+export const mailboxMessageSchema = z.object({
+  id: z.string(),
+  from: z.string(),
+  to: z.string(),
+  subject: z.string(),
+  text: z.string(),
+  html: z.string(),
+  date: z.string()
+});
+
+export const dunningPolicyRowSchema = z.object({
+  enabled: z.boolean(),
+  min_amount: z.number(),
+  reminder_days: z.number(),
+  notice_days: z.number(),
+  suspension_days: z.number(),
+  hearing_days: z.number(),
+  step_interval_days: z.number(),
+  updated_at: z.string()
+});
+
+export const dunningEventRowSchema = z.object({
+  id: z.number(),
+  flat_id: z.string(),
+  stage: z.enum(DUNNING_STAGES),
+  previous_stage: z.enum(DUNNING_STAGES),
+  overdue_amount: z.number(),
+  days_overdue: z.number(),
+  notice_no: z.string().nullable(),
+  hearing_at: z.string().nullable(),
+  note: z.string().nullable(),
+  // null when escalated or cleared on schedule
+  created_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+export const flatDunningSchema = z.object({
+  flat_id: z.string(),
+  stage: z.enum(DUNNING_STAGES),
+  stage_since: z.string().nullable(),
+  events: z.array(dunningEventRowSchema)
+});
+
+// A flat with bills past their due date. due_stage is where the ladder says it should be by now;
+// stage is where it actually is.
+export const defaulterRowSchema = z.object({
+  flat_id: z.string(),
+  resident: z.string().nullable(),
+  overdue_amount: z.number(),
+  overdue_bills: z.number(),
+  oldest_due: z.string(),
+  days_overdue: z.number(),
+  months_overdue: z.number(),
+  stage: z.enum(DUNNING_STAGES),
+  stage_since: z.string().nullable(),
+  due_stage: z.enum(DUNNING_STAGES)
+});
+
+const defaulterBucketSchema = z.object({
+  label: z.string(),
+  flats: z.number(),
+  amount: z.number()
+});
+
+export const defaultersReportSchema = z.object({
+  as_of: z.string(),
+  total_overdue: z.number(),
+  by_age: z.array(defaulterBucketSchema),
+  by_amount: z.array(defaulterBucketSchema),
+  flats: z.array(defaulterRowSchema)
+});
+
+export const dunningRunSchema = z.object({
+  escalated: z.number(),
+  cleared: z.number()
+});
+
+export const expenseCategoryRowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  active: z.boolean(),
+  expenses: z.number()
+});
+
+export const vendorRowSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  phone: z.string().nullable(),
+  email: z.string().nullable(),
+  gstin: z.string().nullable(),
+  category_id: z.number().nullable(),
+  category: z.string().nullable(),
+  active: z.boolean()
+});
+
+export const expenseRowSchema = z.object({
+  id: z.number(),
+  category_id: z.number(),
+  category: z.string(),
+  vendor_id: z.number().nullable(),
+  vendor: z.string().nullable(),
+  description: z.string(),
+  amount: z.number(),
+  spent_on: z.string(),
+  mode: z.enum(PAYMENT_MODES),
+  reference: z.string().nullable(),
+  // Name of the attached bill, if any; fetch it from /api/admin/expenses/:id/bill
+  bill_file: z.string().nullable(),
+  created_by: z.string().nullable(),
+  created_at: z.string()
+});
+
+// Income is maintenance actually collected (confirmed payments), by the month it was received.
+export const financeReportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  total_income: z.number(),
+  total_expense: z.number(),
+  months: z.array(z.object({
+    period: z.string(),
+    month: z.string(),
+    income: z.number(),
+    expense: z.number()
+  })),
+  by_category: z.array(z.object({
+    category_id: z.number(),
+    category: z.string(),
+    expenses: z.number(),
+    amount: z.number()
+  }))
+});
+
+export const budgetRowSchema = z.object({
+  id: z.number(),
+  year: z.number(),
+  category_id: z.number(),
+  category: z.string(),
+  annual: z.number(),
+  monthly: z.array(z.number()),
+  updated_by: z.string().nullable(),
+  updated_at: z.string()
+});
+
+export const budgetPolicyRowSchema = z.object({
+  alert_percent: z.number(),
+  email_admins: z.boolean(),
+  updated_at: z.string()
+});
+
+export const budgetAlertRowSchema = z.object({
+  id: z.number(),
+  year: z.number(),
+  category_id: z.number(),
+  category: z.string(),
+  // "YEAR" for the annual budget, otherwise the "yyyy-MM" month
+  scope: z.string(),
+  level: z.enum(BUDGET_ALERT_LEVELS),
+  budget: z.number(),
+  actual: z.number(),
+  acknowledged_at: z.string().nullable(),
+  created_at: z.string()
+});
+
+// Budget against actual for each category, to date: for the current year up to this month, for
+// past years the whole year. Variance is actual minus budget, so positive means overspent.
+export const budgetReportSchema = z.object({
+  year: z.number(),
+  label: z.string(),
+  // Last month counted in the to-date figures; null for a year that hasn't started
+  through: z.string().nullable(),
+  alert_percent: z.number(),
+  rows: z.array(z.object({
+    category_id: z.number(),
+    category: z.string(),
+    annual: z.number(),
+    budget: z.number(),
+    actual: z.number(),
+    variance: z.number(),
+    used_percent: z.number().nullable(),
+    status: z.enum(BUDGET_STATUSES),
+    months: z.array(z.object({
+      period: z.string(),
+      budget: z.number(),
+      actual: z.number()
+    }))
+  })),
+  totals: z.object({
+    annual: z.number(),
+    budget: z.number(),
+    actual: z.number(),
+    variance: z.number()
+  })
+});
+
+// balance is signed the account's natural way: positive is a debit balance for assets and
+// expenses and a credit balance for everything else.
+export const accountRowSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  type: z.enum(ACCOUNT_TYPES),
+  // Set on the accounts automatic postings rely on; they can be renamed but not retyped
+  key: z.string().nullable(),
+  charge_head: z.string().nullable(),
+  category: z.string().nullable(),
+  active: z.boolean(),
+  balance: z.number()
+});
+
+export const journalEntryRowSchema = z.object({
+  id: z.number(),
+  voucher_no: z.string().nullable(),
+  date: z.string(),
+  narration: z.string(),
+  reference: z.string().nullable(),
+  source: z.enum(JOURNAL_SOURCES),
+  reversal_of: z.string().nullable(),
+  reversed_by: z.string().nullable(),
+  created_by: z.string().nullable(),
+  total: z.number(),
+  lines: z.array(z.object({
+    account_id: z.number(),
+    code: z.string(),
+    account: z.string(),
+    flat_id: z.string().nullable(),
+    debit: z.number(),
+    credit: z.number(),
+    memo: z.string().nullable()
+  }))
+});
+
+export const accountLedgerSchema = z.object({
+  account: accountRowSchema,
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  opening: z.number(),
+  closing: z.number(),
+  lines: z.array(z.object({
+    entry_id: z.number(),
+    date: z.string(),
+    voucher_no: z.string().nullable(),
+    reference: z.string().nullable(),
+    narration: z.string(),
+    source: z.enum(JOURNAL_SOURCES),
+    flat_id: z.string().nullable(),
+    debit: z.number(),
+    credit: z.number(),
+    balance: z.number()
+  }))
+});
+
+export const trialBalanceSchema = z.object({
+  as_of: z.string(),
+  rows: z.array(z.object({
+    account_id: z.number(),
+    code: z.string(),
+    name: z.string(),
+    type: z.enum(ACCOUNT_TYPES),
+    debit: z.number(),
+    credit: z.number()
+  })),
+  total_debit: z.number(),
+  total_credit: z.number()
+});
+
+export const statementImportSchema = z.object({
+  statement_id: z.number(),
+  file_name: z.string(),
+  imported: z.number(),
+  duplicates: z.number(),
+  skipped: z.number(),
+  suggested: z.number(),
+  unmatched: z.number()
+});
+
+export type LoginInput = z.infer<typeof loginSchema>;
+export type ApproveRegistrationInput = z.infer<typeof approveRegistrationSchema>;
+export type RegisterInput = z.infer<typeof registerSchema>;
+export type AddResidentInput = z.infer<typeof addResidentSchema>;
+export type GenerateBillsInput = z.infer<typeof generateBillsSchema>;
+export type LogsQuery = z.infer<typeof logsQuerySchema>;
+export type AlertInput = z.infer<typeof alertSchema>;
+export type EventInput = z.infer<typeof eventSchema>;
+export type VisitorEntryInput = z.infer<typeof visitorEntrySchema>;
+export type GuestPassInput = z.infer<typeof guestPassSchema>;
+export type BookingInput = z.infer<typeof bookingSchema>;
+export type ChargeRuleInput = z.infer<typeof chargeRuleSchema>;
+export type FlatAttributesInput = z.infer<typeof flatAttributesSchema>;
+export type PenaltyPolicyInput = z.infer<typeof penaltyPolicySchema>;
+export type TaxPolicyInput = z.infer<typeof taxPolicySchema>;
+export type TaxSummaryQuery = z.infer<typeof taxSummaryQuerySchema>;
+export type RecordPaymentInput = z.infer<typeof recordPaymentSchema>;
+export type ResidentPaymentInput = z.infer<typeof residentPaymentSchema>;
+export type OnlinePaymentInput = z.infer<typeof onlinePaymentSchema>;
+export type PaymentsQuery = z.infer<typeof paymentsQuerySchema>;
+export type DocumentsExportQuery = z.infer<typeof documentsExportQuerySchema>;
+export type ReminderPolicyInput = z.infer<typeof reminderPolicySchema>;
+export type DunningPolicyInput = z.infer<typeof dunningPolicySchema>;
+export type EscalateDunningInput = z.infer<typeof escalateDunningSchema>;
+export type ResolveDunningInput = z.infer<typeof resolveDunningSchema>;
+export type RefundCreditInput = z.infer<typeof refundCreditSchema>;
+export type TransferCreditInput = z.infer<typeof transferCreditSchema>;
+export type AdjustmentInput = z.infer<typeof adjustmentSchema>;
+export type ExpenseCategoryInput = z.infer<typeof expenseCategorySchema>;
+export type VendorInput = z.infer<typeof vendorSchema>;
+export type BillFileInput = z.infer<typeof billFileSchema>;
+export type ExpenseInput = z.infer<typeof expenseSchema>;
+export type ExpensesQuery = z.infer<typeof expensesQuerySchema>;
+export type FinanceReportQuery = z.infer<typeof financeReportQuerySchema>;
+export type BudgetInput = z.infer<typeof budgetSchema>;
+export type BudgetsQuery = z.infer<typeof budgetsQuerySchema>;
+export type CopyBudgetsInput = z.infer<typeof copyBudgetsSchema>;
+export type BudgetPolicyInput = z.infer<typeof budgetPolicySchema>;
+export type BudgetAlertsQuery = z.infer<typeof budgetAlertsQuerySchema>;
+export type AccountInput = z.infer<typeof accountSchema>;
+export type JournalLineInput = z.infer<typeof journalLineSchema>;
+export type JournalVoucherInput = z.infer<typeof journalVoucherSchema>;
+export type ReverseJournalInput = z.infer<typeof reverseJournalSchema>;
+export type JournalQuery = z.infer<typeof journalQuerySchema>;
+export type AccountLedgerQuery = z.infer<typeof accountLedgerQuerySchema>;
+export type TrialBalanceQuery = z.infer<typeof trialBalanceQuerySchema>;
+export type AdjustmentsQuery = z.infer<typeof adjustmentsQuerySchema>;
+export type ApproveAdjustmentInput = z.infer<typeof approveAdjustmentSchema>;
+export type RejectAdjustmentInput = z.infer<typeof rejectAdjustmentSchema>;
+export type AccountStatementQuery = z.infer<typeof accountStatementQuerySchema>;
+export type StatementMapping = z.infer<typeof statementMappingSchema>;
+export type ImportStatementInput = z.infer<typeof importStatementSchema>;
+export type BankLinesQuery = z.infer<typeof bankLinesQuerySchema>;
+export type ConfirmBankLineInput = z.infer<typeof confirmBankLineSchema>;
+
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type FlatRow = z.infer<typeof flatRowSchema>;
+export type RegistrationRow = z.infer<typeof registrationRowSchema>;
+export type ActivityLogRow = z.infer<typeof activityLogRowSchema>;
+export type AlertRow = z.infer<typeof alertRowSchema>;
+export type EventRow = z.infer<typeof eventRowSchema>;
+export type VisitorRow = z.infer<typeof visitorRowSchema>;
+export type GuestPassRow = z.infer<typeof guestPassRowSchema>;
+export type BookingRow = z.infer<typeof bookingRowSchema>;
+export type BillRun = z.infer<typeof billRunSchema>;
+export type ChargeRuleRow = z.infer<typeof chargeRuleRowSchema>;
+export type BillRow = z.infer<typeof billRowSchema>;
+export type PenaltyPolicyRow = z.infer<typeof penaltyPolicyRowSchema>;
+export type PaymentRow = z.infer<typeof paymentRowSchema>;
+export type BankLineRow = z.infer<typeof bankLineRowSchema>;
+export type TaxPolicyRow = z.infer<typeof taxPolicyRowSchema>;
+export type TaxSummary = z.infer<typeof taxSummarySchema>;
+export type StatementImport = z.infer<typeof statementImportSchema>;
+export type AccountStatement = z.infer<typeof accountStatementSchema>;
+export type WalletEntryRow = z.infer<typeof walletEntryRowSchema>;
+export type AdjustmentRow = z.infer<typeof adjustmentRowSchema>;
+export type ExpenseCategoryRow = z.infer<typeof expenseCategoryRowSchema>;
+export type VendorRow = z.infer<typeof vendorRowSchema>;
+export type ExpenseRow = z.infer<typeof expenseRowSchema>;
+export type FinanceReport = z.infer<typeof financeReportSchema>;
+export type BudgetRow = z.infer<typeof budgetRowSchema>;
+export type BudgetPolicyRow = z.infer<typeof budgetPolicyRowSchema>;
+export type BudgetAlertRow = z.infer<typeof budgetAlertRowSchema>;
+export type BudgetReport = z.infer<typeof budgetReportSchema>;
+export type AccountRow = z.infer<typeof accountRowSchema>;
+export type JournalEntryRow = z.infer<typeof journalEntryRowSchema>;
+export type AccountLedger = z.infer<typeof accountLedgerSchema>;
+export type TrialBalance = z.infer<typeof trialBalanceSchema>;
+export type ReminderPolicyRow = z.infer<typeof reminderPolicyRowSchema>;
+export type ReminderLogRow = z.infer<typeof reminderLogRowSchema>;
+export type ReminderRun = z.infer<typeof reminderRunSchema>;
+export type UndeliverableAddress = z.infer<typeof undeliverableAddressSchema>;
+export type MailboxMessage = z.infer<typeof mailboxMessageSchema>;
+export type FlatWallet = z.infer<typeof flatWalletSchema>;
+export type DunningStage = (typeof DUNNING_STAGES)[number];
+export type DunningPolicyRow = z.infer<typeof dunningPolicyRowSchema>;
+export type DunningEventRow = z.infer<typeof dunningEventRowSchema>;
+export type FlatDunning = z.infer<typeof flatDunningSchema>;
+export type DefaulterRow = z.infer<typeof defaulterRowSchema>;
+export type DefaultersReport = z.infer<typeof defaultersReportSchema>;
+export type DunningRun = z.infer<typeof dunningRunSchema>;